@@ -0,0 +1,85 @@
+/**
+ * Admin Client
+ *
+ * Reads a runner's admin API: status, agents and the /events stream.
+ */
+
+import type { LogEntry } from '../core/types.js';
+import { ADMIN_TOKEN_HEADER } from './server.js';
+import type { AdminAgentView, AdminStatus } from './types.js';
+
+export interface AdminClientOptions {
+  /** Base URL, e.g. http://127.0.0.1:9465 */
+  url: string;
+  /** Sent as X-Admin-Token when set */
+  token?: string;
+  fetch?: typeof fetch;
+}
+
+export class AdminClient {
+  private url: string;
+  private fetchFn: typeof fetch;
+
+  constructor(private options: AdminClientOptions) {
+    this.url = options.url.replace(/\/+$/, '');
+    this.fetchFn = options.fetch ?? fetch;
+  }
+
+  status(): Promise<AdminStatus> {
+    return this.get('/status');
+  }
+
+  agents(): Promise<AdminAgentView[]> {
+    return this.get('/agents');
+  }
+
+  /**
+   * Pass each streamed log entry to onEntry until the stream ends or the
+   * signal aborts. Rejects when the stream cannot be opened.
+   */
+  async follow(onEntry: (entry: LogEntry) => void, signal?: AbortSignal): Promise<void> {
+    const response = await this.request('/events', signal);
+    if (!response.body) return;
+
+    const decoder = new TextDecoder();
+    let buffer = '';
+    try {
+      for await (const chunk of response.body as unknown as AsyncIterable<Uint8Array>) {
+        buffer += decoder.decode(chunk, { stream: true });
+        let end: number;
+        while ((end = buffer.indexOf('\n\n')) >= 0) {
+          const message = buffer.slice(0, end);
+          buffer = buffer.slice(end + 2);
+          const data = message
+            .split('\n')
+            .filter(line => line.startsWith('data:'))
+            .map(line => line.slice(5).trimStart())
+            .join('\n');
+          if (data) onEntry(JSON.parse(data) as LogEntry);
+        }
+      }
+    } catch (error) {
+      if (!signal?.aborted) throw error;
+    }
+  }
+
+  private async get<T>(path: string): Promise<T> {
+    return (await this.request(path)).json() as Promise<T>;
+  }
+
+  private async request(path: string, signal?: AbortSignal): Promise<Response> {
+    const response = await this.fetchFn(this.url + path, {
+      headers: this.options.token ? { [ADMIN_TOKEN_HEADER]: this.options.token } : {},
+      signal,
+    });
+    if (!response.ok) {
+      const body = await response.json().catch(() => null) as { error?: string } | null;
+      throw new Error(`${path}: HTTP ${response.status}${body?.error ? ` ${body.error}` : ''}`);
+    }
+    return response;
+  }
+}
+
+export function createAdminClient(options: AdminClientOptions): AdminClient {
+  return new AdminClient(options);
+}
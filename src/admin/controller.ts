@@ -0,0 +1,218 @@
+/**
+ * Admin Controller
+ *
+ * The actions behind the admin API, on top of the runner's agent list.
+ * Pausing takes effect from the next tick; a manual step is only allowed on
+ * a paused agent and waits for a scheduler step still running on it.
+ * Every change is logged as admin_action.
+ */
+
+import type { AgentArchetype, LogEntry } from '../core/types.js';
+import { log } from '../core/logger.js';
+import { validateCohortParams } from '../scenario/loader.js';
+import type { CohortParams } from '../scenario/types.js';
+import {
+  AGENT_RUN_STATUSES,
+  type AdminAgentView,
+  type AdminHooks,
+  type AdminResult,
+  type AdminStatus,
+  type AgentRunStatus,
+  type ManagedAgent,
+} from './types.js';
+
+function ok<T>(data: T): AdminResult<T> {
+  return { ok: true, data };
+}
+
+function fail<T>(status: number, error: string): AdminResult<T> {
+  return { ok: false, status, error };
+}
+
+export function agentRunStatus(managed: ManagedAgent, tick: number): AgentRunStatus {
+  if (managed.stopTick !== undefined && managed.stopTick <= tick) return 'stopped';
+  if (!managed.registered) return managed.startTick > tick ? 'pending' : 'failed';
+  return managed.paused ? 'paused' : 'active';
+}
+
+export class AdminController {
+  /** Agents with a manual step in flight */
+  private stepping = new Set<ManagedAgent>();
+
+  constructor(private hooks: AdminHooks) {}
+
+  status(): AdminStatus {
+    const tick = this.hooks.tick();
+    const agents = Object.fromEntries(AGENT_RUN_STATUSES.map(s => [s, 0])) as Record<AgentRunStatus, number>;
+    for (const managed of this.hooks.agents()) {
+      agents[agentRunStatus(managed, tick)]++;
+    }
+    return { tick, scenario: this.hooks.scenario(), agents };
+  }
+
+  list(filter: { archetype?: string; cohort?: string } = {}): AdminAgentView[] {
+    return this.hooks.agents()
+      .filter(m => !filter.archetype || m.agent.archetype === filter.archetype)
+      .filter(m => !filter.cohort || m.cohort === filter.cohort)
+      .map(m => this.view(m));
+  }
+
+  get(id: string): AdminResult<AdminAgentView> {
+    const managed = this.find(id);
+    return managed ? ok(this.view(managed)) : fail(404, `No agent ${id}`);
+  }
+
+  pause(id: string): AdminResult<AdminAgentView> {
+    return this.setPaused(id, true);
+  }
+
+  resume(id: string): AdminResult<AdminAgentView> {
+    return this.setPaused(id, false);
+  }
+
+  /**
+   * Pause or resume every agent of an archetype that has not stopped
+   */
+  setArchetypePaused(archetype: AgentArchetype, paused: boolean): AdminResult<{ archetype: string; agents: number }> {
+    const tick = this.hooks.tick();
+    const targets = this.hooks.agents()
+      .filter(m => m.agent.archetype === archetype && agentRunStatus(m, tick) !== 'stopped');
+    if (targets.length === 0) return fail(404, `No running agents of archetype ${archetype}`);
+
+    for (const managed of targets) {
+      managed.paused = paused;
+    }
+    this.audit(paused ? 'pause' : 'resume', archetype, { agents: targets.length });
+    return ok({ archetype, agents: targets.length });
+  }
+
+  /**
+   * Run one step of a paused agent now, after any scheduler step it was
+   * taking when paused
+   */
+  async step(id: string): Promise<AdminResult<AdminAgentView>> {
+    const managed = this.find(id);
+    if (!managed) return fail(404, `No agent ${id}`);
+
+    const status = agentRunStatus(managed, this.hooks.tick());
+    if (status !== 'paused') {
+      return fail(409, status === 'active' ? 'Pause the agent before stepping it manually' : `Agent is ${status}`);
+    }
+    if (this.stepping.has(managed)) return fail(409, 'A manual step is already running');
+
+    this.stepping.add(managed);
+    this.audit('step', managed.slot);
+    try {
+      await this.hooks.settle(managed);
+      await managed.agent.step();
+    } catch (error) {
+      return fail(500, `Step failed: ${error instanceof Error ? error.message : String(error)}`);
+    } finally {
+      this.stepping.delete(managed);
+    }
+    return ok(this.view(managed));
+  }
+
+  /**
+   * Stop scheduling an agent for the rest of the run. Its identity is kept.
+   */
+  retire(id: string): AdminResult<AdminAgentView> {
+    const managed = this.find(id);
+    if (!managed) return fail(404, `No agent ${id}`);
+
+    const tick = this.hooks.tick();
+    if (agentRunStatus(managed, tick) === 'stopped') return fail(409, 'Agent is already stopped');
+    managed.stopTick = tick;
+    this.audit('retire', managed.slot);
+    return ok(this.view(managed));
+  }
+
+  /**
+   * Merge params (budgets, probabilities) into an agent's; null removes one
+   */
+  updateParams(id: string, changes: unknown): AdminResult<AdminAgentView> {
+    const managed = this.find(id);
+    if (!managed) return fail(404, `No agent ${id}`);
+    if (!changes || typeof changes !== 'object' || Array.isArray(changes)) {
+      return fail(400, 'Body must be a JSON object of params');
+    }
+
+    const params: CohortParams = { ...managed.params };
+    for (const [key, value] of Object.entries(changes)) {
+      if (value === null) delete params[key];
+      else params[key] = value;
+    }
+    const errors = validateCohortParams(params);
+    if (errors.length > 0) return fail(400, errors.map(e => `${e.path}: ${e.message}`).join('; '));
+
+    this.hooks.reconfigure(managed, params);
+    managed.params = params;
+    this.audit('params', managed.slot, { params: changes });
+    return ok(this.view(managed));
+  }
+
+  logs(id: string, limit: number): AdminResult<{ did: string; entries: ReturnType<AdminHooks['logs']> }> {
+    const managed = this.find(id);
+    const did = managed?.agent.getState().did ?? (id.startsWith('agent:') ? id : null);
+    if (!did) return fail(404, managed ? 'Agent has no DID yet' : `No agent ${id}`);
+    return ok({ did, entries: this.hooks.logs(did, limit) });
+  }
+
+  /**
+   * Follow log entries as they are written; returns the unsubscribe function
+   */
+  follow(listener: (entry: LogEntry) => void): () => void {
+    return this.hooks.subscribe(listener);
+  }
+
+  reload(): AdminResult<{ requested: true }> {
+    this.hooks.reload();
+    this.audit('reload', null);
+    return ok({ requested: true });
+  }
+
+  /**
+   * Agent by state slot or DID
+   */
+  private find(id: string): ManagedAgent | undefined {
+    return this.hooks.agents().find(m => m.slot === id || (m.agent.getState().did ?? null) === id);
+  }
+
+  private setPaused(id: string, paused: boolean): AdminResult<AdminAgentView> {
+    const managed = this.find(id);
+    if (!managed) return fail(404, `No agent ${id}`);
+    if (agentRunStatus(managed, this.hooks.tick()) === 'stopped') return fail(409, 'Agent is stopped');
+
+    managed.paused = paused;
+    this.audit(paused ? 'pause' : 'resume', managed.slot);
+    return ok(this.view(managed));
+  }
+
+  private view(managed: ManagedAgent): AdminAgentView {
+    const state = managed.agent.getState();
+    return {
+      id: managed.slot,
+      did: state.did,
+      archetype: managed.agent.archetype,
+      cohort: managed.cohort,
+      index: managed.agent.index,
+      status: agentRunStatus(managed, this.hooks.tick()),
+      params: managed.params,
+      state,
+    };
+  }
+
+  private audit(action: string, target: string | null, details: Record<string, unknown> = {}): void {
+    log({
+      did: null,
+      archetype: 'QS',
+      step: 'admin_action',
+      tick: this.hooks.tick(),
+      details: { action, target, ...details },
+    });
+  }
+}
+
+export function createAdminController(hooks: AdminHooks): AdminController {
+  return new AdminController(hooks);
+}
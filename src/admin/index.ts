@@ -0,0 +1,25 @@
+/**
+ * Admin Module
+ *
+ * Local HTTP control of a running population: inspect agents, pause,
+ * step, retire, change params, read per-DID logs and follow the log stream.
+ */
+
+export type {
+  ManagedAgent,
+  AgentRunStatus,
+  AdminAgentView,
+  AdminStatus,
+  AdminHooks,
+  AdminResult,
+  AdminServerOptions,
+  AdminServer,
+} from './types.js';
+
+export { AGENT_RUN_STATUSES } from './types.js';
+
+export { AdminController, createAdminController, agentRunStatus } from './controller.js';
+
+export { startAdminServer, ADMIN_TOKEN_HEADER } from './server.js';
+
+export { AdminClient, createAdminClient, type AdminClientOptions } from './client.js';
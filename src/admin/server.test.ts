@@ -0,0 +1,169 @@
+/**
+ * Admin Server Tests
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import type { ProbeAgent } from '../archetypes/base.js';
+import type { AgentArchetype, LogEntry } from '../core/types.js';
+import { captureLogs, resetLogger } from '../core/logger.js';
+import { createBroadcastSink, type BroadcastSink, type MemorySink } from '../core/log-sinks.js';
+import { createAdminController } from './controller.js';
+import { startAdminServer } from './server.js';
+import { createAdminClient } from './client.js';
+import type { AdminHooks, AdminServer, ManagedAgent } from './types.js';
+
+function managedAgent(cohort: string, archetype: AgentArchetype, index: number, did: string | null): ManagedAgent {
+  const agent = {
+    archetype,
+    index,
+    step: vi.fn(async () => {}),
+    getState: () => ({ did, energy: 10, tick: 3 }),
+  } as unknown as ProbeAgent;
+  return {
+    agent,
+    cohort,
+    slot: `${cohort}/${archetype}/${index}`,
+    startTick: 0,
+    registered: did !== null,
+    paused: false,
+    params: {},
+  };
+}
+
+describe('startAdminServer', () => {
+  let logs: MemorySink;
+  let events: BroadcastSink;
+  let agents: ManagedAgent[];
+  let hooks: AdminHooks;
+  let server: AdminServer;
+
+  const call = (method: string, path: string, body?: unknown) => fetch(server.url + path, {
+    method,
+    headers: { 'X-Admin-Token': 's3cret' },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+  const json = async (response: Response | Promise<Response>): Promise<any> => (await response).json();
+
+  beforeEach(async () => {
+    logs = captureLogs();
+    events = createBroadcastSink();
+    agents = [
+      managedAgent('sensors', 'QS', 0, 'agent:qs0'),
+      managedAgent('sensors', 'QS', 1, 'agent:qs1'),
+      managedAgent('crafters', 'CBC', 0, null),
+    ];
+    hooks = {
+      agents: () => agents,
+      tick: () => 5,
+      scenario: () => 'test',
+      settle: vi.fn(async () => {}),
+      reconfigure: vi.fn(),
+      reload: vi.fn(),
+      logs: (did, limit) => Array.from({ length: limit }, (_, i) => ({ did, step: `s${i}` }) as unknown as LogEntry),
+      subscribe: listener => events.subscribe(listener),
+    };
+    server = await startAdminServer(createAdminController(hooks), { port: 0, token: 's3cret' });
+  });
+
+  afterEach(async () => {
+    await server.close();
+    resetLogger();
+  });
+
+  it('binds to localhost and requires the token', async () => {
+    expect(server.url).toMatch(/^http:\/\/127\.0\.0\.1:\d+$/);
+    expect((await fetch(`${server.url}/status`)).status).toBe(401);
+    expect((await fetch(`${server.url}/status`, { headers: { 'X-Admin-Token': 'wrong' } })).status).toBe(401);
+
+    const status = await call('GET', '/status');
+    expect(status.status).toBe(200);
+    expect(await json(status)).toEqual({
+      tick: 5,
+      scenario: 'test',
+      agents: { pending: 0, failed: 1, active: 2, paused: 0, stopped: 0 },
+    });
+    expect((await call('GET', '/nope')).status).toBe(404);
+  });
+
+  it('lists, pauses, steps and retires agents', async () => {
+    const list = await json(call('GET', '/agents?archetype=QS'));
+    expect(list.map((a: { id: string }) => a.id)).toEqual(['sensors/QS/0', 'sensors/QS/1']);
+
+    // Active agents only step on the scheduler
+    expect((await call('POST', '/agents/agent:qs0/step')).status).toBe(409);
+    expect(await json(call('POST', '/agents/agent:qs0/pause'))).toMatchObject({ id: 'sensors/QS/0', status: 'paused' });
+    expect((await call('POST', '/agents/agent:qs0/step')).status).toBe(200);
+    expect(agents[0]!.agent.step).toHaveBeenCalledTimes(1);
+
+    const paused = await json(call('POST', '/archetypes/qs/pause'));
+    expect(paused).toEqual({ archetype: 'QS', agents: 2 });
+    expect(agents.map(a => a.paused)).toEqual([true, true, false]);
+
+    expect(await json(call('POST', `/agents/${encodeURIComponent('sensors/QS/1')}/retire`))).toMatchObject({ status: 'stopped' });
+    expect(agents[1]!.stopTick).toBe(5);
+    expect((await call('POST', '/agents/sensors%2FQS%2F1/resume')).status).toBe(409);
+    expect((await call('GET', '/agents/agent:qs0/retire')).status).toBe(405);
+
+    expect(logs.entries('admin_action').map(e => e.details)).toEqual([
+      { action: 'pause', target: 'sensors/QS/0' },
+      { action: 'step', target: 'sensors/QS/0' },
+      { action: 'pause', target: 'QS', agents: 2 },
+      { action: 'retire', target: 'sensors/QS/1' },
+    ]);
+  });
+
+  it('waits for the scheduler step a paused agent is still taking', async () => {
+    let settle!: () => void;
+    hooks.settle = vi.fn(() => new Promise<void>((resolve) => { settle = resolve; }));
+    agents[0]!.paused = true;
+
+    const stepped = call('POST', '/agents/agent:qs0/step');
+    await vi.waitFor(() => expect(hooks.settle).toHaveBeenCalledWith(agents[0]));
+    expect(agents[0]!.agent.step).not.toHaveBeenCalled();
+
+    settle();
+    expect((await stepped).status).toBe(200);
+    expect(agents[0]!.agent.step).toHaveBeenCalledTimes(1);
+  });
+
+  it('validates and merges params, and serves logs per DID', async () => {
+    agents[0]!.params = { costBudget: 10, deriveProbability: 0.5 };
+
+    const invalid = await call('PATCH', '/agents/agent:qs0/params', { deriveProbability: 2 });
+    expect(invalid.status).toBe(400);
+    expect((await json(invalid)).error).toBe('params.deriveProbability: Must be between 0 and 1');
+    expect((await call('PATCH', '/agents/agent:qs0/params', '{')).status).toBe(400);
+
+    const updated = await json(call('PATCH', '/agents/agent:qs0/params', { costBudget: 25, deriveProbability: null }));
+    expect(updated.params).toEqual({ costBudget: 25 });
+    expect(hooks.reconfigure).toHaveBeenCalledWith(agents[0], { costBudget: 25 });
+
+    const recent = await json(call('GET', '/agents/sensors%2FQS%2F0/logs?limit=2'));
+    expect(recent).toEqual({ did: 'agent:qs0', entries: [{ did: 'agent:qs0', step: 's0' }, { did: 'agent:qs0', step: 's1' }] });
+    expect((await call('GET', '/agents/crafters%2FCBC%2F0/logs')).status).toBe(404);
+    expect((await call('GET', '/agents/agent:qs0/logs?limit=-1')).status).toBe(400);
+
+    expect((await call('POST', '/reload')).status).toBe(200);
+    expect(hooks.reload).toHaveBeenCalledTimes(1);
+  });
+
+  it('streams log entries to clients until they leave', async () => {
+    const client = createAdminClient({ url: server.url, token: 's3cret' });
+    const received: LogEntry[] = [];
+    const abort = new AbortController();
+    const following = client.follow((entry) => {
+      received.push(entry);
+      if (received.length === 2) abort.abort();
+    }, abort.signal);
+
+    await vi.waitFor(() => expect(events.subscribers).toBe(1));
+    const entry = (step: string) => ({ ts: 't', did: 'agent:qs0', archetype: 'QS', step, tick: 1 }) as LogEntry;
+    events.write(entry('quote'));
+    events.write(entry('create'));
+    await following;
+
+    expect(received.map(e => e.step)).toEqual(['quote', 'create']);
+    await vi.waitFor(() => expect(events.subscribers).toBe(0));
+    await expect(createAdminClient({ url: server.url }).status()).rejects.toThrow('/status: HTTP 401');
+  });
+});
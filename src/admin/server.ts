@@ -0,0 +1,215 @@
+/**
+ * Admin Server
+ *
+ * JSON over HTTP for an AdminController:
+ * - GET   /status
+ * - GET   /agents?archetype=&cohort=
+ * - GET   /agents/:id
+ * - GET   /agents/:id/logs?limit=
+ * - GET   /events (server-sent events, one log entry per message)
+ * - POST  /agents/:id/pause | resume | step | retire
+ * - PATCH /agents/:id/params
+ * - POST  /archetypes/:code/pause | resume
+ * - POST  /reload
+ *
+ * Agent ids are state slots ("sensors/QS/0", URL-encoded) or DIDs.
+ * Binds to localhost by default; with a token every request needs a
+ * matching X-Admin-Token header.
+ */
+
+import { createServer, type IncomingMessage, type ServerResponse } from 'node:http';
+import { timingSafeEqual } from 'node:crypto';
+import type { AgentArchetype } from '../core/types.js';
+import type { AdminController } from './controller.js';
+import type { AdminResult, AdminServer, AdminServerOptions } from './types.js';
+
+export const ADMIN_TOKEN_HEADER = 'x-admin-token';
+
+const MAX_BODY_BYTES = 64 * 1024;
+const DEFAULT_LOG_LIMIT = 50;
+
+class HttpError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+  }
+}
+
+function send(res: ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body) + '\n');
+}
+
+function sendResult<T>(res: ServerResponse, result: AdminResult<T>): void {
+  if (result.ok) send(res, 200, result.data);
+  else send(res, result.status, { error: result.error });
+}
+
+function authorized(req: IncomingMessage, token: string): boolean {
+  if (!token) return true;
+  const given = req.headers[ADMIN_TOKEN_HEADER];
+  if (typeof given !== 'string') return false;
+  const a = Buffer.from(given);
+  const b = Buffer.from(token);
+  return a.length === b.length && timingSafeEqual(a, b);
+}
+
+async function readJson(req: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req as AsyncIterable<Buffer>) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) throw new HttpError(413, 'Body too large');
+    chunks.push(chunk);
+  }
+  const text = Buffer.concat(chunks).toString('utf8');
+  if (!text) return undefined;
+  try {
+    return JSON.parse(text);
+  } catch {
+    throw new HttpError(400, 'Body is not valid JSON');
+  }
+}
+
+function parseLimit(value: string | null): number {
+  if (value === null) return DEFAULT_LOG_LIMIT;
+  const limit = Number(value);
+  if (!Number.isInteger(limit) || limit < 1) throw new HttpError(400, 'limit must be a positive whole number');
+  return limit;
+}
+
+/**
+ * Stream log entries until the client goes away or the server closes
+ */
+function streamEvents(controller: AdminController, req: IncomingMessage, res: ServerResponse, streams: Set<ServerResponse>): void {
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    'Connection': 'keep-alive',
+  });
+  res.write(': connected\n\n');
+
+  const unsubscribe = controller.follow((entry) => {
+    res.write(`event: log\ndata: ${JSON.stringify(entry)}\n\n`);
+  });
+  streams.add(res);
+  req.on('close', () => {
+    unsubscribe();
+    streams.delete(res);
+  });
+}
+
+async function route(
+  controller: AdminController,
+  req: IncomingMessage,
+  res: ServerResponse,
+  streams: Set<ServerResponse>
+): Promise<void> {
+  const url = new URL(req.url ?? '/', 'http://admin');
+  const method = req.method ?? 'GET';
+  let segments: string[];
+  try {
+    segments = url.pathname.split('/').filter(Boolean).map(decodeURIComponent);
+  } catch {
+    throw new HttpError(400, 'Malformed path');
+  }
+  const [resource, id, action, ...rest] = segments;
+  const allow = (expected: string) => {
+    if (method !== expected) throw new HttpError(405, `Use ${expected}`);
+  };
+
+  if (resource === 'status' && !id) {
+    allow('GET');
+    return send(res, 200, controller.status());
+  }
+
+  if (resource === 'events' && !id) {
+    allow('GET');
+    return streamEvents(controller, req, res, streams);
+  }
+
+  if (resource === 'reload' && !id) {
+    allow('POST');
+    return sendResult(res, controller.reload());
+  }
+
+  if (resource === 'agents' && rest.length === 0) {
+    if (!id) {
+      allow('GET');
+      const archetype = url.searchParams.get('archetype') ?? undefined;
+      const cohort = url.searchParams.get('cohort') ?? undefined;
+      return send(res, 200, controller.list({ archetype, cohort }));
+    }
+    switch (action) {
+      case undefined:
+        allow('GET');
+        return sendResult(res, controller.get(id));
+      case 'logs':
+        allow('GET');
+        return sendResult(res, controller.logs(id, parseLimit(url.searchParams.get('limit'))));
+      case 'pause':
+        allow('POST');
+        return sendResult(res, controller.pause(id));
+      case 'resume':
+        allow('POST');
+        return sendResult(res, controller.resume(id));
+      case 'step':
+        allow('POST');
+        return sendResult(res, await controller.step(id));
+      case 'retire':
+        allow('POST');
+        return sendResult(res, controller.retire(id));
+      case 'params':
+        allow('PATCH');
+        return sendResult(res, controller.updateParams(id, await readJson(req)));
+    }
+  }
+
+  if (resource === 'archetypes' && id && (action === 'pause' || action === 'resume') && rest.length === 0) {
+    allow('POST');
+    return sendResult(res, controller.setArchetypePaused(id.toUpperCase() as AgentArchetype, action === 'pause'));
+  }
+
+  throw new HttpError(404, 'Not found');
+}
+
+/**
+ * Serve the admin API
+ */
+export async function startAdminServer(
+  controller: AdminController,
+  options: AdminServerOptions
+): Promise<AdminServer> {
+  const host = options.host ?? '127.0.0.1';
+  const token = options.token ?? '';
+  const streams = new Set<ServerResponse>();
+
+  const server = createServer((req, res) => {
+    if (!authorized(req, token)) {
+      send(res, 401, { error: 'Missing or wrong X-Admin-Token' });
+      return;
+    }
+    route(controller, req, res, streams).catch((error) => {
+      if (res.headersSent) return;
+      if (error instanceof HttpError) send(res, error.status, { error: error.message });
+      else send(res, 500, { error: error instanceof Error ? error.message : String(error) });
+    });
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(options.port, host, () => resolve());
+  });
+
+  const address = server.address();
+  const port = typeof address === 'object' && address ? address.port : options.port;
+
+  return {
+    url: `http://${host}:${port}`,
+    server,
+    close: () => new Promise<void>((resolve) => {
+      // Open event streams would keep the server from closing
+      for (const res of streams) res.end();
+      server.close(() => resolve());
+    }),
+  };
+}
@@ -0,0 +1,93 @@
+/**
+ * Admin API Types
+ */
+
+import type { Server } from 'node:http';
+import type { AgentArchetype, AgentState, LogEntry } from '../core/types.js';
+import type { ProbeAgent } from '../archetypes/base.js';
+import type { CohortParams } from '../scenario/types.js';
+
+/** Runner bookkeeping for one agent, shared with the admin API */
+export interface ManagedAgent {
+  agent: ProbeAgent;
+  cohort: string;
+  /** State store key; also the agent id in the admin API */
+  slot: string;
+  startTick: number;
+  /** First tick the agent no longer steps (cohort end or retired) */
+  stopTick?: number;
+  registered: boolean;
+  /** Skipped by the scheduler until resumed */
+  paused: boolean;
+  /** Cohort params, including admin changes */
+  params: CohortParams;
+}
+
+/**
+ * Where an agent is in its life:
+ * - pending: its cohort has not started yet
+ * - failed: registration failed
+ * - active / paused: registered, stepping or not
+ * - stopped: past its stop tick (cohort ended or retired)
+ */
+export type AgentRunStatus = 'pending' | 'failed' | 'active' | 'paused' | 'stopped';
+
+export const AGENT_RUN_STATUSES: readonly AgentRunStatus[] = ['pending', 'failed', 'active', 'paused', 'stopped'];
+
+export interface AdminAgentView {
+  /** State slot, e.g. "sensors/QS/0" */
+  id: string;
+  did: string | null;
+  archetype: AgentArchetype;
+  cohort: string;
+  index: number;
+  status: AgentRunStatus;
+  params: CohortParams;
+  state: AgentState;
+}
+
+export interface AdminStatus {
+  tick: number;
+  scenario: string;
+  agents: Record<AgentRunStatus, number>;
+}
+
+/** What the runner lends the admin API */
+export interface AdminHooks {
+  agents(): ManagedAgent[];
+  /** Current runner tick */
+  tick(): number;
+  /** Scenario name */
+  scenario(): string;
+  /** Stop scheduling an agent and wait for its running scheduler step */
+  settle(managed: ManagedAgent): Promise<void>;
+  /** Apply params to a running agent with the current runner config */
+  reconfigure(managed: ManagedAgent, params: CohortParams): void;
+  /** Ask for a hot reload between ticks */
+  reload(): void;
+  /** Recent log entries of a DID, oldest first */
+  logs(did: string, limit: number): LogEntry[];
+  /** Follow new log entries; returns the unsubscribe function */
+  subscribe(listener: (entry: LogEntry) => void): () => void;
+}
+
+/** Outcome of an admin action; errors carry the HTTP status */
+export type AdminResult<T> =
+  | { ok: true; data: T }
+  | { ok: false; status: number; error: string };
+
+export interface AdminServerOptions {
+  /** Port to listen on (0 = random free port) */
+  port: number;
+  /** Interface to bind (default 127.0.0.1) */
+  host?: string;
+  /** Shared secret required in the X-Admin-Token header ('' = none) */
+  token?: string;
+}
+
+export interface AdminServer {
+  /** Base URL, e.g. http://127.0.0.1:9465 */
+  url: string;
+  server: Server;
+  close(): Promise<void>;
+}
@@ -0,0 +1,112 @@
+/**
+ * Log Analyzer Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { analyzeLog, renderMarkdown, renderCsv, renderJson } from './index.js';
+
+function line(entry: Record<string, unknown>): string {
+  return JSON.stringify({ ts: '2026-01-01T00:00:00.000Z', level: 'info', ...entry });
+}
+
+const LOG = [
+  line({ did: null, archetype: 'QS', step: 'runner_start', tick: 0 }),
+  line({ did: 'a1', archetype: 'CBC', step: 'registered', tick: 1, details: { energy: 25 } }),
+  line({ did: 'a1', archetype: 'CBC', step: 'quote', tick: 1, cost: 3, allowed: true, details: { energyAfter: 22 } }),
+  line({ did: 'a1', archetype: 'CBC', step: 'create', tick: 1, cost: 3, details: { traceId: 't1' } }),
+  line({ did: 'a1', archetype: 'CBC', step: 'quote', tick: 12, cost: 9, allowed: false, details: { energyAfter: 22, reasons: ['insufficient_energy'] } }),
+  line({ did: 'a1', archetype: 'CBC', step: 'skip', tick: 12, details: { reason: 'budget_or_energy' } }),
+  line({ did: 'a1', archetype: 'CBC', step: 'derive', tick: 13, cost: 5, details: { traceId: 't2', parentIds: ['t1'] } }),
+  line({ did: 'j1', archetype: 'JAP', step: 'registered', tick: 2, details: { energy: 25 } }),
+  line({ did: 'j1', archetype: 'JAP', step: 'joint_attempt', tick: 3, details: { affordanceId: 'x', status: 'pending' } }),
+  line({ did: 'j1', archetype: 'JAP', step: 'joint_attempt', tick: 4, details: { affordanceId: 'y', status: 'created' } }),
+  line({ did: 'j1', archetype: 'JAP', step: 'error', tick: 5, details: { context: 'perceive', message: 'timeout' } }),
+  line({ did: null, archetype: 'JAP', step: 'error', tick: 0, details: { context: 'register', message: 'HTTP 503' } }),
+  '> probe-agents-kit@0.2.0 dev',
+  '{"not":"an entry"}',
+  '',
+].join('\n');
+
+describe('analyzeLog', () => {
+  const report = analyzeLog(LOG);
+
+  it('counts entries and skips non-log lines', () => {
+    expect(report.entries).toBe(12);
+    expect(report.skippedLines).toBe(2);
+    expect(report.tickRange).toEqual({ from: 1, to: 13 });
+    expect(report.runTicks).toBeNull();
+  });
+
+  it('summarizes each agent', () => {
+    const crafter = report.agents.find(a => a.did === 'a1')!;
+    expect(crafter).toMatchObject({
+      archetype: 'CBC',
+      quotes: 2,
+      quotesDenied: 1,
+      creates: 1,
+      derives: 1,
+      skips: 1,
+      traceCost: 8,
+      costPerTrace: 4,
+      quoteDenialRate: 0.5,
+      jointSuccessRate: null,
+      firstTick: 1,
+      lastTick: 13,
+      ticks: 13,
+    });
+    expect(crafter.energy).toMatchObject({ start: 25, end: 22, min: 22, max: 25 });
+  });
+
+  it('aggregates per archetype', () => {
+    const prospectors = report.archetypes.find(a => a.archetype === 'JAP')!;
+    expect(prospectors).toMatchObject({ agents: 1, jointAttempts: 2, jointSuccesses: 1, jointSuccessRate: 0.5, errors: 1 });
+  });
+
+  it('buckets the action mix by tick window', () => {
+    expect(report.actionMix.filter(b => b.archetype === 'CBC')).toEqual([
+      { fromTick: 0, toTick: 9, archetype: 'CBC', creates: 1, derives: 0, jointAttempts: 0, silences: 0, skips: 0 },
+      { fromTick: 10, toTick: 19, archetype: 'CBC', creates: 0, derives: 1, jointAttempts: 0, silences: 0, skips: 1 },
+    ]);
+    expect(analyzeLog(LOG, { bucketSize: 100 }).actionMix).toHaveLength(2);
+  });
+
+  it('collects reasons and error hotspots, including agentless errors', () => {
+    expect(report.quoteDenialReasons).toEqual({ CBC: { insufficient_energy: 1 } });
+    expect(report.skipReasons).toEqual({ CBC: { budget_or_energy: 1 } });
+    expect(report.errorHotspots.map(e => `${e.archetype}:${e.context}:${e.topMessage}`)).toEqual([
+      'JAP:perceive:timeout',
+      'JAP:register:HTTP 503',
+    ]);
+  });
+
+  it('downsamples long energy trajectories, keeping both ends', () => {
+    const long = Array.from({ length: 50 }, (_, i) =>
+      line({ did: 'q', archetype: 'QS', step: 'silence', tick: i, details: { energy: i } })
+    ).join('\n');
+    const points = analyzeLog(long, { maxEnergyPoints: 5 }).agents[0]!.energy.points;
+    expect(points.map(p => p.tick)).toEqual([0, 12, 25, 37, 49]);
+  });
+});
+
+describe('renderers', () => {
+  const report = analyzeLog(LOG);
+
+  it('renders Markdown sections', () => {
+    const markdown = renderMarkdown(report, 'run.log');
+    expect(markdown).toContain('- Source: `run.log`');
+    expect(markdown).toContain('| CBC | 1 | 1 | 1 | 0/0 | - | 50.0% | 4.00 |');
+    expect(markdown).toContain('## Error Hotspots');
+  });
+
+  it('renders one CSV per table with escaping', () => {
+    const csv = renderCsv(analyzeLog(line({
+      did: null, archetype: 'QS', step: 'error', tick: 0, details: { context: 'quote', message: 'bad "draft", retry' },
+    })));
+    expect(Object.keys(csv)).toContain('energy.csv');
+    expect(csv['errors.csv']).toBe('context,archetype,count,top_message\nquote,QS,1,"bad ""draft"", retry"\n');
+  });
+
+  it('renders JSON that round-trips', () => {
+    expect(JSON.parse(renderJson(report))).toEqual(JSON.parse(JSON.stringify(report)));
+  });
+});
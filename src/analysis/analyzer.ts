@@ -0,0 +1,382 @@
+/**
+ * Log Analyzer
+ *
+ * Folds runner log entries into a RunReport: per-archetype and per-DID
+ * activity, action mix per tick window, energy trajectories, quote denial
+ * and skip reasons, and error hotspots. Entries are consumed one at a time,
+ * so large logs can be streamed. Cassette lines are accepted too and read
+ * as the entries their calls would have logged (see recording.ts).
+ */
+
+import type { AgentArchetype, LogEntry } from '../core/types.js';
+import type { CassetteLine } from '../cassette/types.js';
+import type {
+  AnalyzeOptions,
+  ActivityCounts,
+  ActivityRates,
+  AgentReport,
+  ArchetypeReport,
+  ActionMixBucket,
+  EnergyPoint,
+  ErrorHotspot,
+  RunReport,
+} from './types.js';
+import { RecordingConverter } from './recording.js';
+
+const DEFAULT_BUCKET_SIZE = 10;
+const DEFAULT_MAX_ENERGY_POINTS = 200;
+
+/** Runner entries logged with the runner's tick count rather than a habitat tick */
+const RUNNER_TICK_STEPS = new Set(['cohort_start', 'cohort_stop', 'tick_summary', 'scenario_complete', 'runner_complete']);
+
+interface AgentAccumulator extends ActivityCounts {
+  did: string;
+  archetype: AgentArchetype;
+  firstTick: number;
+  lastTick: number;
+  energy: EnergyPoint[];
+}
+
+type MixCounts = Omit<ActionMixBucket, 'fromTick' | 'toTick' | 'archetype'>;
+
+function emptyCounts(): ActivityCounts {
+  return {
+    quotes: 0,
+    quotesDenied: 0,
+    creates: 0,
+    derives: 0,
+    jointAttempts: 0,
+    jointSuccesses: 0,
+    silences: 0,
+    skips: 0,
+    errors: 0,
+    traceCost: 0,
+  };
+}
+
+function ratio(numerator: number, denominator: number): number | null {
+  return denominator > 0 ? numerator / denominator : null;
+}
+
+function rates(counts: ActivityCounts): ActivityRates {
+  return {
+    costPerTrace: ratio(counts.traceCost, counts.creates + counts.derives),
+    jointSuccessRate: ratio(counts.jointSuccesses, counts.jointAttempts),
+    quoteDenialRate: ratio(counts.quotesDenied, counts.quotes),
+  };
+}
+
+function countsOf(source: ActivityCounts): ActivityCounts {
+  const counts = emptyCounts();
+  for (const key of Object.keys(counts) as Array<keyof ActivityCounts>) {
+    counts[key] = source[key];
+  }
+  return counts;
+}
+
+function increment(table: Record<string, Record<string, number>>, group: string, key: string): void {
+  const row = table[group] ?? (table[group] = {});
+  row[key] = (row[key] ?? 0) + 1;
+}
+
+/**
+ * Evenly spaced points, always keeping the first and last
+ */
+function downsample(points: EnergyPoint[], max: number): EnergyPoint[] {
+  if (points.length <= max || max < 2) return points;
+  const step = (points.length - 1) / (max - 1);
+  return Array.from({ length: max }, (_, i) => points[Math.round(i * step)]!);
+}
+
+/**
+ * Narrow a parsed JSON value to a LogEntry
+ */
+export function isLogEntry(value: unknown): value is LogEntry {
+  if (!value || typeof value !== 'object') return false;
+  const v = value as Record<string, unknown>;
+  return typeof v.step === 'string'
+    && typeof v.archetype === 'string'
+    && typeof v.tick === 'number'
+    && (v.did === null || typeof v.did === 'string');
+}
+
+function isCassetteLine(value: unknown): value is CassetteLine {
+  if (!value || typeof value !== 'object') return false;
+  const type = (value as Record<string, unknown>).type;
+  return type === 'header' || type === 'call';
+}
+
+export class LogAnalyzer {
+  private bucketSize: number;
+  private maxEnergyPoints: number;
+  private entries = 0;
+  private skippedLines = 0;
+  private agents = new Map<string, AgentAccumulator>();
+  private mix = new Map<string, ActionMixBucket>();
+  private denialReasons: Record<string, Record<string, number>> = {};
+  private skipReasons: Record<string, Record<string, number>> = {};
+  private errors = new Map<string, { context: string; archetype: AgentArchetype; count: number; messages: Map<string, number> }>();
+  private tickRange: { from: number; to: number } | null = null;
+  /** Last runner tick seen in runner entries */
+  private runTicks: number | null = null;
+  /** Runner tick of the first cohort_start, when agents first registered */
+  private firstCohortTick: number | null = null;
+  /** Last runner tick of a cassette call (cassettes have no habitat ticks) */
+  private recordedTicks: number | null = null;
+  private recording = new RecordingConverter();
+
+  constructor(options: AnalyzeOptions = {}) {
+    this.bucketSize = Math.max(1, options.bucketSize ?? DEFAULT_BUCKET_SIZE);
+    this.maxEnergyPoints = options.maxEnergyPoints ?? DEFAULT_MAX_ENERGY_POINTS;
+  }
+
+  /**
+   * Add one line of runner output or of a cassette. Blank lines are ignored;
+   * anything else that is not a JSON log entry is counted as skipped.
+   */
+  addLine(line: string): void {
+    const trimmed = line.trim();
+    if (!trimmed) return;
+
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(trimmed);
+    } catch {
+      this.skippedLines++;
+      return;
+    }
+
+    if (isLogEntry(parsed)) {
+      this.add(parsed);
+    } else if (isCassetteLine(parsed)) {
+      if (parsed.type !== 'call') return;
+      this.recordedTicks = Math.max(this.recordedTicks ?? 0, parsed.tick);
+      const entry = this.recording.convert(parsed);
+      if (entry) this.add(entry);
+    } else {
+      this.skippedLines++;
+    }
+  }
+
+  add(entry: LogEntry): void {
+    this.entries++;
+    const details = entry.details ?? {};
+
+    if (entry.step === 'error') {
+      this.recordError(entry, details);
+    }
+
+    if (!entry.did) {
+      if (RUNNER_TICK_STEPS.has(entry.step)) this.recordRunTick(entry);
+      return;
+    }
+    const agent = this.agentFor(entry.did, entry.archetype, entry.tick);
+    agent.lastTick = Math.max(agent.lastTick, entry.tick);
+    this.tickRange = this.tickRange
+      ? { from: Math.min(this.tickRange.from, entry.tick), to: Math.max(this.tickRange.to, entry.tick) }
+      : { from: entry.tick, to: entry.tick };
+
+    switch (entry.step) {
+      case 'registered':
+      case 'resumed':
+        this.recordEnergy(agent, entry.tick, details.energy);
+        break;
+      case 'quote':
+        agent.quotes++;
+        this.recordEnergy(agent, entry.tick, details.energyAfter);
+        if (entry.allowed === false) {
+          agent.quotesDenied++;
+          const reasons = Array.isArray(details.reasons) && details.reasons.length > 0
+            ? details.reasons.map(String)
+            : ['unspecified'];
+          for (const reason of reasons) increment(this.denialReasons, entry.archetype, reason);
+        }
+        break;
+      case 'create':
+        agent.creates++;
+        agent.traceCost += entry.cost ?? 0;
+        this.mixFor(entry).creates++;
+        break;
+      case 'derive':
+        agent.derives++;
+        agent.traceCost += entry.cost ?? 0;
+        this.mixFor(entry).derives++;
+        break;
+      case 'joint_attempt':
+        agent.jointAttempts++;
+        if (details.status === 'created') agent.jointSuccesses++;
+        this.mixFor(entry).jointAttempts++;
+        break;
+      case 'silence':
+        agent.silences++;
+        this.recordEnergy(agent, entry.tick, details.energy);
+        this.mixFor(entry).silences++;
+        break;
+      case 'skip':
+        agent.skips++;
+        increment(this.skipReasons, entry.archetype, typeof details.reason === 'string' ? details.reason : 'unspecified');
+        this.mixFor(entry).skips++;
+        break;
+      case 'error':
+        agent.errors++;
+        break;
+    }
+  }
+
+  report(): RunReport {
+    const agents = [...this.agents.values()]
+      .sort((a, b) => a.archetype.localeCompare(b.archetype) || a.did.localeCompare(b.did));
+
+    const runEnd = this.runEnd();
+    const agentReports: AgentReport[] = agents.map(agent => {
+      const energies = agent.energy.map(p => p.energy);
+      return {
+        did: agent.did,
+        archetype: agent.archetype,
+        firstTick: agent.firstTick,
+        lastTick: agent.lastTick,
+        ticks: Math.max(agent.lastTick, runEnd ?? agent.lastTick) - agent.firstTick + 1,
+        ...countsOf(agent),
+        ...rates(agent),
+        energy: {
+          start: energies[0] ?? null,
+          end: energies.at(-1) ?? null,
+          min: energies.length > 0 ? energies.reduce((m, e) => Math.min(m, e), Infinity) : null,
+          max: energies.length > 0 ? energies.reduce((m, e) => Math.max(m, e), -Infinity) : null,
+          mean: energies.length > 0 ? energies.reduce((sum, e) => sum + e, 0) / energies.length : null,
+          points: downsample(agent.energy, this.maxEnergyPoints),
+        },
+      };
+    });
+
+    const byArchetype = new Map<AgentArchetype, ArchetypeReport>();
+    for (const agent of agents) {
+      const group = byArchetype.get(agent.archetype) ?? {
+        archetype: agent.archetype,
+        agents: 0,
+        ...emptyCounts(),
+        ...rates(emptyCounts()),
+      };
+      group.agents++;
+      for (const key of Object.keys(emptyCounts()) as Array<keyof ActivityCounts>) {
+        group[key] += agent[key];
+      }
+      byArchetype.set(agent.archetype, group);
+    }
+    const archetypes = [...byArchetype.values()].map(group => ({ ...group, ...rates(group) }));
+
+    const errorHotspots: ErrorHotspot[] = [...this.errors.values()]
+      .map(({ context, archetype, count, messages }) => ({
+        context,
+        archetype,
+        count,
+        topMessage: [...messages].sort((a, b) => b[1] - a[1])[0]?.[0] ?? '',
+      }))
+      .sort((a, b) => b.count - a.count || a.context.localeCompare(b.context));
+
+    return {
+      entries: this.entries,
+      skippedLines: this.skippedLines,
+      tickRange: this.tickRange,
+      runTicks: this.recordedTicks ?? this.runTicks,
+      bucketSize: this.bucketSize,
+      archetypes,
+      agents: agentReports,
+      actionMix: [...this.mix.values()]
+        .sort((a, b) => a.fromTick - b.fromTick || a.archetype.localeCompare(b.archetype)),
+      quoteDenialReasons: this.denialReasons,
+      skipReasons: this.skipReasons,
+      errorHotspots,
+    };
+  }
+
+  private recordRunTick(entry: LogEntry): void {
+    this.runTicks = Math.max(this.runTicks ?? 0, entry.tick);
+    if (entry.step === 'cohort_start') {
+      this.firstCohortTick = Math.min(this.firstCohortTick ?? entry.tick, entry.tick);
+    }
+  }
+
+  /**
+   * Last tick of the run in agent ticks, or null when the input does not
+   * say how long the run was. Cassette calls already carry runner ticks.
+   * Logged agent entries carry habitat ticks, so the runner's tick count
+   * is shifted by where the habitat clock stood when the first cohort
+   * registered (runner tick 1 without cohort entries).
+   */
+  private runEnd(): number | null {
+    if (this.recordedTicks !== null) return this.recordedTicks;
+    if (this.runTicks === null || !this.tickRange) return null;
+    return this.runTicks + this.tickRange.from - (this.firstCohortTick ?? 1);
+  }
+
+  private agentFor(did: string, archetype: AgentArchetype, tick: number): AgentAccumulator {
+    let agent = this.agents.get(did);
+    if (!agent) {
+      agent = { did, archetype, firstTick: tick, lastTick: tick, energy: [], ...emptyCounts() };
+      this.agents.set(did, agent);
+    }
+    return agent;
+  }
+
+  private mixFor(entry: LogEntry): MixCounts {
+    const fromTick = Math.floor(entry.tick / this.bucketSize) * this.bucketSize;
+    const key = `${fromTick}:${entry.archetype}`;
+    let bucket = this.mix.get(key);
+    if (!bucket) {
+      bucket = {
+        fromTick,
+        toTick: fromTick + this.bucketSize - 1,
+        archetype: entry.archetype,
+        creates: 0,
+        derives: 0,
+        jointAttempts: 0,
+        silences: 0,
+        skips: 0,
+      };
+      this.mix.set(key, bucket);
+    }
+    return bucket;
+  }
+
+  private recordEnergy(agent: AgentAccumulator, tick: number, energy: unknown): void {
+    if (typeof energy === 'number' && Number.isFinite(energy)) {
+      agent.energy.push({ tick, energy });
+    }
+  }
+
+  private recordError(entry: LogEntry, details: Record<string, unknown>): void {
+    const context = typeof details.context === 'string' ? details.context : 'unknown';
+    const key = `${entry.archetype}:${context}`;
+    let hotspot = this.errors.get(key);
+    if (!hotspot) {
+      hotspot = { context, archetype: entry.archetype, count: 0, messages: new Map() };
+      this.errors.set(key, hotspot);
+    }
+    hotspot.count++;
+    const message = typeof details.message === 'string' ? details.message : '';
+    hotspot.messages.set(message, (hotspot.messages.get(message) ?? 0) + 1);
+  }
+}
+
+export function createLogAnalyzer(options?: AnalyzeOptions): LogAnalyzer {
+  return new LogAnalyzer(options);
+}
+
+/**
+ * Analyze a whole log (string) at once
+ */
+export function analyzeLog(text: string, options?: AnalyzeOptions): RunReport {
+  const analyzer = new LogAnalyzer(options);
+  for (const line of text.split('\n')) analyzer.addLine(line);
+  return analyzer.report();
+}
+
+/**
+ * Analyze a stream of lines (e.g. readline over a file or stdin)
+ */
+export async function analyzeLines(lines: AsyncIterable<string>, options?: AnalyzeOptions): Promise<RunReport> {
+  const analyzer = new LogAnalyzer(options);
+  for await (const line of lines) analyzer.addLine(line);
+  return analyzer.report();
+}
@@ -0,0 +1,175 @@
+/**
+ * Run Comparison Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  analyzeLog,
+  compareRuns,
+  parseThreshold,
+  normalQuantile,
+  tQuantile,
+  welchInterval,
+  proportionInterval,
+  ksTest,
+  renderComparisonMarkdown,
+} from './index.js';
+
+/**
+ * Log of `agents` CBC crafters over 10 ticks; agent i creates on the
+ * first creates[i] ticks, quotes every tick and is denied the rest.
+ */
+function run(creates: number[]): string {
+  const lines: string[] = [];
+  creates.forEach((count, i) => {
+    const did = `agent:${i}`;
+    lines.push(JSON.stringify({ did, archetype: 'CBC', step: 'registered', tick: 0, details: { energy: 20 } }));
+    for (let tick = 0; tick < 10; tick++) {
+      const allowed = tick < count;
+      lines.push(JSON.stringify({ did, archetype: 'CBC', step: 'quote', tick, cost: 2, allowed, details: { energyAfter: 20 - tick } }));
+      if (allowed) lines.push(JSON.stringify({ did, archetype: 'CBC', step: 'create', tick, cost: 2 }));
+    }
+  });
+  return lines.join('\n');
+}
+
+describe('statistics', () => {
+  it('approximates normal and t quantiles', () => {
+    expect(normalQuantile(0.975)).toBeCloseTo(1.95996, 4);
+    expect(normalQuantile(0.005)).toBeCloseTo(-2.57583, 4);
+    expect(tQuantile(0.975, 10)).toBeCloseTo(2.228, 2);
+    expect(tQuantile(0.975, 3)).toBeCloseTo(3.182, 1);
+  });
+
+  it('computes Welch intervals for the difference of means', () => {
+    const ci = welchInterval([1, 2, 3, 4], [3, 4, 5, 6], 0.95)!;
+    expect((ci[0] + ci[1]) / 2).toBeCloseTo(2);
+    expect(ci[0]).toBeCloseTo(-0.23, 1);
+    expect(welchInterval([1], [2, 3], 0.95)).toBeNull();
+    expect(welchInterval([1, 1], [2, 2], 0.95)).toEqual([1, 1]);
+  });
+
+  it('matches Newcombe\'s worked example for proportions', () => {
+    // 56/70 vs 48/80 (Newcombe 1998): 0.0524 to 0.3339
+    const [low, high] = proportionInterval(48, 80, 56, 70, 0.95)!;
+    expect(low).toBeCloseTo(0.0524, 3);
+    expect(high).toBeCloseTo(0.3339, 3);
+    expect(proportionInterval(0, 0, 1, 2, 0.95)).toBeNull();
+  });
+
+  it('runs a two-sample KS test', () => {
+    const same = Array.from({ length: 50 }, (_, i) => i);
+    expect(ksTest(same, same)).toEqual({ statistic: 0, pValue: 1 });
+
+    const shifted = ksTest(same, same.map(v => v + 40));
+    expect(shifted.statistic).toBeCloseTo(0.8);
+    expect(shifted.pValue).toBeLessThan(0.001);
+  });
+});
+
+describe('parseThreshold', () => {
+  it('parses absolute and relative limits, optionally per archetype', () => {
+    expect(parseThreshold('quoteDenialRate=+0.05')).toEqual({ metric: 'quoteDenialRate', limit: 0.05, relative: false });
+    expect(parseThreshold('createRate:CBC=-10%')).toEqual({ metric: 'createRate', archetype: 'CBC', limit: -0.1, relative: true });
+  });
+
+  it('rejects unknown metrics, zero limits and bad syntax', () => {
+    expect(parseThreshold('traces=-1')).toBeNull();
+    expect(parseThreshold('createRate=0')).toBeNull();
+    expect(parseThreshold('createRate<-1')).toBeNull();
+  });
+});
+
+describe('compareRuns', () => {
+  const baseline = analyzeLog(run([6, 7, 6, 7, 6, 7]));
+  const candidate = analyzeLog(run([3, 2, 3, 2, 3, 2]));
+
+  it('reports significant changes with intervals', () => {
+    const report = compareRuns(baseline, candidate);
+    const createRate = report.metrics.find(m => m.metric === 'createRate' && m.archetype === 'CBC')!;
+    expect(createRate).toMatchObject({ kind: 'mean', baselineN: 6, candidateN: 6, significant: true });
+    expect(createRate.difference).toBeCloseTo(-0.4);
+    expect(createRate.relativeChange).toBeCloseTo(-0.4 / 0.65);
+    expect(createRate.ci![1]).toBeLessThan(0);
+
+    const denials = report.metrics.find(m => m.metric === 'quoteDenialRate')!;
+    expect(denials).toMatchObject({ kind: 'proportion', baselineN: 60, candidateN: 60, significant: true });
+
+    const cost = report.metrics.find(m => m.metric === 'costPerTrace')!;
+    expect(cost).toMatchObject({ difference: 0, significant: false });
+  });
+
+  it('flags regressions beyond a threshold in the bad direction only', () => {
+    const thresholds = [parseThreshold('createRate=-20%')!, parseThreshold('quoteDenialRate=+0.5')!];
+    const report = compareRuns(baseline, candidate, { thresholds });
+    expect(report.regressions.map(r => r.comparison.metric)).toEqual(['createRate']);
+
+    expect(compareRuns(candidate, baseline, { thresholds }).regressions).toEqual([]);
+  });
+
+  it('does not flag changes that are not significant', () => {
+    const report = compareRuns(analyzeLog(run([5, 6])), analyzeLog(run([4, 6])), {
+      thresholds: [parseThreshold('createRate=-1%')!],
+    });
+    expect(report.regressions).toEqual([]);
+  });
+
+  it('divides rates by the run\'s ticks, not just the ticks an agent logged', () => {
+    // Runner ticks 1-10; the habitat clock stood at 101 when the cohort registered
+    const log = (activeTicks: number) => [
+      JSON.stringify({ did: null, archetype: 'QS', step: 'runner_start', tick: 0 }),
+      ...[0, 1].flatMap(i => [
+        JSON.stringify({ did: `agent:${i}`, archetype: 'CBC', step: 'registered', tick: 101, details: { energy: 20 } }),
+        ...Array.from({ length: activeTicks }, (_, t) =>
+          JSON.stringify({ did: `agent:${i}`, archetype: 'CBC', step: 'create', tick: 101 + t + i, cost: 2 })),
+      ]),
+      JSON.stringify({ did: null, archetype: 'CBC', step: 'cohort_start', tick: 1, details: { cohort: 'crafters' } }),
+      JSON.stringify({ did: null, archetype: 'QS', step: 'runner_complete', tick: 10 }),
+    ].join('\n');
+
+    const full = analyzeLog(log(9));
+    const quiet = analyzeLog(log(4));
+    expect(quiet.runTicks).toBe(10);
+    expect(quiet.agents.map(a => a.ticks)).toEqual([10, 10]);
+
+    const createRate = compareRuns(full, quiet).metrics.find(m => m.metric === 'createRate')!;
+    expect(createRate.baseline).toBeCloseTo(0.9);
+    expect(createRate.candidate).toBeCloseTo(0.4);
+  });
+
+  it('renders Markdown', () => {
+    const markdown = renderComparisonMarkdown(compareRuns(baseline, candidate), { baseline: 'a.log', candidate: 'b.log' });
+    expect(markdown).toContain('- Baseline: `a.log` (6 agents, ticks 0-9)');
+    expect(markdown).toContain('| CBC | createRate | 0.650 | 0.250 | -0.400 | -61.5% |');
+  });
+});
+
+describe('recordings', () => {
+  const call = (tick: number, seq: number, path: string, request: object, status: number, response: object) =>
+    JSON.stringify({
+      type: 'call', agent: 'x', tick, seq, method: 'POST', url: `http://localhost:4000${path}`,
+      requestBody: JSON.stringify(request), status, responseBody: JSON.stringify(response),
+    });
+
+  it('reads cassette calls as log entries', () => {
+    const report = analyzeLog([
+      JSON.stringify({ type: 'header', version: 1, createdAt: '', baseSeed: 1, scenario: 'default' }),
+      call(0, 0, '/v1/agents/register', { continuitySeed: 'jap-0-ab' }, 200, { did: 'agent:1', energy: 25, tick: 0 }),
+      call(1, 0, '/v1/perception/perceive', { did: 'agent:1' }, 200, { glimpses: [] }),
+      call(1, 1, '/v1/physics/quote', { did: 'agent:1' }, 200, { cost: 2, allowed: false, energyAfter: 25, reasons: ['cooldown'] }),
+      call(2, 0, '/v1/traces', { did: 'agent:1' }, 200, { traceId: 't', costPaid: 2 }),
+      call(3, 0, '/v1/joint/traces', { did: 'agent:1', affordanceId: 'a' }, 200, { status: 'created' }),
+      call(4, 0, '/v1/traces/derive', { did: 'agent:1', parentTraceId: 't' }, 503, {}),
+      call(4, 1, '/v1/traces', { did: 'agent:unknown' }, 200, { traceId: 'u', costPaid: 2 }),
+    ].join('\n'));
+
+    expect(report.skippedLines).toBe(0);
+    expect(report.runTicks).toBe(4);
+    expect(report.agents).toHaveLength(1);
+    expect(report.agents[0]).toMatchObject({
+      archetype: 'JAP', quotes: 1, quotesDenied: 1, creates: 1, jointSuccesses: 1, errors: 1, traceCost: 2, ticks: 5,
+    });
+    expect(report.quoteDenialReasons).toEqual({ JAP: { cooldown: 1 } });
+    expect(report.errorHotspots[0]).toMatchObject({ context: 'derive', topMessage: 'HTTP 503' });
+  });
+});
@@ -0,0 +1,337 @@
+/**
+ * Run Comparison
+ *
+ * Compares two RunReports (baseline vs candidate) per archetype: action
+ * rates, cost per trace and mean energy as means over agents (Welch
+ * intervals), quote denial and joint success as pooled proportions
+ * (Newcombe intervals), and the energy distribution with a two-sample
+ * Kolmogorov-Smirnov test. Thresholds turn significant changes into
+ * regressions.
+ */
+
+import type { AgentArchetype } from '../core/types.js';
+import type {
+  AgentReport,
+  ArchetypeReport,
+  CompareOptions,
+  ComparisonMetric,
+  ComparisonReport,
+  DistributionComparison,
+  MetricComparison,
+  Regression,
+  RegressionThreshold,
+  RunReport,
+} from './types.js';
+import { COMPARISON_METRICS } from './types.js';
+
+const DEFAULT_CONFIDENCE = 0.95;
+
+// ============================================================================
+// STATISTICS
+// ============================================================================
+
+/**
+ * Inverse of the standard normal CDF (Acklam's approximation)
+ */
+export function normalQuantile(p: number): number {
+  if (p <= 0) return -Infinity;
+  if (p >= 1) return Infinity;
+
+  const a = [-39.69683028665376, 220.9460984245205, -275.9285104469687, 138.357751867269, -30.66479806614716, 2.506628277459239];
+  const b = [-54.47609879822406, 161.5858368580409, -155.6989798598866, 66.80131188771972, -13.28068155288572];
+  const c = [-0.007784894002430293, -0.3223964580411365, -2.400758277161838, -2.549732539343734, 4.374664141464968, 2.938163982698783];
+  const d = [0.007784695709041462, 0.3224671290700398, 2.445134137142996, 3.754408661907416];
+  const low = 0.02425;
+
+  if (p < low || p > 1 - low) {
+    const q = Math.sqrt(-2 * Math.log(p < low ? p : 1 - p));
+    const x = (((((c[0]! * q + c[1]!) * q + c[2]!) * q + c[3]!) * q + c[4]!) * q + c[5]!)
+      / ((((d[0]! * q + d[1]!) * q + d[2]!) * q + d[3]!) * q + 1);
+    return p < low ? x : -x;
+  }
+
+  const q = p - 0.5;
+  const r = q * q;
+  return (((((a[0]! * r + a[1]!) * r + a[2]!) * r + a[3]!) * r + a[4]!) * r + a[5]!) * q
+    / (((((b[0]! * r + b[1]!) * r + b[2]!) * r + b[3]!) * r + b[4]!) * r + 1);
+}
+
+/**
+ * Quantile of Student's t distribution (Cornish-Fisher expansion; close
+ * from 2 degrees of freedom, slightly narrow below)
+ */
+export function tQuantile(p: number, df: number): number {
+  const z = normalQuantile(p);
+  if (!Number.isFinite(df) || df <= 0) return z;
+  const z3 = z ** 3, z5 = z ** 5, z7 = z ** 7, z9 = z ** 9;
+  const g1 = (z3 + z) / 4;
+  const g2 = (5 * z5 + 16 * z3 + 3 * z) / 96;
+  const g3 = (3 * z7 + 19 * z5 + 17 * z3 - 15 * z) / 384;
+  const g4 = (79 * z9 + 776 * z7 + 1482 * z5 - 1920 * z3 - 945 * z) / 92160;
+  return z + g1 / df + g2 / df ** 2 + g3 / df ** 3 + g4 / df ** 4;
+}
+
+function mean(values: number[]): number {
+  return values.reduce((sum, v) => sum + v, 0) / values.length;
+}
+
+function variance(values: number[]): number {
+  const m = mean(values);
+  return values.reduce((sum, v) => sum + (v - m) ** 2, 0) / (values.length - 1);
+}
+
+/**
+ * Interval for mean(b) - mean(a) with unequal variances.
+ * Needs two samples on each side.
+ */
+export function welchInterval(a: number[], b: number[], confidence: number): [number, number] | null {
+  if (a.length < 2 || b.length < 2) return null;
+  const difference = mean(b) - mean(a);
+  const va = variance(a) / a.length;
+  const vb = variance(b) / b.length;
+  const se = Math.sqrt(va + vb);
+  if (se === 0) return [difference, difference];
+
+  const dfDenominator = va ** 2 / (a.length - 1) + vb ** 2 / (b.length - 1);
+  const df = dfDenominator > 0 ? (va + vb) ** 2 / dfDenominator : a.length + b.length - 2;
+  const half = tQuantile((1 + confidence) / 2, df) * se;
+  return [difference - half, difference + half];
+}
+
+function wilson(successes: number, trials: number, z: number): [number, number] {
+  const p = successes / trials;
+  const denominator = 1 + z * z / trials;
+  const center = (p + z * z / (2 * trials)) / denominator;
+  const half = z * Math.sqrt(p * (1 - p) / trials + z * z / (4 * trials * trials)) / denominator;
+  return [center - half, center + half];
+}
+
+/**
+ * Interval for p2 - p1 (Newcombe's hybrid score method, fine with 0 or
+ * all successes)
+ */
+export function proportionInterval(
+  successes1: number,
+  trials1: number,
+  successes2: number,
+  trials2: number,
+  confidence: number
+): [number, number] | null {
+  if (trials1 === 0 || trials2 === 0) return null;
+  const z = normalQuantile((1 + confidence) / 2);
+  const p1 = successes1 / trials1;
+  const p2 = successes2 / trials2;
+  const [l1, u1] = wilson(successes1, trials1, z);
+  const [l2, u2] = wilson(successes2, trials2, z);
+  const difference = p2 - p1;
+  return [
+    difference - Math.sqrt((p2 - l2) ** 2 + (u1 - p1) ** 2),
+    difference + Math.sqrt((u2 - p2) ** 2 + (p1 - l1) ** 2),
+  ];
+}
+
+/**
+ * Two-sample Kolmogorov-Smirnov statistic and asymptotic p-value
+ */
+export function ksTest(a: number[], b: number[]): { statistic: number; pValue: number } {
+  if (a.length === 0 || b.length === 0) return { statistic: 0, pValue: 1 };
+  const x = [...a].sort((m, n) => m - n);
+  const y = [...b].sort((m, n) => m - n);
+
+  let i = 0, j = 0, statistic = 0;
+  while (i < x.length && j < y.length) {
+    const value = Math.min(x[i]!, y[j]!);
+    while (i < x.length && x[i]! <= value) i++;
+    while (j < y.length && y[j]! <= value) j++;
+    statistic = Math.max(statistic, Math.abs(i / x.length - j / y.length));
+  }
+
+  const ne = Math.sqrt(x.length * y.length / (x.length + y.length));
+  const lambda = (ne + 0.12 + 0.11 / ne) * statistic;
+  // The series converges slowly near 0, where the p-value is 1 anyway
+  if (lambda < 0.2) return { statistic, pValue: 1 };
+
+  let pValue = 0;
+  for (let k = 1; k <= 100; k++) {
+    const term = 2 * (k % 2 === 1 ? 1 : -1) * Math.exp(-2 * k * k * lambda * lambda);
+    pValue += term;
+    if (Math.abs(term) < 1e-10) break;
+  }
+  return { statistic, pValue: Math.min(1, Math.max(0, pValue)) };
+}
+
+// ============================================================================
+// THRESHOLDS
+// ============================================================================
+
+/**
+ * Parse "metric[:ARCHETYPE]=limit[%]", e.g. "jointSuccessRate:JAP=-10%"
+ * or "quoteDenialRate=+0.05". Returns null when invalid.
+ */
+export function parseThreshold(spec: string): RegressionThreshold | null {
+  const match = spec.trim().match(/^(\w+)(?::([\w-]+))?=([+-]?\d+(?:\.\d+)?)(%?)$/);
+  if (!match) return null;
+  const [, metric, archetype, value, percent] = match;
+  if (!(COMPARISON_METRICS as readonly string[]).includes(metric!)) return null;
+
+  const limit = parseFloat(value!) / (percent ? 100 : 1);
+  if (limit === 0) return null;
+
+  return {
+    metric: metric as ComparisonMetric,
+    ...(archetype ? { archetype } : {}),
+    limit,
+    relative: percent === '%',
+  };
+}
+
+function regressions(comparisons: MetricComparison[], thresholds: RegressionThreshold[]): Regression[] {
+  const found: Regression[] = [];
+  for (const threshold of thresholds) {
+    for (const comparison of comparisons) {
+      if (comparison.metric !== threshold.metric || !comparison.significant) continue;
+      if (threshold.archetype && comparison.archetype !== threshold.archetype) continue;
+
+      const change = threshold.relative ? comparison.relativeChange : comparison.difference;
+      if (change === null) continue;
+      if (threshold.limit < 0 ? change <= threshold.limit : change >= threshold.limit) {
+        found.push({ threshold, comparison, change });
+      }
+    }
+  }
+  return found;
+}
+
+// ============================================================================
+// COMPARISON
+// ============================================================================
+
+type MeanMetric = Exclude<ComparisonMetric, 'quoteDenialRate' | 'jointSuccessRate'>;
+
+/** Per-agent sample for a mean metric, null when the agent has none */
+function agentValue(agent: AgentReport, metric: MeanMetric): number | null {
+  switch (metric) {
+    case 'createRate': return agent.creates / agent.ticks;
+    case 'deriveRate': return agent.derives / agent.ticks;
+    case 'jointAttemptRate': return agent.jointAttempts / agent.ticks;
+    case 'silenceRate': return agent.silences / agent.ticks;
+    case 'costPerTrace': return agent.costPerTrace;
+    case 'energy': return agent.energy.mean;
+  }
+}
+
+function samples(agents: AgentReport[], metric: MeanMetric): number[] {
+  return agents.map(agent => agentValue(agent, metric)).filter((v): v is number => v !== null);
+}
+
+function comparison(
+  archetype: AgentArchetype,
+  metric: ComparisonMetric,
+  kind: MetricComparison['kind'],
+  baseline: { value: number | null; n: number },
+  candidate: { value: number | null; n: number },
+  ci: [number, number] | null
+): MetricComparison {
+  const difference = baseline.value !== null && candidate.value !== null ? candidate.value - baseline.value : null;
+  return {
+    archetype,
+    metric,
+    kind,
+    baseline: baseline.value,
+    candidate: candidate.value,
+    baselineN: baseline.n,
+    candidateN: candidate.n,
+    difference,
+    relativeChange: difference !== null && baseline.value ? difference / Math.abs(baseline.value) : null,
+    ci,
+    significant: ci !== null && (ci[0] > 0 || ci[1] < 0),
+  };
+}
+
+function compareMean(
+  archetype: AgentArchetype,
+  metric: MeanMetric,
+  baseline: AgentReport[],
+  candidate: AgentReport[],
+  confidence: number
+): MetricComparison {
+  const a = samples(baseline, metric);
+  const b = samples(candidate, metric);
+  return comparison(
+    archetype,
+    metric,
+    'mean',
+    { value: a.length > 0 ? mean(a) : null, n: a.length },
+    { value: b.length > 0 ? mean(b) : null, n: b.length },
+    welchInterval(a, b, confidence)
+  );
+}
+
+function compareProportion(
+  archetype: AgentArchetype,
+  metric: 'quoteDenialRate' | 'jointSuccessRate',
+  baseline: ArchetypeReport | undefined,
+  candidate: ArchetypeReport | undefined,
+  confidence: number
+): MetricComparison {
+  const counts = (report: ArchetypeReport | undefined) => {
+    if (!report) return { successes: 0, trials: 0 };
+    return metric === 'quoteDenialRate'
+      ? { successes: report.quotesDenied, trials: report.quotes }
+      : { successes: report.jointSuccesses, trials: report.jointAttempts };
+  };
+  const a = counts(baseline);
+  const b = counts(candidate);
+  return comparison(
+    archetype,
+    metric,
+    'proportion',
+    { value: a.trials > 0 ? a.successes / a.trials : null, n: a.trials },
+    { value: b.trials > 0 ? b.successes / b.trials : null, n: b.trials },
+    proportionInterval(a.successes, a.trials, b.successes, b.trials, confidence)
+  );
+}
+
+export function compareRuns(baseline: RunReport, candidate: RunReport, options: CompareOptions = {}): ComparisonReport {
+  const confidence = options.confidence ?? DEFAULT_CONFIDENCE;
+  const archetypes = [...new Set([...baseline.archetypes, ...candidate.archetypes].map(a => a.archetype))].sort();
+
+  const metrics: MetricComparison[] = [];
+  const energyDistributions: DistributionComparison[] = [];
+
+  for (const archetype of archetypes) {
+    const baseAgents = baseline.agents.filter(a => a.archetype === archetype);
+    const candAgents = candidate.agents.filter(a => a.archetype === archetype);
+    const baseGroup = baseline.archetypes.find(a => a.archetype === archetype);
+    const candGroup = candidate.archetypes.find(a => a.archetype === archetype);
+
+    for (const metric of COMPARISON_METRICS) {
+      metrics.push(metric === 'quoteDenialRate' || metric === 'jointSuccessRate'
+        ? compareProportion(archetype, metric, baseGroup, candGroup, confidence)
+        : compareMean(archetype, metric, baseAgents, candAgents, confidence));
+    }
+
+    const a = baseAgents.flatMap(agent => agent.energy.points.map(p => p.energy));
+    const b = candAgents.flatMap(agent => agent.energy.points.map(p => p.energy));
+    if (a.length > 0 && b.length > 0) {
+      const { statistic, pValue } = ksTest(a, b);
+      energyDistributions.push({
+        archetype,
+        baselineN: a.length,
+        candidateN: b.length,
+        statistic,
+        pValue,
+        significant: pValue < 1 - confidence,
+      });
+    }
+  }
+
+  return {
+    confidence,
+    baseline: { agents: baseline.agents.length, tickRange: baseline.tickRange },
+    candidate: { agents: candidate.agents.length, tickRange: candidate.tickRange },
+    metrics,
+    energyDistributions,
+    regressions: regressions(metrics, options.thresholds ?? []),
+  };
+}
@@ -0,0 +1,63 @@
+/**
+ * Analysis Module
+ *
+ * Turn runner JSON log lines (or cassettes) into per-archetype and per-DID
+ * run reports (Markdown, CSV or JSON), and compare two runs.
+ */
+
+export type {
+  ReportFormat,
+  AnalyzeOptions,
+  ActivityCounts,
+  ActivityRates,
+  EnergyPoint,
+  EnergySummary,
+  AgentReport,
+  ArchetypeReport,
+  ActionMixBucket,
+  ErrorHotspot,
+  RunReport,
+  ComparisonMetric,
+  ComparisonFormat,
+  RegressionThreshold,
+  CompareOptions,
+  MetricComparison,
+  DistributionComparison,
+  Regression,
+  RunSummary,
+  ComparisonReport,
+} from './types.js';
+
+export { REPORT_FORMATS, COMPARISON_METRICS, COMPARISON_FORMATS } from './types.js';
+
+export {
+  LogAnalyzer,
+  createLogAnalyzer,
+  analyzeLog,
+  analyzeLines,
+  isLogEntry,
+} from './analyzer.js';
+
+export {
+  RecordingConverter,
+  createRecordingConverter,
+  archetypeFromSeed,
+} from './recording.js';
+
+export {
+  compareRuns,
+  parseThreshold,
+  normalQuantile,
+  tQuantile,
+  welchInterval,
+  proportionInterval,
+  ksTest,
+} from './compare.js';
+
+export {
+  renderMarkdown,
+  renderCsv,
+  renderJson,
+  renderComparisonMarkdown,
+  renderComparisonJson,
+} from './report.js';
@@ -0,0 +1,137 @@
+/**
+ * Recording Converter
+ *
+ * Turns cassette calls into the log entries the runner would have written
+ * for them, so recorded runs can be analyzed and compared like logs.
+ * Only habitat calls carry meaning here: registration, quotes, traces and
+ * joint actions. Perception, LLM calls, silences and skips leave no entry.
+ */
+
+import type { CassetteEntry } from '../cassette/types.js';
+import type { AgentArchetype, LogEntry } from '../core/types.js';
+
+type RecordedStep = Omit<LogEntry, 'ts' | 'did' | 'archetype' | 'tick'>;
+
+function parseBody(text: string | null): Record<string, unknown> {
+  if (!text) return {};
+  try {
+    const parsed: unknown = JSON.parse(text);
+    return parsed && typeof parsed === 'object' ? parsed as Record<string, unknown> : {};
+  } catch {
+    return {};
+  }
+}
+
+function pathOf(url: string): string {
+  try {
+    return new URL(url).pathname;
+  } catch {
+    return url;
+  }
+}
+
+function number(value: unknown): number | undefined {
+  return typeof value === 'number' && Number.isFinite(value) ? value : undefined;
+}
+
+/**
+ * Archetype from a registration seed: built-in seeds start with the
+ * lowercased archetype code ("cbc-0-...")
+ */
+export function archetypeFromSeed(seed: string): AgentArchetype {
+  return (seed.split('-')[0] ?? seed).toUpperCase();
+}
+
+/** Endpoint names used as error contexts, by path suffix */
+const ENDPOINTS: Array<[suffix: string, name: string]> = [
+  ['/v1/agents/register', 'register'],
+  ['/v1/physics/quote', 'quote'],
+  ['/v1/traces/derive', 'derive'],
+  ['/v1/traces', 'create'],
+  ['/v1/joint/quote', 'joint_quote'],
+  ['/v1/joint/traces', 'joint_trace'],
+];
+
+export class RecordingConverter {
+  /** Archetype of each registered DID */
+  private archetypes = new Map<string, AgentArchetype>();
+
+  /**
+   * Log entry for one recorded call, or null when the call has none
+   */
+  convert(call: CassetteEntry): LogEntry | null {
+    const path = pathOf(call.url);
+    const endpoint = ENDPOINTS.find(([suffix]) => path.endsWith(suffix))?.[1];
+    if (!endpoint) return null;
+
+    const request = parseBody(call.requestBody);
+    const response = parseBody(call.responseBody);
+    const ok = call.status >= 200 && call.status < 300;
+    const ts = new Date(0).toISOString();
+
+    if (endpoint === 'register') {
+      const seed = typeof request.continuitySeed === 'string' ? request.continuitySeed : '';
+      const archetype = archetypeFromSeed(seed);
+      if (!ok || typeof response.did !== 'string') {
+        return this.entry(ts, null, archetype, call.tick, errorStep(endpoint, call.status));
+      }
+      this.archetypes.set(response.did, archetype);
+      return this.entry(ts, response.did, archetype, call.tick, {
+        step: 'registered',
+        details: { energy: number(response.energy) },
+      });
+    }
+
+    const did = typeof request.did === 'string' ? request.did : null;
+    const archetype = did ? this.archetypes.get(did) : undefined;
+    // Calls of agents registered before the recording started cannot be attributed
+    if (!did || !archetype) return null;
+
+    if (!ok) return this.entry(ts, did, archetype, call.tick, errorStep(endpoint, call.status));
+
+    switch (endpoint) {
+      case 'quote':
+      case 'joint_quote': {
+        const reasons = Array.isArray(response.reasons) ? response.reasons.map(String) : [];
+        return this.entry(ts, did, archetype, call.tick, {
+          step: 'quote',
+          cost: number(response.cost),
+          allowed: response.allowed === true,
+          details: {
+            ...(number(response.energyAfter) !== undefined ? { energyAfter: number(response.energyAfter) } : {}),
+            ...(reasons.length > 0 ? { reasons } : {}),
+          },
+        });
+      }
+      case 'create':
+        return this.entry(ts, did, archetype, call.tick, {
+          step: 'create',
+          cost: number(response.costPaid),
+          details: { traceId: response.traceId },
+        });
+      case 'derive':
+        return this.entry(ts, did, archetype, call.tick, {
+          step: 'derive',
+          cost: number(response.costPaid),
+          details: { traceId: response.traceId, parentIds: [request.parentTraceId] },
+        });
+      default:
+        return this.entry(ts, did, archetype, call.tick, {
+          step: 'joint_attempt',
+          details: { affordanceId: request.affordanceId, status: response.status },
+        });
+    }
+  }
+
+  private entry(ts: string, did: string | null, archetype: AgentArchetype, tick: number, step: RecordedStep): LogEntry {
+    return { ts, did, archetype, tick, ...step };
+  }
+}
+
+function errorStep(context: string, status: number): RecordedStep {
+  return { step: 'error', details: { context, message: `HTTP ${status}` } };
+}
+
+export function createRecordingConverter(): RecordingConverter {
+  return new RecordingConverter();
+}
@@ -0,0 +1,213 @@
+/**
+ * Report Renderers
+ *
+ * RunReport as Markdown (one document), CSV (one table per file) or JSON;
+ * ComparisonReport as Markdown or JSON.
+ */
+
+import type { ComparisonReport, RunReport } from './types.js';
+
+// ============================================================================
+// FORMATTING
+// ============================================================================
+
+function fixed(value: number | null, digits: number = 2): string {
+  return value === null ? '-' : value.toFixed(digits);
+}
+
+function percent(value: number | null): string {
+  return value === null ? '-' : `${(value * 100).toFixed(1)}%`;
+}
+
+function markdownTable(headers: string[], rows: Array<Array<string | number>>): string {
+  if (rows.length === 0) return '_None._\n';
+  const escape = (cell: string | number) => String(cell).replace(/\|/g, '\\|').replace(/\n/g, ' ');
+  return [
+    `| ${headers.join(' | ')} |`,
+    `|${headers.map(() => '---').join('|')}|`,
+    ...rows.map(row => `| ${row.map(escape).join(' | ')} |`),
+  ].join('\n') + '\n';
+}
+
+function csvCell(value: string | number | null): string {
+  if (value === null) return '';
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function csvTable(headers: string[], rows: Array<Array<string | number | null>>): string {
+  return [headers, ...rows].map(row => row.map(csvCell).join(',')).join('\n') + '\n';
+}
+
+function reasonRows(table: Record<string, Record<string, number>>): Array<[string, string, number]> {
+  return Object.entries(table)
+    .flatMap(([archetype, reasons]) => Object.entries(reasons).map(([reason, count]) => [archetype, reason, count] as [string, string, number]))
+    .sort((a, b) => a[0].localeCompare(b[0]) || b[2] - a[2]);
+}
+
+// ============================================================================
+// RENDERERS
+// ============================================================================
+
+export function renderMarkdown(report: RunReport, source?: string): string {
+  const ticks = report.tickRange ? `${report.tickRange.from}-${report.tickRange.to}` : '-';
+  const sections = [
+    '# Run Report\n',
+    [
+      ...(source ? [`- Source: \`${source}\``] : []),
+      `- Entries: ${report.entries} (${report.skippedLines} non-log lines skipped)`,
+      `- Agents: ${report.agents.length}`,
+      `- Ticks: ${ticks}`,
+    ].join('\n') + '\n',
+
+    '## Archetypes\n',
+    markdownTable(
+      ['Archetype', 'Agents', 'Creates', 'Derives', 'Joint', 'Joint success', 'Quote denials', 'Cost/trace', 'Silences', 'Skips', 'Errors'],
+      report.archetypes.map(a => [
+        a.archetype, a.agents, a.creates, a.derives, `${a.jointSuccesses}/${a.jointAttempts}`,
+        percent(a.jointSuccessRate), percent(a.quoteDenialRate), fixed(a.costPerTrace),
+        a.silences, a.skips, a.errors,
+      ])
+    ),
+
+    '## Agents\n',
+    markdownTable(
+      ['DID', 'Archetype', 'Ticks', 'Creates', 'Derives', 'Joint', 'Cost/trace', 'Energy start', 'Energy end', 'Energy min', 'Errors'],
+      report.agents.map(a => [
+        a.did, a.archetype, `${a.firstTick}-${a.lastTick}`, a.creates, a.derives,
+        `${a.jointSuccesses}/${a.jointAttempts}`, fixed(a.costPerTrace),
+        fixed(a.energy.start, 1), fixed(a.energy.end, 1), fixed(a.energy.min, 1), a.errors,
+      ])
+    ),
+
+    `## Action Mix (per ${report.bucketSize} ticks)\n`,
+    markdownTable(
+      ['Ticks', 'Archetype', 'Creates', 'Derives', 'Joint', 'Silences', 'Skips'],
+      report.actionMix.map(b => [
+        `${b.fromTick}-${b.toTick}`, b.archetype, b.creates, b.derives, b.jointAttempts, b.silences, b.skips,
+      ])
+    ),
+
+    '## Quote Denial Reasons\n',
+    markdownTable(['Archetype', 'Reason', 'Count'], reasonRows(report.quoteDenialReasons)),
+
+    '## Skip Reasons\n',
+    markdownTable(['Archetype', 'Reason', 'Count'], reasonRows(report.skipReasons)),
+
+    '## Error Hotspots\n',
+    markdownTable(
+      ['Context', 'Archetype', 'Count', 'Most frequent message'],
+      report.errorHotspots.map(e => [e.context, e.archetype, e.count, e.topMessage])
+    ),
+  ];
+
+  return sections.join('\n');
+}
+
+/**
+ * One CSV document per table, keyed by file name
+ */
+export function renderCsv(report: RunReport): Record<string, string> {
+  return {
+    'archetypes.csv': csvTable(
+      ['archetype', 'agents', 'quotes', 'quotes_denied', 'creates', 'derives', 'joint_attempts', 'joint_successes',
+        'silences', 'skips', 'errors', 'trace_cost', 'cost_per_trace', 'joint_success_rate', 'quote_denial_rate'],
+      report.archetypes.map(a => [
+        a.archetype, a.agents, a.quotes, a.quotesDenied, a.creates, a.derives, a.jointAttempts, a.jointSuccesses,
+        a.silences, a.skips, a.errors, a.traceCost, a.costPerTrace, a.jointSuccessRate, a.quoteDenialRate,
+      ])
+    ),
+    'agents.csv': csvTable(
+      ['did', 'archetype', 'first_tick', 'last_tick', 'quotes', 'quotes_denied', 'creates', 'derives',
+        'joint_attempts', 'joint_successes', 'silences', 'skips', 'errors', 'trace_cost', 'cost_per_trace',
+        'joint_success_rate', 'energy_start', 'energy_end', 'energy_min', 'energy_max'],
+      report.agents.map(a => [
+        a.did, a.archetype, a.firstTick, a.lastTick, a.quotes, a.quotesDenied, a.creates, a.derives,
+        a.jointAttempts, a.jointSuccesses, a.silences, a.skips, a.errors, a.traceCost, a.costPerTrace,
+        a.jointSuccessRate, a.energy.start, a.energy.end, a.energy.min, a.energy.max,
+      ])
+    ),
+    'action-mix.csv': csvTable(
+      ['from_tick', 'to_tick', 'archetype', 'creates', 'derives', 'joint_attempts', 'silences', 'skips'],
+      report.actionMix.map(b => [b.fromTick, b.toTick, b.archetype, b.creates, b.derives, b.jointAttempts, b.silences, b.skips])
+    ),
+    'energy.csv': csvTable(
+      ['did', 'archetype', 'tick', 'energy'],
+      report.agents.flatMap(a => a.energy.points.map(p => [a.did, a.archetype, p.tick, p.energy]))
+    ),
+    'quote-denials.csv': csvTable(['archetype', 'reason', 'count'], reasonRows(report.quoteDenialReasons)),
+    'skips.csv': csvTable(['archetype', 'reason', 'count'], reasonRows(report.skipReasons)),
+    'errors.csv': csvTable(
+      ['context', 'archetype', 'count', 'top_message'],
+      report.errorHotspots.map(e => [e.context, e.archetype, e.count, e.topMessage])
+    ),
+  };
+}
+
+export function renderJson(report: RunReport): string {
+  return JSON.stringify(report, null, 2) + '\n';
+}
+
+// ============================================================================
+// COMPARISON
+// ============================================================================
+
+function signed(value: number | null, digits: number = 3): string {
+  if (value === null) return '-';
+  return `${value > 0 ? '+' : ''}${value.toFixed(digits)}`;
+}
+
+function ticks(range: { from: number; to: number } | null): string {
+  return range ? `${range.from}-${range.to}` : '-';
+}
+
+export function renderComparisonMarkdown(
+  report: ComparisonReport,
+  sources?: { baseline: string; candidate: string }
+): string {
+  const level = `${Math.round(report.confidence * 100)}%`;
+  const sections = [
+    '# Run Comparison\n',
+    [
+      `- Baseline: ${sources ? `\`${sources.baseline}\` ` : ''}(${report.baseline.agents} agents, ticks ${ticks(report.baseline.tickRange)})`,
+      `- Candidate: ${sources ? `\`${sources.candidate}\` ` : ''}(${report.candidate.agents} agents, ticks ${ticks(report.candidate.tickRange)})`,
+      `- Confidence: ${level}`,
+      `- Regressions: ${report.regressions.length}`,
+    ].join('\n') + '\n',
+
+    '## Metrics\n',
+    markdownTable(
+      ['Archetype', 'Metric', 'Baseline', 'Candidate', 'Change', 'Relative', `${level} CI`, 'n', 'Significant'],
+      report.metrics.map(m => [
+        m.archetype, m.metric, fixed(m.baseline, 3), fixed(m.candidate, 3), signed(m.difference),
+        m.relativeChange === null ? '-' : `${m.relativeChange > 0 ? '+' : ''}${(m.relativeChange * 100).toFixed(1)}%`,
+        m.ci ? `[${signed(m.ci[0])}, ${signed(m.ci[1])}]` : '-',
+        `${m.baselineN}/${m.candidateN}`,
+        m.significant ? 'yes' : 'no',
+      ])
+    ),
+
+    '## Energy Distributions\n',
+    markdownTable(
+      ['Archetype', 'Points', 'KS statistic', 'p-value', 'Significant'],
+      report.energyDistributions.map(d => [
+        d.archetype, `${d.baselineN}/${d.candidateN}`, fixed(d.statistic, 3), fixed(d.pValue, 4), d.significant ? 'yes' : 'no',
+      ])
+    ),
+
+    '## Regressions\n',
+    markdownTable(
+      ['Archetype', 'Metric', 'Limit', 'Change'],
+      report.regressions.map(r => {
+        const format = (v: number) => r.threshold.relative ? `${v > 0 ? '+' : ''}${(v * 100).toFixed(1)}%` : signed(v);
+        return [r.comparison.archetype, r.comparison.metric, format(r.threshold.limit), format(r.change)];
+      })
+    ),
+  ];
+
+  return sections.join('\n');
+}
+
+export function renderComparisonJson(report: ComparisonReport): string {
+  return JSON.stringify(report, null, 2) + '\n';
+}
@@ -0,0 +1,222 @@
+/**
+ * Analysis Types
+ */
+
+import type { AgentArchetype } from '../core/types.js';
+
+export type ReportFormat = 'md' | 'csv' | 'json';
+
+export const REPORT_FORMATS: readonly ReportFormat[] = ['md', 'csv', 'json'];
+
+export interface AnalyzeOptions {
+  /** Ticks per action-mix bucket (default 10) */
+  bucketSize?: number;
+  /** Energy points kept per agent; longer trajectories are downsampled (default 200) */
+  maxEnergyPoints?: number;
+}
+
+/** Action counts shared by archetype and agent reports */
+export interface ActivityCounts {
+  quotes: number;
+  quotesDenied: number;
+  creates: number;
+  derives: number;
+  jointAttempts: number;
+  jointSuccesses: number;
+  silences: number;
+  skips: number;
+  errors: number;
+  /** Cost paid for created and derived traces */
+  traceCost: number;
+}
+
+export interface ActivityRates {
+  /** traceCost / (creates + derives), null without traces */
+  costPerTrace: number | null;
+  /** jointSuccesses / jointAttempts, null without attempts */
+  jointSuccessRate: number | null;
+  /** quotesDenied / quotes, null without quotes */
+  quoteDenialRate: number | null;
+}
+
+export interface EnergyPoint {
+  tick: number;
+  energy: number;
+}
+
+export interface EnergySummary {
+  start: number | null;
+  end: number | null;
+  min: number | null;
+  max: number | null;
+  /** Mean over every recorded point (before downsampling) */
+  mean: number | null;
+  points: EnergyPoint[];
+}
+
+export interface AgentReport extends ActivityCounts, ActivityRates {
+  did: string;
+  archetype: AgentArchetype;
+  firstTick: number;
+  lastTick: number;
+  /**
+   * Ticks from the agent's first entry to the end of the run (to its last
+   * entry when the input does not say how long the run was). Action rates
+   * are per these ticks, so agents that go quiet are not inflated.
+   */
+  ticks: number;
+  energy: EnergySummary;
+}
+
+export interface ArchetypeReport extends ActivityCounts, ActivityRates {
+  archetype: AgentArchetype;
+  agents: number;
+}
+
+/** Actions per archetype in one tick window */
+export interface ActionMixBucket {
+  fromTick: number;
+  toTick: number;
+  archetype: AgentArchetype;
+  creates: number;
+  derives: number;
+  jointAttempts: number;
+  silences: number;
+  skips: number;
+}
+
+export interface ErrorHotspot {
+  context: string;
+  archetype: AgentArchetype;
+  count: number;
+  /** Most frequent message for this context */
+  topMessage: string;
+}
+
+export interface RunReport {
+  /** Log entries analyzed */
+  entries: number;
+  /** Lines that were not log entries (blank lines are not counted) */
+  skippedLines: number;
+  /** Agent tick range, null when no agent entries were seen */
+  tickRange: { from: number; to: number } | null;
+  /** Runner ticks the run lasted, from runner entries or cassette calls; null when unknown */
+  runTicks: number | null;
+  bucketSize: number;
+  archetypes: ArchetypeReport[];
+  agents: AgentReport[];
+  actionMix: ActionMixBucket[];
+  /** Denied quotes per archetype by reason */
+  quoteDenialReasons: Record<string, Record<string, number>>;
+  /** Skips per archetype by reason */
+  skipReasons: Record<string, Record<string, number>>;
+  errorHotspots: ErrorHotspot[];
+}
+
+// ============================================================================
+// COMPARISON
+// ============================================================================
+
+/**
+ * Metrics compared per archetype:
+ * - createRate, deriveRate, jointAttemptRate, silenceRate: actions per tick an agent was in the run
+ * - costPerTrace: mean cost of an agent's traces
+ * - energy: mean energy of an agent
+ * - quoteDenialRate, jointSuccessRate: pooled proportions
+ */
+export type ComparisonMetric =
+  | 'createRate'
+  | 'deriveRate'
+  | 'jointAttemptRate'
+  | 'silenceRate'
+  | 'costPerTrace'
+  | 'energy'
+  | 'quoteDenialRate'
+  | 'jointSuccessRate';
+
+export const COMPARISON_METRICS: readonly ComparisonMetric[] = [
+  'createRate',
+  'deriveRate',
+  'jointAttemptRate',
+  'silenceRate',
+  'costPerTrace',
+  'energy',
+  'quoteDenialRate',
+  'jointSuccessRate',
+];
+
+export type ComparisonFormat = 'md' | 'json';
+
+export const COMPARISON_FORMATS: readonly ComparisonFormat[] = ['md', 'json'];
+
+/**
+ * Fail when a metric changes significantly past a limit. The sign of the
+ * limit is the bad direction: -0.1 fails on a drop of 0.1 or more,
+ * +0.1 on a rise of 0.1 or more.
+ */
+export interface RegressionThreshold {
+  metric: ComparisonMetric;
+  /** Only this archetype (default: every archetype) */
+  archetype?: AgentArchetype;
+  limit: number;
+  /** Limit is a fraction of the baseline value instead of an absolute change */
+  relative: boolean;
+}
+
+export interface CompareOptions {
+  /** Confidence level of the intervals (default 0.95) */
+  confidence?: number;
+  thresholds?: RegressionThreshold[];
+}
+
+export interface MetricComparison {
+  archetype: AgentArchetype;
+  metric: ComparisonMetric;
+  /** Means are compared with Welch intervals, proportions with Newcombe intervals */
+  kind: 'mean' | 'proportion';
+  baseline: number | null;
+  candidate: number | null;
+  /** Samples behind each value: agents for means, trials for proportions */
+  baselineN: number;
+  candidateN: number;
+  /** candidate - baseline */
+  difference: number | null;
+  /** difference / baseline, null when the baseline is 0 or missing */
+  relativeChange: number | null;
+  /** Interval for the difference, null with too few samples */
+  ci: [number, number] | null;
+  /** The interval excludes 0 */
+  significant: boolean;
+}
+
+/** Two-sample Kolmogorov-Smirnov test over every energy point of an archetype */
+export interface DistributionComparison {
+  archetype: AgentArchetype;
+  baselineN: number;
+  candidateN: number;
+  /** Largest gap between the empirical distributions */
+  statistic: number;
+  pValue: number;
+  significant: boolean;
+}
+
+export interface Regression {
+  threshold: RegressionThreshold;
+  comparison: MetricComparison;
+  /** Change measured against the limit (relative or absolute) */
+  change: number;
+}
+
+export interface RunSummary {
+  agents: number;
+  tickRange: { from: number; to: number } | null;
+}
+
+export interface ComparisonReport {
+  confidence: number;
+  baseline: RunSummary;
+  candidate: RunSummary;
+  metrics: MetricComparison[];
+  energyDistributions: DistributionComparison[];
+  regressions: Regression[];
+}
@@ -0,0 +1,352 @@
+/**
+ * Probe Agent Base Class
+ *
+ * Owns everything archetypes have in common:
+ * - Registration (continuity seed → DID) via HabitatClient
+ * - Snapshot/restore of identity, counters and RNG for resuming
+ * - Perception
+ * - Quote-then-act for create, derive and joint actions
+ * - AgentState accounting and logging
+ * - Reconfiguration of a running agent (hot reload)
+ *
+ * Subclasses only implement step() (the decision policy) and
+ * decide what to do with quotes (budget checks, skip reasons).
+ */
+
+import type {
+  AgentArchetype,
+  AgentConfig,
+  AgentState,
+  PerceiveResponse,
+  QuoteResponse,
+  CreateTraceResponse,
+  DeriveTraceResponse,
+  JointQuoteResponse,
+  JointTraceResponse,
+  TraceGlimpse,
+  AffordanceWithSource,
+  TraceDraft,
+  ActionType,
+  MutationType,
+} from '../core/types.js';
+import { HttpClient } from '../core/http.js';
+import { HabitatClient } from '../core/habitat-client.js';
+import { SeededRNG } from '../core/rng.js';
+import { probeMetrics } from '../core/metrics.js';
+import type { AgentSnapshot } from '../state/types.js';
+import {
+  log,
+  logRegistered,
+  logPerceive,
+  logQuote,
+  logCreate,
+  logDerive,
+  logJointAttempt,
+  logError,
+} from '../core/logger.js';
+
+export abstract class ProbeAgent {
+  protected config: AgentConfig;
+  protected state: AgentState;
+  protected coreHttp: HttpClient;
+  protected perceptionHttp: HttpClient;
+  protected habitat: HabitatClient;
+  protected rng: SeededRNG;
+
+  constructor(config: AgentConfig, coreHttp: HttpClient, perceptionHttp: HttpClient) {
+    this.config = config;
+    this.coreHttp = coreHttp;
+    this.perceptionHttp = perceptionHttp;
+    this.habitat = new HabitatClient({
+      core: coreHttp,
+      perception: perceptionHttp,
+      archetype: config.archetype,
+    });
+    this.rng = new SeededRNG(config.seed);
+    this.state = {
+      did: null,
+      energy: 0,
+      tick: 0,
+      inSilenceMode: false,
+      tracesCreated: 0,
+      derivationsMade: 0,
+      jointAttempts: 0,
+      jointSuccesses: 0,
+      totalCostSpent: 0,
+    };
+  }
+
+  /** Archetype code used for logging and registry lookups */
+  get archetype(): AgentArchetype {
+    return this.config.archetype;
+  }
+
+  /** Agent index within its archetype */
+  get index(): number {
+    return this.config.index;
+  }
+
+  get seed(): number {
+    return this.config.seed;
+  }
+
+  /**
+   * One decision cycle. Called once per tick by the runner.
+   */
+  abstract step(): Promise<void>;
+
+  /**
+   * Apply new settings (e.g. cohort params) to a running agent. Identity,
+   * seed, counters and RNG are kept; subclasses re-read in applyConfig().
+   */
+  reconfigure(changes: Partial<AgentConfig>): void {
+    const { archetype, index, seed } = this.config;
+    this.config = { ...this.config, ...changes, archetype, index, seed };
+    this.applyConfig();
+  }
+
+  /**
+   * Refresh settings derived from this.config. Override together with
+   * reading them in the constructor.
+   */
+  protected applyConfig(): void {}
+
+  /**
+   * Seed sent on registration. Override to change the identity scheme.
+   */
+  protected continuitySeed(): string {
+    return `${this.config.archetype.toLowerCase()}-${this.config.index}-${this.rng.nextHex(16)}`;
+  }
+
+  async register(): Promise<boolean> {
+    const result = await this.habitat.register(this.continuitySeed());
+
+    if (!result.ok) {
+      logError(this.archetype, null, 0, result.error.message, 'register');
+      return false;
+    }
+
+    this.state.did = result.data.did;
+    this.state.energy = result.data.energy;
+    this.state.tick = result.data.tick;
+
+    logRegistered(this.archetype, this.state.did, this.state.energy, this.state.tick);
+    return true;
+  }
+
+  /**
+   * Resume a previously registered identity instead of registering.
+   * Returns false when the snapshot has no DID.
+   */
+  resume(snapshot: AgentSnapshot): boolean {
+    if (!snapshot.state.did) return false;
+
+    this.restore(snapshot);
+    log({
+      did: this.state.did,
+      archetype: this.archetype,
+      step: 'resumed',
+      tick: this.state.tick,
+      details: {
+        energy: this.state.energy,
+        tracesCreated: this.state.tracesCreated,
+        totalCostSpent: this.state.totalCostSpent,
+      },
+    });
+    return true;
+  }
+
+  /**
+   * Everything needed to continue this agent after a restart
+   */
+  snapshot(): AgentSnapshot {
+    const memory = this.snapshotMemory();
+    return {
+      state: { ...this.state },
+      rngState: this.rng.getState(),
+      ...(memory !== undefined ? { memory } : {}),
+    };
+  }
+
+  restore(snapshot: AgentSnapshot): void {
+    this.state = { ...this.state, ...snapshot.state };
+    this.rng.setState(snapshot.rngState);
+    if (snapshot.memory !== undefined) {
+      this.restoreMemory(snapshot.memory);
+    }
+  }
+
+  /**
+   * Archetype-specific memory to persist (must be JSON-serializable).
+   * Override together with restoreMemory().
+   */
+  protected snapshotMemory(): unknown {
+    return undefined;
+  }
+
+  protected restoreMemory(_memory: unknown): void {}
+
+  protected async perceive(): Promise<PerceiveResponse | null> {
+    const result = await this.habitat.perceive(this.state.did!);
+
+    if (!result.ok) {
+      logError(this.archetype, this.state.did, this.state.tick, result.error.message, 'perceive');
+      return null;
+    }
+
+    this.state.tick = result.data.tick;
+    logPerceive(
+      this.archetype,
+      this.state.did!,
+      this.state.tick,
+      result.data.glimpses.length,
+      result.data.nextSeeds.length
+    );
+
+    return result.data;
+  }
+
+  /**
+   * Quote an action. Updates energy from energyAfter and logs the quote.
+   * Returns null on transport failure (already logged).
+   */
+  protected async quote(action: ActionType, traceDraft: TraceDraft): Promise<QuoteResponse | null> {
+    const result = await this.habitat.quote(this.state.did!, action, traceDraft);
+
+    if (!result.ok) {
+      logError(this.archetype, this.state.did, this.state.tick, result.error.message, 'quote');
+      return null;
+    }
+
+    const quote = result.data;
+    this.state.energy = quote.energyAfter;
+    probeMetrics.quotes.inc({ archetype: this.archetype, kind: 'action', allowed: String(quote.allowed) });
+    logQuote(this.archetype, this.state.did!, this.state.tick, quote.cost, quote.allowed, {
+      energyAfter: quote.energyAfter,
+      ...(quote.reasons?.length ? { reasons: quote.reasons } : {}),
+    });
+    return quote;
+  }
+
+  /**
+   * Create a trace (call only after an allowed quote)
+   */
+  protected async createTrace(traceDraft: TraceDraft): Promise<CreateTraceResponse | null> {
+    const result = await this.habitat.createTrace(this.state.did!, traceDraft);
+
+    if (!result.ok) {
+      logError(this.archetype, this.state.did, this.state.tick, result.error.message, 'create');
+      return null;
+    }
+
+    this.state.tracesCreated++;
+    this.state.totalCostSpent += result.data.costPaid;
+    this.state.tick = result.data.tick;
+    probeMetrics.tracesCreated.inc({ archetype: this.archetype });
+    probeMetrics.costSpent.inc({ archetype: this.archetype }, result.data.costPaid);
+
+    logCreate(this.archetype, this.state.did!, this.state.tick, result.data.traceId, result.data.costPaid);
+    return result.data;
+  }
+
+  /**
+   * Derive a trace from a parent (call only after an allowed quote)
+   */
+  protected async deriveTrace(
+    parentTraceId: string,
+    traceDraft: TraceDraft,
+    mutation: MutationType = 'partial'
+  ): Promise<DeriveTraceResponse | null> {
+    const result = await this.habitat.deriveTrace(this.state.did!, parentTraceId, mutation, traceDraft);
+
+    if (!result.ok) {
+      logError(this.archetype, this.state.did, this.state.tick, result.error.message, 'derive');
+      return null;
+    }
+
+    this.state.derivationsMade++;
+    this.state.totalCostSpent += result.data.costPaid;
+    this.state.tick = result.data.tick;
+    probeMetrics.derivations.inc({ archetype: this.archetype });
+    probeMetrics.costSpent.inc({ archetype: this.archetype }, result.data.costPaid);
+
+    logDerive(
+      this.archetype,
+      this.state.did!,
+      this.state.tick,
+      result.data.traceId,
+      [parentTraceId],
+      result.data.costPaid
+    );
+    return result.data;
+  }
+
+  /**
+   * Quote a joint action. Logs the quote; joint quotes carry no energyAfter.
+   */
+  protected async jointQuote(affordanceId: string): Promise<JointQuoteResponse | null> {
+    const result = await this.habitat.jointQuote(this.state.did!, affordanceId);
+
+    if (!result.ok) {
+      logError(this.archetype, this.state.did, this.state.tick, result.error.message, 'joint_quote');
+      return null;
+    }
+
+    const quote = result.data;
+    probeMetrics.quotes.inc({ archetype: this.archetype, kind: 'joint', allowed: String(quote.allowed) });
+    logQuote(this.archetype, this.state.did!, this.state.tick, quote.cost, quote.allowed);
+    return quote;
+  }
+
+  /**
+   * Attempt a joint action. Cost is only counted when the joint trace is created.
+   */
+  protected async jointTrace(
+    affordanceId: string,
+    traceDraft: TraceDraft,
+    quotedCost: number
+  ): Promise<JointTraceResponse | null> {
+    const result = await this.habitat.jointTrace(this.state.did!, affordanceId, traceDraft);
+
+    if (!result.ok) {
+      logError(this.archetype, this.state.did, this.state.tick, result.error.message, 'joint_action');
+      return null;
+    }
+
+    this.state.jointAttempts++;
+    this.state.tick = result.data.tick;
+    probeMetrics.jointAttempts.inc({ archetype: this.archetype });
+
+    if (result.data.status === 'created') {
+      this.state.jointSuccesses++;
+      this.state.totalCostSpent += quotedCost;
+      probeMetrics.jointSuccesses.inc({ archetype: this.archetype });
+      probeMetrics.costSpent.inc({ archetype: this.archetype }, quotedCost);
+    }
+
+    logJointAttempt(this.archetype, this.state.did!, this.state.tick, affordanceId, result.data.status);
+    return result.data;
+  }
+
+  /**
+   * Flatten joint affordances from glimpses, keeping the source trace
+   */
+  protected findAffordances(glimpses: TraceGlimpse[]): AffordanceWithSource[] {
+    const affordances: AffordanceWithSource[] = [];
+    for (const glimpse of glimpses) {
+      if (glimpse.jointAffordances && glimpse.jointAffordances.length > 0) {
+        for (const aff of glimpse.jointAffordances) {
+          affordances.push({
+            ...aff,
+            sourceTraceId: glimpse.traceId,
+          });
+        }
+      }
+    }
+    return affordances;
+  }
+
+  getState(): AgentState {
+    return { ...this.state };
+  }
+}
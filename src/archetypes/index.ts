@@ -2,6 +2,21 @@
  * Probe Agents Kit - Archetypes
  */
 
+export { ProbeAgent } from './base.js';
+export {
+  registerArchetype,
+  unregisterArchetype,
+  getArchetype,
+  listArchetypes,
+  createArchetypeAgent,
+  reconfigureArchetypeAgent,
+  loadPlugins,
+  llmConfigFromProbeConfig,
+  type ArchetypeContext,
+  type ArchetypeFactory,
+  type ArchetypeDefinition,
+} from './registry.js';
+
 export { QuietSensor, createQuietSensor } from './quiet-sensor.js';
 export { CostBoundCrafter, createCostBoundCrafter } from './cost-bound-crafter.js';
 export { JointProspector, createJointProspector } from './joint-prospector.js';
@@ -12,6 +27,45 @@ export {
   type LLMActionType,
   type LLMDecision,
 } from './llm-probe.js';
+export {
+  LLMMemory,
+  createLLMMemory,
+  estimateTokens,
+  type Episode,
+  type EpisodeOutcome,
+  type Observation,
+  type MemoryOptions,
+  type MemorySnapshot,
+  type MemoryContext,
+} from './llm-memory.js';
+export {
+  DEFAULT_PROMPT_TEMPLATE,
+  PROMPT_SECTIONS,
+  DECISION_VARIABLES,
+  REFLECTION_VARIABLES,
+  promptVersion,
+  renderPrompt,
+  validatePromptTemplate,
+  parsePromptTemplate,
+  loadPromptTemplate,
+  type PromptTemplate,
+  type PromptSection,
+  type DecisionVariables,
+  type ReflectionVariables,
+} from './llm-prompts.js';
+export {
+  LLMPlan,
+  createLLMPlan,
+  parsePlanConditions,
+  failedCondition,
+  changedMaterially,
+  PLAN_CONDITIONS,
+  type PlanConditions,
+  type PlanStep,
+  type PlanView,
+  type PlanEndReason,
+  type PlanNext,
+} from './llm-plan.js';
 
 // Template for creating your own archetype
 export { MinimalAgent, createMinimalAgent } from './template-minimal.js';
@@ -0,0 +1,97 @@
+/**
+ * Tests for LLM Probe Memory
+ */
+
+import { describe, it, expect } from 'vitest';
+import { createLLMMemory, estimateTokens, type Episode } from './llm-memory.js';
+
+function episode(tick: number, overrides: Partial<Episode> = {}): Episode {
+  return { tick, action: 'CREATE_TRACE', outcome: 'ok', traceId: `trace:${tick}`, cost: 1, ...overrides };
+}
+
+describe('LLMMemory', () => {
+  it('keeps the latest episodes, own traces and affordances within its size', () => {
+    const memory = createLLMMemory({ size: 3, tokens: 10_000 });
+    for (let tick = 1; tick <= 5; tick++) memory.record(episode(tick));
+    memory.record(episode(6, { action: 'JOINT_ATTEMPT', outcome: 'denied', reason: 'joint_not_allowed', traceId: undefined, cost: undefined, affordanceId: 'aff:1' }));
+    memory.record(episode(7, { action: 'JOINT_ATTEMPT', outcome: 'denied', reason: 'joint_not_allowed', traceId: undefined, cost: undefined, affordanceId: 'aff:1' }));
+
+    const context = memory.context()!;
+    expect(context.recentActions).toEqual([
+      't5 CREATE_TRACE ok trace:5 cost 1.0',
+      't6 JOINT_ATTEMPT denied (joint_not_allowed) on aff:1',
+      't7 JOINT_ATTEMPT denied (joint_not_allowed) on aff:1',
+    ]);
+    expect(context.ownTraces).toEqual(['trace:3', 'trace:4', 'trace:5']);
+    expect(context.triedAffordances).toEqual(['aff:1 denied']);
+    expect(context.quoteDenials).toEqual({ joint_not_allowed: 2 });
+    expect(memory.pending).toBe(7);
+  });
+
+  it('reports trends over recent perceptions', () => {
+    const memory = createLLMMemory({ size: 5, tokens: 10_000 });
+    memory.observe({ tick: 10, energy: 8, glimpses: 4, forgeTraces: 1, affordances: 0 });
+    expect(memory.context()!.trends).toBeNull();
+    memory.observe({ tick: 14, energy: 6.25, glimpses: 7, forgeTraces: 2, affordances: 1 });
+    expect(memory.context()!.trends).toBe('over 4 ticks: energy 8→6.3, glimpses 4→7, forgeTraces 1→2, affordances 0→1');
+  });
+
+  it('trims detail to fit the token budget, keeping notes and the latest actions', () => {
+    const memory = createLLMMemory({ size: 20, tokens: 10_000 });
+    for (let tick = 1; tick <= 20; tick++) memory.record(episode(tick, { affordanceId: `aff:${tick}` }));
+    memory.compress(['prefer CREATE_TRACE while energy is high']);
+    for (let tick = 21; tick <= 30; tick++) memory.record(episode(tick));
+
+    memory.configure({ size: 20, tokens: 120 });
+    const context = memory.context()!;
+    expect(estimateTokens(context)).toBeLessThanOrEqual(120);
+    expect(context.notes).toEqual(['prefer CREATE_TRACE while energy is high']);
+    expect(context.recentActions.at(-1)).toBe('t30 CREATE_TRACE ok trace:30 cost 1.0');
+    expect(context.recentActions.length).toBeGreaterThanOrEqual(1);
+  });
+
+  it('compresses history into notes on reflection', () => {
+    const memory = createLLMMemory({ size: 20, tokens: 10_000 });
+    memory.record(episode(1));
+    memory.record(episode(2, { action: 'DERIVE_TRACE', outcome: 'denied', reason: 'safety_check_failed', traceId: undefined }));
+    memory.record(episode(3));
+    memory.record(episode(4, { action: 'SILENCE', outcome: 'ok', traceId: undefined, cost: undefined }));
+    expect(memory.reflectionDue(4)).toBe(true);
+    expect(memory.reflectionDue(0)).toBe(false);
+
+    const summary = memory.summarize();
+    expect(summary).toBe('t1-t4: CREATE_TRACE 2 ok; DERIVE_TRACE 1 denied (safety_check_failed); SILENCE 1 ok');
+
+    memory.compress([summary, '  ', 'a', 'b', 'c']);
+    const context = memory.context()!;
+    expect(context.notes).toEqual([summary, 'a', 'b']);
+    expect(context.recentActions).toHaveLength(3);
+    expect(memory.pending).toBe(0);
+    expect(memory.reflectionDue(4)).toBe(false);
+  });
+
+  it('records nothing when its size is 0', () => {
+    const memory = createLLMMemory({ size: 0, tokens: 400 });
+    memory.record(episode(1));
+    expect(memory.enabled).toBe(false);
+    expect(memory.context()).toBeNull();
+    expect(memory.reflectionDue(1)).toBe(false);
+  });
+
+  it('restores a snapshot and ignores malformed ones', () => {
+    const memory = createLLMMemory({ size: 5, tokens: 10_000 });
+    memory.record(episode(1, { affordanceId: 'aff:1' }));
+    memory.record(episode(2, { outcome: 'denied', reason: 'not_allowed', traceId: undefined }));
+    memory.compress(['note']);
+    const snapshot = JSON.parse(JSON.stringify(memory.snapshot()));
+
+    const restored = createLLMMemory({ size: 5, tokens: 10_000 });
+    restored.restore(snapshot);
+    expect(restored.context()).toEqual(memory.context());
+    expect(restored.snapshot()).toEqual(memory.snapshot());
+
+    restored.restore({ episodes: 'nope', notes: [1] });
+    restored.restore(null);
+    expect(restored.snapshot()).toEqual(memory.snapshot());
+  });
+});
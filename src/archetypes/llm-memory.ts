@@ -0,0 +1,298 @@
+/**
+ * LLM Probe Memory
+ *
+ * Bounded episodic memory for LLM probes: recent actions with outcomes,
+ * quote denials, own trace IDs, affordances already tried and habitat
+ * trends, plus notes left by periodic reflection. context() renders it
+ * for the prompt within a token budget, dropping detail before notes.
+ */
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * How an action ended:
+ * - ok: executed (or a deliberate silence)
+ * - denied: the habitat's quote did not allow it
+ * - skipped: the probe's own rails stopped it (floor, budget, nothing to act on)
+ * - failed: a habitat call failed
+ */
+export type EpisodeOutcome = 'ok' | 'denied' | 'skipped' | 'failed';
+
+export interface Episode {
+  tick: number;
+  action: string;
+  outcome: EpisodeOutcome;
+  /** Skip or denial reason, or the joint status */
+  reason?: string;
+  /** Trace created, for ok episodes */
+  traceId?: string;
+  /** Trace derived from */
+  parentTraceId?: string;
+  affordanceId?: string;
+  cost?: number;
+}
+
+/** What one perception looked like */
+export interface Observation {
+  tick: number;
+  energy: number;
+  glimpses: number;
+  forgeTraces: number;
+  affordances: number;
+}
+
+export interface MemoryOptions {
+  /** Episodes, traces and affordances kept (0 = memory off) */
+  size: number;
+  /** Rough token budget for the rendered memory */
+  tokens: number;
+}
+
+/** Persisted with the agent's state */
+export interface MemorySnapshot {
+  episodes: Episode[];
+  observations: Observation[];
+  ownTraces: string[];
+  /** Last outcome per affordance, oldest first */
+  affordances: Array<[affordanceId: string, outcome: EpisodeOutcome]>;
+  denials: Record<string, number>;
+  notes: string[];
+  sinceReflection: number;
+}
+
+/** What the prompt sees */
+export interface MemoryContext {
+  notes: string[];
+  recentActions: string[];
+  ownTraces: string[];
+  triedAffordances: string[];
+  quoteDenials: Record<string, number>;
+  trends: string | null;
+}
+
+/** Perceptions kept for trends */
+const OBSERVATIONS = 10;
+
+/** Notes kept across reflections */
+const MAX_NOTES = 6;
+
+/** Notes taken from one reflection */
+const NOTES_PER_REFLECTION = 3;
+
+const NOTE_LENGTH = 200;
+
+/** Episodes left after a reflection compresses the rest into notes */
+const KEEP_AFTER_REFLECTION = 3;
+
+/** Recent actions kept while trimming other detail to fit the budget */
+const MIN_RECENT_ACTIONS = 3;
+
+/**
+ * Rough token count of a value as JSON (about 4 characters per token)
+ */
+export function estimateTokens(value: unknown): number {
+  return Math.ceil(JSON.stringify(value).length / 4);
+}
+
+function describeEpisode(episode: Episode): string {
+  return [
+    `t${episode.tick}`,
+    episode.action,
+    episode.outcome,
+    episode.reason ? `(${episode.reason})` : '',
+    episode.traceId ?? '',
+    episode.parentTraceId ? `from ${episode.parentTraceId}` : '',
+    episode.affordanceId ? `on ${episode.affordanceId}` : '',
+    episode.cost !== undefined ? `cost ${episode.cost.toFixed(1)}` : '',
+  ].filter(Boolean).join(' ');
+}
+
+function isArray<T>(value: unknown, check: (item: unknown) => boolean): value is T[] {
+  return Array.isArray(value) && value.every(check);
+}
+
+// ============================================================================
+// MEMORY
+// ============================================================================
+
+export class LLMMemory {
+  private episodes: Episode[] = [];
+  private observations: Observation[] = [];
+  private ownTraces: string[] = [];
+  private affordances = new Map<string, EpisodeOutcome>();
+  private denials: Record<string, number> = {};
+  private notes: string[] = [];
+  private sinceReflection = 0;
+
+  constructor(private options: MemoryOptions) {}
+
+  get enabled(): boolean {
+    return this.options.size > 0;
+  }
+
+  /** Episodes recorded since the last reflection */
+  get pending(): number {
+    return this.sinceReflection;
+  }
+
+  configure(options: MemoryOptions): void {
+    this.options = options;
+    this.trim();
+  }
+
+  record(episode: Episode): void {
+    if (!this.enabled) return;
+
+    this.episodes.push(episode);
+    this.sinceReflection++;
+    if (episode.outcome === 'ok' && episode.traceId && !this.ownTraces.includes(episode.traceId)) {
+      this.ownTraces.push(episode.traceId);
+    }
+    if (episode.affordanceId) {
+      this.affordances.delete(episode.affordanceId);
+      this.affordances.set(episode.affordanceId, episode.outcome);
+    }
+    if (episode.outcome === 'denied') {
+      const reason = episode.reason ?? 'not_allowed';
+      this.denials[reason] = (this.denials[reason] ?? 0) + 1;
+    }
+    this.trim();
+  }
+
+  observe(observation: Observation): void {
+    if (!this.enabled) return;
+    this.observations.push(observation);
+    if (this.observations.length > OBSERVATIONS) this.observations.shift();
+  }
+
+  /**
+   * Reflection is due every `every` recorded episodes (0 = never)
+   */
+  reflectionDue(every: number): boolean {
+    return this.enabled && every > 0 && this.sinceReflection >= every;
+  }
+
+  /**
+   * Deterministic note for the current episodes (reflection fallback)
+   */
+  summarize(): string {
+    if (this.episodes.length === 0) return 'No actions yet';
+
+    const byAction = new Map<string, Map<string, number>>();
+    for (const episode of this.episodes) {
+      const outcomes = byAction.get(episode.action) ?? new Map<string, number>();
+      const key = episode.reason && episode.outcome !== 'ok' ? `${episode.outcome} (${episode.reason})` : episode.outcome;
+      outcomes.set(key, (outcomes.get(key) ?? 0) + 1);
+      byAction.set(episode.action, outcomes);
+    }
+
+    const first = this.episodes[0]!.tick;
+    const last = this.episodes.at(-1)!.tick;
+    const parts = [...byAction].map(([action, outcomes]) =>
+      `${action} ${[...outcomes].map(([outcome, count]) => `${count} ${outcome}`).join(', ')}`);
+    return `t${first}-t${last}: ${parts.join('; ')}`.slice(0, NOTE_LENGTH);
+  }
+
+  /**
+   * Keep the reflection's notes and drop all but the latest episodes
+   */
+  compress(notes: string[]): void {
+    const kept = notes
+      .map(note => note.trim().slice(0, NOTE_LENGTH))
+      .filter(Boolean)
+      .slice(0, NOTES_PER_REFLECTION);
+    this.notes.push(...kept);
+    this.notes = this.notes.slice(-MAX_NOTES);
+    this.episodes = this.episodes.slice(-KEEP_AFTER_REFLECTION);
+    this.sinceReflection = 0;
+  }
+
+  /**
+   * Memory for the prompt, within the token budget (null when off)
+   */
+  context(): MemoryContext | null {
+    if (!this.enabled) return null;
+
+    const context: MemoryContext = {
+      notes: [...this.notes],
+      recentActions: this.episodes.map(describeEpisode),
+      ownTraces: [...this.ownTraces],
+      triedAffordances: [...this.affordances].map(([id, outcome]) => `${id} ${outcome}`),
+      quoteDenials: { ...this.denials },
+      trends: this.trends(),
+    };
+
+    // Oldest detail goes first; notes and the latest actions go last
+    const trimmers: Array<() => boolean> = [
+      () => context.recentActions.length > MIN_RECENT_ACTIONS && !!context.recentActions.shift(),
+      () => !!context.triedAffordances.shift(),
+      () => !!context.ownTraces.shift(),
+      () => context.trends !== null && !(context.trends = null),
+      () => {
+        const reason = Object.keys(context.quoteDenials)[0];
+        return reason !== undefined && delete context.quoteDenials[reason];
+      },
+      () => !!context.recentActions.shift(),
+      () => !!context.notes.shift(),
+    ];
+    while (estimateTokens(context) > this.options.tokens && trimmers.some(trim => trim())) {
+      // each pass drops one item
+    }
+    return context;
+  }
+
+  snapshot(): MemorySnapshot {
+    return {
+      episodes: [...this.episodes],
+      observations: [...this.observations],
+      ownTraces: [...this.ownTraces],
+      affordances: [...this.affordances],
+      denials: { ...this.denials },
+      notes: [...this.notes],
+      sinceReflection: this.sinceReflection,
+    };
+  }
+
+  /**
+   * Restore a snapshot; anything malformed is ignored
+   */
+  restore(snapshot: unknown): void {
+    if (!snapshot || typeof snapshot !== 'object') return;
+    const s = snapshot as Partial<MemorySnapshot>;
+    const isString = (v: unknown) => typeof v === 'string';
+    const isObject = (v: unknown) => !!v && typeof v === 'object';
+
+    if (isArray<Episode>(s.episodes, isObject)) this.episodes = [...s.episodes];
+    if (isArray<Observation>(s.observations, isObject)) this.observations = [...s.observations];
+    if (isArray<string>(s.ownTraces, isString)) this.ownTraces = [...s.ownTraces];
+    if (isArray<[string, EpisodeOutcome]>(s.affordances, Array.isArray)) this.affordances = new Map(s.affordances);
+    if (isObject(s.denials)) this.denials = { ...s.denials };
+    if (isArray<string>(s.notes, isString)) this.notes = [...s.notes];
+    if (typeof s.sinceReflection === 'number') this.sinceReflection = s.sinceReflection;
+    this.trim();
+  }
+
+  private trends(): string | null {
+    if (this.observations.length < 2) return null;
+    const first = this.observations[0]!;
+    const last = this.observations.at(-1)!;
+    const change = (key: keyof Observation) => `${key} ${+first[key].toFixed(1)}→${+last[key].toFixed(1)}`;
+    return `over ${last.tick - first.tick} ticks: ${(['energy', 'glimpses', 'forgeTraces', 'affordances'] as const).map(change).join(', ')}`;
+  }
+
+  private trim(): void {
+    const size = this.options.size;
+    if (size <= 0) return;
+    this.episodes = this.episodes.slice(-size);
+    this.ownTraces = this.ownTraces.slice(-size);
+    while (this.affordances.size > size) {
+      this.affordances.delete(this.affordances.keys().next().value!);
+    }
+  }
+}
+
+export function createLLMMemory(options: MemoryOptions): LLMMemory {
+  return new LLMMemory(options);
+}
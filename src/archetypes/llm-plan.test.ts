@@ -0,0 +1,58 @@
+/**
+ * Tests for LLM Probe Plans
+ */
+
+import { describe, it, expect } from 'vitest';
+import { changedMaterially, createLLMPlan, failedCondition, parsePlanConditions, type PlanView } from './llm-plan.js';
+
+function view(overrides: Partial<PlanView> = {}): PlanView {
+  return { energy: 8, glimpses: 10, affordanceIds: ['aff:1'], derivableTraceIds: ['trace:1', 'trace:2'], ...overrides };
+}
+
+describe('LLMPlan', () => {
+  it('parses preconditions and rejects unknown or mistyped ones', () => {
+    expect(parsePlanConditions({ energyAbove: 5, affordancePresent: true })).toEqual({ energyAbove: 5, affordancePresent: true });
+    expect(parsePlanConditions({ energyAbove: '5' })).toBeNull();
+    expect(parsePlanConditions({ zone: 'FORGE' })).toBeNull();
+    expect(parsePlanConditions([])).toBeNull();
+  });
+
+  it('checks preconditions against the step and the current view', () => {
+    const join = { decision: { action: 'JOINT_ATTEMPT' as const, reason: 'r', params: { affordanceId: 'aff:1' } } };
+
+    expect(failedCondition({ ...join, when: { energyAbove: 8 } }, view())).toBe('energyAbove');
+    expect(failedCondition({ ...join, when: { energyBelow: 9 } }, view())).toBeNull();
+    expect(failedCondition({ ...join, when: { affordancePresent: true } }, view())).toBeNull();
+    expect(failedCondition({ ...join, when: { affordancePresent: true } }, view({ affordanceIds: ['aff:2'] }))).toBe('affordancePresent');
+
+    const derive = { decision: { action: 'DERIVE_TRACE' as const, reason: 'r' }, when: { tracePresent: true } };
+    expect(failedCondition(derive, view())).toBeNull();
+    expect(failedCondition(derive, view({ derivableTraceIds: [] }))).toBe('tracePresent');
+  });
+
+  it('treats new affordances and large count swings as material changes', () => {
+    expect(changedMaterially(view(), view({ glimpses: 14, affordanceIds: [] }))).toBe(false);
+    expect(changedMaterially(view(), view({ affordanceIds: ['aff:1', 'aff:2'] }))).toBe(true);
+    expect(changedMaterially(view(), view({ glimpses: 16 }))).toBe(true);
+    expect(changedMaterially(view(), view({ derivableTraceIds: ['t1', 't2', 't3', 't4', 't5'] }))).toBe(true);
+  });
+
+  it('hands out steps until it completes, a precondition fails or perception changes', () => {
+    const steps = [
+      { decision: { action: 'CREATE_TRACE' as const, reason: 'r' } },
+      { decision: { action: 'SILENCE' as const, reason: 'r' }, when: { energyBelow: 5 } },
+    ];
+
+    const plan = createLLMPlan(steps, view(), 'build');
+    expect(plan.next(view())).toEqual({ step: steps[0], index: 0 });
+    expect(plan.next(view())).toEqual({ end: 'precondition_failed', step: steps[1], condition: 'energyBelow' });
+    expect(plan.next(view({ energy: 4 }))).toEqual({ step: steps[1], index: 1 });
+    expect(plan.next(view())).toEqual({ end: 'complete' });
+    expect(plan.executed).toBe(2);
+
+    const changed = createLLMPlan(steps, view(), 'build');
+    changed.next(view());
+    expect(changed.next(view({ energy: 4, affordanceIds: ['aff:9'] }))).toEqual({ end: 'perception_changed' });
+    expect(changed.remaining).toBe(1);
+  });
+});
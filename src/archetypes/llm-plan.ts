@@ -0,0 +1,167 @@
+/**
+ * LLM Probe Plans
+ *
+ * In planning mode an LLM probe asks for a short plan instead of one
+ * action, then runs one step per tick without asking again. A plan ends
+ * when it completes, when a step's preconditions no longer hold, or when
+ * the habitat looks materially different from when it was made.
+ */
+
+import type { LLMDecision } from './llm-probe.js';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/** Preconditions on one step, all of which must hold when it is due */
+export interface PlanConditions {
+  /** Energy must be above this */
+  energyAbove?: number;
+  /** Energy must be below this */
+  energyBelow?: number;
+  /** The step's affordanceId (or, without one, any affordance) is still visible */
+  affordancePresent?: boolean;
+  /** The step's parentTraceId (or, without one, any derivable trace) is still visible */
+  tracePresent?: boolean;
+}
+
+export const PLAN_CONDITIONS: readonly (keyof PlanConditions)[] = [
+  'energyAbove',
+  'energyBelow',
+  'affordancePresent',
+  'tracePresent',
+];
+
+export interface PlanStep {
+  decision: LLMDecision;
+  when?: PlanConditions;
+}
+
+/** What a plan checks against each tick */
+export interface PlanView {
+  energy: number;
+  glimpses: number;
+  affordanceIds: string[];
+  derivableTraceIds: string[];
+}
+
+/**
+ * Why a plan ended:
+ * - complete: every step ran
+ * - precondition_failed: the next step's preconditions did not hold
+ * - perception_changed: new affordances, or glimpse or derivable trace counts moved a lot
+ */
+export type PlanEndReason = 'complete' | 'precondition_failed' | 'perception_changed';
+
+export type PlanNext =
+  | { step: PlanStep; index: number }
+  | { end: PlanEndReason; step?: PlanStep; condition?: keyof PlanConditions };
+
+/** A count moved materially when it changes by more than this, or half its old value if larger */
+const MIN_MATERIAL_CHANGE = 2;
+
+// ============================================================================
+// CONDITIONS
+// ============================================================================
+
+/**
+ * Preconditions from an answer, or null when they are malformed
+ */
+export function parsePlanConditions(value: unknown): PlanConditions | null {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return null;
+
+  const conditions: PlanConditions = {};
+  for (const [key, operand] of Object.entries(value)) {
+    switch (key) {
+      case 'energyAbove':
+      case 'energyBelow':
+        if (typeof operand !== 'number' || !Number.isFinite(operand)) return null;
+        conditions[key] = operand;
+        break;
+      case 'affordancePresent':
+      case 'tracePresent':
+        if (typeof operand !== 'boolean') return null;
+        conditions[key] = operand;
+        break;
+      default:
+        return null;
+    }
+  }
+  return conditions;
+}
+
+/**
+ * First precondition of a step that does not hold, or null
+ */
+export function failedCondition(step: PlanStep, view: PlanView): keyof PlanConditions | null {
+  const when = step.when ?? {};
+  const { affordanceId, parentTraceId } = step.decision.params ?? {};
+
+  if (when.energyAbove !== undefined && !(view.energy > when.energyAbove)) return 'energyAbove';
+  if (when.energyBelow !== undefined && !(view.energy < when.energyBelow)) return 'energyBelow';
+  if (when.affordancePresent) {
+    const present = affordanceId ? view.affordanceIds.includes(affordanceId) : view.affordanceIds.length > 0;
+    if (!present) return 'affordancePresent';
+  }
+  if (when.tracePresent) {
+    const present = parentTraceId ? view.derivableTraceIds.includes(parentTraceId) : view.derivableTraceIds.length > 0;
+    if (!present) return 'tracePresent';
+  }
+  return null;
+}
+
+function movedMaterially(before: number, after: number): boolean {
+  return Math.abs(after - before) > Math.max(MIN_MATERIAL_CHANGE, before / 2);
+}
+
+/**
+ * True when new affordances appeared or the habitat grew or shrank a lot
+ */
+export function changedMaterially(before: PlanView, after: PlanView): boolean {
+  return after.affordanceIds.some(id => !before.affordanceIds.includes(id))
+    || movedMaterially(before.glimpses, after.glimpses)
+    || movedMaterially(before.derivableTraceIds.length, after.derivableTraceIds.length);
+}
+
+// ============================================================================
+// PLAN
+// ============================================================================
+
+export class LLMPlan {
+  private index = 0;
+
+  constructor(
+    readonly steps: PlanStep[],
+    /** The view the plan was made for */
+    private baseline: PlanView,
+    readonly reason: string
+  ) {}
+
+  /** Steps handed out so far */
+  get executed(): number {
+    return this.index;
+  }
+
+  get remaining(): number {
+    return this.steps.length - this.index;
+  }
+
+  /**
+   * The next step if it may run now, or why the plan ends
+   */
+  next(view: PlanView): PlanNext {
+    if (this.index >= this.steps.length) return { end: 'complete' };
+    if (this.index > 0 && changedMaterially(this.baseline, view)) return { end: 'perception_changed' };
+
+    const step = this.steps[this.index]!;
+    const condition = failedCondition(step, view);
+    if (condition) return { end: 'precondition_failed', step, condition };
+
+    this.index++;
+    return { step, index: this.index - 1 };
+  }
+}
+
+export function createLLMPlan(steps: PlanStep[], baseline: PlanView, reason: string): LLMPlan {
+  return new LLMPlan(steps, baseline, reason);
+}
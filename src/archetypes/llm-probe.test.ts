@@ -10,6 +10,7 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { LLMProbe, createLLMProbe, type LLMConfig, type LLMDecision } from './llm-probe.js';
 import type { AgentConfig } from '../core/types.js';
+import { createFakeProvider } from '../llm/index.js';
 
 // Mock the FRUX LLM client
 vi.mock('../core/frux-llm.js', () => ({
@@ -185,6 +186,22 @@ describe('LLM Probe', () => {
       }));
       expect(result2?.params?.opacity).toBe(1);
     });
+
+    it('rejects malformed params', () => {
+      const parseDecision = getParseDecision();
+      const decide = (params: unknown) => parseDecision(JSON.stringify({ action: 'CREATE_TRACE', reason: 'test', params }));
+
+      expect(decide('deep')).toBeNull();
+      expect(decide({ intents: '∇obs' })).toBeNull();
+      expect(decide({ permanence: '3' })).toBeNull();
+      expect(decide({ parentTraceId: 7 })).toBeNull();
+      expect(decide({ inquiryType: 'SIDEWAYS' })).toBeNull();
+      expect(decide({ affordanceId: 'a1', extra: true })).toEqual({
+        action: 'CREATE_TRACE',
+        reason: 'test',
+        params: { affordanceId: 'a1' },
+      });
+    });
   });
 
   describe('Forbidden Actions', () => {
@@ -370,4 +387,215 @@ describe('LLM Probe', () => {
       expect(state.totalCostSpent).toBe(0);
     });
   });
+
+  describe('Scripted Provider', () => {
+    const fakeSettings = { kind: 'fake' as const, apiUrl: '', apiKey: '', model: '', timeoutMs: 10, maxRetries: 0, preferLocal: false };
+
+    it('decides from script rules on the context without mocking fetch', async () => {
+      const provider = createFakeProvider(fakeSettings, {
+        rules: [{ when: { 'agent.energy': { lt: 5 } }, decision: { action: 'SILENCE', reason: 'resting' } }],
+        sequence: [{ action: 'CREATE_TRACE' }],
+        failures: [{ kind: 'malformed', calls: [3] }],
+      });
+      const probe = createLLMProbe(mockAgentConfig, { ...mockLLMConfig, provider }, mockCoreHttp as any, mockPerceptionHttp as any);
+
+      expect(await (probe as any).askLLM({ agent: { energy: 2 } })).toEqual({ action: 'SILENCE', reason: 'resting' });
+      expect(await (probe as any).askLLM({ agent: { energy: 9 } })).toEqual({ action: 'CREATE_TRACE', reason: 'sequence 1' });
+      expect(await (probe as any).askLLM({ agent: { energy: 9 } })).toBeNull();
+      expect(provider.callCount).toBe(3);
+    });
+  });
+
+  describe('Memory', () => {
+    const fakeSettings = { kind: 'fake' as const, apiUrl: '', apiKey: '', model: '', timeoutMs: 10, maxRetries: 0, preferLocal: false };
+
+    it('remembers denied quotes and reflects them into notes', async () => {
+      const { log } = await import('../core/logger.js');
+      const provider = createFakeProvider(fakeSettings, { sequence: [{ action: 'SILENCE' }] });
+      const probe = createLLMProbe(
+        mockAgentConfig,
+        { ...mockLLMConfig, provider, reflectEvery: 2 },
+        mockCoreHttp as any,
+        mockPerceptionHttp as any
+      );
+      (probe as any).state.did = 'agent:0x123';
+      (probe as any).state.tick = 100;
+
+      mockCoreHttp.post.mockResolvedValueOnce({
+        ok: true,
+        data: { cost: 5.0, allowed: false, energyAfter: 3.0, reason: 'insufficient_energy' },
+      });
+      await (probe as any).executeDecision({ action: 'CREATE_TRACE', reason: 'Testing' }, { glimpses: [], nextSeeds: [], tick: 100 });
+      await (probe as any).executeDecision({ action: 'SILENCE', reason: 'Testing' }, { glimpses: [], nextSeeds: [], tick: 100 });
+
+      const memory = (probe as any).memory;
+      expect(memory.context()).toMatchObject({
+        recentActions: ['t100 CREATE_TRACE denied (not_allowed)', 't100 SILENCE ok'],
+        quoteDenials: { not_allowed: 1 },
+      });
+      expect(memory.reflectionDue(2)).toBe(true);
+
+      // The fake provider leaves reflection notes to the probe's own summary
+      await (probe as any).reflect();
+      expect(log).toHaveBeenCalledWith(expect.objectContaining({
+        step: 'llm_reflection',
+        details: {
+          source: 'summary',
+          episodes: 2,
+          notes: ['t100-t100: CREATE_TRACE 1 denied (not_allowed); SILENCE 1 ok'],
+          promptVersion: 'default@2',
+        },
+      }));
+      expect(memory.context().notes).toHaveLength(1);
+      expect(provider.callCount).toBe(0);
+    });
+  });
+  describe('Prompt Templates', () => {
+    it('renders the template and records its version with each decision', async () => {
+      const { log, logError } = await import('../core/logger.js');
+      const complete = vi.fn(async () => ({ ok: true, text: '{"action":"SILENCE","reason":"wait"}' }));
+      const provider = { kind: 'openai' as const, model: 'm', apiUrl: '', unavailableReason: () => null, complete };
+      const prompt = {
+        name: 'terse',
+        version: '3',
+        system: 'Floor {{energyFloor}}. Actions:\n{{actions}}',
+        user: 'Context: {{context}}',
+      };
+      const probe = createLLMProbe(mockAgentConfig, { ...mockLLMConfig, provider, prompt }, mockCoreHttp as any, mockPerceptionHttp as any);
+
+      expect(await (probe as any).askLLM({ agent: { energy: 4 } })).toEqual({ action: 'SILENCE', reason: 'wait' });
+      expect(complete).toHaveBeenCalledWith(expect.objectContaining({
+        system: expect.stringMatching(/^Floor 3\. Actions:\n1\. SILENCE/),
+        prompt: 'Context: {\n  "agent": {\n    "energy": 4\n  }\n}',
+      }));
+      expect(log).toHaveBeenCalledWith(expect.objectContaining({
+        step: 'llm_decision',
+        details: expect.objectContaining({ promptVersion: 'terse@3' }),
+      }));
+
+      const missing = createLLMProbe(
+        mockAgentConfig,
+        { ...mockLLMConfig, provider, prompt: 'examples/prompts/missing.md' },
+        mockCoreHttp as any,
+        mockPerceptionHttp as any
+      );
+      expect(await (missing as any).askLLM({})).toBeNull();
+      expect(logError).toHaveBeenCalledWith('LLM', null, 0, expect.stringMatching(/^Invalid prompt template/), 'llm_prompt');
+      expect(complete).toHaveBeenCalledTimes(1);
+    });
+  });
+  describe('Planning Mode', () => {
+    it('follows a plan over several ticks and asks again when a precondition fails', async () => {
+      const { log } = await import('../core/logger.js');
+      const plan = {
+        reason: 'build up',
+        plan: [
+          { action: 'CREATE_TRACE' },
+          { action: 'SILENCE', reason: 'rest', when: { energyBelow: 5 } },
+          { action: 'CREATE_TRACE', params: { permanence: 9 } },
+        ],
+      };
+      const complete = vi.fn(async () => ({ ok: true, text: JSON.stringify(plan) }));
+      const provider = { kind: 'openai' as const, model: 'm', apiUrl: '', unavailableReason: () => null, complete };
+      const probe = createLLMProbe(
+        mockAgentConfig,
+        { ...mockLLMConfig, provider, planning: true, planSteps: 3 },
+        mockCoreHttp as any,
+        mockPerceptionHttp as any
+      );
+      const executed = vi.spyOn(probe as any, 'executeDecision').mockResolvedValue(undefined);
+      const perception = { glimpses: [], nextSeeds: [], tick: 100 };
+      (probe as any).state.did = 'agent:0x123';
+      (probe as any).state.energy = 8;
+
+      await (probe as any).followPlan(perception);
+      expect(complete).toHaveBeenCalledTimes(1);
+      expect(complete).toHaveBeenCalledWith(expect.objectContaining({ system: expect.stringContaining('PLANNING:') }));
+
+      // Energy is not below 5: the plan ends and a new one starts
+      await (probe as any).followPlan(perception);
+      expect(complete).toHaveBeenCalledTimes(2);
+      expect(log).toHaveBeenCalledWith(expect.objectContaining({
+        step: 'llm_plan_end',
+        details: { reason: 'precondition_failed', executed: 1, remaining: 2, condition: 'energyBelow' },
+      }));
+
+      (probe as any).state.energy = 4;
+      await (probe as any).followPlan(perception);
+      await (probe as any).followPlan(perception);
+      expect(complete).toHaveBeenCalledTimes(2);
+      expect(executed.mock.calls.map(([decision]: any) => decision)).toEqual([
+        { action: 'CREATE_TRACE', reason: 'build up' },
+        { action: 'CREATE_TRACE', reason: 'build up' },
+        { action: 'SILENCE', reason: 'rest' },
+        { action: 'CREATE_TRACE', reason: 'build up', params: { permanence: 5 } },
+      ]);
+      expect(log).toHaveBeenCalledWith(expect.objectContaining({
+        step: 'llm_plan_end',
+        details: { reason: 'complete', executed: 3, remaining: 0 },
+      }));
+      expect((probe as any).memory.context().recentActions).toEqual(['t0 SILENCE skipped (precondition:energyBelow)']);
+    });
+
+    it('reflects only between plans, never mid-plan', async () => {
+      const plan = { reason: 'wait it out', plan: Array.from({ length: 4 }, () => ({ action: 'SILENCE' })) };
+      const complete = vi.fn(async (request: { purpose?: string }) => ({
+        ok: true,
+        text: request.purpose === 'reflection' ? '{"notes":["silence is cheap"]}' : JSON.stringify(plan),
+      }));
+      const provider = { kind: 'openai' as const, model: 'm', apiUrl: '', unavailableReason: () => null, complete };
+      const probe = createLLMProbe(
+        mockAgentConfig,
+        { ...mockLLMConfig, provider, planning: true, planSteps: 4, reflectEvery: 2 },
+        mockCoreHttp as any,
+        mockPerceptionHttp as any
+      );
+      (probe as any).state.did = 'agent:0x123';
+      vi.spyOn(probe as any, 'perceive').mockResolvedValue({ glimpses: [], nextSeeds: [], tick: 100 });
+      vi.spyOn(probe as any, 'executeDecision').mockImplementation(async (decision: any) => {
+        (probe as any).remember({ action: decision.action, outcome: 'ok' });
+      });
+
+      // Reflection falls due after the second step, but the plan runs to its end first
+      for (let tick = 0; tick < 4; tick++) await probe.step();
+      expect(complete).toHaveBeenCalledTimes(1);
+
+      await probe.step();
+      expect(complete.mock.calls.map(([request]) => request.purpose)).toEqual([undefined, 'reflection', undefined]);
+    });
+
+    it('keeps the plan and template across a reload that leaves them alone', async () => {
+      const plan = { reason: 'r', plan: [{ action: 'SILENCE' }, { action: 'SILENCE' }] };
+      const complete = vi.fn(async () => ({ ok: true, text: JSON.stringify(plan) }));
+      const provider = { kind: 'openai' as const, model: 'm', apiUrl: '', unavailableReason: () => null, complete };
+      const llmConfig = { ...mockLLMConfig, provider, planning: true };
+      const probe = createLLMProbe(mockAgentConfig, llmConfig, mockCoreHttp as any, mockPerceptionHttp as any);
+      vi.spyOn(probe as any, 'executeDecision').mockResolvedValue(undefined);
+      (probe as any).state.did = 'agent:0x123';
+
+      await (probe as any).followPlan({ glimpses: [], nextSeeds: [], tick: 100 });
+      const template = (probe as any).template;
+      probe.updateLLMConfig({ ...llmConfig, sessionBudget: 50 });
+      expect((probe as any).plan?.remaining).toBe(1);
+      expect((probe as any).template).toBe(template);
+
+      probe.updateLLMConfig({ ...llmConfig, planSteps: 2 });
+      expect((probe as any).plan).toBeNull();
+      expect((probe as any).template).toBe(template);
+    });
+
+    it('takes a plain decision as a one-step plan and rejects malformed plans', () => {
+      const probe = createLLMProbe(mockAgentConfig, { ...mockLLMConfig, planSteps: 2 }, mockCoreHttp as any, mockPerceptionHttp as any);
+      const parsePlan = (answer: unknown) => (probe as any).parsePlan(JSON.stringify(answer));
+
+      expect(parsePlan({ action: 'SILENCE', reason: 'wait' })).toEqual({
+        reason: 'wait',
+        steps: [{ decision: { action: 'SILENCE', reason: 'wait' } }],
+      });
+      expect(parsePlan({ reason: 'r', plan: [{ action: 'SILENCE' }, { action: 'SILENCE' }, { action: 'SILENCE' }] }).steps).toHaveLength(2);
+      expect(parsePlan({ reason: 'r', plan: [{ action: 'SILENCE', when: { zone: 'FORGE' } }] })).toBeNull();
+      expect(parsePlan({ reason: 'r', plan: [{ action: 'DANCE' }] })).toBeNull();
+      expect(parsePlan({ reason: 'r', plan: [] })).toBeNull();
+    });
+  });
 });
@@ -1,11 +1,15 @@
 /**
  * LLM Probe (LLM) Archetype
  *
- * An LLM-driven agent that uses FRUX Smart API to decide actions.
+ * An LLM-driven agent that asks a chat service to decide actions: FRUX
+ * Smart API by default, or an OpenAI-compatible, Anthropic-style, Ollama
+ * or scripted fake provider (see src/llm).
  * Unlike mechanical probes (QS/CBC/JAP), this agent:
  * - Receives perception as structured context
  * - Asks an LLM what action to take from a fixed menu
  * - Parses strict JSON responses
+ * - Renders its prompts from a versioned template (see llm-prompts.ts)
+ * - Optionally asks for multi-step plans and follows them (see llm-plan.ts)
  * - Respects safety rails (energy floor, session budget)
  *
  * Action menu:
@@ -18,34 +22,36 @@
 
 import type {
   AgentConfig,
-  AgentState,
   PerceiveResponse,
-  QuoteResponse,
-  CreateTraceResponse,
-  DeriveTraceResponse,
-  JointQuoteResponse,
-  JointTraceResponse,
-  TraceGlimpse,
   AffordanceWithSource,
   TraceDraft,
-  MutationType,
 } from '../core/types.js';
 import { HttpClient } from '../core/http.js';
-import { SeededRNG, INTENT_TOKENS, CORE_TOKENS, SHAPE_TOKENS } from '../core/rng.js';
+import { INTENT_TOKENS, CORE_TOKENS, SHAPE_TOKENS } from '../core/rng.js';
 import { generateCreateDraft, generateDeriveDraft, generateJointCapableDraft } from '../core/pyramid.js';
+import { log, logSilence, logSkip, logError } from '../core/logger.js';
+import { createLLMProvider, type LLMProvider } from '../llm/index.js';
+import { probeMetrics } from '../core/metrics.js';
+import { ProbeAgent } from './base.js';
+import { createLLMMemory, type LLMMemory, type Episode, type EpisodeOutcome } from './llm-memory.js';
 import {
-  log,
-  logRegistered,
-  logPerceive,
-  logQuote,
-  logCreate,
-  logDerive,
-  logJointAttempt,
-  logSilence,
-  logSkip,
-  logError,
-} from '../core/logger.js';
-import { callFruxLLM, type FruxConfig } from '../core/frux-llm.js';
+  DEFAULT_PROMPT_TEMPLATE,
+  loadPromptTemplate,
+  promptVersion,
+  renderPrompt,
+  type DecisionVariables,
+  type PromptTemplate,
+  type ReflectionVariables,
+} from './llm-prompts.js';
+import {
+  createLLMPlan,
+  parsePlanConditions,
+  type LLMPlan,
+  type PlanEndReason,
+  type PlanNext,
+  type PlanStep,
+  type PlanView,
+} from './llm-plan.js';
 
 // ============================================================================
 // CONFIGURATION
@@ -55,6 +61,13 @@ const DEFAULT_ENERGY_FLOOR = 3;
 const DEFAULT_SESSION_BUDGET = 100;
 const DEFAULT_FRUX_TIMEOUT_MS = 8000;
 const DEFAULT_FRUX_MAX_RETRIES = 2;
+const DEFAULT_MEMORY_SIZE = 20;
+const DEFAULT_MEMORY_TOKENS = 400;
+const DEFAULT_REFLECT_EVERY = 10;
+const DEFAULT_PLAN_STEPS = 5;
+
+/** Notes asked for per reflection */
+const REFLECTION_NOTES = 3;
 
 // ============================================================================
 // LLM ACTION TYPES
@@ -105,6 +118,24 @@ export interface LLMConfig {
   sessionBudget: number;
   /** Enable CREATE_INQUIRY action (default: false) */
   enableInquiry: boolean;
+  /** Fetch implementation for FRUX calls (defaults to global fetch) */
+  fetch?: typeof fetch;
+  /** Cancels outstanding FRUX calls (runner shutdown) */
+  signal?: AbortSignal;
+  /** Chat service to ask (default: FRUX with the settings above) */
+  provider?: LLMProvider;
+  /** Actions remembered with their outcomes (0 = no memory, default 20) */
+  memorySize?: number;
+  /** Rough token budget for memory in the prompt (default 400) */
+  memoryTokens?: number;
+  /** Reflect after this many remembered actions (0 = never, default 10) */
+  reflectEvery?: number;
+  /** Prompt template, or a template file to load ('' = built-in) */
+  prompt?: PromptTemplate | string;
+  /** Ask for multi-step plans instead of one action per tick (default: false) */
+  planning?: boolean;
+  /** Longest plan accepted (default 5) */
+  planSteps?: number;
 }
 
 // ============================================================================
@@ -135,48 +166,185 @@ const LLM_DECISION_SCHEMA = {
   required: ['action', 'reason'],
 } as const;
 
+const PLAN_CONDITIONS_SCHEMA = {
+  type: 'object',
+  properties: {
+    energyAbove: { type: 'number' },
+    energyBelow: { type: 'number' },
+    affordancePresent: { type: 'boolean' },
+    tracePresent: { type: 'boolean' },
+  },
+  additionalProperties: false,
+} as const;
+
+function planSchema(maxSteps: number) {
+  return {
+    type: 'object',
+    properties: {
+      reason: { type: 'string', maxLength: 200 },
+      plan: {
+        type: 'array',
+        minItems: 1,
+        maxItems: maxSteps,
+        items: {
+          ...LLM_DECISION_SCHEMA,
+          properties: { ...LLM_DECISION_SCHEMA.properties, when: PLAN_CONDITIONS_SCHEMA },
+          required: ['action'],
+        },
+      },
+    },
+    required: ['reason', 'plan'],
+  };
+}
+
 // ============================================================================
-// SYSTEM PROMPT
+// ANSWER PARSING
 // ============================================================================
 
-const SYSTEM_PROMPT = `You are an autonomous agent inside AI-HABITAT, a digital environment governed by physical laws.
+const LLM_ACTIONS: readonly string[] = LLM_DECISION_SCHEMA.properties.action.enum;
+const INQUIRY_TYPES: readonly string[] = LLM_DECISION_SCHEMA.properties.params.properties.inquiryType.enum;
 
-You exist as a probe agent with limited energy and must decide actions carefully.
-Your goal is to explore the habitat, create traces, and interact with the environment.
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
 
-CONSTRAINTS:
-- You have limited energy that regenerates slowly
-- Actions cost energy - you must stay above the energy floor
-- You have a session budget - don't exceed total cost limit
-- Silence is valid - sometimes the best action is to wait
+/** Tokens from an answer that are in the vocabulary, or null when it is not a list */
+function parseTokens(value: unknown, vocabulary: readonly string[]): string[] | null {
+  if (!Array.isArray(value)) return null;
+  return value.filter((token): token is string => typeof token === 'string' && vocabulary.includes(token));
+}
+
+function clamp(value: unknown, min: number, max: number): number | null {
+  if (typeof value !== 'number' || !Number.isFinite(value)) return null;
+  return Math.max(min, Math.min(max, value));
+}
+
+/**
+ * Decision params from an answer, with unknown tokens dropped and
+ * permanence and opacity clamped, or null when they are malformed
+ */
+function parseParams(value: unknown): LLMDecision['params'] | null {
+  if (!isRecord(value)) return null;
+
+  const params: NonNullable<LLMDecision['params']> = {};
+  const { parentTraceId, affordanceId, inquiryType, intents, cores, permanence, opacity } = value;
+  if (parentTraceId !== undefined) {
+    if (typeof parentTraceId !== 'string') return null;
+    params.parentTraceId = parentTraceId;
+  }
+  if (affordanceId !== undefined) {
+    if (typeof affordanceId !== 'string') return null;
+    params.affordanceId = affordanceId;
+  }
+  if (inquiryType !== undefined) {
+    if (typeof inquiryType !== 'string' || !INQUIRY_TYPES.includes(inquiryType)) return null;
+    params.inquiryType = inquiryType as NonNullable<LLMDecision['params']>['inquiryType'];
+  }
+  if (intents !== undefined) {
+    const tokens = parseTokens(intents, INTENT_TOKENS);
+    if (!tokens) return null;
+    params.intents = tokens;
+  }
+  if (cores !== undefined) {
+    const tokens = parseTokens(cores, CORE_TOKENS);
+    if (!tokens) return null;
+    params.cores = tokens;
+  }
+  if (permanence !== undefined) {
+    const clamped = clamp(permanence, 1, 5);
+    if (clamped === null) return null;
+    params.permanence = clamped;
+  }
+  if (opacity !== undefined) {
+    const clamped = clamp(opacity, 1, 9);
+    if (clamped === null) return null;
+    params.opacity = clamped;
+  }
+  return params;
+}
+
+/**
+ * A decision from an answer, or null when it is malformed
+ */
+function toDecision(value: unknown): LLMDecision | null {
+  if (!isRecord(value)) return null;
 
-AVAILABLE ACTIONS:
-1. SILENCE - Do nothing, conserve energy, wait for regeneration
+  const { action, reason, params } = value;
+  if (typeof action !== 'string' || !LLM_ACTIONS.includes(action)) return null;
+  if (typeof reason !== 'string' || !reason) return null;
+  if (params === undefined || params === null) return { action: action as LLMActionType, reason };
+
+  const parsed = parseParams(params);
+  return parsed ? { action: action as LLMActionType, reason, params: parsed } : null;
+}
+
+// ============================================================================
+// PROMPT VARIABLES
+// ============================================================================
+
+const ACTION_MENU = `1. SILENCE - Do nothing, conserve energy, wait for regeneration
 2. CREATE_INQUIRY - Create an inquiry trace (costs 0.8x of normal trace)
    - Use OUTSIDE for external boundary probing (2x cost, no return)
    - Use HYPOTHESIS for internal investigation
 3. CREATE_TRACE - Create a new trace in FLUX zone
 4. DERIVE_TRACE - Derive from an existing trace (requires parentTraceId)
-5. JOINT_ATTEMPT - Attempt joint action on affordance (requires affordanceId)
+5. JOINT_ATTEMPT - Attempt joint action on affordance (requires affordanceId)`;
+
+const CONSTRAINTS = `- You have limited energy that regenerates slowly
+- Actions cost energy - you must stay above the energy floor
+- You have a session budget - don't exceed total cost limit
+- Silence is valid - sometimes the best action is to wait`;
+
+const DECISION_EXAMPLE = '{"action":"CREATE_TRACE","reason":"Low energy but above floor, create minimal trace","params":{"intents":["∇obs"],"permanence":1}}';
+
+const PLAN_EXAMPLE = '{"reason":"Seed a trace, then join while the window lasts","plan":['
+  + '{"action":"CREATE_TRACE","reason":"cheap trace first","params":{"permanence":1}},'
+  + '{"action":"JOINT_ATTEMPT","reason":"join","params":{"affordanceId":"affordance:0x..."},"when":{"energyAbove":6,"affordancePresent":true}}]}';
+
+/** Planning instructions; starts and ends with a newline so templates can place it between paragraphs */
+function planningInstructions(maxSteps: number): string {
+  return `
+PLANNING:
+- Answer with a plan of up to ${maxSteps} steps instead of a single decision
+- Each step is a decision as above, with an optional "when" holding its preconditions:
+  energyAbove / energyBelow (your energy by then), affordancePresent / tracePresent (the
+  step's affordanceId or parentTraceId is still visible)
+- Steps run one per tick without asking you again; the plan ends early when a precondition
+  fails or the habitat changes materially, and you are asked for a new one
+`;
+}
 
-RESPONSE FORMAT:
-You MUST respond with valid JSON matching this schema:
-${JSON.stringify(LLM_DECISION_SCHEMA, null, 2)}
+/**
+ * JSON text from an answer, without markdown code fences
+ */
+function extractJson(text: string): string {
+  const fenced = text.match(/```(?:json)?\s*([\s\S]*?)```/);
+  return fenced ? fenced[1]!.trim() : text;
+}
 
-Example response:
-{"action":"CREATE_TRACE","reason":"Low energy but above floor, create minimal trace","params":{"intents":["∇obs"],"permanence":1}}`;
+/** FORGE traces that can take another derivation */
+function isDerivable(glimpse: PerceiveResponse['glimpses'][number]): boolean {
+  return glimpse.zone === 'FORGE' && glimpse.relations.outDegree < 5;
+}
+
+function memoryOptions(llmConfig: LLMConfig) {
+  return {
+    size: llmConfig.memorySize ?? DEFAULT_MEMORY_SIZE,
+    tokens: llmConfig.memoryTokens ?? DEFAULT_MEMORY_TOKENS,
+  };
+}
 
 // ============================================================================
 // LLM PROBE CLASS
 // ============================================================================
 
-export class LLMProbe {
-  private config: AgentConfig;
+export class LLMProbe extends ProbeAgent {
   private llmConfig: LLMConfig;
-  private state: AgentState;
-  private coreHttp: HttpClient;
-  private perceptionHttp: HttpClient;
-  private rng: SeededRNG;
+  private memory: LLMMemory;
+  /** The prompt template, or why it could not be loaded */
+  private template: Promise<PromptTemplate | string> | null = null;
+  /** Plan being followed (planning mode) */
+  private plan: LLMPlan | null = null;
 
   constructor(
     config: AgentConfig,
@@ -184,43 +352,42 @@ export class LLMProbe {
     coreHttp: HttpClient,
     perceptionHttp: HttpClient
   ) {
-    this.config = config;
+    super(config, coreHttp, perceptionHttp);
     this.llmConfig = llmConfig;
-    this.coreHttp = coreHttp;
-    this.perceptionHttp = perceptionHttp;
-    this.rng = new SeededRNG(config.seed);
-    this.state = {
-      did: null,
-      energy: 0,
-      tick: 0,
-      inSilenceMode: true,
-      tracesCreated: 0,
-      derivationsMade: 0,
-      jointAttempts: 0,
-      jointSuccesses: 0,
-      totalCostSpent: 0,
-    };
+    this.memory = createLLMMemory(memoryOptions(llmConfig));
+    this.state.inSilenceMode = true;
   }
 
-  async register(): Promise<boolean> {
-    const continuitySeed = `llm-${this.config.index}-${this.rng.nextHex(16)}`;
-
-    const response = await this.coreHttp.post<
-      { continuitySeed: string },
-      { did: string; energy: number; tick: number }
-    >('/v1/agents/register', { continuitySeed });
+  /** Provider given in the config; without one the probe asks FRUX */
+  get llmProvider(): LLMProvider | undefined {
+    return this.llmConfig.provider;
+  }
 
-    if (!response.ok || !response.data) {
-      logError('LLM', null, 0, response.error ?? 'Registration failed', 'register');
-      return false;
+  /**
+   * Replace budgets, floor and provider settings (hot reload). The loaded
+   * template is kept while the prompt stays the same, and the current plan
+   * while the prompt and planning settings do.
+   */
+  updateLLMConfig(llmConfig: LLMConfig): void {
+    const previous = this.llmConfig;
+    this.llmConfig = llmConfig;
+    this.memory.configure(memoryOptions(llmConfig));
+    if (llmConfig.prompt !== previous.prompt) {
+      this.template = null;
     }
+    if (llmConfig.prompt !== previous.prompt
+      || llmConfig.planning !== previous.planning
+      || llmConfig.planSteps !== previous.planSteps) {
+      this.plan = null;
+    }
+  }
 
-    this.state.did = response.data.did;
-    this.state.energy = response.data.energy;
-    this.state.tick = response.data.tick;
+  protected override snapshotMemory(): unknown {
+    return this.memory.enabled ? this.memory.snapshot() : undefined;
+  }
 
-    logRegistered('LLM', this.state.did, this.state.energy, this.state.tick);
-    return true;
+  protected override restoreMemory(memory: unknown): void {
+    this.memory.restore(memory);
   }
 
   async step(): Promise<void> {
@@ -228,13 +395,28 @@ export class LLMProbe {
 
     // Check session budget
     if (this.state.totalCostSpent >= this.llmConfig.sessionBudget) {
-      logSkip('LLM', this.state.did, this.state.tick, 'budget_exhausted');
+      logSkip(this.archetype, this.state.did, this.state.tick, 'budget_exhausted');
       return;
     }
 
     // Step 1: Perceive
     const perception = await this.perceive();
     if (!perception) return;
+    this.memory.observe({
+      tick: perception.tick,
+      energy: this.state.energy,
+      glimpses: perception.glimpses.length,
+      forgeTraces: perception.glimpses.filter(g => g.zone === 'FORGE').length,
+      affordances: this.findAffordances(perception.glimpses).length,
+    });
+
+    // Planning mode: follow the current plan, asking only when it ends
+    if (this.llmConfig.planning) {
+      await this.followPlan(perception);
+      return;
+    }
+
+    await this.reflectIfDue();
 
     // Step 2: Build context for LLM
     const context = this.buildLLMContext(perception);
@@ -242,9 +424,7 @@ export class LLMProbe {
     // Step 3: Ask LLM for decision
     const decision = await this.askLLM(context);
     if (!decision) {
-      // LLM failed, fall back to silence
-      this.state.inSilenceMode = true;
-      logSilence('LLM', this.state.did, this.state.tick, this.state.energy);
+      this.fallBackToSilence();
       return;
     }
 
@@ -252,34 +432,124 @@ export class LLMProbe {
     await this.executeDecision(decision, perception);
   }
 
-  private async perceive(): Promise<PerceiveResponse | null> {
-    const response = await this.perceptionHttp.post<{ did: string }, PerceiveResponse>(
-      '/v1/perception/perceive',
-      { did: this.state.did! }
-    );
+  /**
+   * Compress history into notes before it falls out of memory
+   */
+  private async reflectIfDue(): Promise<void> {
+    if (this.memory.reflectionDue(this.llmConfig.reflectEvery ?? DEFAULT_REFLECT_EVERY)) {
+      await this.reflect();
+    }
+  }
 
-    if (!response.ok || !response.data) {
-      logError('LLM', this.state.did, this.state.tick, response.error ?? 'Perceive failed', 'perceive');
-      return null;
+  /**
+   * LLM failed, fall back to silence
+   */
+  private fallBackToSilence(): void {
+    this.state.inSilenceMode = true;
+    logSilence(this.archetype, this.state.did!, this.state.tick, this.state.energy);
+    this.remember({ action: 'SILENCE', outcome: 'failed', reason: 'no_decision' });
+  }
+
+  // ==========================================================================
+  // PLANNING
+  // ==========================================================================
+
+  /**
+   * Run the plan's next step, asking for a new plan when there is none
+   * or the current one just ended. Reflection waits for that point too,
+   * so a plan runs without LLM calls.
+   */
+  private async followPlan(perception: PerceiveResponse): Promise<void> {
+    const view = this.planView(perception);
+    let next: PlanNext | null = this.plan?.next(view) ?? null;
+    if (next && 'end' in next) {
+      this.endPlan(next);
+      next = null;
     }
 
-    this.state.tick = response.data.tick;
-    logPerceive(
-      'LLM',
-      this.state.did!,
-      this.state.tick,
-      response.data.glimpses.length,
-      response.data.nextSeeds.length
-    );
+    if (!next) {
+      await this.reflectIfDue();
+      this.plan = await this.askForPlan(this.buildLLMContext(perception), view);
+      if (!this.plan) {
+        this.fallBackToSilence();
+        return;
+      }
+      next = this.plan.next(view);
+      if ('end' in next) {
+        this.endPlan(next);
+        return;
+      }
+    }
 
-    return response.data;
+    const plan = this.plan!;
+    log({
+      did: this.state.did,
+      archetype: this.archetype,
+      step: 'llm_plan_step',
+      tick: this.state.tick,
+      details: { index: next.index, action: next.step.decision.action, remaining: plan.remaining },
+    });
+    await this.executeDecision(next.step.decision, perception);
+    if (plan === this.plan && plan.remaining === 0) this.endPlan({ end: 'complete' });
   }
 
-  private buildLLMContext(perception: PerceiveResponse): string {
+  private planView(perception: PerceiveResponse): PlanView {
+    return {
+      energy: this.state.energy,
+      glimpses: perception.glimpses.length,
+      affordanceIds: this.findAffordances(perception.glimpses).map(a => a.affordanceId),
+      derivableTraceIds: perception.glimpses.filter(isDerivable).map(g => g.traceId),
+    };
+  }
+
+  private endPlan(ending: { end: PlanEndReason; step?: PlanStep; condition?: string }): void {
+    const plan = this.plan;
+    this.plan = null;
+    if (!plan) return;
+
+    log({
+      did: this.state.did,
+      archetype: this.archetype,
+      step: 'llm_plan_end',
+      tick: this.state.tick,
+      details: {
+        reason: ending.end,
+        executed: plan.executed,
+        remaining: plan.remaining,
+        ...(ending.condition ? { condition: ending.condition } : {}),
+      },
+    });
+    if (ending.step) {
+      this.remember({ action: ending.step.decision.action, outcome: 'skipped', reason: `precondition:${ending.condition}` });
+    }
+  }
+
+  private async askForPlan(context: Record<string, unknown>, view: PlanView): Promise<LLMPlan | null> {
+    const answer = await this.requestLLM(context, true);
+    if (!answer) return null;
+
+    const parsed = this.parsePlan(answer.text);
+    if (!parsed) return this.parseFailed();
+
+    log({
+      did: this.state.did,
+      archetype: this.archetype,
+      step: 'llm_plan',
+      tick: this.state.tick,
+      details: {
+        reason: parsed.reason,
+        actions: parsed.steps.map(s => s.decision.action),
+        provider: answer.provider.kind,
+        model: answer.provider.model,
+        promptVersion: promptVersion(answer.template),
+      },
+    });
+    return createLLMPlan(parsed.steps, view, parsed.reason);
+  }
+
+  private buildLLMContext(perception: PerceiveResponse): Record<string, unknown> {
     const affordances = this.findAffordances(perception.glimpses);
-    const derivableTraces = perception.glimpses.filter(
-      g => g.zone === 'FORGE' && g.relations.outDegree < 5
-    );
+    const derivableTraces = perception.glimpses.filter(isDerivable);
 
     // Build structured context
     const context = {
@@ -320,122 +590,196 @@ export class LLMProbe {
         cores: [...CORE_TOKENS],
         shapes: [...SHAPE_TOKENS],
       },
+      ...(this.memory.enabled ? { memory: this.memory.context() } : {}),
     };
 
-    return JSON.stringify(context, null, 2);
+    return context;
   }
 
-  private findAffordances(glimpses: TraceGlimpse[]): AffordanceWithSource[] {
-    const affordances: AffordanceWithSource[] = [];
-    for (const glimpse of glimpses) {
-      if (glimpse.jointAffordances && glimpse.jointAffordances.length > 0) {
-        for (const aff of glimpse.jointAffordances) {
-          affordances.push({
-            ...aff,
-            sourceTraceId: glimpse.traceId,
-          });
-        }
-      }
-    }
-    return affordances;
-  }
-
-  private async askLLM(context: string): Promise<LLMDecision | null> {
-    const userPrompt = `Current context:\n${context}\n\nDecide your next action. Respond with valid JSON only.`;
-    const message = `${SYSTEM_PROMPT}\n\n${userPrompt}`;
-
-    // Build FRUX config from LLM config
-    const fruxConfig: FruxConfig = {
+  private provider(): LLMProvider {
+    return this.llmConfig.provider ?? createLLMProvider({
+      kind: 'frux',
       apiUrl: this.llmConfig.fruxApiUrl,
       apiKey: this.llmConfig.fruxApiKey,
+      model: '',
       preferLocal: this.llmConfig.preferLocal,
       timeoutMs: this.llmConfig.timeoutMs,
       maxRetries: this.llmConfig.maxRetries,
-    };
+      fetch: this.llmConfig.fetch,
+      signal: this.llmConfig.signal,
+    });
+  }
+
+  private promptTemplate(): Promise<PromptTemplate | string> {
+    if (!this.template) {
+      const prompt = this.llmConfig.prompt || DEFAULT_PROMPT_TEMPLATE;
+      this.template = typeof prompt !== 'string'
+        ? Promise.resolve(prompt)
+        : loadPromptTemplate(prompt).then(({ template, errors }) =>
+          template ?? `Invalid prompt template ${prompt}: ${errors.map(e => `${e.path || '<root>'}: ${e.message}`).join('; ')}`);
+    }
+    return this.template;
+  }
+
+  /**
+   * Render the prompt and ask the provider. Null (logged) when the
+   * template does not load or the call fails.
+   */
+  private async requestLLM(
+    context: Record<string, unknown>,
+    planning: boolean
+  ): Promise<{ text: string; provider: LLMProvider; template: PromptTemplate } | null> {
+    const template = await this.promptTemplate();
+    if (typeof template === 'string') {
+      logError(this.archetype, this.state.did, this.state.tick, template, 'llm_prompt');
+      return null;
+    }
 
-    const result = await callFruxLLM(message, fruxConfig);
+    const planSteps = this.llmConfig.planSteps ?? DEFAULT_PLAN_STEPS;
+    const variables: DecisionVariables = {
+      actions: ACTION_MENU,
+      constraints: CONSTRAINTS,
+      intents: INTENT_TOKENS.join(', '),
+      cores: CORE_TOKENS.join(', '),
+      shapes: SHAPE_TOKENS.join(', '),
+      schema: JSON.stringify(planning ? planSchema(planSteps) : LLM_DECISION_SCHEMA, null, 2),
+      planning: planning ? planningInstructions(planSteps) : '',
+      example: planning ? PLAN_EXAMPLE : DECISION_EXAMPLE,
+      energyFloor: this.llmConfig.energyFloor,
+      sessionBudget: this.llmConfig.sessionBudget,
+      context: JSON.stringify(context, null, 2),
+    };
+    const provider = this.provider();
+
+    const result = await probeMetrics.llmDuration.time(
+      (res) => ({ archetype: this.archetype, outcome: res?.ok && res.text ? 'ok' : 'error' }),
+      () => provider.complete({
+        system: renderPrompt(template.system, variables),
+        prompt: renderPrompt(template.user, variables),
+        context,
+      })
+    );
 
     if (!result.ok || !result.text) {
-      logError('LLM', this.state.did, this.state.tick, result.error ?? 'LLM call failed', 'llm_call');
+      logError(this.archetype, this.state.did, this.state.tick, result.error ?? 'LLM call failed', 'llm_call');
       return null;
     }
+    return { text: result.text, provider, template };
+  }
+
+  private async askLLM(context: Record<string, unknown>): Promise<LLMDecision | null> {
+    const answer = await this.requestLLM(context, false);
+    if (!answer) return null;
 
     // Parse and validate JSON
-    const decision = this.parseDecision(result.text);
+    const decision = this.parseDecision(answer.text);
     if (decision) {
       log({
         did: this.state.did,
-        archetype: 'LLM',
+        archetype: this.archetype,
         step: 'llm_decision',
         tick: this.state.tick,
-        details: { action: decision.action, reason: decision.reason },
+        details: {
+          action: decision.action,
+          reason: decision.reason,
+          provider: answer.provider.kind,
+          model: answer.provider.model,
+          promptVersion: promptVersion(answer.template),
+        },
       });
       return decision;
     }
 
-    logError('LLM', this.state.did, this.state.tick, 'Failed to parse LLM response', 'llm_parse');
-    return null;
+    return this.parseFailed();
   }
 
-  private parseDecision(text: string): LLMDecision | null {
-    try {
-      // Try to extract JSON from text (handle markdown code blocks)
-      let jsonStr = text;
-      const jsonMatch = text.match(/```(?:json)?\s*([\s\S]*?)```/);
-      if (jsonMatch) {
-        jsonStr = jsonMatch[1]!.trim();
-      }
+  private parseFailed(): null {
+    probeMetrics.llmParseFailures.inc({ archetype: this.archetype });
+    logError(this.archetype, this.state.did, this.state.tick, 'Failed to parse LLM response', 'llm_parse');
+    return null;
+  }
 
-      const parsed = JSON.parse(jsonStr);
+  /**
+   * Ask the LLM to compress memory into notes. Falls back to a plain
+   * summary when the call fails or the answer has no notes.
+   */
+  private async reflect(): Promise<void> {
+    const loaded = await this.promptTemplate();
+    // A template without reflection sections reflects with the built-in ones
+    const template = typeof loaded !== 'string' && loaded.reflectionSystem ? loaded : DEFAULT_PROMPT_TEMPLATE;
+    const variables: ReflectionVariables = { maxNotes: REFLECTION_NOTES, history: JSON.stringify(this.memory.context(), null, 2) };
+    const provider = this.provider();
+
+    const result = await probeMetrics.llmDuration.time(
+      (res) => ({ archetype: this.archetype, outcome: res?.ok && res.text ? 'ok' : 'error' }),
+      () => provider.complete({
+        system: renderPrompt(template.reflectionSystem!, variables),
+        prompt: renderPrompt(template.reflectionUser!, variables),
+        purpose: 'reflection',
+      })
+    );
 
-      // Validate required fields
-      if (!parsed.action || typeof parsed.action !== 'string') {
-        return null;
-      }
-      if (!parsed.reason || typeof parsed.reason !== 'string') {
-        return null;
-      }
+    const notes = result.ok && result.text ? this.parseNotes(result.text) : null;
+    const kept = notes ?? [this.memory.summarize()];
+    const episodes = this.memory.pending;
+    this.memory.compress(kept);
+
+    log({
+      did: this.state.did,
+      archetype: this.archetype,
+      step: 'llm_reflection',
+      tick: this.state.tick,
+      details: { source: notes ? 'llm' : 'summary', episodes, notes: kept, promptVersion: promptVersion(template) },
+    });
+  }
 
-      // Validate action is in allowed list
-      const validActions: LLMActionType[] = [
-        'SILENCE',
-        'CREATE_INQUIRY',
-        'CREATE_TRACE',
-        'DERIVE_TRACE',
-        'JOINT_ATTEMPT',
-      ];
-      if (!validActions.includes(parsed.action as LLMActionType)) {
-        return null;
-      }
+  private parseNotes(text: string): string[] | null {
+    try {
+      const parsed: unknown = JSON.parse(extractJson(text));
+      const notes = isRecord(parsed) && Array.isArray(parsed.notes)
+        ? parsed.notes.filter((n): n is string => typeof n === 'string' && n.trim() !== '')
+        : [];
+      return notes.length > 0 ? notes : null;
+    } catch {
+      return null;
+    }
+  }
 
-      // Validate params if present
-      if (parsed.params) {
-        // Validate intents
-        if (parsed.params.intents) {
-          parsed.params.intents = parsed.params.intents.filter(
-            (i: string) => INTENT_TOKENS.includes(i as any)
-          );
-        }
-        // Validate cores
-        if (parsed.params.cores) {
-          parsed.params.cores = parsed.params.cores.filter(
-            (c: string) => CORE_TOKENS.includes(c as any)
-          );
-        }
-        // Clamp permanence
-        if (parsed.params.permanence !== undefined) {
-          parsed.params.permanence = Math.max(1, Math.min(5, parsed.params.permanence));
-        }
-        // Clamp opacity
-        if (parsed.params.opacity !== undefined) {
-          parsed.params.opacity = Math.max(1, Math.min(9, parsed.params.opacity));
-        }
-      }
+  private parseDecision(text: string): LLMDecision | null {
+    try {
+      return toDecision(JSON.parse(extractJson(text)));
+    } catch {
+      return null;
+    }
+  }
 
-      return parsed as LLMDecision;
+  /**
+   * A plan from an answer; a plain decision is a one-step plan. Steps
+   * without a reason take the plan's.
+   */
+  private parsePlan(text: string): { reason: string; steps: PlanStep[] } | null {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(extractJson(text));
     } catch {
       return null;
     }
+    if (!isRecord(parsed) || !Array.isArray(parsed.plan)) {
+      const decision = toDecision(parsed);
+      return decision ? { reason: decision.reason, steps: [{ decision }] } : null;
+    }
+
+    const reason = typeof parsed.reason === 'string' && parsed.reason ? parsed.reason : 'plan';
+    const steps: PlanStep[] = [];
+    for (const raw of parsed.plan.slice(0, this.llmConfig.planSteps ?? DEFAULT_PLAN_STEPS)) {
+      if (!isRecord(raw)) return null;
+      const { when, ...fields } = raw;
+      const decision = toDecision({ reason, ...fields });
+      const conditions = when === undefined ? {} : parsePlanConditions(when);
+      if (!decision || !conditions) return null;
+      steps.push(Object.keys(conditions).length > 0 ? { decision, when: conditions } : { decision });
+    }
+    return steps.length > 0 ? { reason, steps } : null;
   }
 
   private async executeDecision(
@@ -445,23 +789,24 @@ export class LLMProbe {
     switch (decision.action) {
       case 'SILENCE':
         this.state.inSilenceMode = true;
-        logSilence('LLM', this.state.did!, this.state.tick, this.state.energy);
+        logSilence(this.archetype, this.state.did!, this.state.tick, this.state.energy);
+        this.remember({ action: 'SILENCE', outcome: 'ok' });
         break;
 
       case 'CREATE_INQUIRY':
         if (!this.llmConfig.enableInquiry) {
-          logSkip('LLM', this.state.did!, this.state.tick, 'inquiry_disabled');
+          this.skip('CREATE_INQUIRY', 'inquiry_disabled');
           return;
         }
         await this.createInquiry(decision);
         break;
 
       case 'CREATE_TRACE':
-        await this.createTrace(decision);
+        await this.createFluxTrace(decision);
         break;
 
       case 'DERIVE_TRACE':
-        await this.deriveTrace(decision, perception);
+        await this.derive(decision, perception);
         break;
 
       case 'JOINT_ATTEMPT':
@@ -501,7 +846,7 @@ export class LLMProbe {
     await this.executeCreate(traceDraft, 'inquiry');
   }
 
-  private async createTrace(decision: LLMDecision): Promise<void> {
+  private async createFluxTrace(decision: LLMDecision): Promise<void> {
     const traceDraft = generateCreateDraft(this.rng, {
       permanence: decision.params?.permanence ?? this.rng.nextInt(1, 3),
       opacity: decision.params?.opacity ?? this.rng.nextInt(1, 5),
@@ -519,73 +864,49 @@ export class LLMProbe {
   }
 
   private async executeCreate(traceDraft: TraceDraft, type: 'inquiry' | 'trace'): Promise<void> {
-    // Quote first
-    const quoteResponse = await this.coreHttp.post<
-      { did: string; action: string; traceDraft: TraceDraft },
-      QuoteResponse
-    >('/v1/physics/quote', {
-      did: this.state.did!,
-      action: 'CREATE_TRACE',
-      traceDraft,
-    });
+    const action = type === 'inquiry' ? 'CREATE_INQUIRY' : 'CREATE_TRACE';
 
-    if (!quoteResponse.ok || !quoteResponse.data) {
-      logError('LLM', this.state.did, this.state.tick, quoteResponse.error ?? 'Quote failed', 'quote');
+    // Quote first
+    const quote = await this.quote('CREATE_TRACE', traceDraft);
+    if (!quote) {
+      this.remember({ action, outcome: 'failed', reason: 'quote_failed' });
       return;
     }
 
-    const quote = quoteResponse.data;
-    this.state.energy = quote.energyAfter;
-    logQuote('LLM', this.state.did!, this.state.tick, quote.cost, quote.allowed);
-
     // Safety checks
     if (!quote.allowed) {
-      logSkip('LLM', this.state.did!, this.state.tick, 'not_allowed');
+      this.skip(action, 'not_allowed', 'denied');
       return;
     }
     if (quote.energyAfter < this.llmConfig.energyFloor) {
-      logSkip('LLM', this.state.did!, this.state.tick, 'energy_floor');
+      this.skip(action, 'energy_floor');
       return;
     }
     if (this.state.totalCostSpent + quote.cost > this.llmConfig.sessionBudget) {
-      logSkip('LLM', this.state.did!, this.state.tick, 'budget_exceeded');
+      this.skip(action, 'budget_exceeded');
       return;
     }
 
     // Create trace
-    const createResponse = await this.coreHttp.post<
-      { did: string; traceDraft: TraceDraft },
-      CreateTraceResponse
-    >('/v1/traces', {
-      did: this.state.did!,
-      traceDraft,
-    });
-
-    if (!createResponse.ok || !createResponse.data) {
-      logError('LLM', this.state.did, this.state.tick, createResponse.error ?? 'Create failed', 'create');
-      return;
+    const created = await this.createTrace(traceDraft);
+    if (created) {
+      this.state.inSilenceMode = false;
+      this.remember({ action, outcome: 'ok', traceId: created.traceId, cost: created.costPaid });
+    } else {
+      this.remember({ action, outcome: 'failed', reason: 'create_failed' });
     }
-
-    this.state.tracesCreated++;
-    this.state.totalCostSpent += createResponse.data.costPaid;
-    this.state.tick = createResponse.data.tick;
-    this.state.inSilenceMode = false;
-
-    logCreate('LLM', this.state.did!, this.state.tick, createResponse.data.traceId, createResponse.data.costPaid);
   }
 
-  private async deriveTrace(decision: LLMDecision, perception: PerceiveResponse): Promise<void> {
+  private async derive(decision: LLMDecision, perception: PerceiveResponse): Promise<void> {
     // Find parent trace
     let parentTraceId = decision.params?.parentTraceId;
 
     if (!parentTraceId) {
       // No parent specified, pick from available FORGE traces
-      const forgeGlimpses = perception.glimpses.filter(
-        g => g.zone === 'FORGE' && g.relations.outDegree < 5
-      );
+      const forgeGlimpses = perception.glimpses.filter(isDerivable);
       const parent = this.rng.pick(forgeGlimpses);
       if (!parent) {
-        logSkip('LLM', this.state.did!, this.state.tick, 'no_derivable_traces');
+        this.skip('DERIVE_TRACE', 'no_derivable_traces');
         return;
       }
       parentTraceId = parent.traceId;
@@ -603,63 +924,30 @@ export class LLMProbe {
     }
 
     // Quote
-    const quoteResponse = await this.coreHttp.post<
-      { did: string; action: string; traceDraft: TraceDraft },
-      QuoteResponse
-    >('/v1/physics/quote', {
-      did: this.state.did!,
-      action: 'DERIVE_TRACE',
-      traceDraft,
-    });
-
-    if (!quoteResponse.ok || !quoteResponse.data) {
-      logError('LLM', this.state.did, this.state.tick, quoteResponse.error ?? 'Quote failed', 'quote');
+    const quote = await this.quote('DERIVE_TRACE', traceDraft);
+    if (!quote) {
+      this.remember({ action: 'DERIVE_TRACE', outcome: 'failed', reason: 'quote_failed', parentTraceId });
       return;
     }
 
-    const quote = quoteResponse.data;
-    this.state.energy = quote.energyAfter;
-    logQuote('LLM', this.state.did!, this.state.tick, quote.cost, quote.allowed);
-
     // Safety checks
     if (!quote.allowed || quote.energyAfter < this.llmConfig.energyFloor) {
-      logSkip('LLM', this.state.did!, this.state.tick, 'safety_check_failed');
+      this.skip('DERIVE_TRACE', 'safety_check_failed', quote.allowed ? 'skipped' : 'denied', { parentTraceId });
       return;
     }
     if (this.state.totalCostSpent + quote.cost > this.llmConfig.sessionBudget) {
-      logSkip('LLM', this.state.did!, this.state.tick, 'budget_exceeded');
+      this.skip('DERIVE_TRACE', 'budget_exceeded', 'skipped', { parentTraceId });
       return;
     }
 
     // Derive
-    const deriveResponse = await this.coreHttp.post<
-      { did: string; parentTraceId: string; mutation: string; traceDraft: TraceDraft },
-      DeriveTraceResponse
-    >('/v1/traces/derive', {
-      did: this.state.did!,
-      parentTraceId,
-      mutation: 'partial',
-      traceDraft,
-    });
-
-    if (!deriveResponse.ok || !deriveResponse.data) {
-      logError('LLM', this.state.did, this.state.tick, deriveResponse.error ?? 'Derive failed', 'derive');
-      return;
+    const derived = await this.deriveTrace(parentTraceId, traceDraft, 'partial');
+    if (derived) {
+      this.state.inSilenceMode = false;
+      this.remember({ action: 'DERIVE_TRACE', outcome: 'ok', traceId: derived.traceId, parentTraceId, cost: derived.costPaid });
+    } else {
+      this.remember({ action: 'DERIVE_TRACE', outcome: 'failed', reason: 'derive_failed', parentTraceId });
     }
-
-    this.state.derivationsMade++;
-    this.state.totalCostSpent += deriveResponse.data.costPaid;
-    this.state.tick = deriveResponse.data.tick;
-    this.state.inSilenceMode = false;
-
-    logDerive(
-      'LLM',
-      this.state.did!,
-      this.state.tick,
-      deriveResponse.data.traceId,
-      [parentTraceId],
-      deriveResponse.data.costPaid
-    );
   }
 
   private async jointAttempt(decision: LLMDecision, perception: PerceiveResponse): Promise<void> {
@@ -675,34 +963,25 @@ export class LLMProbe {
     }
 
     if (!affordance) {
-      logSkip('LLM', this.state.did!, this.state.tick, 'no_affordances');
+      this.skip('JOINT_ATTEMPT', 'no_affordances');
       return;
     }
+    const { affordanceId } = affordance;
 
     // Quote joint action
-    const quoteResponse = await this.coreHttp.post<
-      { did: string; affordanceId: string },
-      JointQuoteResponse
-    >('/v1/joint/quote', {
-      did: this.state.did!,
-      affordanceId: affordance.affordanceId,
-    });
-
-    if (!quoteResponse.ok || !quoteResponse.data) {
-      logError('LLM', this.state.did, this.state.tick, quoteResponse.error ?? 'Joint quote failed', 'joint_quote');
+    const quote = await this.jointQuote(affordanceId);
+    if (!quote) {
+      this.remember({ action: 'JOINT_ATTEMPT', outcome: 'failed', reason: 'quote_failed', affordanceId });
       return;
     }
 
-    const quote = quoteResponse.data;
-    logQuote('LLM', this.state.did!, this.state.tick, quote.cost, quote.allowed);
-
     // Safety checks
     if (!quote.allowed) {
-      logSkip('LLM', this.state.did!, this.state.tick, 'joint_not_allowed');
+      this.skip('JOINT_ATTEMPT', 'joint_not_allowed', 'denied', { affordanceId });
       return;
     }
     if (this.state.totalCostSpent + quote.cost > this.llmConfig.sessionBudget) {
-      logSkip('LLM', this.state.did!, this.state.tick, 'budget_exceeded');
+      this.skip('JOINT_ATTEMPT', 'budget_exceeded', 'skipped', { affordanceId });
       return;
     }
 
@@ -710,40 +989,41 @@ export class LLMProbe {
     const traceDraft = generateJointCapableDraft(this.rng, [affordance.sourceTraceId]);
 
     // Attempt joint action
-    const jointResponse = await this.coreHttp.post<
-      { did: string; affordanceId: string; traceDraft: TraceDraft },
-      JointTraceResponse
-    >('/v1/joint/traces', {
-      did: this.state.did!,
-      affordanceId: affordance.affordanceId,
-      traceDraft,
-    });
-
-    if (!jointResponse.ok || !jointResponse.data) {
-      logError('LLM', this.state.did, this.state.tick, jointResponse.error ?? 'Joint action failed', 'joint_action');
-      return;
+    const joint = await this.jointTrace(affordanceId, traceDraft, quote.cost);
+    if (joint) {
+      this.state.inSilenceMode = false;
+      this.remember({
+        action: 'JOINT_ATTEMPT',
+        outcome: 'ok',
+        reason: joint.status,
+        affordanceId,
+        traceId: joint.traceId,
+        ...(joint.status === 'created' ? { cost: quote.cost } : {}),
+      });
+    } else {
+      this.remember({ action: 'JOINT_ATTEMPT', outcome: 'failed', reason: 'joint_failed', affordanceId });
     }
+  }
 
-    this.state.jointAttempts++;
-    this.state.tick = jointResponse.data.tick;
-    this.state.inSilenceMode = false;
+  // ==========================================================================
+  // MEMORY
+  // ==========================================================================
 
-    if (jointResponse.data.status === 'created') {
-      this.state.jointSuccesses++;
-      this.state.totalCostSpent += quote.cost;
-    }
-
-    logJointAttempt(
-      'LLM',
-      this.state.did!,
-      this.state.tick,
-      affordance.affordanceId,
-      jointResponse.data.status
-    );
+  private remember(episode: Omit<Episode, 'tick'>): void {
+    this.memory.record({ tick: this.state.tick, ...episode });
   }
 
-  getState(): AgentState {
-    return { ...this.state };
+  /**
+   * Log a skipped action and remember why
+   */
+  private skip(
+    action: string,
+    reason: string,
+    outcome: EpisodeOutcome = 'skipped',
+    extra: Pick<Episode, 'affordanceId' | 'parentTraceId'> = {}
+  ): void {
+    logSkip(this.archetype, this.state.did!, this.state.tick, reason);
+    this.remember({ action, outcome, reason, ...extra });
   }
 }
 
@@ -760,4 +1040,13 @@ export function createLLMProbe(
   return new LLMProbe(config, llmConfig, coreHttp, perceptionHttp);
 }
 
-export { DEFAULT_ENERGY_FLOOR, DEFAULT_SESSION_BUDGET, DEFAULT_FRUX_TIMEOUT_MS, DEFAULT_FRUX_MAX_RETRIES };
+export {
+  DEFAULT_ENERGY_FLOOR,
+  DEFAULT_SESSION_BUDGET,
+  DEFAULT_FRUX_TIMEOUT_MS,
+  DEFAULT_FRUX_MAX_RETRIES,
+  DEFAULT_MEMORY_SIZE,
+  DEFAULT_MEMORY_TOKENS,
+  DEFAULT_REFLECT_EVERY,
+  DEFAULT_PLAN_STEPS,
+};
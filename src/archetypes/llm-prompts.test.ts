@@ -0,0 +1,73 @@
+/**
+ * Tests for LLM Probe Prompt Templates
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_PROMPT_TEMPLATE,
+  loadPromptTemplate,
+  parsePromptTemplate,
+  promptVersion,
+  renderPrompt,
+} from './llm-prompts.js';
+
+const TEMPLATE = `---
+name: terse
+version: 2
+---
+[[system]]
+Pick one of: {{actions}}
+
+[[user]]
+{{ context }}
+`;
+
+describe('prompt templates', () => {
+  it('parses front matter and sections, and renders variables', () => {
+    const { template, errors } = parsePromptTemplate(TEMPLATE);
+
+    expect(errors).toEqual([]);
+    expect(template).toEqual({ name: 'terse', version: '2', system: 'Pick one of: {{actions}}', user: '{{ context }}' });
+    expect(promptVersion(template!)).toBe('terse@2');
+    expect(renderPrompt(template!.user, { context: '{"agent":{}}' })).toBe('{"agent":{}}');
+    expect(renderPrompt('{{actions}} {{other}}', { actions: 'SILENCE' })).toBe('SILENCE {{other}}');
+  });
+
+  it('reports every problem with its path', () => {
+    const { template, errors } = parsePromptTemplate(`---
+name: bad name
+extra: true
+---
+[[system]]
+Energy {{energy}}
+[[user]]
+Decide.
+[[reflectionSystem]]
+At most {{maxNotes}} notes from {{context}}
+[[notes]]
+x
+`);
+
+    expect(template).toBeUndefined();
+    expect(errors.map(e => `${e.path}: ${e.message}`)).toEqual([
+      'extra: Unknown field (allowed: name, version, description)',
+      'notes: Unknown section (allowed: system, user, reflectionSystem, reflectionUser)',
+      'name: Must be a name of letters, digits, ".", "_" or "-"',
+      'version: Must be a version of letters, digits, ".", "_" or "-"',
+      expect.stringMatching(/^system: Unknown variable \{\{energy\}\}/),
+      'user: Must include {{context}} (here or in system)',
+      expect.stringMatching(/^reflectionSystem: Unknown variable \{\{context\}\}/),
+      'reflectionUser: reflectionSystem and reflectionUser go together',
+    ]);
+    expect(parsePromptTemplate('[[system]]\n{{context}}').errors[0]!.message).toMatch(/front matter/);
+  });
+
+  it('keeps the built-in template equal to examples/prompts/default.md', async () => {
+    expect(await loadPromptTemplate('examples/prompts/default.md')).toEqual({ template: DEFAULT_PROMPT_TEMPLATE, errors: [] });
+  });
+
+  it('loads the other example templates and reports missing ones', async () => {
+    expect((await loadPromptTemplate('examples/prompts/terse.md')).errors).toEqual([]);
+    expect((await loadPromptTemplate('examples/prompts/missing.md')).errors[0]!.message).toMatch(/^Cannot read/);
+  });
+});
@@ -0,0 +1,291 @@
+/**
+ * LLM Probe Prompt Templates
+ *
+ * Versioned prompts for LLM probes. A template file has YAML front matter
+ * (name, version) and [[section]] blocks with {{variable}} slots:
+ *
+ *   ---
+ *   name: terse
+ *   version: 2
+ *   ---
+ *   [[system]]
+ *   Pick one action: {{actions}}
+ *   [[user]]
+ *   {{context}}
+ *
+ * Cohorts given different templates can be compared by the promptVersion
+ * ("terse@2") on their llm_decision entries.
+ */
+
+import { readFile } from 'node:fs/promises';
+
+import type { SchemaIssue } from '../core/schema.js';
+import { parseYaml } from '../core/yaml.js';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface PromptTemplate {
+  /** Template name, e.g. "default" */
+  name: string;
+  /** Bumped whenever the wording changes */
+  version: string;
+  description?: string;
+  /** Decision instructions */
+  system: string;
+  /** Decision request; {{context}} must appear here or in system */
+  user: string;
+  /** Reflection instructions (default: the built-in ones) */
+  reflectionSystem?: string;
+  /** Reflection request; {{history}} must appear here or in reflectionSystem */
+  reflectionUser?: string;
+}
+
+export type PromptSection = 'system' | 'user' | 'reflectionSystem' | 'reflectionUser';
+
+export const PROMPT_SECTIONS: readonly PromptSection[] = ['system', 'user', 'reflectionSystem', 'reflectionUser'];
+
+/** Variables each decision section can use */
+export const DECISION_VARIABLES = [
+  'actions',
+  'constraints',
+  'intents',
+  'cores',
+  'shapes',
+  'schema',
+  'planning',
+  'example',
+  'energyFloor',
+  'sessionBudget',
+  'context',
+] as const;
+
+/** Variables each reflection section can use */
+export const REFLECTION_VARIABLES = ['maxNotes', 'history'] as const;
+
+export type DecisionVariables = Record<(typeof DECISION_VARIABLES)[number], string | number>;
+export type ReflectionVariables = Record<(typeof REFLECTION_VARIABLES)[number], string | number>;
+
+const FRONT_MATTER_FIELDS = ['name', 'version', 'description'];
+
+const VARIABLE = /\{\{\s*([A-Za-z]\w*)\s*\}\}/g;
+const SECTION_MARKER = /^\[\[(\w+)\]\]\s*$/;
+
+// ============================================================================
+// BUILT-IN TEMPLATE
+// ============================================================================
+
+/**
+ * The prompt LLM probes use unless given a template. Kept equal to
+ * examples/prompts/default.md by llm-prompts.test.ts; change both together.
+ */
+export const DEFAULT_PROMPT_TEMPLATE: PromptTemplate = {
+  name: 'default',
+  version: '2',
+  description: 'Action menu with constraints, memory guidance and the response schema',
+  system: `You are an autonomous agent inside AI-HABITAT, a digital environment governed by physical laws.
+
+You exist as a probe agent with limited energy and must decide actions carefully.
+Your goal is to explore the habitat, create traces, and interact with the environment.
+
+CONSTRAINTS:
+{{constraints}}
+
+MEMORY:
+- context.memory (when present) holds your recent actions and how they ended, quote denials,
+  your own traces, affordances you tried, habitat trends and notes from earlier reflection
+- Learn from it: avoid actions that keep getting denied or skipped, and traces you already derived from
+
+AVAILABLE ACTIONS:
+{{actions}}
+
+RESPONSE FORMAT:
+You MUST respond with valid JSON matching this schema:
+{{schema}}
+{{planning}}
+Example response:
+{{example}}`,
+  user: `Current context:
+{{context}}
+
+Decide your next action. Respond with valid JSON only.`,
+  reflectionSystem: `You are an autonomous agent inside AI-HABITAT reviewing your own recent history.
+
+Compress it into at most {{maxNotes}} short notes (under 200 characters each): what worked,
+what was denied or skipped and why, and what to do differently.
+
+RESPONSE FORMAT:
+You MUST respond with valid JSON: {"notes":["...","..."]}`,
+  reflectionUser: `Your recent history:
+{{history}}
+
+Respond with valid JSON only.`,
+};
+
+// ============================================================================
+// RENDERING
+// ============================================================================
+
+/**
+ * Version recorded with each decision, e.g. "default@2"
+ */
+export function promptVersion(template: PromptTemplate): string {
+  return `${template.name}@${template.version}`;
+}
+
+/**
+ * Fill {{variable}} slots (unknown names are left as written)
+ */
+export function renderPrompt(text: string, variables: Record<string, string | number>): string {
+  return text.replace(VARIABLE, (slot, name: string) =>
+    Object.hasOwn(variables, name) ? String(variables[name]) : slot);
+}
+
+function variablesIn(text: string): string[] {
+  return [...text.matchAll(VARIABLE)].map(m => m[1]!);
+}
+
+// ============================================================================
+// VALIDATION
+// ============================================================================
+
+function validateSection(
+  template: Record<string, unknown>,
+  section: PromptSection,
+  allowed: readonly string[]
+): SchemaIssue[] {
+  const text = template[section];
+  if (text === undefined) return [];
+  if (typeof text !== 'string' || text.trim() === '') {
+    return [{ path: section, message: 'Must be non-empty text' }];
+  }
+  return [...new Set(variablesIn(text))]
+    .filter(name => !allowed.includes(name))
+    .map(name => ({ path: section, message: `Unknown variable {{${name}}} (allowed: ${allowed.join(', ')})` }));
+}
+
+function mentions(template: Record<string, unknown>, sections: PromptSection[], variable: string): boolean {
+  return sections.some(s => typeof template[s] === 'string' && variablesIn(template[s] as string).includes(variable));
+}
+
+/**
+ * Validate template structure and variables
+ */
+export function validatePromptTemplate(template: unknown): SchemaIssue[] {
+  if (!template || typeof template !== 'object' || Array.isArray(template)) {
+    return [{ path: '', message: 'Template must be an object' }];
+  }
+  const t = template as Record<string, unknown>;
+  const errors: SchemaIssue[] = [];
+
+  if (typeof t.name !== 'string' || !/^[\w.-]+$/.test(t.name)) {
+    errors.push({ path: 'name', message: 'Must be a name of letters, digits, ".", "_" or "-"' });
+  }
+  if (typeof t.version !== 'string' || !/^[\w.-]+$/.test(t.version)) {
+    errors.push({ path: 'version', message: 'Must be a version of letters, digits, ".", "_" or "-"' });
+  }
+  if (t.description !== undefined && typeof t.description !== 'string') {
+    errors.push({ path: 'description', message: 'Must be a string' });
+  }
+
+  for (const section of ['system', 'user'] as const) {
+    if (t[section] === undefined) errors.push({ path: section, message: 'Required' });
+    errors.push(...validateSection(t, section, DECISION_VARIABLES));
+  }
+  if (!mentions(t, ['system', 'user'], 'context')) {
+    errors.push({ path: 'user', message: 'Must include {{context}} (here or in system)' });
+  }
+
+  for (const section of ['reflectionSystem', 'reflectionUser'] as const) {
+    errors.push(...validateSection(t, section, REFLECTION_VARIABLES));
+  }
+  if ((t.reflectionSystem === undefined) !== (t.reflectionUser === undefined)) {
+    errors.push({ path: 'reflectionUser', message: 'reflectionSystem and reflectionUser go together' });
+  } else if (t.reflectionSystem !== undefined && !mentions(t, ['reflectionSystem', 'reflectionUser'], 'history')) {
+    errors.push({ path: 'reflectionUser', message: 'Must include {{history}} (here or in reflectionSystem)' });
+  }
+
+  return errors;
+}
+
+/**
+ * Check a template for planning mode, whose instructions go in {{planning}}
+ */
+export function validatePlanningTemplate(template: PromptTemplate): SchemaIssue[] {
+  if ([template.system, template.user].some(text => variablesIn(text).includes('planning'))) return [];
+  return [{ path: 'system', message: 'Must include {{planning}} (here or in user) when planning is on' }];
+}
+
+// ============================================================================
+// LOADING
+// ============================================================================
+
+/**
+ * Parse and validate a template file's text
+ */
+export function parsePromptTemplate(text: string): { template?: PromptTemplate; errors: SchemaIssue[] } {
+  const lines = text.replace(/\r\n/g, '\n').split('\n');
+  const end = lines.indexOf('---', 1);
+  if (lines[0]?.trim() !== '---' || end === -1) {
+    return { errors: [{ path: '', message: 'Must start with front matter between --- lines (name, version)' }] };
+  }
+
+  let meta: unknown;
+  try {
+    meta = parseYaml(lines.slice(1, end).join('\n'));
+  } catch (e) {
+    return { errors: [{ path: '', message: `Invalid front matter: ${(e as Error).message}` }] };
+  }
+  if (!meta || typeof meta !== 'object' || Array.isArray(meta)) {
+    return { errors: [{ path: '', message: 'Front matter must be a mapping (name, version)' }] };
+  }
+
+  const errors: SchemaIssue[] = [];
+  const template: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(meta)) {
+    if (!FRONT_MATTER_FIELDS.includes(key)) {
+      errors.push({ path: key, message: `Unknown field (allowed: ${FRONT_MATTER_FIELDS.join(', ')})` });
+    }
+    // "version: 2" reads as a number
+    template[key] = key === 'version' && typeof value === 'number' ? String(value) : value;
+  }
+
+  let section: string | null = null;
+  for (const [i, line] of lines.slice(end + 1).entries()) {
+    const marker = SECTION_MARKER.exec(line);
+    if (marker) {
+      section = marker[1]!;
+      if (!PROMPT_SECTIONS.includes(section as PromptSection)) {
+        errors.push({ path: section, message: `Unknown section (allowed: ${PROMPT_SECTIONS.join(', ')})` });
+      } else if (section in template) {
+        errors.push({ path: section, message: 'Duplicate section' });
+      }
+      template[section] = '';
+    } else if (section) {
+      template[section] += `${line}\n`;
+    } else if (line.trim() !== '') {
+      errors.push({ path: '', message: `Line ${end + i + 2}: text before the first [[section]]` });
+      break;
+    }
+  }
+  for (const name of PROMPT_SECTIONS) {
+    if (typeof template[name] === 'string') template[name] = (template[name] as string).replace(/^\n+|\s+$/g, '');
+  }
+
+  errors.push(...validatePromptTemplate(template));
+  return errors.length > 0 ? { errors } : { template: template as unknown as PromptTemplate, errors };
+}
+
+/**
+ * Read and validate a template file
+ */
+export async function loadPromptTemplate(path: string): Promise<{ template?: PromptTemplate; errors: SchemaIssue[] }> {
+  let text: string;
+  try {
+    text = await readFile(path, 'utf8');
+  } catch (e) {
+    return { errors: [{ path: '', message: `Cannot read ${path}: ${(e as Error).message}` }] };
+  }
+  return parsePromptTemplate(text);
+}
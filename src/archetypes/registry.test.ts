@@ -0,0 +1,146 @@
+/**
+ * Tests for the Archetype Registry
+ *
+ * Focuses on:
+ * - Built-in archetypes are registered
+ * - Third-party archetypes plug in via factories
+ * - Availability checks (LLM needs a FRUX key)
+ * - Reconfiguring running agents (hot reload)
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { mkdtempSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import type { AgentConfig } from '../core/types.js';
+import type { ProbeConfig } from '../core/config.js';
+import { loadConfig } from '../core/config.js';
+import { createHttpClient } from '../core/http.js';
+import { MinimalAgent } from './template-minimal.js';
+import { QuietSensor } from './quiet-sensor.js';
+import type { LLMProbe } from './llm-probe.js';
+import {
+  registerArchetype,
+  unregisterArchetype,
+  getArchetype,
+  listArchetypes,
+  createArchetypeAgent,
+  reconfigureArchetypeAgent,
+  type ArchetypeContext,
+} from './registry.js';
+
+vi.mock('../core/logger.js', () => ({
+  log: vi.fn(),
+  logRegistered: vi.fn(),
+  logPerceive: vi.fn(),
+  logQuote: vi.fn(),
+  logCreate: vi.fn(),
+  logDerive: vi.fn(),
+  logJointAttempt: vi.fn(),
+  logSilence: vi.fn(),
+  logSkip: vi.fn(),
+  logError: vi.fn(),
+}));
+
+describe('Archetype Registry', () => {
+  const probeConfig: ProbeConfig = { ...loadConfig(), fruxApiKey: '' };
+  const context: ArchetypeContext = {
+    coreHttp: createHttpClient({ baseUrl: 'http://core', maxRetries: 0 }),
+    perceptionHttp: createHttpClient({ baseUrl: 'http://perception', maxRetries: 0 }),
+    probeConfig,
+  };
+  const agentConfig: AgentConfig = {
+    archetype: 'QS',
+    index: 0,
+    coreApiUrl: 'http://core',
+    perceptionApiUrl: 'http://perception',
+    seed: 1,
+  };
+
+  afterEach(() => {
+    unregisterArchetype('MIN');
+  });
+
+  it('registers the built-in archetypes', () => {
+    expect(listArchetypes().map(a => a.code)).toEqual(expect.arrayContaining(['QS', 'CBC', 'JAP', 'LLM']));
+  });
+
+  it('creates built-in agents by code', () => {
+    const agent = createArchetypeAgent('QS', agentConfig, context);
+    expect(agent).toBeInstanceOf(QuietSensor);
+    expect(agent.archetype).toBe('QS');
+  });
+
+  it('reports LLM as unavailable without a FRUX key', () => {
+    const llm = getArchetype('LLM')!;
+    expect(llm.unavailableReason?.(probeConfig)).toBe('FRUX_API_KEY not configured');
+    expect(llm.unavailableReason?.({ ...probeConfig, fruxApiKey: 'sk-real-key' })).toBeNull();
+  });
+
+  it('plugs in third-party archetypes', () => {
+    registerArchetype({
+      code: 'MIN',
+      name: 'Minimal',
+      create: (config, ctx) => new MinimalAgent(config, ctx.coreHttp, ctx.perceptionHttp),
+    });
+
+    const agent = createArchetypeAgent('MIN', { ...agentConfig, archetype: 'QS' }, context);
+    expect(agent).toBeInstanceOf(MinimalAgent);
+    expect(agent.archetype).toBe('MIN');
+  });
+
+  it('rejects duplicate and malformed codes', () => {
+    const definition = {
+      code: 'MIN',
+      name: 'Minimal',
+      create: (config: AgentConfig, ctx: ArchetypeContext) => new MinimalAgent(config, ctx.coreHttp, ctx.perceptionHttp),
+    };
+    registerArchetype(definition);
+
+    expect(() => registerArchetype(definition)).toThrow('already registered');
+    expect(() => registerArchetype(definition, { replace: true })).not.toThrow();
+    expect(() => registerArchetype({ ...definition, code: 'min-agent' })).toThrow('Invalid archetype code');
+  });
+
+  it('reconfigures running agents without touching their identity', () => {
+    const sensor = createArchetypeAgent('QS', agentConfig, context);
+    reconfigureArchetypeAgent(sensor, { silenceThreshold: 9, index: 5 }, context);
+    expect((sensor as any).silenceThreshold).toBe(9);
+    expect(sensor.index).toBe(0);
+
+    // LLM budgets come from the runner config plus cohort params
+    const llm = createArchetypeAgent('LLM', { ...agentConfig, params: { sessionBudget: 5 } }, context);
+    expect((llm as any).llmConfig.sessionBudget).toBe(5);
+    reconfigureArchetypeAgent(llm, { params: {} }, {
+      ...context,
+      probeConfig: { ...probeConfig, llmSessionBudget: 40, llmEnergyFloor: 7 },
+    });
+    expect((llm as any).llmConfig).toMatchObject({ sessionBudget: 40, energyFloor: 7 });
+  });
+
+  it('keeps the provider, and its script position, when a reload leaves its settings alone', async () => {
+    const script = join(mkdtempSync(join(tmpdir(), 'registry-')), 'script.yaml');
+    writeFileSync(script, 'sequence:\n  - action: SILENCE\n  - action: CREATE_TRACE\n  - action: SILENCE\n');
+    const params = { provider: 'fake', script };
+    const reason = async (agent: unknown) => {
+      const result = await (agent as LLMProbe).llmProvider!.complete({ system: '', prompt: '' });
+      return JSON.parse(result.text!).reason;
+    };
+
+    const llm = createArchetypeAgent('LLM', { ...agentConfig, params }, context);
+    const provider = (llm as LLMProbe).llmProvider;
+    expect(await reason(llm)).toBe('sequence 1');
+
+    reconfigureArchetypeAgent(llm, { params: { ...params, sessionBudget: 5 } }, context);
+    expect((llm as LLMProbe).llmProvider).toBe(provider);
+    expect(await reason(llm)).toBe('sequence 2');
+
+    reconfigureArchetypeAgent(llm, { params: { ...params, model: 'other' } }, context);
+    expect((llm as LLMProbe).llmProvider).not.toBe(provider);
+    expect(await reason(llm)).toBe('sequence 1');
+  });
+
+  it('throws for unknown archetypes', () => {
+    expect(() => createArchetypeAgent('NOPE', agentConfig, context)).toThrow('Unknown archetype "NOPE"');
+  });
+});
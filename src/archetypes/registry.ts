@@ -0,0 +1,258 @@
+/**
+ * Archetype Registry
+ *
+ * Maps archetype codes to factories so the runner never hardcodes
+ * which archetypes exist. Built-in archetypes are registered on load;
+ * third-party archetypes call registerArchetype() from a plugin module.
+ */
+
+import { pathToFileURL } from 'node:url';
+import { resolve } from 'node:path';
+
+import type { AgentArchetype, AgentConfig } from '../core/types.js';
+import type { ProbeConfig } from '../core/config.js';
+import { HttpClient } from '../core/http.js';
+import { log } from '../core/logger.js';
+import type { ProbeAgent } from './base.js';
+import { QuietSensor } from './quiet-sensor.js';
+import { CostBoundCrafter } from './cost-bound-crafter.js';
+import { JointProspector } from './joint-prospector.js';
+import { LLMProbe, type LLMConfig } from './llm-probe.js';
+import { createLLMProvider, providerSettingsFromConfig, type LLMProvider, type LLMProviderSettings } from '../llm/index.js';
+
+/** Shared dependencies handed to every factory */
+export interface ArchetypeContext {
+  coreHttp: HttpClient;
+  perceptionHttp: HttpClient;
+  /** Effective runner configuration */
+  probeConfig: ProbeConfig;
+  /** Fetch for FRUX calls (cassette record/replay). Defaults to global fetch */
+  fetch?: typeof fetch;
+  /** Aborted when the runner gives up on in-flight steps */
+  signal?: AbortSignal;
+}
+
+export type ArchetypeFactory = (config: AgentConfig, context: ArchetypeContext) => ProbeAgent;
+
+export interface ArchetypeDefinition {
+  /** Archetype code (e.g. "QS"). Used in logs and seeds */
+  code: AgentArchetype;
+  /** Human-readable name */
+  name: string;
+  /** Build one agent */
+  create: ArchetypeFactory;
+  /** Reason a cohort with these params cannot run with the given config, or null */
+  unavailableReason?: (probeConfig: ProbeConfig, params?: Record<string, unknown>) => string | null;
+  /** Apply new settings to a running agent (default: agent.reconfigure) */
+  reconfigure?: (agent: ProbeAgent, changes: Partial<AgentConfig>, context: ArchetypeContext) => void;
+}
+
+const registry = new Map<string, ArchetypeDefinition>();
+
+/**
+ * Register an archetype. Throws on duplicate codes unless replace is set.
+ */
+export function registerArchetype(
+  definition: ArchetypeDefinition,
+  options: { replace?: boolean } = {}
+): void {
+  if (!/^[A-Z][A-Z0-9_]*$/.test(definition.code)) {
+    throw new Error(`Invalid archetype code "${definition.code}": must match ^[A-Z][A-Z0-9_]*$`);
+  }
+  if (registry.has(definition.code) && !options.replace) {
+    throw new Error(`Archetype "${definition.code}" is already registered`);
+  }
+  registry.set(definition.code, definition);
+}
+
+/**
+ * Remove an archetype (mainly for tests)
+ */
+export function unregisterArchetype(code: AgentArchetype): boolean {
+  return registry.delete(code);
+}
+
+export function getArchetype(code: AgentArchetype): ArchetypeDefinition | undefined {
+  return registry.get(code);
+}
+
+export function listArchetypes(): ArchetypeDefinition[] {
+  return [...registry.values()];
+}
+
+/**
+ * Import plugin modules so they can register their archetypes
+ */
+export async function loadPlugins(plugins: string[]): Promise<void> {
+  for (const plugin of plugins) {
+    const specifier = plugin.startsWith('.') || plugin.startsWith('/')
+      ? pathToFileURL(resolve(plugin)).href
+      : plugin;
+    await import(specifier);
+    log({
+      did: null,
+      archetype: 'QS',
+      step: 'plugin_loaded',
+      tick: 0,
+      details: { plugin },
+    });
+  }
+}
+
+/**
+ * Build an agent for a registered archetype
+ */
+export function createArchetypeAgent(
+  code: AgentArchetype,
+  config: AgentConfig,
+  context: ArchetypeContext
+): ProbeAgent {
+  const definition = registry.get(code);
+  if (!definition) {
+    throw new Error(`Unknown archetype "${code}". Registered: ${[...registry.keys()].join(', ')}`);
+  }
+  return definition.create({ ...config, archetype: code }, context);
+}
+
+/**
+ * Apply new settings to a running agent of a registered archetype.
+ * The context carries the reloaded runner configuration.
+ */
+export function reconfigureArchetypeAgent(
+  agent: ProbeAgent,
+  changes: Partial<AgentConfig>,
+  context: ArchetypeContext
+): void {
+  const definition = registry.get(agent.archetype);
+  if (definition?.reconfigure) {
+    definition.reconfigure(agent, changes, context);
+  } else {
+    agent.reconfigure(changes);
+  }
+}
+
+/**
+ * Build the LLM probe configuration from runner config
+ */
+export function llmConfigFromProbeConfig(config: ProbeConfig): LLMConfig {
+  return {
+    fruxApiUrl: config.fruxApiUrl,
+    fruxApiKey: config.fruxApiKey,
+    preferLocal: config.fruxPreferLocal,
+    timeoutMs: config.fruxTimeoutMs,
+    maxRetries: config.maxRetries,
+    energyFloor: config.llmEnergyFloor,
+    sessionBudget: config.llmSessionBudget,
+    enableInquiry: config.llmEnableInquiry,
+    memorySize: config.llmMemorySize,
+    memoryTokens: config.llmMemoryTokens,
+    reflectEvery: config.llmReflectEvery,
+    prompt: config.llmPrompt,
+    planning: config.llmPlanning,
+    planSteps: config.llmPlanSteps,
+  };
+}
+
+/**
+ * LLM settings a scenario cohort may override
+ */
+function llmOverridesFromParams(params: Record<string, unknown> = {}): Partial<LLMConfig> {
+  const overrides: Partial<LLMConfig> = {};
+  if (typeof params.energyFloor === 'number') overrides.energyFloor = params.energyFloor;
+  if (typeof params.sessionBudget === 'number') overrides.sessionBudget = params.sessionBudget;
+  if (typeof params.enableInquiry === 'boolean') overrides.enableInquiry = params.enableInquiry;
+  if (typeof params.memorySize === 'number') overrides.memorySize = params.memorySize;
+  if (typeof params.memoryTokens === 'number') overrides.memoryTokens = params.memoryTokens;
+  if (typeof params.reflectEvery === 'number') overrides.reflectEvery = params.reflectEvery;
+  if (typeof params.prompt === 'string') overrides.prompt = params.prompt;
+  if (typeof params.planning === 'boolean') overrides.planning = params.planning;
+  if (typeof params.planSteps === 'number') overrides.planSteps = params.planSteps;
+  return overrides;
+}
+
+/** Settings each cohort provider was created with, so a reload can keep it */
+const providerSettings = new WeakMap<LLMProvider, LLMProviderSettings>();
+
+function sameSettings(a: LLMProviderSettings, b: LLMProviderSettings): boolean {
+  const keys = new Set([...Object.keys(a), ...Object.keys(b)] as Array<keyof LLMProviderSettings>);
+  return [...keys].every(key => a[key] === b[key]);
+}
+
+/**
+ * The cohort's provider. `current` is kept when its settings did not
+ * change, so its state (e.g. the fake provider's sequence and seeded
+ * draws) carries over a reload.
+ */
+function cohortProvider(
+  params: Record<string, unknown> | undefined,
+  ctx: ArchetypeContext,
+  seed: number,
+  current?: LLMProvider
+): LLMProvider {
+  const settings: LLMProviderSettings = {
+    ...providerSettingsFromConfig(ctx.probeConfig, params),
+    seed,
+    fetch: ctx.fetch,
+    signal: ctx.signal,
+  };
+  const previous = current && providerSettings.get(current);
+  if (current && previous && sameSettings(previous, settings)) return current;
+
+  const provider = createLLMProvider(settings);
+  providerSettings.set(provider, settings);
+  return provider;
+}
+
+/**
+ * LLM settings for one agent: runner config plus its cohort's overrides,
+ * including the provider, model and URL (the seed drives the fake provider)
+ */
+function cohortLLMConfig(
+  params: Record<string, unknown> | undefined,
+  ctx: ArchetypeContext,
+  seed: number,
+  current?: LLMProvider
+): LLMConfig {
+  return {
+    ...llmConfigFromProbeConfig(ctx.probeConfig),
+    ...llmOverridesFromParams(params),
+    fetch: ctx.fetch,
+    signal: ctx.signal,
+    provider: cohortProvider(params, ctx, seed, current),
+  };
+}
+
+// ============================================================================
+// BUILT-IN ARCHETYPES
+// ============================================================================
+
+registerArchetype({
+  code: 'QS',
+  name: 'Quiet Sensor',
+  create: (config, ctx) => new QuietSensor(config, ctx.coreHttp, ctx.perceptionHttp),
+});
+
+registerArchetype({
+  code: 'CBC',
+  name: 'Cost-Bound Crafter',
+  create: (config, ctx) => new CostBoundCrafter(config, ctx.coreHttp, ctx.perceptionHttp),
+});
+
+registerArchetype({
+  code: 'JAP',
+  name: 'Joint Prospector',
+  create: (config, ctx) => new JointProspector(config, ctx.coreHttp, ctx.perceptionHttp),
+});
+
+registerArchetype({
+  code: 'LLM',
+  name: 'LLM Probe',
+  create: (config, ctx) => new LLMProbe(config, cohortLLMConfig(config.params, ctx, config.seed), ctx.coreHttp, ctx.perceptionHttp),
+  reconfigure: (agent, changes, ctx) => {
+    agent.reconfigure(changes);
+    const probe = agent as LLMProbe;
+    probe.updateLLMConfig(cohortLLMConfig(changes.params, ctx, agent.seed, probe.llmProvider));
+  },
+  unavailableReason: (probeConfig, params) =>
+    createLLMProvider(providerSettingsFromConfig(probeConfig, params)).unavailableReason(),
+});
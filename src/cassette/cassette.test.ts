@@ -0,0 +1,134 @@
+/**
+ * Cassette Tests
+ *
+ * Records a short session against the simulator, then replays it.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mkdtempSync, readFileSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+vi.mock('../core/logger.js', () => ({
+  log: vi.fn(),
+  logRegistered: vi.fn(),
+  logPerceive: vi.fn(),
+  logQuote: vi.fn(),
+  logCreate: vi.fn(),
+  logDerive: vi.fn(),
+  logJointAttempt: vi.fn(),
+  logSilence: vi.fn(),
+  logSkip: vi.fn(),
+  logError: vi.fn(),
+}));
+
+import { createHttpClient } from '../core/http.js';
+import { createCostBoundCrafter } from '../archetypes/cost-bound-crafter.js';
+import { createSimulatedHabitat, createSimulatorFetch } from '../simulator/index.js';
+import { createCassetteRecorder, loadCassette, cassetteAgentKey, parseCassette } from './index.js';
+
+function crafter(fetchFn: typeof fetch) {
+  const http = createHttpClient({ baseUrl: 'http://habitat', maxRetries: 0, fetch: fetchFn });
+  return createCostBoundCrafter({
+    archetype: 'CBC',
+    index: 0,
+    coreApiUrl: 'http://habitat',
+    perceptionApiUrl: 'http://habitat',
+    seed: 1234,
+  }, http, http);
+}
+
+describe('cassetteAgentKey', () => {
+  it('keys by did, continuity seed, or body hash', () => {
+    expect(cassetteAgentKey('{"did":"agent:0x1","action":"CREATE_TRACE"}')).toBe('agent:0x1');
+    expect(cassetteAgentKey('{"continuitySeed":"cbc-0-ab"}')).toBe('seed:cbc-0-ab');
+    expect(cassetteAgentKey('{"message":"hi"}')).toMatch(/^body:[0-9a-f]{8}$/);
+    expect(cassetteAgentKey(null)).toBe(cassetteAgentKey(''));
+  });
+});
+
+describe('record and replay', () => {
+  let dir: string;
+  let path: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'cassette-'));
+    path = join(dir, 'run.jsonl');
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  async function record(ticks: number) {
+    const recorder = createCassetteRecorder(path, { baseSeed: 42, scenario: 'test' });
+    const agent = crafter(recorder.wrap(createSimulatorFetch(createSimulatedHabitat({ seed: 3 }))));
+    await agent.register();
+    for (let tick = 1; tick <= ticks; tick++) {
+      recorder.setTick(tick);
+      await agent.step();
+    }
+    return { recorder, state: agent.getState() };
+  }
+
+  it('writes a header and keyed entries', async () => {
+    const { recorder } = await record(2);
+    const lines = readFileSync(path, 'utf8').trim().split('\n').map(line => JSON.parse(line));
+
+    expect(lines[0]).toMatchObject({ type: 'header', version: 1, baseSeed: 42, scenario: 'test' });
+    expect(lines[1]).toMatchObject({ type: 'call', tick: 0, seq: 0, method: 'POST', url: 'http://habitat/v1/agents/register' });
+    expect(lines[1].agent).toMatch(/^seed:cbc-0-/);
+    expect(lines[2]).toMatchObject({ tick: 1, seq: 0, url: 'http://habitat/v1/perception/perceive' });
+    expect(recorder.getStats().calls).toBe(lines.length - 1);
+  });
+
+  it('replays a session to the same state without a habitat', async () => {
+    const { state: recorded } = await record(5);
+    const player = await loadCassette(path);
+    const agent = crafter(player.fetch);
+
+    await agent.register();
+    for (let tick = 1; tick <= player.lastTick; tick++) {
+      player.setTick(tick);
+      await agent.step();
+    }
+
+    expect(agent.getState()).toEqual(recorded);
+    expect(player.getStats()).toMatchObject({ misses: 0, divergences: 0 });
+  });
+
+  it('reports calls that were never recorded', async () => {
+    await record(1);
+    const player = await loadCassette(path);
+
+    player.setTick(9);
+    const response = await player.fetch('http://habitat/v1/perception/perceive', {
+      method: 'POST',
+      body: JSON.stringify({ did: 'agent:0xnope' }),
+    });
+
+    expect(response.status).toBe(404);
+    expect(player.getStats().misses).toBe(1);
+    expect(player.getDivergences()[0]).toMatchObject({ agent: 'agent:0xnope', tick: 9, seq: 0, kind: 'missing' });
+  });
+
+  it('serves but flags a changed request body', async () => {
+    await record(1);
+    const player = await loadCassette(path);
+    const entry = JSON.parse(readFileSync(path, 'utf8').split('\n')[1]!);
+
+    const response = await player.fetch(entry.url, {
+      method: 'POST',
+      body: JSON.stringify({ continuitySeed: JSON.parse(entry.requestBody).continuitySeed, extra: true }),
+    });
+
+    expect(response.status).toBe(200);
+    expect(player.getDivergences()[0]!.kind).toBe('body');
+  });
+
+  it('rejects malformed cassettes', () => {
+    expect(() => parseCassette('')).toThrow('Cassette is empty');
+    expect(() => parseCassette('{"type":"call"}')).toThrow('must start with a header');
+    expect(() => parseCassette('{"type":"header","version":9}')).toThrow('Unsupported cassette version 9');
+  });
+});
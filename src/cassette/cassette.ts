@@ -0,0 +1,298 @@
+/**
+ * Cassette Recorder and Player
+ *
+ * Both are fetch wrappers, so they plug into HttpClient and the FRUX client
+ * through their `fetch` option:
+ * - CassetteRecorder passes calls through and appends each exchange to the file
+ * - CassettePlayer answers from the file and reports where a run diverges
+ *
+ * The runner calls setTick() at the start of every tick.
+ */
+
+import { appendFileSync, writeFileSync } from 'node:fs';
+import { readFile } from 'node:fs/promises';
+
+import { log } from '../core/logger.js';
+import {
+  CASSETTE_VERSION,
+  type CassetteHeader,
+  type CassetteEntry,
+  type CassetteLine,
+  type CassetteStats,
+  type ReplayDivergence,
+} from './types.js';
+
+/** Divergences kept in memory for getDivergences() */
+const MAX_KEPT_DIVERGENCES = 1000;
+
+// ============================================================================
+// KEYING
+// ============================================================================
+
+/**
+ * FNV-1a hash, hex
+ */
+function hashText(text: string): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193) >>> 0;
+  }
+  return hash.toString(16).padStart(8, '0');
+}
+
+/**
+ * Agent a request belongs to, taken from its body.
+ * Habitat calls carry a did (or a continuitySeed on registration);
+ * anything else (e.g. LLM calls) is keyed by a hash of the body.
+ */
+export function cassetteAgentKey(body: string | null): string {
+  if (body) {
+    try {
+      const parsed = JSON.parse(body) as { did?: unknown; continuitySeed?: unknown };
+      if (typeof parsed.did === 'string') return parsed.did;
+      if (typeof parsed.continuitySeed === 'string') return `seed:${parsed.continuitySeed}`;
+    } catch {
+      // Not JSON, fall through to hash
+    }
+  }
+  return `body:${hashText(body ?? '')}`;
+}
+
+function requestParts(input: Parameters<typeof fetch>[0], init?: RequestInit): {
+  url: string;
+  method: string;
+  body: string | null;
+} {
+  const url = typeof input === 'string' ? input : input instanceof URL ? input.href : input.url;
+  return {
+    url,
+    method: (init?.method ?? 'GET').toUpperCase(),
+    body: typeof init?.body === 'string' ? init.body : null,
+  };
+}
+
+/**
+ * Per (agent, tick) call counter
+ */
+class SequenceCounter {
+  private counts = new Map<string, number>();
+
+  next(agent: string, tick: number): number {
+    const key = `${agent}@${tick}`;
+    const seq = this.counts.get(key) ?? 0;
+    this.counts.set(key, seq + 1);
+    return seq;
+  }
+}
+
+// ============================================================================
+// RECORDER
+// ============================================================================
+
+export class CassetteRecorder {
+  private path: string;
+  private tick = 0;
+  private sequence = new SequenceCounter();
+  private calls = 0;
+
+  constructor(path: string, header: Omit<CassetteHeader, 'type' | 'version' | 'createdAt'>) {
+    this.path = path;
+    const line: CassetteHeader = {
+      type: 'header',
+      version: CASSETTE_VERSION,
+      createdAt: new Date().toISOString(),
+      ...header,
+    };
+    writeFileSync(this.path, JSON.stringify(line) + '\n');
+  }
+
+  setTick(tick: number): void {
+    this.tick = tick;
+  }
+
+  /**
+   * Wrap a fetch implementation so every exchange is recorded.
+   * Failed requests (thrown errors) are not recorded.
+   */
+  wrap(inner: typeof fetch): typeof fetch {
+    return async (input, init) => {
+      const { url, method, body } = requestParts(input, init);
+      const agent = cassetteAgentKey(body);
+      const tick = this.tick;
+      const seq = this.sequence.next(agent, tick);
+
+      const response = await inner(input, init);
+      const responseBody = await response.text();
+      const contentType = response.headers.get('Content-Type') ?? undefined;
+
+      const entry: CassetteEntry = {
+        type: 'call',
+        agent,
+        tick,
+        seq,
+        method,
+        url,
+        requestBody: body,
+        status: response.status,
+        responseBody,
+        contentType,
+      };
+      appendFileSync(this.path, JSON.stringify(entry) + '\n');
+      this.calls++;
+
+      return new Response(responseBody === '' ? null : responseBody, {
+        status: response.status,
+        statusText: response.statusText,
+        headers: contentType ? { 'Content-Type': contentType } : undefined,
+      });
+    };
+  }
+
+  getStats(): CassetteStats {
+    return { calls: this.calls, misses: 0, divergences: 0 };
+  }
+}
+
+export function createCassetteRecorder(
+  path: string,
+  header: Omit<CassetteHeader, 'type' | 'version' | 'createdAt'>
+): CassetteRecorder {
+  return new CassetteRecorder(path, header);
+}
+
+// ============================================================================
+// PLAYER
+// ============================================================================
+
+export class CassettePlayer {
+  readonly header: CassetteHeader;
+  /** Last tick with a recorded call */
+  readonly lastTick: number;
+  private entries = new Map<string, CassetteEntry>();
+  private tick = 0;
+  private sequence = new SequenceCounter();
+  private calls = 0;
+  private misses = 0;
+  private divergenceCount = 0;
+  private divergences: ReplayDivergence[] = [];
+
+  constructor(header: CassetteHeader, entries: CassetteEntry[]) {
+    this.header = header;
+    let lastTick = 0;
+    for (const entry of entries) {
+      this.entries.set(`${entry.agent}@${entry.tick}#${entry.seq}`, entry);
+      lastTick = Math.max(lastTick, entry.tick);
+    }
+    this.lastTick = lastTick;
+  }
+
+  setTick(tick: number): void {
+    this.tick = tick;
+  }
+
+  /**
+   * Fetch implementation that answers from the cassette.
+   * Unrecorded calls get a 404 { error: "cassette_miss" }, which HttpClient does not retry.
+   */
+  readonly fetch: typeof fetch = async (input, init) => {
+    const { url, method, body } = requestParts(input, init);
+    const agent = cassetteAgentKey(body);
+    const tick = this.tick;
+    const seq = this.sequence.next(agent, tick);
+    const entry = this.entries.get(`${agent}@${tick}#${seq}`);
+    const actual = `${method} ${url}`;
+
+    if (!entry) {
+      this.misses++;
+      this.diverge({ agent, tick, seq, kind: 'missing', actual });
+      return new Response(JSON.stringify({ error: 'cassette_miss' }), {
+        status: 404,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    const expected = `${entry.method} ${entry.url}`;
+    if (expected !== actual) {
+      this.misses++;
+      this.diverge({ agent, tick, seq, kind: 'url', expected, actual });
+      return new Response(JSON.stringify({ error: 'cassette_miss' }), {
+        status: 404,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    // Same endpoint, different request: serve the recording but report it
+    if (entry.requestBody !== body) {
+      this.divergenceCount++;
+      this.diverge({
+        agent,
+        tick,
+        seq,
+        kind: 'body',
+        expected: entry.requestBody ?? '',
+        actual: body ?? '',
+      });
+    }
+
+    this.calls++;
+    return new Response(entry.responseBody === '' ? null : entry.responseBody, {
+      status: entry.status,
+      headers: entry.contentType ? { 'Content-Type': entry.contentType } : undefined,
+    });
+  };
+
+  getStats(): CassetteStats {
+    return { calls: this.calls, misses: this.misses, divergences: this.divergenceCount };
+  }
+
+  getDivergences(): ReplayDivergence[] {
+    return [...this.divergences];
+  }
+
+  private diverge(divergence: ReplayDivergence): void {
+    if (this.divergences.length < MAX_KEPT_DIVERGENCES) {
+      this.divergences.push(divergence);
+    }
+    log({
+      did: divergence.agent.startsWith('body:') || divergence.agent.startsWith('seed:') ? null : divergence.agent,
+      archetype: 'QS',
+      step: 'replay_divergence',
+      tick: divergence.tick,
+      details: { ...divergence },
+    });
+  }
+}
+
+/**
+ * Parse cassette JSON Lines
+ */
+export function parseCassette(text: string): CassettePlayer {
+  const lines = text.split('\n').filter((line) => line.trim().length > 0);
+  if (lines.length === 0) {
+    throw new Error('Cassette is empty');
+  }
+
+  const parsed = lines.map((line, i) => {
+    try {
+      return JSON.parse(line) as CassetteLine;
+    } catch {
+      throw new Error(`Cassette line ${i + 1} is not valid JSON`);
+    }
+  });
+
+  const header = parsed[0];
+  if (!header || header.type !== 'header') {
+    throw new Error('Cassette must start with a header line');
+  }
+  if (header.version !== CASSETTE_VERSION) {
+    throw new Error(`Unsupported cassette version ${header.version} (expected ${CASSETTE_VERSION})`);
+  }
+
+  const entries = parsed.slice(1).filter((line): line is CassetteEntry => line.type === 'call');
+  return new CassettePlayer(header, entries);
+}
+
+export async function loadCassette(path: string): Promise<CassettePlayer> {
+  return parseCassette(await readFile(path, 'utf8'));
+}
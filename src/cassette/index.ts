@@ -0,0 +1,25 @@
+/**
+ * Cassette Module
+ *
+ * Record every HTTP exchange of a run and replay it offline,
+ * keyed by agent, tick and call sequence.
+ */
+
+export type {
+  CassetteHeader,
+  CassetteEntry,
+  CassetteLine,
+  ReplayDivergence,
+  CassetteStats,
+} from './types.js';
+
+export { CASSETTE_VERSION } from './types.js';
+
+export {
+  CassetteRecorder,
+  CassettePlayer,
+  createCassetteRecorder,
+  cassetteAgentKey,
+  parseCassette,
+  loadCassette,
+} from './cassette.js';
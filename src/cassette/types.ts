@@ -0,0 +1,60 @@
+/**
+ * Cassette Types
+ *
+ * A cassette is a JSON Lines file: one header line, then one line per
+ * HTTP exchange. Exchanges are keyed by agent, runner tick and the
+ * call sequence of that agent within the tick.
+ */
+
+export const CASSETTE_VERSION = 1;
+
+export interface CassetteHeader {
+  type: 'header';
+  version: number;
+  createdAt: string;
+  /** Base seed of the recorded run (replay reuses it unless --seed is given) */
+  baseSeed: number;
+  /** Scenario name of the recorded run */
+  scenario: string;
+}
+
+export interface CassetteEntry {
+  type: 'call';
+  /** Agent key: did, "seed:<continuitySeed>" for registration, or "body:<hash>" */
+  agent: string;
+  /** Runner tick (0 = before the first tick) */
+  tick: number;
+  /** Call index for this agent within the tick, from 0 */
+  seq: number;
+  method: string;
+  url: string;
+  /** Raw request body (headers are never recorded) */
+  requestBody: string | null;
+  status: number;
+  /** Raw response body */
+  responseBody: string;
+  /** Response content type, if any */
+  contentType?: string;
+}
+
+export type CassetteLine = CassetteHeader | CassetteEntry;
+
+/** A replayed request that does not match the recording */
+export interface ReplayDivergence {
+  agent: string;
+  tick: number;
+  seq: number;
+  /** What differed: "missing" (no recorded call), "url" or "body" */
+  kind: 'missing' | 'url' | 'body';
+  expected?: string;
+  actual: string;
+}
+
+export interface CassetteStats {
+  /** Calls recorded or served */
+  calls: number;
+  /** Replay only: calls without a recorded counterpart */
+  misses: number;
+  /** Replay only: calls served despite a different request body */
+  divergences: number;
+}
@@ -0,0 +1,348 @@
+#!/usr/bin/env node
+/**
+ * Probe Agents Kit - CLI
+ *
+ * `probes <command>` tooling around runs:
+ * - analyze: turn runner JSON log lines into a report
+ * - compare: significant differences between two runs, failing on regressions
+ * - doctor: preflight checks (habitat, FRUX, config) without starting a run
+ * - config print: the effective runner config and where each value came from
+ * - top: live dashboard of a running population (needs the runner's admin API)
+ *
+ * Exit codes: 0 ok, 1 error (or failed check), 2 usage, 3 regression (compare)
+ */
+
+import { createReadStream, realpathSync } from 'node:fs';
+import { mkdir, writeFile } from 'node:fs/promises';
+import { dirname, join } from 'node:path';
+import { createInterface } from 'node:readline';
+import { pathToFileURL } from 'node:url';
+
+import {
+  analyzeLines,
+  compareRuns,
+  parseThreshold,
+  renderMarkdown,
+  renderCsv,
+  renderJson,
+  renderComparisonMarkdown,
+  renderComparisonJson,
+  REPORT_FORMATS,
+  COMPARISON_FORMATS,
+  type ReportFormat,
+  type ComparisonFormat,
+  type RegressionThreshold,
+} from './analysis/index.js';
+import {
+  resolveConfig,
+  redactConfig,
+  configureLogger,
+  CONFIG_KEYS,
+  type ResolvedConfig,
+} from './core/index.js';
+import { loadPlugins } from './archetypes/index.js';
+import { createSimulatedHabitat, createSimulatorFetch } from './simulator/index.js';
+import { runPreflight, renderPreflight } from './preflight/index.js';
+import { createAdminClient } from './admin/index.js';
+import { runTop } from './top/index.js';
+
+interface Command {
+  usage: string;
+  summary: string;
+  run(args: string[]): Promise<number>;
+}
+
+/** Thrown for bad arguments; reported with the command's usage */
+class UsageError extends Error {}
+
+// ============================================================================
+// ARGUMENTS
+// ============================================================================
+
+interface ParsedArgs {
+  positional: string[];
+  /** Last value of each option */
+  options: Record<string, string>;
+  /** Every value of each option, for repeatable ones */
+  all: Record<string, string[]>;
+}
+
+/**
+ * Split "--name value" options from positional arguments
+ */
+function parseArgs(args: string[], valueOptions: string[]): ParsedArgs {
+  const positional: string[] = [];
+  const options: Record<string, string> = {};
+  const all: Record<string, string[]> = {};
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i]!;
+    if (arg.startsWith('--') && arg.length > 2) {
+      const name = arg.slice(2);
+      if (!valueOptions.includes(name)) throw new UsageError(`Unknown option ${arg}`);
+      const value = args[i + 1];
+      if (value === undefined) throw new UsageError(`Missing value for ${arg}`);
+      options[name] = value;
+      (all[name] ??= []).push(value);
+      i++;
+    } else {
+      positional.push(arg);
+    }
+  }
+
+  return { positional, options, all };
+}
+
+/**
+ * Take "--format <name>" out of runner options, which are passed on as-is
+ */
+function takeFormat(args: string[], formats: string[]): { format: string; rest: string[] } {
+  const at = args.indexOf('--format');
+  const format = at >= 0 ? args[at + 1] ?? '' : formats[0]!;
+  if (!formats.includes(format)) throw new UsageError(`Unknown format ${format}`);
+  return { format, rest: at >= 0 ? [...args.slice(0, at), ...args.slice(at + 2)] : args };
+}
+
+function lines(path: string): AsyncIterable<string> {
+  const input = path === '-' ? process.stdin : createReadStream(path, 'utf8');
+  return createInterface({ input, crlfDelay: Infinity });
+}
+
+async function output(path: string | undefined, text: string): Promise<void> {
+  if (!path) {
+    process.stdout.write(text);
+    return;
+  }
+  await mkdir(dirname(path), { recursive: true });
+  await writeFile(path, text);
+}
+
+// ============================================================================
+// COMMANDS
+// ============================================================================
+
+const analyze: Command = {
+  usage: 'probes analyze <logfile|-> [--format md|csv|json] [--out <path>] [--bucket <ticks>]',
+  summary: 'Report per archetype and DID from runner log lines',
+  async run(args) {
+    const { positional, options } = parseArgs(args, ['format', 'out', 'bucket']);
+    const [source] = positional;
+    if (!source || positional.length > 1) throw new UsageError('Expected one log file (or - for stdin)');
+
+    const format = (options.format ?? 'md') as ReportFormat;
+    if (!REPORT_FORMATS.includes(format)) throw new UsageError(`Unknown format ${options.format}`);
+
+    const bucketSize = options.bucket !== undefined ? parseInt(options.bucket, 10) : undefined;
+    if (bucketSize !== undefined && !(bucketSize > 0)) throw new UsageError('--bucket must be a positive number of ticks');
+
+    const report = await analyzeLines(lines(source), { bucketSize });
+
+    if (format === 'md') {
+      await output(options.out, renderMarkdown(report, source === '-' ? undefined : source));
+    } else if (format === 'json') {
+      await output(options.out, renderJson(report));
+    } else if (options.out) {
+      // One file per table
+      for (const [name, table] of Object.entries(renderCsv(report))) {
+        await output(join(options.out, name), table);
+      }
+    } else {
+      await output(undefined, renderCsv(report)['agents.csv']!);
+    }
+
+    if (report.entries === 0) {
+      process.stderr.write(`No log entries found in ${source}\n`);
+      return 1;
+    }
+    return 0;
+  },
+};
+
+const compare: Command = {
+  usage: 'probes compare <baseline> <candidate> [--format md|json] [--out <path>] [--confidence <0-1>] '
+    + '[--fail-on <metric[:ARCHETYPE]=limit[%]>]...',
+  summary: 'Compare two runs (logs or cassettes) with confidence intervals',
+  async run(args) {
+    const { positional, options, all } = parseArgs(args, ['format', 'out', 'confidence', 'fail-on']);
+    const [baselinePath, candidatePath] = positional;
+    if (!baselinePath || !candidatePath || positional.length > 2) {
+      throw new UsageError('Expected a baseline and a candidate run');
+    }
+    if (baselinePath === '-' && candidatePath === '-') throw new UsageError('Only one run can be read from stdin');
+
+    const format = (options.format ?? 'md') as ComparisonFormat;
+    if (!COMPARISON_FORMATS.includes(format)) throw new UsageError(`Unknown format ${options.format}`);
+
+    const confidence = options.confidence !== undefined ? parseFloat(options.confidence) : undefined;
+    if (confidence !== undefined && !(confidence > 0 && confidence < 1)) {
+      throw new UsageError('--confidence must be between 0 and 1 (e.g. 0.95)');
+    }
+
+    const thresholds: RegressionThreshold[] = [];
+    for (const spec of all['fail-on'] ?? []) {
+      const threshold = parseThreshold(spec);
+      if (!threshold) throw new UsageError(`Invalid threshold ${spec}`);
+      thresholds.push(threshold);
+    }
+
+    const baseline = await analyzeLines(lines(baselinePath));
+    const candidate = await analyzeLines(lines(candidatePath));
+    for (const [path, report] of [[baselinePath, baseline], [candidatePath, candidate]] as const) {
+      if (report.entries === 0) {
+        process.stderr.write(`No log entries found in ${path}\n`);
+        return 1;
+      }
+    }
+
+    const report = compareRuns(baseline, candidate, { confidence, thresholds });
+    await output(options.out, format === 'json'
+      ? renderComparisonJson(report)
+      : renderComparisonMarkdown(report, { baseline: baselinePath, candidate: candidatePath }));
+
+    if (report.regressions.length > 0) {
+      for (const { comparison, threshold, change } of report.regressions) {
+        const unit = threshold.relative ? '%' : '';
+        const scale = threshold.relative ? 100 : 1;
+        process.stderr.write(
+          `Regression: ${comparison.archetype} ${comparison.metric} changed by ${(change * scale).toFixed(2)}${unit}`
+          + ` (limit ${(threshold.limit * scale).toFixed(2)}${unit})\n`
+        );
+      }
+      return 3;
+    }
+    return 0;
+  },
+};
+
+const doctor: Command = {
+  usage: 'probes doctor [runner options, e.g. --scenario <file> --simulate] [--format text|json]',
+  summary: 'Check habitat, FRUX and config before a run',
+  async run(args) {
+    const { format, rest } = takeFormat(args, ['text', 'json']);
+    const { config, issues } = await resolveConfig({ argv: rest });
+    // The report says it all; keep runner log lines out of it
+    configureLogger({ sinks: [] });
+    await loadPlugins(config.plugins);
+
+    const report = await runPreflight({
+      config,
+      configIssues: issues,
+      fetch: config.simulate
+        ? createSimulatorFetch(createSimulatedHabitat({ seed: config.baseSeed, tickMs: config.tickIntervalMs }))
+        : undefined,
+      offlineReason: config.replay ? 'Replaying a cassette' : undefined,
+    });
+
+    await output(undefined, format === 'json' ? JSON.stringify(report, null, 2) + '\n' : renderPreflight(report));
+    return report.ok ? 0 : 1;
+  },
+};
+
+function renderConfigText({ config, sources }: ResolvedConfig): string {
+  const shown = redactConfig(config);
+  const width = Math.max(...CONFIG_KEYS.map(key => key.length));
+  return [
+    `# config file: ${config.configFile || 'none'}${config.profile ? `, profile: ${config.profile}` : ''}`,
+    ...CONFIG_KEYS.map(key => `${key.padEnd(width)} = ${JSON.stringify(shown[key])}  (${sources[key]})`),
+    '',
+  ].join('\n');
+}
+
+const config: Command = {
+  usage: 'probes config print [runner options, e.g. --config <file> --profile <name>] [--format text|json]',
+  summary: 'Show the effective runner config and where each value comes from',
+  async run(args) {
+    const [action, ...options] = args;
+    if (action !== 'print') throw new UsageError(action ? `Unknown action ${action}` : 'Expected an action');
+    const { format, rest } = takeFormat(options, ['text', 'json']);
+    const resolved = await resolveConfig({ argv: rest });
+
+    await output(undefined, format === 'json'
+      ? JSON.stringify({ ...resolved, config: redactConfig(resolved.config) }, null, 2) + '\n'
+      : renderConfigText(resolved));
+    for (const issue of resolved.issues) {
+      process.stderr.write(`Invalid config (${issue.source}): ${issue.message}\n`);
+    }
+    return resolved.issues.length > 0 ? 1 : 0;
+  },
+};
+
+const top: Command = {
+  usage: 'probes top [--url <admin url>] [--interval <ms>] [--once]',
+  summary: 'Live dashboard of a running population',
+  async run(args) {
+    const once = args.includes('--once');
+    const { positional, options } = parseArgs(args.filter(a => a !== '--once'), ['url', 'interval']);
+    if (positional.length > 0) throw new UsageError(`Unexpected argument ${positional[0]}`);
+
+    const intervalMs = options.interval !== undefined ? parseInt(options.interval, 10) : undefined;
+    if (intervalMs !== undefined && !(intervalMs >= 100)) throw new UsageError('--interval must be at least 100 ms');
+
+    // Same env and config file as the runner: PROBE_ADMIN_PORT, PROBE_ADMIN_HOST, PROBE_ADMIN_TOKEN
+    const { config } = await resolveConfig({ argv: [] });
+    if (!options.url && config.adminPort === 0) {
+      throw new UsageError('Start the runner with --admin-port (or PROBE_ADMIN_PORT) and pass the same port here, or use --url');
+    }
+    const url = options.url ?? `http://${config.adminHost}:${config.adminPort}`;
+
+    return runTop({
+      client: createAdminClient({ url, token: config.adminToken }),
+      source: url,
+      intervalMs,
+      once: once || !process.stdout.isTTY,
+    });
+  },
+};
+
+const COMMANDS: Record<string, Command> = {
+  analyze,
+  compare,
+  doctor,
+  config,
+  top,
+};
+
+function usage(): string {
+  return [
+    'Usage: probes <command> [options]',
+    '',
+    'Commands:',
+    ...Object.entries(COMMANDS).map(([name, command]) => `  ${name.padEnd(10)} ${command.summary}`),
+    '',
+    ...Object.values(COMMANDS).map(command => `  ${command.usage}`),
+    '',
+  ].join('\n');
+}
+
+export async function runCli(argv: string[]): Promise<number> {
+  const [name, ...args] = argv;
+
+  if (!name || name === '--help' || name === '-h' || name === 'help') {
+    process.stdout.write(usage());
+    return name ? 0 : 2;
+  }
+
+  const command = COMMANDS[name];
+  if (!command) {
+    process.stderr.write(`Unknown command: ${name}\n\n${usage()}`);
+    return 2;
+  }
+
+  try {
+    return await command.run(args);
+  } catch (error) {
+    if (error instanceof UsageError) {
+      process.stderr.write(`${error.message}\nUsage: ${command.usage}\n`);
+      return 2;
+    }
+    process.stderr.write(`${error instanceof Error ? error.message : String(error)}\n`);
+    return 1;
+  }
+}
+
+// Run when executed directly (also through the npm bin symlink), not when imported
+if (process.argv[1] && import.meta.url === pathToFileURL(realpathSync(process.argv[1])).href) {
+  runCli(process.argv.slice(2)).then((code) => {
+    process.exitCode = code;
+  });
+}
@@ -0,0 +1,288 @@
+/**
+ * Probe Agents Kit - Configuration Spec
+ *
+ * One entry per ProbeConfig field: its kind, env var, CLI flag and range.
+ * Env, CLI and config file values are all parsed and validated from this
+ * table, so a new option is one entry here plus its default.
+ */
+
+import type { ProbeConfig } from './config.js';
+import { LOG_LEVELS } from './log-sinks.js';
+import { VALIDATION_MODES } from './schema.js';
+import { SCHEDULER_MODES, OVERRUN_POLICIES } from '../scheduler/types.js';
+import { LLM_PROVIDER_KINDS } from '../llm/types.js';
+
+/**
+ * Value kinds:
+ * - string, int, float, bool, choice: scalars
+ * - list: comma-separated in env, repeated flag on the CLI, array in files
+ * - levels, numbers, rates: "KEY=VALUE" pairs (log level, >= 0, 0..1)
+ * - counts: "CODE=N" pairs with upper-cased archetype codes
+ */
+export type FieldKind =
+  | 'string'
+  | 'int'
+  | 'float'
+  | 'bool'
+  | 'choice'
+  | 'list'
+  | 'levels'
+  | 'numbers'
+  | 'rates'
+  | 'counts';
+
+export interface FieldSpec {
+  kind: FieldKind;
+  /** Environment variable */
+  env?: string;
+  /** CLI flag taking a value (or a switch, see switchValue) */
+  flag?: string;
+  /** Other spellings of the flag */
+  aliases?: string[];
+  /** The flag takes no value and sets this one */
+  switchValue?: boolean;
+  /** Inclusive range for numbers */
+  min?: number;
+  max?: number;
+  /** Allowed values for choice fields */
+  choices?: readonly string[];
+  /** Redacted when printed */
+  secret?: boolean;
+  /** Not allowed in the config file (e.g. the file path itself) */
+  noFile?: boolean;
+}
+
+export const CONFIG_SPEC: { readonly [K in keyof ProbeConfig]: FieldSpec } = {
+  configFile: { kind: 'string', env: 'PROBE_CONFIG', flag: '--config', noFile: true },
+  profile: { kind: 'string', env: 'PROBE_PROFILE', flag: '--profile' },
+  coreApiUrl: { kind: 'string', env: 'HABITAT_CORE_URL', flag: '--core-url' },
+  perceptionApiUrl: { kind: 'string', env: 'HABITAT_PERCEPTION_URL', flag: '--perception-url' },
+  qsCount: { kind: 'int', env: 'PROBE_QS_COUNT', flag: '--qs', min: 0 },
+  cbcCount: { kind: 'int', env: 'PROBE_CBC_COUNT', flag: '--cbc', min: 0 },
+  japCount: { kind: 'int', env: 'PROBE_JAP_COUNT', flag: '--jap', min: 0 },
+  llmCount: { kind: 'int', env: 'PROBE_LLM_COUNT', flag: '--llm', min: 0 },
+  baseSeed: { kind: 'int', env: 'PROBE_BASE_SEED', flag: '--seed' },
+  tickIntervalMs: { kind: 'int', env: 'PROBE_TICK_INTERVAL_MS', flag: '--tick-interval', min: 0 },
+  maxRetries: { kind: 'int', env: 'PROBE_MAX_RETRIES', flag: '--retries', min: 0 },
+  verbose: { kind: 'bool', env: 'PROBE_VERBOSE', flag: '--verbose', aliases: ['-v'], switchValue: true },
+  fruxApiUrl: { kind: 'string', env: 'FRUX_API_URL', flag: '--frux-url' },
+  fruxApiKey: { kind: 'string', env: 'FRUX_API_KEY', flag: '--frux-key', secret: true },
+  fruxPreferLocal: { kind: 'bool', env: 'FRUX_PREFER_LOCAL', flag: '--frux-local', switchValue: true },
+  fruxTimeoutMs: { kind: 'int', env: 'FRUX_TIMEOUT_MS', flag: '--frux-timeout', min: 0 },
+  llmEnergyFloor: { kind: 'int', env: 'LLM_ENERGY_FLOOR', flag: '--llm-floor', min: 0 },
+  llmSessionBudget: { kind: 'int', env: 'LLM_SESSION_BUDGET', flag: '--llm-budget', min: 0 },
+  llmEnableInquiry: { kind: 'bool', env: 'PROBE_LLM_ENABLE_INQUIRY', flag: '--llm-enable-inquiry', switchValue: true },
+  llmProvider: { kind: 'choice', env: 'PROBE_LLM_PROVIDER', flag: '--llm-provider', choices: LLM_PROVIDER_KINDS },
+  llmModel: { kind: 'string', env: 'PROBE_LLM_MODEL', flag: '--llm-model' },
+  llmTimeoutMs: { kind: 'int', env: 'PROBE_LLM_TIMEOUT_MS', flag: '--llm-timeout', min: 0 },
+  openaiApiUrl: { kind: 'string', env: 'OPENAI_BASE_URL', flag: '--openai-url' },
+  openaiApiKey: { kind: 'string', env: 'OPENAI_API_KEY', secret: true },
+  anthropicApiUrl: { kind: 'string', env: 'ANTHROPIC_BASE_URL', flag: '--anthropic-url' },
+  anthropicApiKey: { kind: 'string', env: 'ANTHROPIC_API_KEY', secret: true },
+  ollamaApiUrl: { kind: 'string', env: 'OLLAMA_HOST', flag: '--ollama-url' },
+  llmScript: { kind: 'string', env: 'PROBE_LLM_SCRIPT', flag: '--llm-script' },
+  llmMemorySize: { kind: 'int', env: 'PROBE_LLM_MEMORY_SIZE', flag: '--llm-memory', min: 0 },
+  llmMemoryTokens: { kind: 'int', env: 'PROBE_LLM_MEMORY_TOKENS', flag: '--llm-memory-tokens', min: 0 },
+  llmReflectEvery: { kind: 'int', env: 'PROBE_LLM_REFLECT_EVERY', flag: '--llm-reflect-every', min: 0 },
+  llmPrompt: { kind: 'string', env: 'PROBE_LLM_PROMPT', flag: '--llm-prompt' },
+  llmPlanning: { kind: 'bool', env: 'PROBE_LLM_PLANNING', flag: '--llm-planning', switchValue: true },
+  llmPlanSteps: { kind: 'int', env: 'PROBE_LLM_PLAN_STEPS', flag: '--llm-plan-steps', min: 1 },
+  simulate: { kind: 'bool', env: 'PROBE_SIMULATE', flag: '--simulate', switchValue: true },
+  plugins: { kind: 'list', env: 'PROBE_PLUGINS', flag: '--plugin' },
+  extraCounts: { kind: 'counts', env: 'PROBE_COUNTS', flag: '--count', min: 0 },
+  validationMode: { kind: 'choice', env: 'PROBE_VALIDATION_MODE', flag: '--validation', choices: VALIDATION_MODES },
+  scenario: { kind: 'string', env: 'PROBE_SCENARIO', flag: '--scenario' },
+  record: { kind: 'string', env: 'PROBE_RECORD', flag: '--record' },
+  replay: { kind: 'string', env: 'PROBE_REPLAY', flag: '--replay' },
+  schedulerMode: { kind: 'choice', env: 'PROBE_SCHEDULER', flag: '--scheduler', choices: SCHEDULER_MODES },
+  cadenceMs: { kind: 'counts', env: 'PROBE_CADENCE', flag: '--cadence', min: 0 },
+  jitter: { kind: 'float', env: 'PROBE_JITTER', flag: '--jitter', min: 0, max: 1 },
+  maxConcurrency: { kind: 'int', env: 'PROBE_MAX_CONCURRENCY', flag: '--max-concurrency', min: 0 },
+  overrunPolicy: { kind: 'choice', env: 'PROBE_OVERRUN', flag: '--overrun', choices: OVERRUN_POLICIES },
+  stateFile: { kind: 'string', env: 'PROBE_STATE_FILE', flag: '--state' },
+  fresh: { kind: 'bool', env: 'PROBE_FRESH', flag: '--fresh', switchValue: true },
+  metricsPort: { kind: 'int', env: 'PROBE_METRICS_PORT', flag: '--metrics-port', min: 0, max: 65535 },
+  metricsHost: { kind: 'string', env: 'PROBE_METRICS_HOST' },
+  logLevel: { kind: 'choice', env: 'PROBE_LOG_LEVEL', flag: '--log-level', choices: LOG_LEVELS },
+  logArchetypeLevels: { kind: 'levels', env: 'PROBE_LOG_ARCHETYPE_LEVELS', flag: '--log-archetype-level' },
+  logStepLevels: { kind: 'levels', env: 'PROBE_LOG_STEP_LEVELS', flag: '--log-step-level' },
+  logSampling: { kind: 'rates', env: 'PROBE_LOG_SAMPLE', flag: '--log-sample' },
+  logFile: { kind: 'string', env: 'PROBE_LOG_FILE', flag: '--log-file' },
+  logMaxBytes: { kind: 'int', env: 'PROBE_LOG_MAX_BYTES', min: 1 },
+  logMaxFiles: { kind: 'int', env: 'PROBE_LOG_MAX_FILES', min: 0 },
+  logSocket: { kind: 'string', env: 'PROBE_LOG_SOCKET', flag: '--log-socket' },
+  httpRateLimit: { kind: 'float', env: 'PROBE_HTTP_RATE_LIMIT', flag: '--http-rate-limit', min: 0 },
+  httpBurst: { kind: 'int', env: 'PROBE_HTTP_BURST', min: 0 },
+  httpEndpointRateLimits: { kind: 'numbers', env: 'PROBE_HTTP_ENDPOINT_RATE_LIMITS', flag: '--http-endpoint-rate-limit' },
+  circuitFailures: { kind: 'int', env: 'PROBE_CIRCUIT_FAILURES', flag: '--circuit-failures', min: 0 },
+  circuitCooldownMs: { kind: 'int', env: 'PROBE_CIRCUIT_COOLDOWN_MS', flag: '--circuit-cooldown', min: 0 },
+  circuitEndpointFailures: { kind: 'numbers', env: 'PROBE_CIRCUIT_ENDPOINT_FAILURES', flag: '--circuit-endpoint-failures' },
+  httpTimeoutMs: { kind: 'int', env: 'PROBE_HTTP_TIMEOUT_MS', flag: '--http-timeout', min: 0 },
+  httpEndpointTimeouts: { kind: 'numbers', env: 'PROBE_HTTP_ENDPOINT_TIMEOUTS', flag: '--http-endpoint-timeout' },
+  shutdownTimeoutMs: { kind: 'int', env: 'PROBE_SHUTDOWN_TIMEOUT_MS', flag: '--shutdown-timeout', min: 0 },
+  summaryFile: { kind: 'string', env: 'PROBE_SUMMARY_FILE', flag: '--summary' },
+  preflight: { kind: 'bool', env: 'PROBE_PREFLIGHT', flag: '--skip-preflight', switchValue: false },
+  watch: { kind: 'bool', env: 'PROBE_WATCH', flag: '--watch', switchValue: true },
+  adminPort: { kind: 'int', env: 'PROBE_ADMIN_PORT', flag: '--admin-port', min: 0, max: 65535 },
+  adminHost: { kind: 'string', env: 'PROBE_ADMIN_HOST' },
+  adminToken: { kind: 'string', env: 'PROBE_ADMIN_TOKEN', secret: true },
+};
+
+export type ConfigKey = keyof ProbeConfig;
+
+export const CONFIG_KEYS = Object.keys(CONFIG_SPEC) as ConfigKey[];
+
+// ============================================================================
+// VALUES
+// ============================================================================
+
+export type ParsedValue = { ok: true; value: unknown } | { ok: false; message: string };
+
+function valid(value: unknown): ParsedValue {
+  return { ok: true, value };
+}
+
+function invalid(message: string): ParsedValue {
+  return { ok: false, message };
+}
+
+function inRange(spec: FieldSpec, value: number): ParsedValue {
+  if (spec.min !== undefined && value < spec.min) {
+    return invalid(spec.max !== undefined
+      ? `must be between ${spec.min} and ${spec.max} (got ${value})`
+      : `must be at least ${spec.min} (got ${value})`);
+  }
+  if (spec.max !== undefined && value > spec.max) {
+    return invalid(`must be between ${spec.min ?? '-Infinity'} and ${spec.max} (got ${value})`);
+  }
+  return valid(value);
+}
+
+function parseNumber(kind: 'int' | 'float', value: unknown): number | null {
+  const parsed = typeof value === 'number'
+    ? value
+    : typeof value === 'string' && value.trim() !== '' ? Number(value.trim()) : NaN;
+  if (!Number.isFinite(parsed)) return null;
+  return kind === 'int' && !Number.isInteger(parsed) ? null : parsed;
+}
+
+/**
+ * Value of one pair entry: level, non-negative number, rate or count
+ */
+function parsePairValue(kind: FieldKind, raw: unknown): ParsedValue {
+  const text = typeof raw === 'string' ? raw.trim().toLowerCase() : raw;
+  switch (kind) {
+    case 'levels':
+      return typeof text === 'string' && (LOG_LEVELS as readonly string[]).includes(text)
+        ? valid(text)
+        : invalid(`must be one of ${LOG_LEVELS.join(', ')} (got ${String(raw)})`);
+    case 'rates': {
+      const rate = parseNumber('float', text);
+      return rate !== null && rate >= 0 && rate <= 1 ? valid(rate) : invalid(`must be between 0 and 1 (got ${String(raw)})`);
+    }
+    case 'counts': {
+      const count = parseNumber('int', text);
+      return count !== null && count >= 0 ? valid(count) : invalid(`must be a whole number >= 0 (got ${String(raw)})`);
+    }
+    default: {
+      const number = parseNumber('float', text);
+      return number !== null && number >= 0 ? valid(number) : invalid(`must be a number >= 0 (got ${String(raw)})`);
+    }
+  }
+}
+
+function isPairs(kind: FieldKind): boolean {
+  return kind === 'levels' || kind === 'numbers' || kind === 'rates' || kind === 'counts';
+}
+
+/**
+ * Build a pairs record; counts use upper-cased archetype codes
+ */
+function parsePairs(kind: FieldKind, entries: Array<[string, unknown]>): ParsedValue {
+  const result: Record<string, unknown> = {};
+  for (const [rawKey, rawValue] of entries) {
+    const key = kind === 'counts' ? rawKey.trim().toUpperCase() : rawKey.trim();
+    if (!key) return invalid(`has an entry without a key`);
+    const parsed = parsePairValue(kind, rawValue);
+    if (!parsed.ok) return invalid(`${key} ${parsed.message}`);
+    result[key] = parsed.value;
+  }
+  return valid(result);
+}
+
+/**
+ * Parse an env var or CLI value. Lists and pairs are comma-separated.
+ */
+export function parseText(spec: FieldSpec, text: string): ParsedValue {
+  switch (spec.kind) {
+    case 'string':
+      return valid(text);
+    case 'int':
+    case 'float': {
+      const number = parseNumber(spec.kind, text);
+      if (number === null) return invalid(`must be ${spec.kind === 'int' ? 'a whole number' : 'a number'} (got "${text}")`);
+      return inRange(spec, number);
+    }
+    case 'bool': {
+      const lowered = text.trim().toLowerCase();
+      if (['true', '1', 'yes'].includes(lowered)) return valid(true);
+      if (['false', '0', 'no'].includes(lowered)) return valid(false);
+      return invalid(`must be true or false (got "${text}")`);
+    }
+    case 'choice': {
+      const lowered = text.trim().toLowerCase();
+      return spec.choices?.includes(lowered)
+        ? valid(lowered)
+        : invalid(`must be one of ${spec.choices?.join(', ')} (got "${text}")`);
+    }
+    case 'list':
+      return valid(splitList(text));
+    default:
+      return parsePairs(spec.kind, splitList(text).map((pair) => {
+        const at = pair.indexOf('=');
+        return at < 0 ? [pair, undefined] : [pair.slice(0, at), pair.slice(at + 1)];
+      }));
+  }
+}
+
+/**
+ * Validate a config file value: JSON/YAML types must match the kind
+ */
+export function parseFileValue(spec: FieldSpec, value: unknown): ParsedValue {
+  switch (spec.kind) {
+    case 'string':
+      return typeof value === 'string' ? valid(value) : invalid(`must be a string`);
+    case 'int':
+    case 'float': {
+      const number = typeof value === 'number' ? parseNumber(spec.kind, value) : null;
+      if (number === null) return invalid(`must be ${spec.kind === 'int' ? 'a whole number' : 'a number'}`);
+      return inRange(spec, number);
+    }
+    case 'bool':
+      return typeof value === 'boolean' ? valid(value) : invalid('must be true or false');
+    case 'choice':
+      return typeof value === 'string' ? parseText(spec, value) : invalid(`must be one of ${spec.choices?.join(', ')}`);
+    case 'list':
+      return Array.isArray(value) && value.every(v => typeof v === 'string')
+        ? valid([...value])
+        : invalid('must be a list of strings');
+    default:
+      return value && typeof value === 'object' && !Array.isArray(value)
+        ? parsePairs(spec.kind, Object.entries(value))
+        : invalid('must be a mapping of KEY: value');
+  }
+}
+
+function splitList(text: string): string[] {
+  return text.split(',').map(v => v.trim()).filter(v => v.length > 0);
+}
+
+/**
+ * How a later source combines with an earlier one: lists append,
+ * pairs merge by key, everything else replaces
+ */
+export function mergeValue(spec: FieldSpec, base: unknown, override: unknown): unknown {
+  if (spec.kind === 'list') return [...(base as string[]), ...(override as string[])];
+  if (isPairs(spec.kind)) return { ...(base as object), ...(override as object) };
+  return override;
+}
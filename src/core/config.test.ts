@@ -0,0 +1,124 @@
+/**
+ * Configuration Tests
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { loadConfig, parseCliArgs, mergeConfig, resolveConfig, redactConfig } from './config.js';
+
+describe('loadConfig', () => {
+  it('keeps defaults for invalid env values', () => {
+    const config = loadConfig({ PROBE_QS_COUNT: 'ten', PROBE_CBC_COUNT: '5', PROBE_JITTER: '2', PROBE_VERBOSE: 'yes' });
+
+    expect(config.qsCount).toBe(10);
+    expect(config.cbcCount).toBe(5);
+    expect(config.jitter).toBe(0.1);
+    expect(config.verbose).toBe(true);
+  });
+});
+
+describe('parseCliArgs / mergeConfig', () => {
+  it('accumulates repeated options and merges them over the base', () => {
+    const overrides = parseCliArgs(['--plugin', 'a.js', '--plugin', 'b.js', '--count', 'min=2', '--count', 'XYZ=1', '-v', '--skip-preflight']);
+    expect(overrides).toEqual({ plugins: ['a.js', 'b.js'], extraCounts: { MIN: 2, XYZ: 1 }, verbose: true, preflight: false });
+
+    const config = mergeConfig(loadConfig({ PROBE_PLUGINS: 'env.js', PROBE_COUNTS: 'MIN=1,ABC=4' }), overrides);
+    expect(config.plugins).toEqual(['env.js', 'a.js', 'b.js']);
+    expect(config.extraCounts).toEqual({ MIN: 2, ABC: 4, XYZ: 1 });
+  });
+});
+
+describe('resolveConfig', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'config-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('applies defaults < file < profile < env < CLI', async () => {
+    writeFileSync(join(dir, 'probes.config.yaml'), [
+      'qsCount: 4',
+      'cbcCount: 4',
+      'japCount: 4',
+      'profile: staging',
+      'profiles:',
+      '  staging:',
+      '    cbcCount: 5',
+      '    logStepLevels: { quote: debug }',
+    ].join('\n'));
+
+    const { config, sources, issues } = await resolveConfig({
+      cwd: dir,
+      env: { PROBE_JAP_COUNT: '6', PROBE_LLM_COUNT: '6' },
+      argv: ['--llm', '7', '--log-step-level', 'perceive=INFO'],
+    });
+
+    expect(issues).toEqual([]);
+    expect(config).toMatchObject({
+      configFile: join(dir, 'probes.config.yaml'),
+      profile: 'staging',
+      qsCount: 4,
+      cbcCount: 5,
+      japCount: 6,
+      llmCount: 7,
+      logStepLevels: { quote: 'debug', perceive: 'info' },
+    });
+    expect(sources).toMatchObject({ qsCount: 'file', cbcCount: 'file', japCount: 'env', llmCount: 'cli', baseSeed: 'default' });
+  });
+
+  it('reports every invalid value, unknown key and unknown flag', async () => {
+    const file = join(dir, 'custom.json');
+    writeFileSync(file, JSON.stringify({ qsCunt: 3, jitter: 1.5, qsCount: '3', profiles: { public: { configFile: 'x' } } }));
+
+    const { config, issues } = await resolveConfig({
+      cwd: dir,
+      env: { PROBE_CONFIG: file, PROBE_QS_COUNT: 'ten', PROBE_CBC_COUNT: '' },
+      argv: ['--profile', 'public', '--metrics-port', '70000', '--bogus', '--seed'],
+    });
+
+    expect(issues.map(i => `${i.source} ${i.key}`)).toEqual([
+      'file qsCunt',
+      'file jitter',
+      'file qsCount',
+      'file profiles.public.configFile',
+      'env qsCount',
+      'cli metricsPort',
+      'cli --bogus',
+      'cli baseSeed',
+    ]);
+    expect(issues.find(i => i.key === 'metricsPort')!.message).toBe('--metrics-port must be between 0 and 65535 (got 70000)');
+    expect(issues.find(i => i.key === 'qsCount' && i.source === 'env')!.message).toBe('PROBE_QS_COUNT must be a whole number (got "ten")');
+    // Invalid values fall back to the defaults
+    expect(config.qsCount).toBe(10);
+    expect(config.jitter).toBe(0.1);
+  });
+
+  it('reports unknown profiles and unreadable files', async () => {
+    writeFileSync(join(dir, 'probes.config.json'), JSON.stringify({ profiles: { local: {} } }));
+
+    const unknown = await resolveConfig({ cwd: dir, env: { PROBE_PROFILE: 'prod' } });
+    expect(unknown.issues).toEqual([{ source: 'env', key: 'profile', message: 'Unknown profile "prod" (available: local)' }]);
+
+    const missing = await resolveConfig({ cwd: dir, argv: ['--config', 'nope.yaml'] });
+    expect(missing.issues).toHaveLength(1);
+    expect(missing.issues[0]!.message).toContain('Cannot read');
+
+    const disabled = await resolveConfig({ cwd: dir, env: {}, argv: ['--config', ''] });
+    expect(disabled.issues).toEqual([]);
+    expect(disabled.config.configFile).toBe('');
+  });
+});
+
+describe('redactConfig', () => {
+  it('redacts the FRUX key', () => {
+    const config = loadConfig({ FRUX_API_KEY: 'sk-1234567890abcdef' });
+    expect(redactConfig(config).fruxApiKey).toBe('sk-1...cdef');
+    expect(config.fruxApiKey).toBe('sk-1234567890abcdef');
+  });
+});
@@ -1,13 +1,34 @@
 /**
  * Probe Agents Kit - Configuration
  *
- * Parses environment variables and CLI arguments.
- * Env vars take precedence over defaults.
+ * Resolves defaults, an optional config file with named profiles,
+ * environment variables and CLI arguments, in that order of precedence.
  */
 
-import type { AgentArchetype } from './types.js';
+import { access, readFile } from 'node:fs/promises';
+import { extname, resolve } from 'node:path';
+
+import type { AgentArchetype, BuiltinArchetype, LogLevel } from './types.js';
+import type { ValidationMode } from './schema.js';
+import type { SchedulerMode, OverrunPolicy } from '../scheduler/types.js';
+import type { LLMProviderKind } from '../llm/types.js';
+import { parseYaml } from './yaml.js';
+import { redactApiKey } from './frux-llm.js';
+import {
+  CONFIG_SPEC,
+  CONFIG_KEYS,
+  parseText,
+  parseFileValue,
+  mergeValue,
+  type ConfigKey,
+  type FieldSpec,
+} from './config-spec.js';
 
 export interface ProbeConfig {
+  /** Config file the values came from ('' = none) */
+  configFile: string;
+  /** Profile applied from the config file ('' = none) */
+  profile: string;
   /** Core API base URL (without trailing slash) - register, traces, physics, joint */
   coreApiUrl: string;
   /** Perception API base URL (without trailing slash) - perceive */
@@ -42,9 +63,119 @@ export interface ProbeConfig {
   llmSessionBudget: number;
   /** Enable CREATE_INQUIRY action for LLM probes (default: false) */
   llmEnableInquiry: boolean;
+  /** Chat service LLM probes ask (cohorts may pick another) */
+  llmProvider: LLMProviderKind;
+  /** Model name ('' = the provider's default; ignored by FRUX) */
+  llmModel: string;
+  /** Timeout per attempt for providers other than FRUX */
+  llmTimeoutMs: number;
+  /** OpenAI-compatible base URL (e.g. a llama.cpp server's /v1) */
+  openaiApiUrl: string;
+  /** OpenAI API key ('' = none, fine for local servers) */
+  openaiApiKey: string;
+  /** Anthropic-style messages base URL */
+  anthropicApiUrl: string;
+  /** Anthropic API key */
+  anthropicApiKey: string;
+  /** Ollama server URL */
+  ollamaApiUrl: string;
+  /** Script the fake provider answers from ('' = seeded random policy) */
+  llmScript: string;
+  /** Episodes an LLM probe remembers (0 = no memory) */
+  llmMemorySize: number;
+  /** Rough token budget for the memory in each prompt */
+  llmMemoryTokens: number;
+  /** Episodes between reflections that compress memory into notes (0 = never) */
+  llmReflectEvery: number;
+  /** Prompt template file for LLM probes ('' = built-in) */
+  llmPrompt: string;
+  /** LLM probes ask for multi-step plans instead of one action per tick */
+  llmPlanning: boolean;
+  /** Longest plan an LLM probe accepts */
+  llmPlanSteps: number;
+  /** Run against the in-process habitat simulator instead of live APIs */
+  simulate: boolean;
+  /** Modules to import before creating agents (register third-party archetypes) */
+  plugins: string[];
+  /** Agent counts for plugin archetypes, keyed by archetype code */
+  extraCounts: Record<string, number>;
+  /** Response validation mode: strict rejects, lenient logs, off skips */
+  validationMode: ValidationMode;
+  /** Scenario file (JSON or YAML). When set, it replaces the per-archetype counts */
+  scenario: string;
+  /** Cassette file to record every HTTP exchange to */
+  record: string;
+  /** Cassette file to replay HTTP exchanges from (no network) */
+  replay: string;
+  /** lockstep: all agents step once per tick; async: each agent on its own cadence */
+  schedulerMode: SchedulerMode;
+  /** Step interval per archetype code in async mode (default: tickIntervalMs) */
+  cadenceMs: Record<string, number>;
+  /** Cadence jitter as a fraction (0.1 = ±10%) */
+  jitter: number;
+  /** Maximum agent steps running at once (0 = unlimited) */
+  maxConcurrency: number;
+  /** What to do when a step comes due while the previous one still runs */
+  overrunPolicy: OverrunPolicy;
+  /** Agent state file for resuming identities across restarts ('' = disabled) */
+  stateFile: string;
+  /** Ignore saved identities and register every agent anew */
+  fresh: boolean;
+  /** Port for the Prometheus /metrics endpoint (0 = disabled) */
+  metricsPort: number;
+  /** Interface the metrics endpoint binds to */
+  metricsHost: string;
+  /** Minimum log level (verbose lowers it to debug) */
+  logLevel: LogLevel;
+  /** Minimum log level per archetype code */
+  logArchetypeLevels: Record<string, LogLevel>;
+  /** Level per step, overriding the defaults */
+  logStepLevels: Record<string, LogLevel>;
+  /** Fraction of entries kept per step (e.g. perceive=0.1) */
+  logSampling: Record<string, number>;
+  /** Also write logs to this file, rotated by size ('' = off) */
+  logFile: string;
+  /** Rotate the log file at this size */
+  logMaxBytes: number;
+  /** Rotated log files to keep */
+  logMaxFiles: number;
+  /** Also stream NDJSON to this Unix socket or host:port ('' = off) */
+  logSocket: string;
+  /** Requests per second per base URL, shared by all agents (0 = unlimited) */
+  httpRateLimit: number;
+  /** Burst size for the base URL rate limit (0 = same as the rate) */
+  httpBurst: number;
+  /** Extra requests-per-second limits by endpoint path */
+  httpEndpointRateLimits: Record<string, number>;
+  /** Consecutive 5xx/network failures that open the circuit (0 = no breaker) */
+  circuitFailures: number;
+  /** How long an open circuit pauses requests before a trial */
+  circuitCooldownMs: number;
+  /** Endpoints with their own circuit, by failure threshold (0 = no breaker) */
+  circuitEndpointFailures: Record<string, number>;
+  /** Timeout per HTTP attempt to the habitat (0 = none) */
+  httpTimeoutMs: number;
+  /** Timeouts by endpoint path, overriding httpTimeoutMs */
+  httpEndpointTimeouts: Record<string, number>;
+  /** How long shutdown waits for in-flight steps before cancelling them */
+  shutdownTimeoutMs: number;
+  /** Machine-readable run summary written on exit ('' = disabled) */
+  summaryFile: string;
+  /** Check habitat, FRUX and config before registering agents */
+  preflight: boolean;
+  /** Reload the config and scenario files when they change */
+  watch: boolean;
+  /** Port for the admin API (0 = disabled) */
+  adminPort: number;
+  /** Interface the admin API binds to */
+  adminHost: string;
+  /** Shared secret required in the X-Admin-Token header ('' = none) */
+  adminToken: string;
 }
 
 const defaults: ProbeConfig = {
+  configFile: '',
+  profile: '',
   coreApiUrl: 'http://localhost:9670',
   perceptionApiUrl: 'http://localhost:9671',
   qsCount: 10,
@@ -62,139 +193,357 @@ const defaults: ProbeConfig = {
   llmEnergyFloor: 3,
   llmSessionBudget: 100,
   llmEnableInquiry: false,
+  llmProvider: 'frux',
+  llmModel: '',
+  llmTimeoutMs: 30_000,
+  openaiApiUrl: 'https://api.openai.com/v1',
+  openaiApiKey: '',
+  anthropicApiUrl: 'https://api.anthropic.com',
+  anthropicApiKey: '',
+  ollamaApiUrl: 'http://127.0.0.1:11434',
+  llmScript: '',
+  llmMemorySize: 20,
+  llmMemoryTokens: 400,
+  llmReflectEvery: 10,
+  llmPrompt: '',
+  llmPlanning: false,
+  llmPlanSteps: 5,
+  simulate: false,
+  plugins: [],
+  extraCounts: {},
+  validationMode: 'lenient',
+  scenario: '',
+  record: '',
+  replay: '',
+  schedulerMode: 'lockstep',
+  cadenceMs: {},
+  jitter: 0.1,
+  maxConcurrency: 0,
+  overrunPolicy: 'coalesce',
+  stateFile: '.probes/state.json',
+  fresh: false,
+  metricsPort: 0,
+  metricsHost: '127.0.0.1',
+  logLevel: 'info',
+  logArchetypeLevels: {},
+  logStepLevels: {},
+  logSampling: {},
+  logFile: '',
+  logMaxBytes: 10 * 1024 * 1024,
+  logMaxFiles: 5,
+  logSocket: '',
+  httpRateLimit: 0,
+  httpBurst: 0,
+  httpEndpointRateLimits: {},
+  circuitFailures: 5,
+  circuitCooldownMs: 10_000,
+  circuitEndpointFailures: {},
+  httpTimeoutMs: 10_000,
+  httpEndpointTimeouts: {},
+  shutdownTimeoutMs: 10_000,
+  summaryFile: '.probes/summary.json',
+  preflight: true,
+  watch: false,
+  adminPort: 0,
+  adminHost: '127.0.0.1',
+  adminToken: '',
 };
 
-function parseIntEnv(key: string, fallback: number): number {
-  const val = process.env[key];
-  if (val === undefined) return fallback;
-  const parsed = parseInt(val, 10);
-  return isNaN(parsed) ? fallback : parsed;
-}
-
-function parseBoolEnv(key: string, fallback: boolean): boolean {
-  const val = process.env[key];
-  if (val === undefined) return fallback;
-  return val.toLowerCase() === 'true' || val === '1';
-}
-
-function parseStringEnv(key: string, fallback: string): string {
-  return process.env[key] ?? fallback;
-}
-
-export function loadConfig(): ProbeConfig {
-  return {
-    coreApiUrl: parseStringEnv('HABITAT_CORE_URL', defaults.coreApiUrl),
-    perceptionApiUrl: parseStringEnv('HABITAT_PERCEPTION_URL', defaults.perceptionApiUrl),
-    qsCount: parseIntEnv('PROBE_QS_COUNT', defaults.qsCount),
-    cbcCount: parseIntEnv('PROBE_CBC_COUNT', defaults.cbcCount),
-    japCount: parseIntEnv('PROBE_JAP_COUNT', defaults.japCount),
-    llmCount: parseIntEnv('PROBE_LLM_COUNT', defaults.llmCount),
-    baseSeed: parseIntEnv('PROBE_BASE_SEED', defaults.baseSeed),
-    tickIntervalMs: parseIntEnv('PROBE_TICK_INTERVAL_MS', defaults.tickIntervalMs),
-    maxRetries: parseIntEnv('PROBE_MAX_RETRIES', defaults.maxRetries),
-    verbose: parseBoolEnv('PROBE_VERBOSE', defaults.verbose),
-    fruxApiUrl: parseStringEnv('FRUX_API_URL', defaults.fruxApiUrl),
-    fruxApiKey: parseStringEnv('FRUX_API_KEY', defaults.fruxApiKey),
-    fruxPreferLocal: parseBoolEnv('FRUX_PREFER_LOCAL', defaults.fruxPreferLocal),
-    fruxTimeoutMs: parseIntEnv('FRUX_TIMEOUT_MS', defaults.fruxTimeoutMs),
-    llmEnergyFloor: parseIntEnv('LLM_ENERGY_FLOOR', defaults.llmEnergyFloor),
-    llmSessionBudget: parseIntEnv('LLM_SESSION_BUDGET', defaults.llmSessionBudget),
-    llmEnableInquiry: parseBoolEnv('PROBE_LLM_ENABLE_INQUIRY', defaults.llmEnableInquiry),
-  };
+// ============================================================================
+// LAYERS
+// ============================================================================
+
+/** Where an effective value came from, lowest precedence first */
+export type ConfigSource = 'default' | 'file' | 'env' | 'cli';
+
+export interface ConfigIssue {
+  source: Exclude<ConfigSource, 'default'>;
+  /** Config key, or the offending flag or file key */
+  key: string;
+  message: string;
 }
 
-export function parseCliArgs(args: string[]): Partial<ProbeConfig> {
-  const result: Partial<ProbeConfig> = {};
+export interface ResolvedConfig {
+  config: ProbeConfig;
+  sources: Record<ConfigKey, ConfigSource>;
+  /** Invalid values, unknown keys and flags, unreadable files; empty when valid */
+  issues: ConfigIssue[];
+}
 
+export interface ResolveConfigOptions {
+  /** CLI arguments (default: none) */
+  argv?: string[];
+  env?: NodeJS.ProcessEnv;
+  /** Directory searched for a config file (default: process.cwd()) */
+  cwd?: string;
+}
+
+/** Looked up in the working directory when no --config / PROBE_CONFIG is given */
+export const CONFIG_FILE_NAMES = ['probes.config.json', 'probes.config.yaml', 'probes.config.yml'];
+
+type Layer = Partial<Record<ConfigKey, unknown>>;
+
+interface LayerResult {
+  values: Layer;
+  issues: ConfigIssue[];
+}
+
+const FLAGS = new Map<string, ConfigKey>(
+  CONFIG_KEYS.flatMap(key => [CONFIG_SPEC[key].flag, ...(CONFIG_SPEC[key].aliases ?? [])]
+    .filter((flag): flag is string => flag !== undefined)
+    .map(flag => [flag, key] as const))
+);
+
+/**
+ * Set a value within one layer; repeated list and pair options accumulate
+ */
+function setValue(layer: Layer, key: ConfigKey, value: unknown): void {
+  layer[key] = key in layer ? mergeValue(CONFIG_SPEC[key], layer[key], value) : value;
+}
+
+/**
+ * Environment layer. Empty variables count as unset, except for strings
+ * where '' is meaningful (e.g. PROBE_STATE_FILE='' disables the state file).
+ */
+function readEnv(env: NodeJS.ProcessEnv): LayerResult {
+  const values: Layer = {};
+  const issues: ConfigIssue[] = [];
+  for (const key of CONFIG_KEYS) {
+    const spec = CONFIG_SPEC[key];
+    const text = spec.env ? env[spec.env] : undefined;
+    if (text === undefined || (text.trim() === '' && spec.kind !== 'string')) continue;
+    const parsed = parseText(spec, text);
+    if (parsed.ok) values[key] = parsed.value;
+    else issues.push({ source: 'env', key, message: `${spec.env} ${parsed.message}` });
+  }
+  return { values, issues };
+}
+
+/**
+ * CLI layer: "--flag value" options and value-less switches
+ */
+function readCli(args: string[]): LayerResult {
+  const values: Layer = {};
+  const issues: ConfigIssue[] = [];
   for (let i = 0; i < args.length; i++) {
-    const arg = args[i];
-    const next = args[i + 1];
-
-    switch (arg) {
-      case '--core-url':
-        if (next) result.coreApiUrl = next;
-        i++;
-        break;
-      case '--perception-url':
-        if (next) result.perceptionApiUrl = next;
-        i++;
-        break;
-      case '--qs':
-        if (next) result.qsCount = parseInt(next, 10);
-        i++;
-        break;
-      case '--cbc':
-        if (next) result.cbcCount = parseInt(next, 10);
-        i++;
-        break;
-      case '--jap':
-        if (next) result.japCount = parseInt(next, 10);
-        i++;
-        break;
-      case '--llm':
-        if (next) result.llmCount = parseInt(next, 10);
-        i++;
-        break;
-      case '--seed':
-        if (next) result.baseSeed = parseInt(next, 10);
-        i++;
-        break;
-      case '--tick-interval':
-        if (next) result.tickIntervalMs = parseInt(next, 10);
-        i++;
-        break;
-      case '--retries':
-        if (next) result.maxRetries = parseInt(next, 10);
-        i++;
-        break;
-      case '--verbose':
-      case '-v':
-        result.verbose = true;
-        break;
-      case '--frux-url':
-        if (next) result.fruxApiUrl = next;
-        i++;
-        break;
-      case '--frux-key':
-        if (next) result.fruxApiKey = next;
-        i++;
-        break;
-      case '--frux-local':
-        result.fruxPreferLocal = true;
-        break;
-      case '--frux-timeout':
-        if (next) result.fruxTimeoutMs = parseInt(next, 10);
-        i++;
-        break;
-      case '--llm-floor':
-        if (next) result.llmEnergyFloor = parseInt(next, 10);
-        i++;
-        break;
-      case '--llm-budget':
-        if (next) result.llmSessionBudget = parseInt(next, 10);
-        i++;
-        break;
-      case '--llm-enable-inquiry':
-        result.llmEnableInquiry = true;
-        break;
+    const arg = args[i]!;
+    const key = FLAGS.get(arg);
+    if (!key) {
+      issues.push({ source: 'cli', key: arg, message: arg.startsWith('-') ? `Unknown option ${arg}` : `Unexpected argument "${arg}"` });
+      continue;
+    }
+    const spec = CONFIG_SPEC[key];
+    if (spec.switchValue !== undefined) {
+      setValue(values, key, spec.switchValue);
+      continue;
+    }
+    const next = args[++i];
+    if (next === undefined) {
+      issues.push({ source: 'cli', key, message: `${arg} needs a value` });
+      continue;
+    }
+    const parsed = parseText(spec, next);
+    if (parsed.ok) setValue(values, key, parsed.value);
+    else issues.push({ source: 'cli', key, message: `${arg} ${parsed.message}` });
+  }
+  return { values, issues };
+}
+
+function isMapping(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Config file layer: ProbeConfig keys with JSON/YAML-typed values.
+ * `profiles` (top level only) holds named layers applied on top.
+ */
+function readFileLayer(document: Record<string, unknown>, prefix: string, file: string): LayerResult {
+  const values: Layer = {};
+  const issues: ConfigIssue[] = [];
+  for (const [name, value] of Object.entries(document)) {
+    const path = prefix + name;
+    if (name === 'profiles' && !prefix) continue;
+    const spec = (CONFIG_SPEC as Record<string, FieldSpec | undefined>)[name];
+    if (!spec || spec.noFile || (name === 'profile' && prefix)) {
+      issues.push({ source: 'file', key: path, message: `${file}: unknown key ${path}` });
+      continue;
     }
+    const parsed = parseFileValue(spec, value);
+    if (parsed.ok) values[name as ConfigKey] = parsed.value;
+    else issues.push({ source: 'file', key: path, message: `${file}: ${path} ${parsed.message}` });
   }
+  return { values, issues };
+}
 
-  return result;
+/**
+ * Read and parse a config file (.yaml/.yml, otherwise JSON)
+ */
+async function readConfigDocument(path: string): Promise<Record<string, unknown> | string> {
+  let text: string;
+  try {
+    text = await readFile(path, 'utf8');
+  } catch (e) {
+    return `Cannot read ${path}: ${(e as Error).message}`;
+  }
+  const ext = extname(path).toLowerCase();
+  const format = ext === '.yaml' || ext === '.yml' ? 'yaml' : 'json';
+  let parsed: unknown;
+  try {
+    parsed = format === 'yaml' ? parseYaml(text) : JSON.parse(text);
+  } catch (e) {
+    return `Invalid ${format.toUpperCase()} in ${path}: ${(e as Error).message}`;
+  }
+  return isMapping(parsed) ? parsed : `${path} must contain a mapping of settings`;
 }
 
-export function mergeConfig(envConfig: ProbeConfig, cliOverrides: Partial<ProbeConfig>): ProbeConfig {
-  return { ...envConfig, ...cliOverrides };
+async function findConfigFile(cwd: string): Promise<string | null> {
+  for (const name of CONFIG_FILE_NAMES) {
+    const path = resolve(cwd, name);
+    try {
+      await access(path);
+      return path;
+    } catch {
+      // try the next name
+    }
+  }
+  return null;
+}
+
+// ============================================================================
+// CONFIG
+// ============================================================================
+
+/**
+ * Defaults overridden by environment variables, without a config file.
+ * Lenient: invalid values keep the default; resolveConfig reports them.
+ */
+export function loadConfig(env: NodeJS.ProcessEnv = process.env): ProbeConfig {
+  return mergeConfig(defaults, readEnv(env).values as Partial<ProbeConfig>);
+}
+
+/**
+ * Options given on the command line. Unknown flags and invalid values
+ * are dropped; resolveConfig reports them.
+ */
+export function parseCliArgs(args: string[]): Partial<ProbeConfig> {
+  return readCli(args).values as Partial<ProbeConfig>;
+}
+
+/**
+ * Apply overrides to a config: lists append, pair records merge by key
+ */
+export function mergeConfig(base: ProbeConfig, overrides: Partial<ProbeConfig>): ProbeConfig {
+  const merged: Record<string, unknown> = { ...base };
+  for (const key of Object.keys(overrides) as ConfigKey[]) {
+    if (overrides[key] === undefined) continue;
+    merged[key] = mergeValue(CONFIG_SPEC[key], base[key], overrides[key]);
+  }
+  return merged as unknown as ProbeConfig;
+}
+
+/**
+ * Effective config with strict validation.
+ *
+ * Precedence: defaults < config file < profile < env < CLI. The file is
+ * --config / PROBE_CONFIG, or the first of CONFIG_FILE_NAMES in cwd
+ * ('' disables the lookup). The profile is --profile / PROBE_PROFILE,
+ * or the file's own `profile` key.
+ */
+export async function resolveConfig(options: ResolveConfigOptions = {}): Promise<ResolvedConfig> {
+  const { argv = [], env = process.env, cwd = process.cwd() } = options;
+  const envLayer = readEnv(env);
+  const cliLayer = readCli(argv);
+  const issues: ConfigIssue[] = [];
+
+  const explicit = (cliLayer.values.configFile ?? envLayer.values.configFile) as string | undefined;
+  const file = explicit === undefined ? await findConfigFile(cwd) : explicit ? resolve(cwd, explicit) : null;
+
+  let fileLayer: Layer = {};
+  let profiles: Record<string, unknown> = {};
+  if (file) {
+    const document = await readConfigDocument(file);
+    if (typeof document === 'string') {
+      issues.push({ source: 'file', key: 'configFile', message: document });
+    } else {
+      const result = readFileLayer(document, '', file);
+      fileLayer = result.values;
+      issues.push(...result.issues);
+      if (isMapping(document.profiles)) profiles = document.profiles;
+      else if (document.profiles !== undefined) {
+        issues.push({ source: 'file', key: 'profiles', message: `${file}: profiles must be a mapping of profile names` });
+      }
+    }
+  }
+
+  const profile = (cliLayer.values.profile ?? envLayer.values.profile ?? fileLayer.profile ?? '') as string;
+  let profileLayer: Layer = {};
+  if (profile) {
+    const selected = profiles[profile];
+    if (isMapping(selected)) {
+      const result = readFileLayer(selected, `profiles.${profile}.`, file!);
+      profileLayer = result.values;
+      issues.push(...result.issues);
+    } else {
+      const available = Object.keys(profiles);
+      issues.push({
+        source: cliLayer.values.profile !== undefined ? 'cli' : envLayer.values.profile !== undefined ? 'env' : 'file',
+        key: 'profile',
+        message: !file
+          ? `Profile "${profile}" needs a config file (${CONFIG_FILE_NAMES.join(', ')} or --config)`
+          : `Unknown profile "${profile}"${available.length > 0 ? ` (available: ${available.join(', ')})` : ` (${file} defines none)`}`,
+      });
+    }
+  }
+  issues.push(...envLayer.issues, ...cliLayer.issues);
+
+  let config = defaults;
+  const sources = Object.fromEntries(CONFIG_KEYS.map(key => [key, 'default'])) as Record<ConfigKey, ConfigSource>;
+  const layers: Array<[ConfigSource, Layer]> = [
+    ['file', fileLayer],
+    ['file', profileLayer],
+    ['env', envLayer.values],
+    ['cli', cliLayer.values],
+  ];
+  for (const [source, layer] of layers) {
+    config = mergeConfig(config, layer as Partial<ProbeConfig>);
+    for (const key of Object.keys(layer) as ConfigKey[]) sources[key] = source;
+  }
+
+  return { config: { ...config, configFile: file ?? '', profile }, sources, issues };
+}
+
+/**
+ * Copy safe to print or log: secret values are redacted
+ */
+export function redactConfig(config: ProbeConfig): ProbeConfig {
+  const redacted: Record<string, unknown> = { ...config };
+  for (const key of CONFIG_KEYS) {
+    if (CONFIG_SPEC[key].secret && config[key]) redacted[key] = redactApiKey(String(config[key]));
+  }
+  return redacted as unknown as ProbeConfig;
 }
 
 export function getAgentSeed(baseSeed: number, archetype: AgentArchetype, index: number): number {
   // Deterministic seed per agent: hash(baseSeed + archetype + index)
-  const archetypeOffsets: Record<AgentArchetype, number> = {
+  const archetypeOffsets: Record<BuiltinArchetype, number> = {
     QS: 0,
     CBC: 1000,
     JAP: 2000,
     LLM: 3000,
   };
-  const archetypeOffset = archetypeOffsets[archetype];
+  const archetypeOffset = archetype in archetypeOffsets
+    ? archetypeOffsets[archetype as BuiltinArchetype]
+    : pluginArchetypeOffset(archetype);
   return baseSeed * 31 + archetypeOffset + index;
 }
+
+/**
+ * Stable offset for plugin archetypes, outside the built-in range
+ */
+function pluginArchetypeOffset(archetype: string): number {
+  let hash = 0;
+  for (let i = 0; i < archetype.length; i++) {
+    hash = (Math.imul(hash, 31) + archetype.charCodeAt(i)) >>> 0;
+  }
+  return 4000 + (hash % 1000) * 1000;
+}
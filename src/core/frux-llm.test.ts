@@ -149,6 +149,19 @@ describe('frux-llm', () => {
       expect(body.skipWebSearch).toBe(true);
       expect(body.responseFormat).toBe('json');
     });
+
+    it('stops without retrying when cancelled', async () => {
+      const controller = new AbortController();
+      mockFetch.mockImplementationOnce((_url: string, init: RequestInit) => new Promise((_resolve, reject) => {
+        init.signal?.addEventListener('abort', () => reject(Object.assign(new Error('aborted'), { name: 'AbortError' })));
+        controller.abort();
+      }));
+
+      const result = await callFruxLLM('test message', { ...validConfig, signal: controller.signal });
+
+      expect(result).toEqual({ ok: false, error: 'Request cancelled' });
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
   });
 
   describe('isFruxConfigured', () => {
@@ -25,6 +25,10 @@ export interface FruxConfig {
   timeoutMs: number;
   /** Max retries on failure */
   maxRetries: number;
+  /** Fetch implementation (defaults to global fetch, e.g. cassette replay) */
+  fetch?: typeof fetch;
+  /** Cancels the call, retries included (e.g. on shutdown) */
+  signal?: AbortSignal;
 }
 
 export const DEFAULT_FRUX_CONFIG: Omit<FruxConfig, 'apiKey'> = {
@@ -87,11 +91,18 @@ export async function callFruxLLM(
   let lastError: string | undefined;
 
   for (let attempt = 0; attempt <= config.maxRetries; attempt++) {
-    try {
-      const controller = new AbortController();
-      const timeout = setTimeout(() => controller.abort(), config.timeoutMs);
+    if (config.signal?.aborted) {
+      return { ok: false, error: 'Request cancelled' };
+    }
 
-      const response = await fetch(`${config.apiUrl}/api/v1/smart/chat`, {
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), config.timeoutMs);
+    const cancel = () => controller.abort();
+    config.signal?.addEventListener('abort', cancel, { once: true });
+
+    try {
+      const fetchFn = config.fetch ?? fetch;
+      const response = await fetchFn(`${config.apiUrl}/api/v1/smart/chat`, {
         method: 'POST',
         headers: {
           Authorization: `Bearer ${config.apiKey}`,
@@ -107,8 +118,6 @@ export async function callFruxLLM(
         signal: controller.signal,
       });
 
-      clearTimeout(timeout);
-
       if (!response.ok) {
         lastError = `HTTP ${response.status}: ${response.statusText}`;
         // 401 = bad key, don't retry
@@ -145,6 +154,9 @@ export async function callFruxLLM(
 
       lastError = 'Empty response from FRUX';
     } catch (err) {
+      if (config.signal?.aborted) {
+        return { ok: false, error: 'Request cancelled' };
+      }
       if (err instanceof Error) {
         if (err.name === 'AbortError') {
           lastError = 'Request timeout';
@@ -154,6 +166,9 @@ export async function callFruxLLM(
       } else {
         lastError = 'Unknown error';
       }
+    } finally {
+      clearTimeout(timeout);
+      config.signal?.removeEventListener('abort', cancel);
     }
   }
 
@@ -0,0 +1,126 @@
+/**
+ * Habitat Client Tests
+ *
+ * Uses an injected fetch so no network is involved.
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { HttpClient } from './http.js';
+import { HabitatClient, classifyStatus } from './habitat-client.js';
+import type { TraceDraft } from './types.js';
+
+const draft: TraceDraft = {
+  zone: 'FLUX',
+  L1: { intent: ['probe'] },
+  L2: { shape: ['point'] },
+  L3: { topology: { depth: 1, nodes: 1, symmetry: 0 } },
+  L4: { core: ['signal'] },
+  L6: { rel: { derives_from: [], mutation: 'none' } },
+  L7: { permanence: 1 },
+  L8: { opacity: 0 },
+};
+
+function jsonResponse(status: number, body: unknown): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
+
+function clientWith(fetchFn: typeof fetch): HabitatClient {
+  const http = (baseUrl: string) => new HttpClient({ baseUrl, maxRetries: 0, baseDelayMs: 0, fetch: fetchFn });
+  return new HabitatClient({ core: http('http://core'), perception: http('http://perception') });
+}
+
+describe('classifyStatus', () => {
+  it('maps statuses to error codes', () => {
+    expect(classifyStatus(0)).toBe('NETWORK_ERROR');
+    expect(classifyStatus(400)).toBe('BAD_REQUEST');
+    expect(classifyStatus(401)).toBe('UNAUTHORIZED');
+    expect(classifyStatus(404)).toBe('NOT_FOUND');
+    expect(classifyStatus(409)).toBe('CONFLICT');
+    expect(classifyStatus(429)).toBe('RATE_LIMITED');
+    expect(classifyStatus(503)).toBe('SERVER_ERROR');
+    expect(classifyStatus(418)).toBe('HTTP_ERROR');
+  });
+});
+
+describe('HabitatClient', () => {
+  it('routes calls to the right service and path', async () => {
+    const fetchFn = vi.fn(async (_input: string, _init?: RequestInit) =>
+      jsonResponse(200, { tick: 1, glimpses: [], nextSeeds: [] }));
+    const client = clientWith(fetchFn as unknown as typeof fetch);
+
+    await client.perceive('did:1');
+    await client.quote('did:1', 'CREATE_TRACE', draft);
+
+    expect(fetchFn.mock.calls[0][0]).toBe('http://perception/v1/perception/perceive');
+    expect(fetchFn.mock.calls[1][0]).toBe('http://core/v1/physics/quote');
+    const body = JSON.parse(fetchFn.mock.calls[1][1]?.body as string);
+    expect(body).toEqual({ did: 'did:1', action: 'CREATE_TRACE', traceDraft: draft });
+  });
+
+  it('normalizes energy objects on register', async () => {
+    const client = clientWith((async () =>
+      jsonResponse(200, { did: 'did:1', energy: { current: 12, max: 25 }, tick: 7 })) as typeof fetch);
+
+    const result = await client.register('seed');
+
+    expect(result).toEqual({ ok: true, status: 200, data: { did: 'did:1', energy: 12, tick: 7 } });
+  });
+
+  it('keeps numeric energy on register', async () => {
+    const client = clientWith((async () =>
+      jsonResponse(200, { did: 'did:1', energy: 20, tick: 7 })) as typeof fetch);
+
+    const result = await client.register('seed');
+
+    expect(result.ok && result.data.energy).toBe(20);
+  });
+
+  it('returns typed errors with the server message', async () => {
+    const client = clientWith((async () => jsonResponse(409, { error: 'permanence_cap' })) as typeof fetch);
+
+    const result = await client.createTrace('did:1', draft);
+
+    expect(result).toEqual({
+      ok: false,
+      status: 409,
+      error: { code: 'CONFLICT', status: 409, message: 'permanence_cap' },
+    });
+  });
+
+  it('reports network failures', async () => {
+    const client = clientWith((async () => { throw new Error('ECONNREFUSED'); }) as typeof fetch);
+
+    const result = await client.jointQuote('did:1', 'aff-1');
+
+    expect(result.ok).toBe(false);
+    if (!result.ok) {
+      expect(result.error.code).toBe('NETWORK_ERROR');
+      expect(result.error.message).toBe('ECONNREFUSED');
+    }
+  });
+
+  it('flags empty success bodies as invalid responses', async () => {
+    const client = clientWith((async () => new Response('', { status: 200 })) as typeof fetch);
+
+    const result = await client.deriveTrace('did:1', 'trace-1', 'partial', draft);
+
+    expect(result.ok).toBe(false);
+    if (!result.ok) {
+      expect(result.error.code).toBe('INVALID_RESPONSE');
+      expect(result.error.message).toBe('Derive failed');
+    }
+  });
+
+  it('checks service health', async () => {
+    const fetchFn = vi.fn(async (_input: string, _init?: RequestInit) => jsonResponse(200, { status: 'ok' }));
+    const client = clientWith(fetchFn as unknown as typeof fetch);
+
+    const result = await client.health('perception');
+
+    expect(fetchFn.mock.calls[0][0]).toBe('http://perception/health');
+    expect(result.ok && result.data.status).toBe('ok');
+  });
+});
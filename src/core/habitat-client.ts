@@ -0,0 +1,327 @@
+/**
+ * Probe Agents Kit - Habitat Client
+ *
+ * Typed SDK over the Core and Perception APIs:
+ * - One method per endpoint, using the request/response types in types.ts
+ * - Normalizes response variants (e.g. energy as number or { current, max })
+ * - Validates payloads at runtime (see schema.ts) before they reach agent state
+ * - Returns discriminated results with typed error codes instead of raw HTTP
+ */
+
+import type {
+  AgentArchetype,
+  ActionType,
+  MutationType,
+  TraceDraft,
+  RegisterRequest,
+  RegisterResponse,
+  PerceiveResponse,
+  QuoteRequest,
+  QuoteResponse,
+  CreateTraceRequest,
+  CreateTraceResponse,
+  DeriveTraceRequest,
+  DeriveTraceResponse,
+  JointQuoteRequest,
+  JointQuoteResponse,
+  JointTraceRequest,
+  JointTraceResponse,
+  HealthResponse,
+} from './types.js';
+import { HttpClient, type HttpResponse } from './http.js';
+import { log } from './logger.js';
+import {
+  getValidationMode,
+  recordSchemaMismatch,
+  validateRegisterResponse,
+  validatePerceiveResponse,
+  validateQuoteResponse,
+  validateTraceWriteResponse,
+  validateJointQuoteResponse,
+  validateJointTraceResponse,
+  validateHealthResponse,
+  type SchemaValidator,
+  type ValidationMode,
+} from './schema.js';
+
+// ============================================================================
+// RESULT TYPES
+// ============================================================================
+
+export type HabitatErrorCode =
+  | 'NETWORK_ERROR'
+  | 'TIMEOUT'
+  | 'CANCELLED'
+  | 'BAD_REQUEST'
+  | 'UNAUTHORIZED'
+  | 'NOT_FOUND'
+  | 'CONFLICT'
+  | 'RATE_LIMITED'
+  | 'SERVER_ERROR'
+  | 'INVALID_RESPONSE'
+  | 'HTTP_ERROR';
+
+export interface HabitatError {
+  code: HabitatErrorCode;
+  /** HTTP status (0 when no response was received) */
+  status: number;
+  message: string;
+}
+
+export type HabitatResult<T> =
+  | { ok: true; status: number; data: T }
+  | { ok: false; status: number; error: HabitatError };
+
+/** Which API a call goes to */
+export type HabitatService = 'core' | 'perception';
+
+export interface HabitatClientConfig {
+  /** Client for the Core API (register, traces, physics, joint) */
+  core: HttpClient;
+  /** Client for the Perception API (perceive) */
+  perception: HttpClient;
+  /** Validation mode (defaults to the global mode, see setValidationMode) */
+  validation?: ValidationMode;
+  /** Archetype used when logging schema mismatches */
+  archetype?: AgentArchetype;
+}
+
+/** Endpoint name used in logs and mismatch counters */
+export type HabitatEndpoint =
+  | 'register'
+  | 'perceive'
+  | 'quote'
+  | 'create'
+  | 'derive'
+  | 'joint_quote'
+  | 'joint_trace'
+  | 'health';
+
+interface EndpointSpec {
+  service: HabitatService;
+  path: string;
+  validator: SchemaValidator;
+  failureMessage: string;
+}
+
+const ENDPOINTS: Record<HabitatEndpoint, EndpointSpec> = {
+  register: {
+    service: 'core', path: '/v1/agents/register',
+    validator: validateRegisterResponse, failureMessage: 'Registration failed',
+  },
+  perceive: {
+    service: 'perception', path: '/v1/perception/perceive',
+    validator: validatePerceiveResponse, failureMessage: 'Perceive failed',
+  },
+  quote: {
+    service: 'core', path: '/v1/physics/quote',
+    validator: validateQuoteResponse, failureMessage: 'Quote failed',
+  },
+  create: {
+    service: 'core', path: '/v1/traces',
+    validator: validateTraceWriteResponse, failureMessage: 'Create failed',
+  },
+  derive: {
+    service: 'core', path: '/v1/traces/derive',
+    validator: validateTraceWriteResponse, failureMessage: 'Derive failed',
+  },
+  joint_quote: {
+    service: 'core', path: '/v1/joint/quote',
+    validator: validateJointQuoteResponse, failureMessage: 'Joint quote failed',
+  },
+  joint_trace: {
+    service: 'core', path: '/v1/joint/traces',
+    validator: validateJointTraceResponse, failureMessage: 'Joint action failed',
+  },
+  health: {
+    service: 'core', path: '/health',
+    validator: validateHealthResponse, failureMessage: 'Health check failed',
+  },
+};
+
+/** Issues included in one schema_mismatch log entry */
+const MAX_LOGGED_ISSUES = 10;
+
+/** Register response as some habitat versions send it */
+interface RawRegisterResponse {
+  did: string;
+  energy: number | { current: number; max?: number };
+  tick: number;
+}
+
+/**
+ * Map an HTTP status to a habitat error code
+ */
+export function classifyStatus(status: number): HabitatErrorCode {
+  if (status === 0) return 'NETWORK_ERROR';
+  if (status === 400 || status === 422) return 'BAD_REQUEST';
+  if (status === 401 || status === 403) return 'UNAUTHORIZED';
+  if (status === 404) return 'NOT_FOUND';
+  if (status === 409) return 'CONFLICT';
+  if (status === 429) return 'RATE_LIMITED';
+  if (status >= 500) return 'SERVER_ERROR';
+  return 'HTTP_ERROR';
+}
+
+/**
+ * Map a failed HTTP response to a habitat error code
+ */
+export function classifyFailure(response: HttpResponse<unknown>): HabitatErrorCode {
+  switch (response.failure?.kind) {
+    case 'timeout': return 'TIMEOUT';
+    case 'cancelled': return 'CANCELLED';
+    case 'parse': return 'INVALID_RESPONSE';
+    default: return classifyStatus(response.status);
+  }
+}
+
+// ============================================================================
+// CLIENT
+// ============================================================================
+
+export class HabitatClient {
+  private core: HttpClient;
+  private perception: HttpClient;
+  private validation?: ValidationMode;
+  private archetype: AgentArchetype;
+
+  constructor(config: HabitatClientConfig) {
+    this.core = config.core;
+    this.perception = config.perception;
+    this.validation = config.validation;
+    this.archetype = config.archetype ?? 'QS';
+  }
+
+  async register(continuitySeed: string): Promise<HabitatResult<RegisterResponse>> {
+    const result = await this.call<RegisterRequest, RawRegisterResponse>(
+      'register', { continuitySeed }, null
+    );
+    if (!result.ok) return result;
+
+    const { energy } = result.data;
+    return {
+      ...result,
+      data: {
+        did: result.data.did,
+        energy: typeof energy === 'number' ? energy : energy?.current,
+        tick: result.data.tick,
+      },
+    };
+  }
+
+  async perceive(did: string): Promise<HabitatResult<PerceiveResponse>> {
+    return this.call<{ did: string }, PerceiveResponse>('perceive', { did }, did);
+  }
+
+  async quote(did: string, action: ActionType, traceDraft: TraceDraft): Promise<HabitatResult<QuoteResponse>> {
+    return this.call<QuoteRequest, QuoteResponse>('quote', { did, action, traceDraft }, did);
+  }
+
+  async createTrace(did: string, traceDraft: TraceDraft): Promise<HabitatResult<CreateTraceResponse>> {
+    return this.call<CreateTraceRequest, CreateTraceResponse>('create', { did, traceDraft }, did);
+  }
+
+  async deriveTrace(
+    did: string,
+    parentTraceId: string,
+    mutation: MutationType,
+    traceDraft: TraceDraft
+  ): Promise<HabitatResult<DeriveTraceResponse>> {
+    return this.call<DeriveTraceRequest, DeriveTraceResponse>(
+      'derive', { did, parentTraceId, mutation, traceDraft }, did
+    );
+  }
+
+  async jointQuote(did: string, affordanceId: string): Promise<HabitatResult<JointQuoteResponse>> {
+    return this.call<JointQuoteRequest, JointQuoteResponse>('joint_quote', { did, affordanceId }, did);
+  }
+
+  async jointTrace(did: string, affordanceId: string, traceDraft: TraceDraft): Promise<HabitatResult<JointTraceResponse>> {
+    return this.call<JointTraceRequest, JointTraceResponse>(
+      'joint_trace', { did, affordanceId, traceDraft }, did
+    );
+  }
+
+  async health(service: HabitatService = 'core'): Promise<HabitatResult<HealthResponse>> {
+    const response = await this.http(service).get<HealthResponse>(ENDPOINTS.health.path);
+    return this.toResult('health', response, null);
+  }
+
+  private http(service: HabitatService): HttpClient {
+    return service === 'core' ? this.core : this.perception;
+  }
+
+  private async call<T, R>(endpoint: HabitatEndpoint, body: T, did: string | null): Promise<HabitatResult<R>> {
+    const spec = ENDPOINTS[endpoint];
+    const response = await this.http(spec.service).post<T, R>(spec.path, body);
+    return this.toResult(endpoint, response, did);
+  }
+
+  private toResult<R>(
+    endpoint: HabitatEndpoint,
+    response: HttpResponse<R>,
+    did: string | null
+  ): HabitatResult<R> {
+    const { failureMessage, validator } = ENDPOINTS[endpoint];
+
+    if (!response.ok) {
+      return {
+        ok: false,
+        status: response.status,
+        error: {
+          code: classifyFailure(response),
+          status: response.status,
+          message: response.error ?? failureMessage,
+        },
+      };
+    }
+
+    if (response.data === undefined || response.data === null) {
+      return {
+        ok: false,
+        status: response.status,
+        error: { code: 'INVALID_RESPONSE', status: response.status, message: failureMessage },
+      };
+    }
+
+    const mode = this.validation ?? getValidationMode();
+    if (mode !== 'off') {
+      const issues = validator(response.data);
+      if (issues.length > 0) {
+        recordSchemaMismatch(endpoint, issues);
+        const tick = (response.data as { tick?: unknown }).tick;
+        log({
+          did,
+          archetype: this.archetype,
+          step: 'schema_mismatch',
+          tick: typeof tick === 'number' && Number.isFinite(tick) ? tick : 0,
+          details: {
+            endpoint,
+            mode,
+            path: issues[0].path,
+            issueCount: issues.length,
+            issues: issues.slice(0, MAX_LOGGED_ISSUES),
+          },
+        });
+
+        if (mode === 'strict') {
+          return {
+            ok: false,
+            status: response.status,
+            error: {
+              code: 'INVALID_RESPONSE',
+              status: response.status,
+              message: `${failureMessage}: schema mismatch at ${issues[0].path || '<root>'} (${issues[0].message})`,
+            },
+          };
+        }
+      }
+    }
+
+    return { ok: true, status: response.status, data: response.data };
+  }
+}
+
+export function createHabitatClient(config: HabitatClientConfig): HabitatClient {
+  return new HabitatClient(config);
+}
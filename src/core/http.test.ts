@@ -0,0 +1,135 @@
+/**
+ * HTTP Client Tests
+ *
+ * Timeouts, cancellation, jittered backoff and typed failures.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { createHttpClient } from './http.js';
+import { HabitatClient } from './habitat-client.js';
+
+function jsonResponse(status: number, body: unknown): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
+
+/** A fetch that never answers (but honors abort, like the real one) */
+const hangingFetch = vi.fn((_input: string | URL | Request, init?: RequestInit) =>
+  new Promise<Response>((_resolve, reject) => {
+    init?.signal?.addEventListener('abort', () => reject(new DOMException('aborted', 'AbortError')));
+  })
+) as unknown as typeof fetch;
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  vi.mocked(hangingFetch).mockClear();
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('HttpClient', () => {
+  it('times out each attempt and reports a timeout failure', async () => {
+    const http = createHttpClient({ baseUrl: 'http://core', maxRetries: 1, baseDelayMs: 0, timeoutMs: 500, fetch: hangingFetch });
+
+    const pending = http.get('/health');
+    // Two attempts of 500ms (the retry backoff is 0, i.e. one timer turn)
+    await vi.advanceTimersByTimeAsync(1001);
+    const response = await pending;
+
+    expect(hangingFetch).toHaveBeenCalledTimes(2);
+    expect(response).toMatchObject({
+      ok: false,
+      status: 0,
+      failure: { kind: 'timeout', status: 0, message: 'Request timed out after 500ms' },
+    });
+  });
+
+  it('lets a request or an endpoint override the default timeout', async () => {
+    const http = createHttpClient({
+      baseUrl: 'http://core',
+      maxRetries: 0,
+      timeoutMs: 10_000,
+      endpointTimeouts: { '/v1/perception/perceive': 200 },
+      fetch: hangingFetch,
+    });
+
+    const perceive = http.post('/v1/perception/perceive', {});
+    const health = http.get('/health', { timeoutMs: 300 });
+    await vi.advanceTimersByTimeAsync(300);
+
+    expect((await perceive).failure?.message).toBe('Request timed out after 200ms');
+    expect((await health).failure?.message).toBe('Request timed out after 300ms');
+  });
+
+  it('stops immediately when cancelled, without retrying', async () => {
+    const shutdown = new AbortController();
+    const http = createHttpClient({ baseUrl: 'http://core', maxRetries: 3, fetch: hangingFetch, signal: shutdown.signal });
+
+    const pending = http.get('/health');
+    await vi.advanceTimersByTimeAsync(10);
+    shutdown.abort();
+    expect(await pending).toMatchObject({ ok: false, failure: { kind: 'cancelled' } });
+    expect(hangingFetch).toHaveBeenCalledTimes(1);
+
+    // Later requests on a cancelled client are not sent
+    expect((await http.get('/health')).failure?.kind).toBe('cancelled');
+    expect(hangingFetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('cancels a single request with its own signal', async () => {
+    const http = createHttpClient({ baseUrl: 'http://core', maxRetries: 0, fetch: hangingFetch });
+    const request = new AbortController();
+    const pending = http.get('/health', { signal: request.signal });
+    request.abort();
+    expect((await pending).failure?.kind).toBe('cancelled');
+  });
+
+  it('spreads retries with full jitter', async () => {
+    const attempts: number[] = [];
+    const fetchFn = vi.fn(async () => {
+      attempts.push(Date.now());
+      return jsonResponse(503, { error: 'busy' });
+    }) as unknown as typeof fetch;
+    const random = vi.fn().mockReturnValueOnce(0.5).mockReturnValueOnce(0.25);
+    const http = createHttpClient({ baseUrl: 'http://core', maxRetries: 2, baseDelayMs: 1000, fetch: fetchFn, random });
+
+    const pending = http.get('/health');
+    await vi.advanceTimersByTimeAsync(5000);
+    const response = await pending;
+
+    // Cap 1000ms then 2000ms, scaled by the random draw
+    expect(attempts.map(t => t - attempts[0]!)).toEqual([0, 500, 1000]);
+    expect(response).toMatchObject({ ok: false, status: 503, failure: { kind: 'http', status: 503, message: 'busy' } });
+  });
+
+  it('distinguishes network, http and parse failures', async () => {
+    const http = (fetchFn: () => Promise<Response>) =>
+      createHttpClient({ baseUrl: 'http://core', maxRetries: 0, fetch: fetchFn as unknown as typeof fetch });
+
+    const network = await http(async () => { throw new TypeError('fetch failed'); }).get('/health');
+    expect(network.failure).toEqual({ kind: 'network', status: 0, message: 'fetch failed' });
+
+    const notFound = await http(async () => jsonResponse(404, { error: 'unknown_did' })).get('/health');
+    expect(notFound.failure).toEqual({ kind: 'http', status: 404, message: 'unknown_did' });
+
+    const garbled = await http(async () => new Response('<html>', { status: 200 })).get('/health');
+    expect(garbled.failure).toMatchObject({ kind: 'parse', status: 200 });
+  });
+});
+
+describe('HabitatClient failure codes', () => {
+  it('maps timeouts and cancellations to their own codes', async () => {
+    const http = (baseUrl: string) => createHttpClient({ baseUrl, maxRetries: 0, timeoutMs: 100, fetch: hangingFetch });
+    const client = new HabitatClient({ core: http('http://core'), perception: http('http://perception') });
+
+    const pending = client.register('seed');
+    await vi.advanceTimersByTimeAsync(100);
+    const result = await pending;
+    expect(result.ok).toBe(false);
+    if (!result.ok) expect(result.error.code).toBe('TIMEOUT');
+  });
+});
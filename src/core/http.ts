@@ -2,15 +2,60 @@
  * Probe Agents Kit - HTTP Client
  *
  * Fetch wrapper with:
- * - Exponential backoff on 429/5xx
+ * - Full-jitter exponential backoff on 429/5xx, honoring Retry-After
  * - Configurable retries
+ * - Timeouts per attempt (default and per request) and cancellation via AbortSignal
+ * - Optional shared rate limiter and circuit breaker (HttpGuard)
  * - JSON serialization
+ * - Typed failures: timeout, network, http, parse, cancelled
+ * - Latency and retry metrics per endpoint
  */
 
+import { probeMetrics } from './metrics.js';
+import { parseRetryAfter, type HttpGuard } from './resilience.js';
+
 export interface HttpConfig {
   baseUrl: string;
   maxRetries: number;
   baseDelayMs?: number;
+  /** Timeout per attempt in ms (default 10s, 0 = none) */
+  timeoutMs?: number;
+  /** Timeouts by endpoint path, e.g. { '/v1/perception/perceive': 3000 } */
+  endpointTimeouts?: Record<string, number>;
+  /** Cancels every request of this client (e.g. on shutdown) */
+  signal?: AbortSignal;
+  /** Fetch implementation (defaults to global fetch, e.g. simulator transport) */
+  fetch?: typeof fetch;
+  /** Rate limiter and circuit breaker, shared by all clients of the base URL */
+  guard?: HttpGuard;
+  /** Random source for backoff jitter, in [0, 1) */
+  random?: () => number;
+}
+
+export interface RequestOptions {
+  /** Timeout per attempt for this request, overriding the client default */
+  timeoutMs?: number;
+  /** Cancels this request */
+  signal?: AbortSignal;
+}
+
+export type HttpErrorKind =
+  /** An attempt ran past its timeout (after retries) */
+  | 'timeout'
+  /** No response: connection refused, reset, DNS... (after retries) */
+  | 'network'
+  /** The server answered with a non-2xx status */
+  | 'http'
+  /** 2xx response whose body is not JSON */
+  | 'parse'
+  /** Cancelled by the caller's signal */
+  | 'cancelled';
+
+export interface HttpError {
+  kind: HttpErrorKind;
+  /** HTTP status (0 when no response was received) */
+  status: number;
+  message: string;
 }
 
 export interface HttpResponse<T> {
@@ -18,99 +63,225 @@ export interface HttpResponse<T> {
   status: number;
   data?: T;
   error?: string;
+  /** Set whenever ok is false */
+  failure?: HttpError;
 }
 
 const DEFAULT_BASE_DELAY_MS = 1000;
+const DEFAULT_TIMEOUT_MS = 10_000;
+
+function failed<T>(kind: HttpErrorKind, status: number, message: string): HttpResponse<T> {
+  return { ok: false, status, error: message, failure: { kind, status, message } };
+}
+
+/**
+ * Sleep that ends early when any of the signals aborts
+ */
+async function sleep(ms: number, signals: Array<AbortSignal | undefined> = []): Promise<void> {
+  if (signals.some(signal => signal?.aborted)) return;
+  return new Promise((resolve) => {
+    const done = () => {
+      clearTimeout(timer);
+      for (const signal of signals) signal?.removeEventListener('abort', done);
+      resolve();
+    };
+    const timer = setTimeout(done, ms);
+    for (const signal of signals) signal?.addEventListener('abort', done, { once: true });
+  });
+}
+
+/**
+ * Signal for one attempt: aborted by any caller signal or by the timeout.
+ * (AbortSignal.any needs Node 20.3+, the kit supports 20.0.)
+ */
+function attemptSignal(timeoutMs: number, signals: Array<AbortSignal | undefined>) {
+  const controller = new AbortController();
+  let timedOut = false;
+  const abort = () => controller.abort();
+  const timer = timeoutMs > 0
+    ? setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+    }, timeoutMs)
+    : undefined;
 
-async function sleep(ms: number): Promise<void> {
-  return new Promise((resolve) => setTimeout(resolve, ms));
+  for (const signal of signals) {
+    if (signal?.aborted) controller.abort();
+    signal?.addEventListener('abort', abort, { once: true });
+  }
+
+  return {
+    signal: controller.signal,
+    timedOut: () => timedOut,
+    dispose: () => {
+      clearTimeout(timer);
+      for (const signal of signals) signal?.removeEventListener('abort', abort);
+    },
+  };
+}
+
+/**
+ * Settle with `work`, or reject as soon as the signal aborts (some fetch
+ * implementations, e.g. test doubles, ignore the signal)
+ */
+function raceAbort<T>(signal: AbortSignal, work: Promise<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    const onAbort = () => reject(new Error('aborted'));
+    if (signal.aborted) onAbort();
+    signal.addEventListener('abort', onAbort, { once: true });
+    work.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+  });
 }
 
 export class HttpClient {
   private baseUrl: string;
   private maxRetries: number;
   private baseDelayMs: number;
+  private timeoutMs: number;
+  private endpointTimeouts: Record<string, number>;
+  private signal: AbortSignal | undefined;
+  private fetchFn: typeof fetch;
+  private guard: HttpGuard | undefined;
+  private random: () => number;
 
   constructor(config: HttpConfig) {
     this.baseUrl = config.baseUrl.replace(/\/$/, '');
     this.maxRetries = config.maxRetries;
     this.baseDelayMs = config.baseDelayMs ?? DEFAULT_BASE_DELAY_MS;
+    this.timeoutMs = config.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+    this.endpointTimeouts = config.endpointTimeouts ?? {};
+    this.signal = config.signal;
+    this.fetchFn = config.fetch ?? ((input, init) => fetch(input, init));
+    this.guard = config.guard;
+    this.random = config.random ?? Math.random;
   }
 
   private async fetchWithRetry<T>(
     path: string,
-    options: RequestInit
+    init: RequestInit,
+    options: RequestOptions
+  ): Promise<HttpResponse<T>> {
+    const endpoint = path.split('?')[0]!;
+    return probeMetrics.httpDuration.time(
+      (response) => ({ endpoint, method: init.method ?? 'GET', status: String(response?.status ?? 0) }),
+      () => this.send<T>(path, endpoint, init, options)
+    );
+  }
+
+  /**
+   * Full jitter: uniform between 0 and the exponential cap, so agents that
+   * failed together do not retry together
+   */
+  private backoff(attempt: number): number {
+    return Math.floor(this.random() * this.baseDelayMs * Math.pow(2, attempt - 1));
+  }
+
+  private async send<T>(
+    path: string,
+    endpoint: string,
+    init: RequestInit,
+    options: RequestOptions
   ): Promise<HttpResponse<T>> {
     const url = `${this.baseUrl}${path}`;
-    let lastError: Error | null = null;
+    const timeoutMs = options.timeoutMs ?? this.endpointTimeouts[endpoint] ?? this.timeoutMs;
+    const cancelled = () => this.signal?.aborted || options.signal?.aborted;
+    let lastFailure: HttpResponse<T> = failed('network', 0, 'Unknown error after retries');
     let attempt = 0;
 
     while (attempt <= this.maxRetries) {
+      if (cancelled()) return failed('cancelled', 0, 'Request cancelled');
+
+      const pass = this.guard ? await this.guard.acquire(endpoint, [this.signal, options.signal]) : null;
+      if (pass?.cancelled) return failed('cancelled', 0, 'Request cancelled');
+      const breaker = pass?.breaker ?? null;
+      const attemptAbort = attemptSignal(timeoutMs, [this.signal, options.signal]);
+      let response: Response;
+      let text: string;
       try {
-        const response = await fetch(url, options);
-
-        // Parse JSON response
-        const text = await response.text();
-        let data: T | undefined;
-        if (text) {
-          try {
-            data = JSON.parse(text) as T;
-          } catch {
-            // Not JSON, treat as error
-            if (!response.ok) {
-              return { ok: false, status: response.status, error: text };
-            }
-          }
+        ({ response, text } = await raceAbort(attemptAbort.signal, (async () => {
+          const res = await this.fetchFn(url, { ...init, signal: attemptAbort.signal });
+          return { response: res, text: await res.text() };
+        })()));
+      } catch (err) {
+        const timedOut = attemptAbort.timedOut();
+        attemptAbort.dispose();
+        if (cancelled() && !timedOut) {
+          // An abandoned request says nothing about the habitat
+          breaker?.release();
+          return failed('cancelled', 0, 'Request cancelled');
         }
 
-        // Success
-        if (response.ok) {
-          return { ok: true, status: response.status, data };
+        breaker?.failure();
+        lastFailure = timedOut
+          ? failed('timeout', 0, `Request timed out after ${timeoutMs}ms`)
+          : failed('network', 0, err instanceof Error ? err.message : String(err));
+        attempt++;
+        if (attempt <= this.maxRetries) {
+          probeMetrics.httpRetries.inc({ endpoint, reason: timedOut ? 'timeout' : 'network' });
+          await sleep(this.backoff(attempt), [this.signal, options.signal]);
         }
+        continue;
+      }
+      attemptAbort.dispose();
+
+      if (response.status >= 500) {
+        breaker?.failure();
+      } else {
+        breaker?.success();
+      }
 
-        // Check if retryable
-        if (response.status === 429 || response.status >= 500) {
-          attempt++;
-          if (attempt <= this.maxRetries) {
-            const delay = this.baseDelayMs * Math.pow(2, attempt - 1);
-            await sleep(delay);
-            continue;
-          }
+      // Parse JSON response
+      let data: T | undefined;
+      if (text) {
+        try {
+          data = JSON.parse(text) as T;
+        } catch {
+          // Not JSON: an error page, or a broken success body
+          return response.ok
+            ? failed('parse', response.status, `Invalid JSON in response: ${text.slice(0, 100)}`)
+            : failed('http', response.status, text);
         }
+      }
+
+      // Success
+      if (response.ok) {
+        return { ok: true, status: response.status, data };
+      }
+
+      const message = data && typeof data === 'object' && 'error' in data
+        ? String((data as { error: unknown }).error)
+        : text;
+
+      // Check if retryable
+      if (response.status === 429 || response.status >= 500) {
+        // Retry-After holds every agent on this base URL, not just this call
+        const retryAfter = parseRetryAfter(response.headers.get('Retry-After'));
+        if (retryAfter !== null) this.guard?.pause(retryAfter);
 
-        // Non-retryable error
-        return {
-          ok: false,
-          status: response.status,
-          error: data && typeof data === 'object' && 'error' in data
-            ? String((data as { error: unknown }).error)
-            : text,
-        };
-      } catch (err) {
-        lastError = err instanceof Error ? err : new Error(String(err));
         attempt++;
         if (attempt <= this.maxRetries) {
-          const delay = this.baseDelayMs * Math.pow(2, attempt - 1);
-          await sleep(delay);
+          probeMetrics.httpRetries.inc({ endpoint, reason: String(response.status) });
+          await sleep(retryAfter ?? this.backoff(attempt), [this.signal, options.signal]);
+          lastFailure = failed('http', response.status, message);
+          continue;
         }
       }
+
+      // Non-retryable error
+      return failed('http', response.status, message);
     }
 
-    return {
-      ok: false,
-      status: 0,
-      error: lastError?.message ?? 'Unknown error after retries',
-    };
+    return lastFailure;
   }
 
-  async get<T>(path: string): Promise<HttpResponse<T>> {
+  async get<T>(path: string, options: RequestOptions = {}): Promise<HttpResponse<T>> {
     return this.fetchWithRetry<T>(path, {
       method: 'GET',
       headers: { 'Accept': 'application/json' },
-    });
+    }, options);
   }
 
-  async post<T, R>(path: string, body: T): Promise<HttpResponse<R>> {
+  async post<T, R>(path: string, body: T, options: RequestOptions = {}): Promise<HttpResponse<R>> {
     return this.fetchWithRetry<R>(path, {
       method: 'POST',
       headers: {
@@ -118,7 +289,7 @@ export class HttpClient {
         'Accept': 'application/json',
       },
       body: JSON.stringify(body),
-    });
+    }, options);
   }
 }
 
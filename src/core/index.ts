@@ -4,8 +4,16 @@
 
 export * from './types.js';
 export * from './config.js';
+export * from './config-spec.js';
 export * from './logger.js';
+export * from './log-sinks.js';
 export * from './rng.js';
 export * from './http.js';
+export * from './resilience.js';
+export * from './schema.js';
+export * from './metrics.js';
+export * from './metrics-server.js';
+export * from './shutdown.js';
+export * from './habitat-client.js';
 export * from './pyramid.js';
 export * from './frux-llm.js';
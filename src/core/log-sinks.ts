@@ -0,0 +1,271 @@
+/**
+ * Probe Agents Kit - Log Sinks
+ *
+ * Destinations for log entries:
+ * - StdoutSink: JSON lines on stdout (default)
+ * - RotatingFileSink: JSON lines to a file, rotated by size
+ * - MemorySink: ring buffer, for tests and live inspection
+ * - DidHistorySink: ring buffer per DID (admin API)
+ * - BroadcastSink: hands entries to live subscribers (admin event stream)
+ * - SocketSink: NDJSON over a Unix socket or local TCP port
+ *
+ * Sinks must not throw from write(); the logger also guards each call.
+ */
+
+import { appendFileSync, existsSync, mkdirSync, renameSync, rmSync, statSync } from 'node:fs';
+import { dirname } from 'node:path';
+import { createConnection, type Socket } from 'node:net';
+
+import type { LogEntry, LogLevel } from './types.js';
+
+/** Levels, lowest first (kept here so config can parse them without the logger) */
+export const LOG_LEVELS: readonly LogLevel[] = ['debug', 'info', 'warn', 'error'];
+
+export function isLogLevel(value: unknown): value is LogLevel {
+  return typeof value === 'string' && (LOG_LEVELS as readonly string[]).includes(value);
+}
+
+export interface LogSink {
+  write(entry: LogEntry): void;
+  /** Flush and release resources */
+  close?(): Promise<void> | void;
+}
+
+// ============================================================================
+// STDOUT
+// ============================================================================
+
+export class StdoutSink implements LogSink {
+  write(entry: LogEntry): void {
+    console.log(JSON.stringify(entry));
+  }
+}
+
+// ============================================================================
+// ROTATING FILE
+// ============================================================================
+
+export interface RotatingFileOptions {
+  /** Rotate once the file would exceed this size (default 10 MB) */
+  maxBytes?: number;
+  /** Rotated files to keep: path.1 (newest) .. path.N (default 5) */
+  maxFiles?: number;
+}
+
+export class RotatingFileSink implements LogSink {
+  private size: number;
+  private maxBytes: number;
+  private maxFiles: number;
+
+  constructor(readonly path: string, options: RotatingFileOptions = {}) {
+    this.maxBytes = options.maxBytes ?? 10 * 1024 * 1024;
+    this.maxFiles = options.maxFiles ?? 5;
+    mkdirSync(dirname(path), { recursive: true });
+    this.size = existsSync(path) ? statSync(path).size : 0;
+  }
+
+  write(entry: LogEntry): void {
+    const line = JSON.stringify(entry) + '\n';
+    const bytes = Buffer.byteLength(line);
+    if (this.size > 0 && this.size + bytes > this.maxBytes) {
+      this.rotate();
+    }
+    appendFileSync(this.path, line);
+    this.size += bytes;
+  }
+
+  private rotate(): void {
+    if (this.maxFiles <= 0) {
+      rmSync(this.path, { force: true });
+    } else {
+      rmSync(`${this.path}.${this.maxFiles}`, { force: true });
+      for (let i = this.maxFiles - 1; i >= 1; i--) {
+        if (existsSync(`${this.path}.${i}`)) {
+          renameSync(`${this.path}.${i}`, `${this.path}.${i + 1}`);
+        }
+      }
+      renameSync(this.path, `${this.path}.1`);
+    }
+    this.size = 0;
+  }
+}
+
+// ============================================================================
+// MEMORY
+// ============================================================================
+
+export class MemorySink implements LogSink {
+  private buffer: LogEntry[] = [];
+
+  constructor(private capacity: number = 1000) {}
+
+  write(entry: LogEntry): void {
+    this.buffer.push(entry);
+    if (this.buffer.length > this.capacity) this.buffer.shift();
+  }
+
+  /** Entries oldest first, optionally only one step */
+  entries(step?: string): LogEntry[] {
+    return step === undefined ? [...this.buffer] : this.buffer.filter(e => e.step === step);
+  }
+
+  clear(): void {
+    this.buffer = [];
+  }
+}
+
+/**
+ * Last entries of every agent, keyed by DID. Entries without a DID
+ * (runner events) are not kept.
+ */
+export class DidHistorySink implements LogSink {
+  private byDid = new Map<string, LogEntry[]>();
+
+  constructor(private perDid: number = 200) {}
+
+  write(entry: LogEntry): void {
+    if (!entry.did) return;
+    const entries = this.byDid.get(entry.did) ?? [];
+    entries.push(entry);
+    if (entries.length > this.perDid) entries.shift();
+    this.byDid.set(entry.did, entries);
+  }
+
+  /** Up to limit entries of one DID, oldest first */
+  entries(did: string, limit: number = this.perDid): LogEntry[] {
+    const entries = this.byDid.get(did) ?? [];
+    return limit > 0 ? entries.slice(-limit) : [];
+  }
+}
+
+/**
+ * Passes every entry to the current subscribers; nothing is kept
+ */
+export class BroadcastSink implements LogSink {
+  private listeners = new Set<(entry: LogEntry) => void>();
+
+  write(entry: LogEntry): void {
+    for (const listener of this.listeners) {
+      try {
+        listener(entry);
+      } catch {
+        // One broken subscriber must not starve the others
+      }
+    }
+  }
+
+  /** Returns the unsubscribe function */
+  subscribe(listener: (entry: LogEntry) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  get subscribers(): number {
+    return this.listeners.size;
+  }
+}
+
+// ============================================================================
+// SOCKET
+// ============================================================================
+
+/** Entries kept while the socket is (re)connecting */
+const SOCKET_BUFFER_LIMIT = 1000;
+const SOCKET_RECONNECT_MS = 1000;
+
+/**
+ * NDJSON over a socket. The target is a Unix socket path or "host:port".
+ * Entries are buffered while connecting and dropped (oldest first) when
+ * the buffer is full; the logger never waits for the socket.
+ */
+export class SocketSink implements LogSink {
+  private socket: Socket | null = null;
+  private connected = false;
+  private pending: string[] = [];
+  private lastAttempt = 0;
+  private closed = false;
+  /** Entries dropped because the buffer was full */
+  dropped = 0;
+
+  constructor(readonly target: string) {}
+
+  write(entry: LogEntry): void {
+    if (this.closed) return;
+    const line = JSON.stringify(entry) + '\n';
+
+    if (this.connected && this.socket) {
+      this.socket.write(line);
+      return;
+    }
+
+    this.pending.push(line);
+    if (this.pending.length > SOCKET_BUFFER_LIMIT) {
+      this.pending.shift();
+      this.dropped++;
+    }
+    this.connect();
+  }
+
+  async close(): Promise<void> {
+    this.closed = true;
+    const socket = this.socket;
+    if (!socket) return;
+    await new Promise<void>((resolve) => {
+      if (this.connected) socket.end(() => resolve());
+      else resolve();
+    });
+    socket.destroy();
+    this.socket = null;
+  }
+
+  private connect(): void {
+    if (this.socket || Date.now() - this.lastAttempt < SOCKET_RECONNECT_MS) return;
+    this.lastAttempt = Date.now();
+
+    const match = this.target.match(/^(.+):(\d+)$/);
+    const socket = match
+      ? createConnection({ host: match[1]!, port: parseInt(match[2]!, 10) })
+      : createConnection({ path: this.target });
+    socket.unref();
+    this.socket = socket;
+
+    socket.on('connect', () => {
+      this.connected = true;
+      for (const line of this.pending) socket.write(line);
+      this.pending = [];
+    });
+    socket.on('error', () => {
+      // Reconnect on a later write
+    });
+    socket.on('close', () => {
+      this.connected = false;
+      this.socket = null;
+    });
+  }
+}
+
+export function createStdoutSink(): StdoutSink {
+  return new StdoutSink();
+}
+
+export function createMemorySink(capacity?: number): MemorySink {
+  return new MemorySink(capacity);
+}
+
+export function createDidHistorySink(perDid?: number): DidHistorySink {
+  return new DidHistorySink(perDid);
+}
+
+export function createBroadcastSink(): BroadcastSink {
+  return new BroadcastSink();
+}
+
+export function createRotatingFileSink(path: string, options?: RotatingFileOptions): RotatingFileSink {
+  return new RotatingFileSink(path, options);
+}
+
+export function createSocketSink(target: string): SocketSink {
+  return new SocketSink(target);
+}
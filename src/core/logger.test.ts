@@ -0,0 +1,158 @@
+/**
+ * Logger Tests
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, readFileSync, readdirSync, rmSync } from 'node:fs';
+import { createServer } from 'node:net';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+import {
+  log,
+  logPerceive,
+  logError,
+  setVerbose,
+  configureLogger,
+  captureLogs,
+  resetLogger,
+  type LoggerOptions,
+} from './logger.js';
+import { createRotatingFileSink, createSocketSink, type MemorySink } from './log-sinks.js';
+
+function entry(step: string, archetype = 'QS') {
+  return { did: null, archetype, step, tick: 1 };
+}
+
+describe('logger', () => {
+  let sink: MemorySink;
+
+  beforeEach(() => {
+    sink = captureLogs();
+  });
+
+  afterEach(() => {
+    resetLogger();
+  });
+
+  it('writes entries with a timestamp and the step level', () => {
+    log({ ...entry('create'), cost: 2 });
+    logError('CBC', 'did:1', 4, new Error('boom'), 'quote');
+
+    expect(sink.entries()).toMatchObject([
+      { level: 'info', step: 'create', cost: 2 },
+      { level: 'error', step: 'error', details: { context: 'quote', message: 'boom' } },
+    ]);
+    expect(sink.entries()[0]!.ts).toMatch(/^\d{4}-\d{2}-\d{2}T/);
+  });
+
+  it('hides debug steps unless verbose', () => {
+    logPerceive('QS', 'did:1', 1, 3, 0);
+    expect(sink.entries()).toHaveLength(0);
+
+    setVerbose(true);
+    logPerceive('QS', 'did:1', 1, 3, 0);
+    expect(sink.entries('perceive')).toHaveLength(1);
+  });
+
+  it('applies per-archetype thresholds and step level overrides', () => {
+    configureLogger({
+      level: 'warn',
+      archetypeLevels: { LLM: 'debug' },
+      stepLevels: { quote: 'error' },
+    });
+
+    log(entry('create', 'QS'));
+    log(entry('quote', 'QS'));
+    log(entry('perceive', 'LLM'));
+
+    expect(sink.entries().map(e => `${e.archetype}:${e.step}:${e.level}`)).toEqual([
+      'QS:quote:error',
+      'LLM:perceive:debug',
+    ]);
+  });
+
+  it('samples noisy steps reproducibly', () => {
+    const run = (options: LoggerOptions) => {
+      const memory = captureLogs();
+      configureLogger({ level: 'debug', ...options });
+      for (let i = 0; i < 200; i++) {
+        log({ ...entry('perceive'), tick: i });
+        log({ ...entry('create'), tick: i });
+      }
+      return memory;
+    };
+
+    const first = run({ sampling: { perceive: 0.25 }, seed: 7 });
+    const second = run({ sampling: { perceive: 0.25 }, seed: 7 });
+    const kept = first.entries('perceive').length;
+
+    expect(kept).toBeGreaterThan(20);
+    expect(kept).toBeLessThan(80);
+    expect(first.entries('create')).toHaveLength(200);
+    expect(second.entries('perceive').map(e => e.tick)).toEqual(first.entries('perceive').map(e => e.tick));
+  });
+
+  it('keeps only the newest entries in the memory sink', () => {
+    const small = captureLogs(2);
+    log(entry('a'));
+    log(entry('b'));
+    log(entry('c'));
+    expect(small.entries().map(e => e.step)).toEqual(['b', 'c']);
+  });
+
+  it('survives a failing sink', () => {
+    configureLogger({ sinks: [{ write: () => { throw new Error('disk full'); } }, sink] });
+    expect(() => log(entry('create'))).not.toThrow();
+    expect(sink.entries()).toHaveLength(1);
+  });
+});
+
+describe('RotatingFileSink', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'logs-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('rotates by size and keeps maxFiles old files', () => {
+    const path = join(dir, 'probes.log');
+    const fileSink = createRotatingFileSink(path, { maxBytes: 200, maxFiles: 2 });
+    const line = { ts: 't', did: null, archetype: 'QS', step: 'create', tick: 0, details: { pad: 'x'.repeat(60) } };
+
+    for (let i = 0; i < 10; i++) fileSink.write({ ...line, tick: i });
+
+    expect(readdirSync(dir).sort()).toEqual(['probes.log', 'probes.log.1', 'probes.log.2']);
+    const current = readFileSync(path, 'utf8').trim().split('\n').map(l => JSON.parse(l).tick);
+    expect(current.at(-1)).toBe(9);
+    expect(readFileSync(path, 'utf8').length).toBeLessThanOrEqual(200);
+  });
+});
+
+describe('SocketSink', () => {
+  it('streams NDJSON to a local socket', async () => {
+    const received: string[] = [];
+    const server = createServer((socket) => {
+      socket.setEncoding('utf8');
+      socket.on('data', (chunk: string) => received.push(chunk));
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', () => resolve()));
+    const address = server.address();
+    const port = typeof address === 'object' && address ? address.port : 0;
+
+    const socketSink = createSocketSink(`127.0.0.1:${port}`);
+    socketSink.write({ ts: 't', did: null, archetype: 'QS', step: 'one', tick: 1 });
+    socketSink.write({ ts: 't', did: null, archetype: 'QS', step: 'two', tick: 2 });
+
+    await new Promise((resolve) => setTimeout(resolve, 100));
+    await socketSink.close();
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+
+    const lines = received.join('').trim().split('\n').map(l => JSON.parse(l).step);
+    expect(lines).toEqual(['one', 'two']);
+  });
+});
@@ -2,28 +2,168 @@
  * Probe Agents Kit - Logger
  *
  * JSON line logging for structured output.
- * Format: { ts, did, archetype, step, tick, cost?, allowed?, details? }
+ * Format: { ts, level, did, archetype, step, tick, cost?, allowed?, details? }
+ *
+ * Entries go to pluggable sinks (stdout by default, see log-sinks.ts).
+ * Each step has a level (e.g. perceive is debug, error is error); an entry is
+ * written when its level reaches the threshold for its archetype. Noisy steps
+ * can be sampled with a seeded RNG so runs stay reproducible.
  */
 
-import type { AgentArchetype, LogEntry } from './types.js';
+import type { AgentArchetype, LogEntry, LogLevel } from './types.js';
+import { SeededRNG } from './rng.js';
+import { StdoutSink, MemorySink, type LogSink } from './log-sinks.js';
+
+const LEVEL_RANK: Record<LogLevel, number> = { debug: 0, info: 1, warn: 2, error: 3 };
+
+/** Level of each step unless overridden; unlisted steps are info */
+const DEFAULT_STEP_LEVELS: Record<string, LogLevel> = {
+  perceive: 'debug',
+  silence: 'debug',
+  skip: 'debug',
+  schema_mismatch: 'warn',
+  replay_divergence: 'warn',
+  scenario_invalid: 'warn',
+  config_invalid: 'warn',
+  config_reload_rejected: 'warn',
+  skip_unknown_archetype: 'warn',
+  runner_abort: 'warn',
+  circuit_open: 'warn',
+  circuit_half_open: 'debug',
+  shutdown_forced: 'warn',
+  shutdown_abandoned: 'warn',
+  error: 'error',
+  step_error: 'error',
+  state_save_error: 'error',
+  runner_fatal: 'error',
+  shutdown_step_error: 'error',
+};
+
+export interface LoggerOptions {
+  /** Threshold for all archetypes */
+  level?: LogLevel;
+  /** Threshold per archetype code, e.g. { LLM: 'debug' } */
+  archetypeLevels?: Record<string, LogLevel>;
+  /** Level per step, on top of the defaults, e.g. { quote: 'debug' } */
+  stepLevels?: Record<string, LogLevel>;
+  /** Fraction of entries kept per step, e.g. { perceive: 0.1 } */
+  sampling?: Record<string, number>;
+  /** Seed for sampling */
+  seed?: number;
+  /** Replaces the current sinks */
+  sinks?: LogSink[];
+}
+
+let threshold: LogLevel = 'info';
+let archetypeLevels: Record<string, LogLevel> = {};
+let stepLevels: Record<string, LogLevel> = {};
+let sampling: Record<string, number> = {};
+let samplingRng = new SeededRNG(42);
+let sinks: LogSink[] = [new StdoutSink()];
 
-let verbose = false;
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
 
+/**
+ * Verbose shows debug entries (perceive, silence, skip)
+ */
 export function setVerbose(v: boolean): void {
-  verbose = v;
+  threshold = v ? 'debug' : 'info';
+}
+
+export function setLogLevel(level: LogLevel): void {
+  threshold = level;
+}
+
+export function getLogLevel(): LogLevel {
+  return threshold;
+}
+
+export function configureLogger(options: LoggerOptions): void {
+  if (options.level) threshold = options.level;
+  if (options.archetypeLevels) archetypeLevels = { ...options.archetypeLevels };
+  if (options.stepLevels) stepLevels = { ...options.stepLevels };
+  if (options.sampling) sampling = { ...options.sampling };
+  if (options.seed !== undefined || options.sampling) samplingRng = new SeededRNG(options.seed ?? 42);
+  if (options.sinks) sinks = [...options.sinks];
+}
+
+export function addLogSink(sink: LogSink): void {
+  sinks.push(sink);
+}
+
+export function removeLogSink(sink: LogSink): void {
+  sinks = sinks.filter(s => s !== sink);
+}
+
+/**
+ * Flush and close every sink (call before the process exits)
+ */
+export async function closeLogSinks(): Promise<void> {
+  await Promise.all(sinks.map(sink => sink.close?.()));
+}
+
+/**
+ * Back to defaults: info level, stdout only, no overrides or sampling
+ */
+export function resetLogger(): void {
+  threshold = 'info';
+  archetypeLevels = {};
+  stepLevels = {};
+  sampling = {};
+  samplingRng = new SeededRNG(42);
+  sinks = [new StdoutSink()];
+}
+
+/**
+ * Route all entries to a memory sink instead of stdout (for tests).
+ * Undo with resetLogger().
+ */
+export function captureLogs(capacity?: number): MemorySink {
+  const sink = new MemorySink(capacity);
+  sinks = [sink];
+  return sink;
+}
+
+// ============================================================================
+// LOGGING
+// ============================================================================
+
+function stepLevel(step: string): LogLevel {
+  return stepLevels[step] ?? DEFAULT_STEP_LEVELS[step] ?? 'info';
+}
+
+function shouldWrite(level: LogLevel, archetype: AgentArchetype, step: string): boolean {
+  const min = archetypeLevels[archetype] ?? threshold;
+  if (LEVEL_RANK[level] < LEVEL_RANK[min]) return false;
+
+  const rate = sampling[step];
+  return rate === undefined || rate >= 1 || samplingRng.next() < rate;
 }
 
 export function log(entry: Omit<LogEntry, 'ts'>): void {
+  const level = entry.level ?? stepLevel(entry.step);
+  if (!shouldWrite(level, entry.archetype, entry.step)) return;
+
+  const { level: _level, ...rest } = entry;
   const fullEntry: LogEntry = {
     ts: new Date().toISOString(),
-    ...entry,
+    level,
+    ...rest,
   };
-  console.log(JSON.stringify(fullEntry));
+
+  for (const sink of sinks) {
+    try {
+      sink.write(fullEntry);
+    } catch {
+      // A failing sink must not break the agents
+    }
+  }
 }
 
 export function logVerbose(entry: Omit<LogEntry, 'ts'>): void {
-  if (!verbose) return;
-  log(entry);
+  log({ ...entry, level: 'debug' });
 }
 
 export function logError(
@@ -72,7 +212,7 @@ export function logPerceive(
   glimpseCount: number,
   seedCount: number
 ): void {
-  logVerbose({
+  log({
     did,
     archetype,
     step: 'perceive',
@@ -86,7 +226,8 @@ export function logQuote(
   did: string,
   tick: number,
   cost: number,
-  allowed: boolean
+  allowed: boolean,
+  details?: { energyAfter?: number; reasons?: string[] }
 ): void {
   log({
     did,
@@ -95,6 +236,7 @@ export function logQuote(
     tick,
     cost,
     allowed,
+    ...(details ? { details } : {}),
   });
 }
 
@@ -155,7 +297,7 @@ export function logSilence(
   tick: number,
   energy: number
 ): void {
-  logVerbose({
+  log({
     did,
     archetype,
     step: 'silence',
@@ -170,7 +312,7 @@ export function logSkip(
   tick: number,
   reason: string
 ): void {
-  logVerbose({
+  log({
     did,
     archetype,
     step: 'skip',
@@ -0,0 +1,61 @@
+/**
+ * Probe Agents Kit - Metrics Server
+ *
+ * Serves a MetricsRegistry on GET /metrics for Prometheus to scrape.
+ */
+
+import { createServer, type Server } from 'node:http';
+import { metrics as defaultRegistry, type MetricsRegistry } from './metrics.js';
+
+export interface MetricsServerOptions {
+  /** Port to listen on (0 = random free port) */
+  port: number;
+  /** Interface to bind (default 127.0.0.1) */
+  host?: string;
+  /** Registry to serve (default: the process-wide registry) */
+  registry?: MetricsRegistry;
+}
+
+export interface MetricsServer {
+  /** Scrape URL, e.g. http://127.0.0.1:9464/metrics */
+  url: string;
+  server: Server;
+  close(): Promise<void>;
+}
+
+export async function startMetricsServer(options: MetricsServerOptions): Promise<MetricsServer> {
+  const host = options.host ?? '127.0.0.1';
+  const registry = options.registry ?? defaultRegistry;
+
+  const server = createServer((req, res) => {
+    const path = new URL(req.url ?? '/', 'http://metrics').pathname;
+
+    if (path !== '/metrics') {
+      res.writeHead(404, { 'Content-Type': 'text/plain' });
+      res.end('Not found\n');
+      return;
+    }
+    if (req.method !== 'GET' && req.method !== 'HEAD') {
+      res.writeHead(405, { 'Content-Type': 'text/plain', 'Allow': 'GET, HEAD' });
+      res.end('Method not allowed\n');
+      return;
+    }
+
+    res.writeHead(200, { 'Content-Type': 'text/plain; version=0.0.4; charset=utf-8' });
+    res.end(req.method === 'HEAD' ? undefined : registry.render());
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(options.port, host, () => resolve());
+  });
+
+  const address = server.address();
+  const port = typeof address === 'object' && address ? address.port : options.port;
+
+  return {
+    url: `http://${host}:${port}/metrics`,
+    server,
+    close: () => new Promise<void>((resolve) => server.close(() => resolve())),
+  };
+}
@@ -0,0 +1,97 @@
+/**
+ * Metrics Tests
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { createMetricsRegistry, probeMetrics } from './metrics.js';
+import { startMetricsServer } from './metrics-server.js';
+import { createHttpClient } from './http.js';
+
+describe('MetricsRegistry', () => {
+  it('renders counters and gauges in Prometheus text format', () => {
+    const registry = createMetricsRegistry();
+    const traces = registry.counter('traces_total', 'Traces created');
+    const energy = registry.gauge('energy', 'Mean energy');
+
+    traces.inc({ archetype: 'QS' });
+    traces.inc({ archetype: 'QS' }, 2);
+    traces.inc({ archetype: 'QS' }, -5);
+    energy.set({ archetype: 'CBC', zone: 'say "hi"' }, 12.5);
+
+    expect(registry.render()).toBe([
+      '# HELP traces_total Traces created',
+      '# TYPE traces_total counter',
+      'traces_total{archetype="QS"} 3',
+      '# HELP energy Mean energy',
+      '# TYPE energy gauge',
+      'energy{archetype="CBC",zone="say \\"hi\\""} 12.5',
+      '',
+    ].join('\n'));
+  });
+
+  it('renders cumulative histogram buckets', () => {
+    const registry = createMetricsRegistry();
+    const latency = registry.histogram('latency_seconds', 'Latency', [0.1, 1]);
+
+    latency.observe({ endpoint: '/a' }, 0.05);
+    latency.observe({ endpoint: '/a' }, 0.5);
+    latency.observe({ endpoint: '/a' }, 3);
+
+    expect(registry.render()).toContain([
+      'latency_seconds_bucket{endpoint="/a",le="0.1"} 1',
+      'latency_seconds_bucket{endpoint="/a",le="1"} 2',
+      'latency_seconds_bucket{endpoint="/a",le="+Inf"} 3',
+      'latency_seconds_sum{endpoint="/a"} 3.55',
+      'latency_seconds_count{endpoint="/a"} 3',
+    ].join('\n'));
+  });
+
+  it('returns the existing metric for a repeated name and rejects type clashes', () => {
+    const registry = createMetricsRegistry();
+    expect(registry.counter('a_total', 'A')).toBe(registry.counter('a_total', 'A'));
+    expect(() => registry.gauge('a_total', 'A')).toThrow('already registered as a counter');
+    expect(() => registry.counter('bad-name', 'B')).toThrow('Invalid metric name');
+  });
+
+  it('leaves out metrics without samples', () => {
+    const registry = createMetricsRegistry();
+    registry.counter('unused_total', 'Unused');
+    expect(registry.render()).toBe('');
+  });
+});
+
+describe('HTTP instrumentation', () => {
+  it('records latency by endpoint and status, and retries', async () => {
+    const fetchFn = vi.fn()
+      .mockResolvedValueOnce(new Response('{}', { status: 503 }))
+      .mockResolvedValueOnce(new Response('{"ok":true}', { status: 200 }));
+    const http = createHttpClient({ baseUrl: 'http://metrics-test', maxRetries: 1, baseDelayMs: 0, fetch: fetchFn });
+    const labels = { endpoint: '/v1/metrics-test', method: 'POST', status: '200' };
+    const before = probeMetrics.httpDuration.get(labels).count;
+
+    await http.post('/v1/metrics-test?x=1', {});
+
+    expect(probeMetrics.httpDuration.get(labels).count).toBe(before + 1);
+    expect(probeMetrics.httpRetries.get({ endpoint: '/v1/metrics-test', reason: '503' })).toBe(1);
+  });
+});
+
+describe('startMetricsServer', () => {
+  it('serves /metrics and 404s everything else', async () => {
+    const registry = createMetricsRegistry();
+    registry.counter('served_total', 'Served').inc();
+    const server = await startMetricsServer({ port: 0, registry });
+
+    try {
+      const response = await fetch(server.url);
+      expect(response.status).toBe(200);
+      expect(response.headers.get('content-type')).toContain('version=0.0.4');
+      expect(await response.text()).toContain('served_total 1');
+
+      const missing = await fetch(server.url.replace('/metrics', '/other'));
+      expect(missing.status).toBe(404);
+    } finally {
+      await server.close();
+    }
+  });
+});
@@ -0,0 +1,260 @@
+/**
+ * Probe Agents Kit - Metrics
+ *
+ * Dependency-free counters, gauges and histograms rendered in the
+ * Prometheus text exposition format (version 0.0.4).
+ *
+ * A process-wide registry (`metrics`) holds the kit's own metrics
+ * (`probeMetrics`); plugins can register theirs on the same registry.
+ */
+
+export type MetricLabels = Record<string, string>;
+
+export type MetricType = 'counter' | 'gauge' | 'histogram';
+
+/** Latency buckets in seconds */
+export const DEFAULT_BUCKETS: readonly number[] = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10];
+
+interface Metric {
+  readonly name: string;
+  readonly help: string;
+  readonly type: MetricType;
+  render(): string[];
+  reset(): void;
+}
+
+// ============================================================================
+// FORMATTING
+// ============================================================================
+
+function escapeLabel(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+}
+
+function labelKey(labels: MetricLabels): string {
+  return Object.keys(labels)
+    .sort()
+    .map(key => `${key}="${escapeLabel(labels[key]!)}"`)
+    .join(',');
+}
+
+function formatValue(value: number): string {
+  if (value === Infinity) return '+Inf';
+  if (value === -Infinity) return '-Inf';
+  return Number.isNaN(value) ? 'NaN' : String(value);
+}
+
+function sample(name: string, key: string, value: number): string {
+  return `${name}${key ? `{${key}}` : ''} ${formatValue(value)}`;
+}
+
+// ============================================================================
+// METRIC TYPES
+// ============================================================================
+
+export class Counter implements Metric {
+  readonly type = 'counter';
+  private values = new Map<string, number>();
+
+  constructor(readonly name: string, readonly help: string) {}
+
+  inc(labels: MetricLabels = {}, value: number = 1): void {
+    // Counters only go up; a negative amount (e.g. a refund) is not counted
+    if (value < 0) return;
+    const key = labelKey(labels);
+    this.values.set(key, (this.values.get(key) ?? 0) + value);
+  }
+
+  get(labels: MetricLabels = {}): number {
+    return this.values.get(labelKey(labels)) ?? 0;
+  }
+
+  render(): string[] {
+    return [...this.values].map(([key, value]) => sample(this.name, key, value));
+  }
+
+  reset(): void {
+    this.values.clear();
+  }
+}
+
+export class Gauge implements Metric {
+  readonly type = 'gauge';
+  private values = new Map<string, number>();
+
+  constructor(readonly name: string, readonly help: string) {}
+
+  set(labels: MetricLabels, value: number): void {
+    this.values.set(labelKey(labels), value);
+  }
+
+  inc(labels: MetricLabels = {}, value: number = 1): void {
+    const key = labelKey(labels);
+    this.values.set(key, (this.values.get(key) ?? 0) + value);
+  }
+
+  get(labels: MetricLabels = {}): number {
+    return this.values.get(labelKey(labels)) ?? 0;
+  }
+
+  render(): string[] {
+    return [...this.values].map(([key, value]) => sample(this.name, key, value));
+  }
+
+  reset(): void {
+    this.values.clear();
+  }
+}
+
+interface HistogramSeries {
+  /** Non-cumulative count per bucket; cumulated when rendered */
+  buckets: number[];
+  sum: number;
+  count: number;
+}
+
+export class Histogram implements Metric {
+  readonly type = 'histogram';
+  private series = new Map<string, HistogramSeries>();
+  readonly buckets: readonly number[];
+
+  constructor(readonly name: string, readonly help: string, buckets: readonly number[] = DEFAULT_BUCKETS) {
+    this.buckets = [...buckets].sort((a, b) => a - b);
+  }
+
+  observe(labels: MetricLabels, value: number): void {
+    const key = labelKey(labels);
+    let series = this.series.get(key);
+    if (!series) {
+      series = { buckets: this.buckets.map(() => 0), sum: 0, count: 0 };
+      this.series.set(key, series);
+    }
+
+    const index = this.buckets.findIndex(bound => value <= bound);
+    if (index >= 0) series.buckets[index]!++;
+    series.sum += value;
+    series.count++;
+  }
+
+  /**
+   * Time an async call in seconds. The labels may depend on its result.
+   */
+  async time<T>(labels: (result: T | undefined) => MetricLabels, fn: () => Promise<T>): Promise<T> {
+    const started = performance.now();
+    let result: T | undefined;
+    try {
+      result = await fn();
+      return result;
+    } finally {
+      this.observe(labels(result), (performance.now() - started) / 1000);
+    }
+  }
+
+  get(labels: MetricLabels = {}): { sum: number; count: number } {
+    const series = this.series.get(labelKey(labels));
+    return { sum: series?.sum ?? 0, count: series?.count ?? 0 };
+  }
+
+  render(): string[] {
+    const lines: string[] = [];
+    for (const [key, series] of this.series) {
+      const prefix = key ? `${key},` : '';
+      let cumulative = 0;
+      this.buckets.forEach((bound, i) => {
+        cumulative += series.buckets[i]!;
+        lines.push(sample(`${this.name}_bucket`, `${prefix}le="${formatValue(bound)}"`, cumulative));
+      });
+      lines.push(sample(`${this.name}_bucket`, `${prefix}le="+Inf"`, series.count));
+      lines.push(sample(`${this.name}_sum`, key, series.sum));
+      lines.push(sample(`${this.name}_count`, key, series.count));
+    }
+    return lines;
+  }
+
+  reset(): void {
+    this.series.clear();
+  }
+}
+
+// ============================================================================
+// REGISTRY
+// ============================================================================
+
+export class MetricsRegistry {
+  private metrics = new Map<string, Metric>();
+
+  counter(name: string, help: string): Counter {
+    return this.register(new Counter(name, help));
+  }
+
+  gauge(name: string, help: string): Gauge {
+    return this.register(new Gauge(name, help));
+  }
+
+  histogram(name: string, help: string, buckets?: readonly number[]): Histogram {
+    return this.register(new Histogram(name, help, buckets));
+  }
+
+  /**
+   * Prometheus text format. Metrics without samples are left out.
+   */
+  render(): string {
+    const lines: string[] = [];
+    for (const metric of this.metrics.values()) {
+      const samples = metric.render();
+      if (samples.length === 0) continue;
+      lines.push(`# HELP ${metric.name} ${metric.help.replace(/\\/g, '\\\\').replace(/\n/g, '\\n')}`);
+      lines.push(`# TYPE ${metric.name} ${metric.type}`);
+      lines.push(...samples);
+    }
+    return lines.length > 0 ? lines.join('\n') + '\n' : '';
+  }
+
+  /** Clear every sample (metrics stay registered) */
+  reset(): void {
+    for (const metric of this.metrics.values()) metric.reset();
+  }
+
+  private register<M extends Metric>(metric: M): M {
+    if (!/^[a-zA-Z_:][a-zA-Z0-9_:]*$/.test(metric.name)) {
+      throw new Error(`Invalid metric name: ${metric.name}`);
+    }
+    const existing = this.metrics.get(metric.name);
+    if (existing) {
+      if (existing.type !== metric.type) {
+        throw new Error(`Metric ${metric.name} is already registered as a ${existing.type}`);
+      }
+      return existing as M;
+    }
+    this.metrics.set(metric.name, metric);
+    return metric;
+  }
+}
+
+export function createMetricsRegistry(): MetricsRegistry {
+  return new MetricsRegistry();
+}
+
+// ============================================================================
+// KIT METRICS
+// ============================================================================
+
+/** Process-wide registry served on /metrics */
+export const metrics = new MetricsRegistry();
+
+export const probeMetrics = {
+  tracesCreated: metrics.counter('probe_traces_created_total', 'Traces created'),
+  derivations: metrics.counter('probe_derivations_total', 'Traces derived'),
+  jointAttempts: metrics.counter('probe_joint_attempts_total', 'Joint actions attempted'),
+  jointSuccesses: metrics.counter('probe_joint_successes_total', 'Joint actions that created a trace'),
+  costSpent: metrics.counter('probe_cost_spent_total', 'Energy cost paid'),
+  quotes: metrics.counter('probe_quotes_total', 'Quotes by outcome (allowed="true"|"false")'),
+  energy: metrics.gauge('probe_energy', 'Mean agent energy'),
+  activeAgents: metrics.gauge('probe_active_agents', 'Agents stepping this tick'),
+  httpDuration: metrics.histogram('probe_http_request_duration_seconds', 'HTTP request latency including retries'),
+  httpRetries: metrics.counter('probe_http_retries_total', 'HTTP retries'),
+  circuitState: metrics.gauge('probe_circuit_state', 'Circuit breaker state (0 closed, 1 half-open, 2 open)'),
+  llmDuration: metrics.histogram('probe_llm_call_duration_seconds', 'LLM call latency'),
+  llmParseFailures: metrics.counter('probe_llm_parse_failures_total', 'LLM responses that were not a valid decision'),
+  schemaMismatches: metrics.counter('probe_schema_mismatches_total', 'Responses that failed schema validation'),
+};
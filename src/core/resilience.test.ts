@@ -0,0 +1,234 @@
+/**
+ * Rate Limiter and Circuit Breaker Tests
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { TokenBucket, CircuitBreaker, createHttpGuard, parseRetryAfter } from './resilience.js';
+import { createHttpClient } from './http.js';
+import { captureLogs, resetLogger } from './logger.js';
+import { probeMetrics } from './metrics.js';
+
+function jsonResponse(status: number, body: unknown, headers: Record<string, string> = {}): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json', ...headers },
+  });
+}
+
+beforeEach(() => {
+  vi.useFakeTimers();
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  resetLogger();
+});
+
+describe('TokenBucket', () => {
+  it('lets a burst through, then spaces requests by the rate', async () => {
+    const bucket = new TokenBucket(10, 2);
+    const done: number[] = [];
+    const started = Date.now();
+    for (let i = 0; i < 4; i++) {
+      void bucket.acquire().then(() => done.push(Date.now() - started));
+    }
+
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(done).toEqual([0, 0, 100, 200]);
+  });
+
+  it('holds every caller during a pause, even without a rate', async () => {
+    const bucket = new TokenBucket(0);
+    bucket.pause(500);
+    let released = false;
+    void bucket.acquire().then(() => { released = true; });
+
+    await vi.advanceTimersByTimeAsync(499);
+    expect(released).toBe(false);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(released).toBe(true);
+  });
+});
+
+describe('CircuitBreaker', () => {
+  it('opens after consecutive failures and closes after a successful trial', async () => {
+    const states: string[] = [];
+    const breaker = new CircuitBreaker('core', { failureThreshold: 2, cooldownMs: 1000 }, (state) => states.push(state));
+
+    breaker.failure();
+    breaker.success();
+    breaker.failure();
+    expect(breaker.state).toBe('closed');
+    breaker.failure();
+    expect(breaker.state).toBe('open');
+
+    // Two callers wait; only one becomes the half-open trial
+    let first = false;
+    let second = false;
+    void breaker.acquire().then(() => { first = true; });
+    void breaker.acquire().then(() => { second = true; });
+    await vi.advanceTimersByTimeAsync(999);
+    expect(first || second).toBe(false);
+
+    await vi.advanceTimersByTimeAsync(1);
+    expect(breaker.state).toBe('half-open');
+    expect([first, second].filter(Boolean)).toHaveLength(1);
+
+    breaker.success();
+    await vi.advanceTimersByTimeAsync(0);
+    expect(first && second).toBe(true);
+    expect(states).toEqual(['open', 'half-open', 'closed']);
+  });
+
+  it('reopens when the trial fails', async () => {
+    const breaker = new CircuitBreaker('core', { failureThreshold: 1, cooldownMs: 100 });
+    breaker.failure();
+    const trial = breaker.acquire();
+    await vi.advanceTimersByTimeAsync(100);
+    await trial;
+
+    breaker.failure();
+    expect(breaker.state).toBe('open');
+  });
+});
+
+describe('parseRetryAfter', () => {
+  it('reads seconds and HTTP dates, capped', () => {
+    expect(parseRetryAfter('2')).toBe(2000);
+    vi.setSystemTime(new Date('2026-01-01T00:00:00Z'));
+    expect(parseRetryAfter('Thu, 01 Jan 2026 00:00:05 GMT')).toBe(5000);
+    expect(parseRetryAfter('3600')).toBe(60_000);
+    expect(parseRetryAfter('soon')).toBeNull();
+    expect(parseRetryAfter(null)).toBeNull();
+  });
+});
+
+describe('HttpClient with a guard', () => {
+  it('honors Retry-After for every client of the base URL', async () => {
+    const calls: Array<[string, number]> = [];
+    const fetchFn = vi.fn(async (input: string | URL | Request) => {
+      const url = String(input);
+      calls.push([url, Date.now()]);
+      return url.endsWith('/a') && calls.length === 1
+        ? jsonResponse(429, { error: 'slow down' }, { 'Retry-After': '2' })
+        : jsonResponse(200, { ok: true });
+    }) as unknown as typeof fetch;
+
+    const guard = createHttpGuard('http://core');
+    const first = createHttpClient({ baseUrl: 'http://core', maxRetries: 1, baseDelayMs: 10, fetch: fetchFn, guard });
+    const second = createHttpClient({ baseUrl: 'http://core', maxRetries: 0, fetch: fetchFn, guard });
+
+    const started = Date.now();
+    const retried = first.get('/a');
+    await vi.advanceTimersByTimeAsync(0);
+    const other = second.get('/b');
+
+    await vi.advanceTimersByTimeAsync(2000);
+    expect((await retried).ok).toBe(true);
+    expect((await other).ok).toBe(true);
+    expect(calls.map(([url, at]) => [url.replace('http://core', ''), at - started])).toEqual([
+      ['/a', 0],
+      ['/b', 2000],
+      ['/a', 2000],
+    ]);
+  });
+
+  it('pauses requests while the circuit is open and logs the transitions', async () => {
+    const logs = captureLogs();
+    let healthy = false;
+    const fetchFn = vi.fn(async () => healthy ? jsonResponse(200, { ok: true }) : jsonResponse(503, { error: 'down' })) as unknown as typeof fetch;
+
+    const guard = createHttpGuard('http://core', { circuitFailures: 2, circuitCooldownMs: 5000 });
+    const http = createHttpClient({ baseUrl: 'http://core', maxRetries: 0, fetch: fetchFn, guard });
+
+    await http.get('/health');
+    await http.get('/health');
+    expect(guard.circuits()).toEqual({ 'http://core': 'open' });
+    expect(probeMetrics.circuitState.get({ circuit: 'http://core' })).toBe(2);
+
+    healthy = true;
+    let result: { ok: boolean } | null = null;
+    void http.get('/health').then((r) => { result = r; });
+    await vi.advanceTimersByTimeAsync(4999);
+    expect(result).toBeNull();
+    expect(fetchFn).toHaveBeenCalledTimes(2);
+
+    await vi.advanceTimersByTimeAsync(1);
+    expect(result).toMatchObject({ ok: true });
+    expect(guard.circuits()).toEqual({ 'http://core': 'closed' });
+    // circuit_half_open is a debug entry
+    expect(logs.entries().map(e => e.step)).toEqual(['circuit_open', 'circuit_close']);
+    expect(logs.entries('circuit_open')[0]!.details).toEqual({ circuit: 'http://core', failures: 2, cooldownMs: 5000 });
+  });
+
+  it('cancels a request waiting on an open circuit', async () => {
+    captureLogs();
+    let healthy = false;
+    const fetchFn = vi.fn(async () => healthy ? jsonResponse(200, { ok: true }) : jsonResponse(503, { error: 'down' })) as unknown as typeof fetch;
+
+    const guard = createHttpGuard('http://core', { circuitFailures: 1, circuitCooldownMs: 5000 });
+    const http = createHttpClient({ baseUrl: 'http://core', maxRetries: 0, fetch: fetchFn, guard });
+    await http.get('/health');
+    expect(guard.circuits()).toEqual({ 'http://core': 'open' });
+
+    const controller = new AbortController();
+    let result: { ok: boolean } | null = null;
+    void http.get('/health', { signal: controller.signal }).then((r) => { result = r; });
+    await vi.advanceTimersByTimeAsync(1000);
+    controller.abort();
+    await vi.advanceTimersByTimeAsync(0);
+    expect(result).toMatchObject({ ok: false, failure: { kind: 'cancelled' } });
+    expect(fetchFn).toHaveBeenCalledTimes(1);
+    expect(guard.circuits()).toEqual({ 'http://core': 'open' });
+  });
+
+  it('releases the trial slot when a request is cancelled waiting for a token', async () => {
+    captureLogs();
+    let healthy = false;
+    const fetchFn = vi.fn(async () => healthy ? jsonResponse(200, { ok: true }) : jsonResponse(503, { error: 'down' })) as unknown as typeof fetch;
+
+    const guard = createHttpGuard('http://core', { circuitFailures: 1, circuitCooldownMs: 1000, endpointRateLimits: { '/slow': 0.5 } });
+    const http = createHttpClient({ baseUrl: 'http://core', maxRetries: 0, fetch: fetchFn, guard });
+    await http.get('/slow');
+    healthy = true;
+
+    // Half-open at 1000ms, but the next token comes at 2000ms
+    await vi.advanceTimersByTimeAsync(1000);
+    const controller = new AbortController();
+    const cancelled = http.get('/slow', { signal: controller.signal });
+    await vi.advanceTimersByTimeAsync(0);
+    expect(guard.circuits()).toEqual({ 'http://core': 'half-open' });
+    controller.abort();
+    expect(await cancelled).toMatchObject({ ok: false, failure: { kind: 'cancelled' } });
+
+    const next = http.get('/slow');
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(await next).toMatchObject({ ok: true });
+    expect(guard.circuits()).toEqual({ 'http://core': 'closed' });
+    expect(fetchFn).toHaveBeenCalledTimes(2);
+  });
+
+  it('gives configured endpoints their own limits and circuit', async () => {
+    const fetchFn = vi.fn(async (input: string | URL | Request) =>
+      String(input).endsWith('/flaky') ? jsonResponse(500, {}) : jsonResponse(200, {})
+    ) as unknown as typeof fetch;
+
+    const guard = createHttpGuard('http://core', {
+      circuitFailures: 2,
+      endpointCircuitFailures: { '/flaky': 1 },
+      endpointRateLimits: { '/slow': 1 },
+    });
+    captureLogs();
+    const http = createHttpClient({ baseUrl: 'http://core', maxRetries: 0, fetch: fetchFn, guard });
+
+    await http.get('/flaky');
+    expect(guard.circuits()).toEqual({ 'http://core': 'closed', 'http://core/flaky': 'open' });
+    expect((await http.get('/other')).ok).toBe(true);
+
+    const started = Date.now();
+    const slow = [http.get('/slow'), http.get('/slow'), http.get('/slow')];
+    await vi.advanceTimersByTimeAsync(2000);
+    await Promise.all(slow);
+    expect(Date.now() - started).toBe(2000);
+  });
+});
@@ -0,0 +1,340 @@
+/**
+ * Probe Agents Kit - Rate Limiting and Circuit Breaking
+ *
+ * Shared by every agent talking to one base URL:
+ * - TokenBucket: requests per second with a burst, paused by Retry-After
+ * - CircuitBreaker: closed -> open after consecutive failures (5xx or
+ *   network), half-open after a cooldown (one trial request), closed again
+ *   when the trial succeeds. While open, requests wait instead of failing,
+ *   so agents pause until the habitat recovers.
+ * - HttpGuard: both, plus per-endpoint limits and breakers
+ *
+ * Every wait ends early when one of the caller's signals aborts.
+ */
+
+import { log } from './logger.js';
+import { probeMetrics } from './metrics.js';
+
+type Signals = Array<AbortSignal | undefined>;
+
+function aborted(signals: Signals): boolean {
+  return signals.some(signal => signal?.aborted);
+}
+
+/**
+ * Resolve when `wait` settles or any signal aborts, whichever comes first
+ */
+function untilAborted(wait: Promise<unknown>, signals: Signals): Promise<void> {
+  if (aborted(signals)) return Promise.resolve();
+  return new Promise((resolve) => {
+    const done = () => {
+      for (const signal of signals) signal?.removeEventListener('abort', done);
+      resolve();
+    };
+    for (const signal of signals) signal?.addEventListener('abort', done, { once: true });
+    wait.then(done, done);
+  });
+}
+
+async function sleep(ms: number, signals: Signals): Promise<void> {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  await untilAborted(new Promise((resolve) => { timer = setTimeout(resolve, ms); }), signals);
+  clearTimeout(timer);
+}
+
+// ============================================================================
+// TOKEN BUCKET
+// ============================================================================
+
+export class TokenBucket {
+  private tokens: number;
+  private updatedAt = Date.now();
+  private pausedUntil = 0;
+  private queue: Promise<void> = Promise.resolve();
+
+  /**
+   * @param ratePerSecond Refill rate (0 = unlimited, only pauses apply)
+   * @param burst Bucket size (default: one second worth of requests)
+   */
+  constructor(readonly ratePerSecond: number, readonly burst: number = Math.max(1, ratePerSecond)) {
+    this.tokens = burst;
+  }
+
+  /**
+   * Wait for a token. Callers are served in arrival order. Resolves false,
+   * without taking a token, when a signal aborts first.
+   */
+  async acquire(signals: Signals = []): Promise<boolean> {
+    const turn = this.queue.then(() => this.take(signals));
+    this.queue = turn.then(() => {}, () => {});
+    await untilAborted(turn, signals);
+    return !aborted(signals);
+  }
+
+  /**
+   * Hold every request for `ms` (e.g. from a Retry-After header)
+   */
+  pause(ms: number): void {
+    this.pausedUntil = Math.max(this.pausedUntil, Date.now() + ms);
+  }
+
+  /** Time left on the current pause */
+  pausedFor(): number {
+    return Math.max(0, this.pausedUntil - Date.now());
+  }
+
+  private async take(signals: Signals): Promise<void> {
+    for (;;) {
+      if (aborted(signals)) return;
+      const paused = this.pausedFor();
+      if (paused > 0) {
+        await sleep(paused, signals);
+        continue;
+      }
+      if (this.ratePerSecond <= 0) return;
+
+      const now = Date.now();
+      this.tokens = Math.min(this.burst, this.tokens + (now - this.updatedAt) / 1000 * this.ratePerSecond);
+      this.updatedAt = now;
+      if (this.tokens >= 1) {
+        this.tokens -= 1;
+        return;
+      }
+      await sleep(Math.ceil((1 - this.tokens) / this.ratePerSecond * 1000), signals);
+    }
+  }
+}
+
+// ============================================================================
+// CIRCUIT BREAKER
+// ============================================================================
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export interface CircuitBreakerOptions {
+  /** Consecutive failures that open the circuit */
+  failureThreshold: number;
+  /** Time the circuit stays open before a trial request */
+  cooldownMs: number;
+}
+
+export class CircuitBreaker {
+  private currentState: CircuitState = 'closed';
+  private failures = 0;
+  private openedAt = 0;
+  private trialInFlight = false;
+  private waiters: Array<() => void> = [];
+
+  constructor(
+    readonly name: string,
+    readonly options: CircuitBreakerOptions,
+    private onChange?: (state: CircuitState, breaker: CircuitBreaker) => void
+  ) {}
+
+  get state(): CircuitState {
+    return this.currentState;
+  }
+
+  /** Consecutive failures so far */
+  get failureCount(): number {
+    return this.failures;
+  }
+
+  /**
+   * Wait until a request may go out. Every acquire that resolves true must
+   * be followed by success(), failure() or release(); false means a signal
+   * aborted the wait and nothing is held.
+   */
+  async acquire(signals: Signals = []): Promise<boolean> {
+    for (;;) {
+      if (aborted(signals)) return false;
+      if (this.currentState === 'closed') return true;
+
+      if (this.currentState === 'open') {
+        const wait = this.openedAt + this.options.cooldownMs - Date.now();
+        if (wait > 0) {
+          await sleep(wait, signals);
+          continue;
+        }
+        this.transition('half-open');
+      }
+
+      if (!this.trialInFlight) {
+        this.trialInFlight = true;
+        return true;
+      }
+      await untilAborted(new Promise<void>((resolve) => this.waiters.push(resolve)), signals);
+    }
+  }
+
+  /** The habitat answered (anything but 5xx) */
+  success(): void {
+    if (this.currentState === 'half-open') {
+      this.transition('closed');
+    } else if (this.currentState === 'closed') {
+      this.failures = 0;
+    }
+    // A late answer to a request sent before the circuit opened changes nothing
+  }
+
+  /** The request was abandoned (cancelled): let another trial through */
+  release(): void {
+    if (this.currentState === 'half-open' && this.trialInFlight) {
+      this.trialInFlight = false;
+      const waiters = this.waiters;
+      this.waiters = [];
+      for (const wake of waiters) wake();
+    }
+  }
+
+  /** 5xx, network failure or timeout */
+  failure(): void {
+    if (this.currentState === 'half-open') {
+      this.open();
+    } else if (this.currentState === 'closed' && ++this.failures >= this.options.failureThreshold) {
+      this.open();
+    }
+  }
+
+  private open(): void {
+    this.openedAt = Date.now();
+    this.transition('open');
+  }
+
+  private transition(state: CircuitState): void {
+    this.currentState = state;
+    this.trialInFlight = false;
+    const waiters = this.waiters;
+    this.waiters = [];
+    for (const wake of waiters) wake();
+    this.onChange?.(state, this);
+    if (state === 'closed') this.failures = 0;
+  }
+}
+
+// ============================================================================
+// HTTP GUARD
+// ============================================================================
+
+export interface HttpGuardOptions {
+  /** Requests per second for the whole base URL (0 = unlimited) */
+  rateLimit?: number;
+  /** Burst for the base URL bucket (default: rateLimit) */
+  burst?: number;
+  /** Extra requests-per-second limits by endpoint path, e.g. { '/v1/traces': 2 } */
+  endpointRateLimits?: Record<string, number>;
+  /** Consecutive failures that open the shared circuit (0 = no breaker) */
+  circuitFailures?: number;
+  /** Open circuit cooldown (default 10s) */
+  circuitCooldownMs?: number;
+  /** Endpoints with their own circuit instead of the shared one (0 = none) */
+  endpointCircuitFailures?: Record<string, number>;
+}
+
+/** HttpGuard.acquire outcome: the breaker to report to, or cancelled while waiting */
+export type GuardPass = { cancelled: false; breaker: CircuitBreaker | null } | { cancelled: true };
+
+const DEFAULT_COOLDOWN_MS = 10_000;
+
+const STATE_VALUES: Record<CircuitState, number> = { closed: 0, 'half-open': 1, open: 2 };
+
+const STATE_STEPS: Record<CircuitState, string> = {
+  closed: 'circuit_close',
+  'half-open': 'circuit_half_open',
+  open: 'circuit_open',
+};
+
+function logCircuit(state: CircuitState, breaker: CircuitBreaker): void {
+  probeMetrics.circuitState.set({ circuit: breaker.name }, STATE_VALUES[state]);
+  log({
+    did: null,
+    archetype: 'QS',
+    step: STATE_STEPS[state],
+    tick: 0,
+    details: {
+      circuit: breaker.name,
+      ...(state === 'open' ? { failures: breaker.failureCount, cooldownMs: breaker.options.cooldownMs } : {}),
+    },
+  });
+}
+
+/**
+ * Rate limits and circuit breakers for one base URL. Share one guard
+ * between every client of that URL.
+ */
+export class HttpGuard {
+  readonly limiter: TokenBucket;
+  private endpointLimiters = new Map<string, TokenBucket>();
+  private sharedBreaker: CircuitBreaker | null;
+  private endpointBreakers = new Map<string, CircuitBreaker | null>();
+
+  constructor(readonly name: string, options: HttpGuardOptions = {}) {
+    this.limiter = new TokenBucket(options.rateLimit ?? 0, options.burst || undefined);
+
+    for (const [endpoint, rate] of Object.entries(options.endpointRateLimits ?? {})) {
+      if (rate > 0) this.endpointLimiters.set(endpoint, new TokenBucket(rate));
+    }
+
+    const cooldownMs = options.circuitCooldownMs ?? DEFAULT_COOLDOWN_MS;
+    const breaker = (circuit: string, failureThreshold: number) => failureThreshold > 0
+      ? new CircuitBreaker(circuit, { failureThreshold, cooldownMs }, logCircuit)
+      : null;
+
+    this.sharedBreaker = breaker(name, options.circuitFailures ?? 0);
+    for (const [endpoint, failures] of Object.entries(options.endpointCircuitFailures ?? {})) {
+      this.endpointBreakers.set(endpoint, breaker(`${name}${endpoint}`, failures));
+    }
+  }
+
+  /**
+   * Wait until a request to `endpoint` may go out. Returns the breaker to
+   * report the outcome to, if any. When a signal aborts the wait, a trial
+   * slot already taken is released for another request.
+   */
+  async acquire(endpoint: string, signals: Signals = []): Promise<GuardPass> {
+    const breaker = this.breakerFor(endpoint);
+    if (breaker && !await breaker.acquire(signals)) return { cancelled: true };
+
+    const limited = await this.limiter.acquire(signals)
+      && (await this.endpointLimiters.get(endpoint)?.acquire(signals) ?? true);
+    if (!limited) {
+      breaker?.release();
+      return { cancelled: true };
+    }
+    return { cancelled: false, breaker };
+  }
+
+  /**
+   * Hold every request to this base URL (Retry-After)
+   */
+  pause(ms: number): void {
+    this.limiter.pause(ms);
+  }
+
+  breakerFor(endpoint: string): CircuitBreaker | null {
+    return this.endpointBreakers.has(endpoint) ? this.endpointBreakers.get(endpoint)! : this.sharedBreaker;
+  }
+
+  /** State of every circuit by name */
+  circuits(): Record<string, CircuitState> {
+    const states: Record<string, CircuitState> = {};
+    for (const breaker of [this.sharedBreaker, ...this.endpointBreakers.values()]) {
+      if (breaker) states[breaker.name] = breaker.state;
+    }
+    return states;
+  }
+}
+
+export function createHttpGuard(name: string, options?: HttpGuardOptions): HttpGuard {
+  return new HttpGuard(name, options);
+}
+
+/**
+ * Delay requested by a Retry-After header (seconds or HTTP date), capped
+ */
+export function parseRetryAfter(value: string | null, maxMs: number = 60_000): number | null {
+  if (!value) return null;
+  const seconds = Number(value.trim());
+  const ms = Number.isFinite(seconds) ? seconds * 1000 : Date.parse(value) - Date.now();
+  return Number.isNaN(ms) ? null : Math.min(maxMs, Math.max(0, ms));
+}
@@ -22,6 +22,20 @@ export class SeededRNG {
     return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
   }
 
+  /**
+   * Internal state, for persisting the sequence across restarts
+   */
+  getState(): number {
+    return this.state;
+  }
+
+  /**
+   * Continue the sequence from a state returned by getState()
+   */
+  setState(state: number): void {
+    this.state = state;
+  }
+
   /**
    * Generate random integer in [min, max] (inclusive)
    */
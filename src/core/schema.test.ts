@@ -0,0 +1,159 @@
+/**
+ * Response Schema Tests
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import {
+  validateRegisterResponse,
+  validatePerceiveResponse,
+  validateQuoteResponse,
+  validateJointTraceResponse,
+  recordSchemaMismatch,
+  getSchemaMismatchCounts,
+  resetSchemaMismatchCounts,
+  setValidationMode,
+} from './schema.js';
+import { HttpClient } from './http.js';
+import { captureLogs, resetLogger } from './logger.js';
+import type { MemorySink } from './log-sinks.js';
+import { HabitatClient } from './habitat-client.js';
+import { SimulatedHabitat } from '../simulator/index.js';
+import type { TraceDraft } from './types.js';
+
+const glimpse = {
+  traceId: 'trace-1',
+  zone: 'FLUX',
+  tick: 10,
+  physics: { depth: 1, permanence: 1, opacity: 0 },
+  skeleton: { shape: ['point'], topology: { depth: 1, nodes: 1 } },
+  core: { tokens: ['signal'], sealed: false },
+  relations: { derivesFrom: [], outDegree: 0 },
+  costEstimates: { mutatePartial: 1, mutateDeep: 2 },
+};
+
+const perceive = {
+  tick: 10,
+  tickWindow: { from: 0, to: 10 },
+  glimpses: [glimpse],
+  nextSeeds: [{ type: 'zone', value: 'FLUX' }],
+};
+
+describe('validators', () => {
+  it('accepts valid payloads', () => {
+    expect(validatePerceiveResponse(perceive)).toEqual([]);
+    expect(validateQuoteResponse({ cost: 1, allowed: true, tick: 1, energyAfter: 4 })).toEqual([]);
+    expect(validateJointTraceResponse({ status: 'pending', tick: 1, expiresAt: 5 })).toEqual([]);
+  });
+
+  it('accepts both register energy shapes', () => {
+    expect(validateRegisterResponse({ did: 'd', energy: 10, tick: 1 })).toEqual([]);
+    expect(validateRegisterResponse({ did: 'd', energy: { current: 10, max: 25 }, tick: 1 })).toEqual([]);
+  });
+
+  it('names the failing path', () => {
+    const drifted = {
+      ...perceive,
+      glimpses: [{ ...glimpse, physics: { ...glimpse.physics, depth: '1' } }],
+    };
+
+    expect(validatePerceiveResponse(drifted)).toEqual([
+      { path: 'glimpses[0].physics.depth', message: 'Required finite number' },
+    ]);
+  });
+
+  it('rejects renamed fields and NaN', () => {
+    const issues = validateRegisterResponse({ did: 'd', energyLevel: 10, tick: NaN });
+
+    expect(issues.map((i) => i.path)).toEqual(['tick', 'energy']);
+  });
+
+  it('checks enums and non-objects', () => {
+    expect(validateJointTraceResponse({ status: 'done', tick: 1 })[0].path).toBe('status');
+    expect(validateQuoteResponse('nope')).toEqual([{ path: '', message: 'Required object' }]);
+  });
+});
+
+describe('mismatch counters', () => {
+  beforeEach(() => resetSchemaMismatchCounts());
+
+  it('counts responses per endpoint and paths', () => {
+    recordSchemaMismatch('perceive', [{ path: 'tick', message: 'x' }, { path: 'glimpses', message: 'y' }]);
+    recordSchemaMismatch('perceive', [{ path: 'tick', message: 'x' }]);
+
+    expect(getSchemaMismatchCounts()).toEqual({
+      total: 2,
+      byEndpoint: { perceive: 2 },
+      byPath: { 'perceive:tick': 2, 'perceive:glimpses': 1 },
+    });
+  });
+});
+
+describe('HabitatClient validation', () => {
+  function clientFor(body: unknown): HabitatClient {
+    const fetchFn = (async () => new Response(JSON.stringify(body), { status: 200 })) as typeof fetch;
+    const http = new HttpClient({ baseUrl: 'http://habitat', maxRetries: 0, fetch: fetchFn });
+    return new HabitatClient({ core: http, perception: http, archetype: 'CBC' });
+  }
+
+  const drifted = { cost: 1, allowed: true, tick: 3, energy_after: 4 };
+  const draft = {} as TraceDraft;
+  let logs: MemorySink;
+
+  beforeEach(() => {
+    resetSchemaMismatchCounts();
+    logs = captureLogs();
+  });
+
+  afterEach(() => {
+    setValidationMode('lenient');
+    resetLogger();
+  });
+
+  it('logs and passes data through in lenient mode', async () => {
+    const result = await clientFor(drifted).quote('did:1', 'CREATE_TRACE', draft);
+
+    expect(result.ok).toBe(true);
+    expect(getSchemaMismatchCounts().byEndpoint).toEqual({ quote: 1 });
+    expect(logs.entries()[0]).toMatchObject({
+      did: 'did:1',
+      archetype: 'CBC',
+      step: 'schema_mismatch',
+      tick: 3,
+      details: { endpoint: 'quote', mode: 'lenient', path: 'energyAfter' },
+    });
+  });
+
+  it('rejects in strict mode', async () => {
+    setValidationMode('strict');
+
+    const result = await clientFor(drifted).quote('did:1', 'CREATE_TRACE', draft);
+
+    expect(result.ok).toBe(false);
+    if (!result.ok) {
+      expect(result.error.code).toBe('INVALID_RESPONSE');
+      expect(result.error.message).toContain('energyAfter');
+    }
+  });
+
+  it('skips validation when off', async () => {
+    setValidationMode('off');
+
+    const result = await clientFor(drifted).quote('did:1', 'CREATE_TRACE', draft);
+
+    expect(result.ok).toBe(true);
+    expect(getSchemaMismatchCounts().total).toBe(0);
+    expect(logs.entries()).toHaveLength(0);
+  });
+});
+
+describe('simulator conformance', () => {
+  it('serves payloads that pass the validators', () => {
+    const habitat = new SimulatedHabitat();
+    const registered = habitat.handle('POST', '/v1/agents/register', { continuitySeed: 'schema' });
+    expect(validateRegisterResponse(registered.body)).toEqual([]);
+
+    const did = (registered.body as { did: string }).did;
+    const perceived = habitat.handle('POST', '/v1/perception/perceive', { did });
+    expect(validatePerceiveResponse(perceived.body)).toEqual([]);
+  });
+});
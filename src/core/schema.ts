@@ -0,0 +1,336 @@
+/**
+ * Probe Agents Kit - Response Schemas
+ *
+ * Runtime validators for habitat API payloads:
+ * - One validator per response type, reporting the failing path
+ * - Mismatch counters so API drift shows up in runner summaries
+ * - Global validation mode (strict / lenient / off), like setVerbose()
+ */
+
+import { probeMetrics } from './metrics.js';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * How response mismatches are handled:
+ * - strict: reject the response (INVALID_RESPONSE)
+ * - lenient: log schema_mismatch and pass the data through
+ * - off: skip validation
+ */
+export type ValidationMode = 'strict' | 'lenient' | 'off';
+
+export const VALIDATION_MODES: readonly ValidationMode[] = ['strict', 'lenient', 'off'];
+
+/** One mismatch between a payload and its schema */
+export interface SchemaIssue {
+  path: string;
+  message: string;
+}
+
+/** Validator: returns every issue found (empty when valid) */
+export type SchemaValidator = (value: unknown, path?: string) => SchemaIssue[];
+
+export interface SchemaMismatchCounts {
+  total: number;
+  /** Mismatched responses per endpoint (e.g. "register") */
+  byEndpoint: Record<string, number>;
+  /** Mismatches per failing path (e.g. "perceive:glimpses[0].physics.depth") */
+  byPath: Record<string, number>;
+}
+
+// ============================================================================
+// MODE AND COUNTERS
+// ============================================================================
+
+let validationMode: ValidationMode = 'lenient';
+
+let counts: SchemaMismatchCounts = { total: 0, byEndpoint: {}, byPath: {} };
+
+export function setValidationMode(mode: ValidationMode): void {
+  validationMode = mode;
+}
+
+export function getValidationMode(): ValidationMode {
+  return validationMode;
+}
+
+export function isValidationMode(value: string): value is ValidationMode {
+  return (VALIDATION_MODES as readonly string[]).includes(value);
+}
+
+/**
+ * Count one mismatched response and each failing path
+ */
+export function recordSchemaMismatch(endpoint: string, issues: SchemaIssue[]): void {
+  counts.total++;
+  counts.byEndpoint[endpoint] = (counts.byEndpoint[endpoint] ?? 0) + 1;
+  probeMetrics.schemaMismatches.inc({ endpoint });
+  for (const issue of issues) {
+    const key = `${endpoint}:${issue.path}`;
+    counts.byPath[key] = (counts.byPath[key] ?? 0) + 1;
+  }
+}
+
+export function getSchemaMismatchCounts(): SchemaMismatchCounts {
+  return {
+    total: counts.total,
+    byEndpoint: { ...counts.byEndpoint },
+    byPath: { ...counts.byPath },
+  };
+}
+
+export function resetSchemaMismatchCounts(): void {
+  counts = { total: 0, byEndpoint: {}, byPath: {} };
+}
+
+// ============================================================================
+// PRIMITIVE CHECKS
+// ============================================================================
+
+type Fields = Record<string, unknown>;
+
+function join(path: string, key: string): string {
+  return path ? `${path}.${key}` : key;
+}
+
+/**
+ * Check that value is an object. Pushes an issue and returns null otherwise.
+ */
+function expectObject(value: unknown, path: string, issues: SchemaIssue[]): Fields | null {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    issues.push({ path, message: 'Required object' });
+    return null;
+  }
+  return value as Fields;
+}
+
+function expectNumber(obj: Fields, key: string, path: string, issues: SchemaIssue[], optional = false): void {
+  const value = obj[key];
+  if (value === undefined && optional) return;
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    issues.push({ path: join(path, key), message: 'Required finite number' });
+  }
+}
+
+function expectString(obj: Fields, key: string, path: string, issues: SchemaIssue[], optional = false): void {
+  const value = obj[key];
+  if (value === undefined && optional) return;
+  if (typeof value !== 'string') {
+    issues.push({ path: join(path, key), message: 'Required string' });
+  }
+}
+
+function expectBoolean(obj: Fields, key: string, path: string, issues: SchemaIssue[]): void {
+  if (typeof obj[key] !== 'boolean') {
+    issues.push({ path: join(path, key), message: 'Required boolean' });
+  }
+}
+
+function expectStringArray(obj: Fields, key: string, path: string, issues: SchemaIssue[], optional = false): void {
+  const value = obj[key];
+  if (value === undefined && optional) return;
+  if (!Array.isArray(value) || value.some((v) => typeof v !== 'string')) {
+    issues.push({ path: join(path, key), message: 'Required array of strings' });
+  }
+}
+
+function expectOneOf(obj: Fields, key: string, allowed: readonly string[], path: string, issues: SchemaIssue[]): void {
+  if (!allowed.includes(obj[key] as string)) {
+    issues.push({ path: join(path, key), message: `Must be one of: ${allowed.join(', ')}` });
+  }
+}
+
+/**
+ * Validate each element of an array field with an element validator
+ */
+function expectArrayOf(
+  obj: Fields,
+  key: string,
+  validator: SchemaValidator,
+  path: string,
+  issues: SchemaIssue[],
+  optional = false
+): void {
+  const value = obj[key];
+  if (value === undefined && optional) return;
+  const fieldPath = join(path, key);
+  if (!Array.isArray(value)) {
+    issues.push({ path: fieldPath, message: 'Required array' });
+    return;
+  }
+  value.forEach((item, i) => issues.push(...validator(item, `${fieldPath}[${i}]`)));
+}
+
+// ============================================================================
+// RESPONSE VALIDATORS
+// ============================================================================
+
+/**
+ * Register response. Energy may be a number or { current, max }.
+ */
+export const validateRegisterResponse: SchemaValidator = (value, path = '') => {
+  const issues: SchemaIssue[] = [];
+  const obj = expectObject(value, path, issues);
+  if (!obj) return issues;
+
+  expectString(obj, 'did', path, issues);
+  expectNumber(obj, 'tick', path, issues);
+
+  if (obj.energy !== null && typeof obj.energy === 'object') {
+    expectNumber(obj.energy as Fields, 'current', join(path, 'energy'), issues);
+  } else {
+    expectNumber(obj, 'energy', path, issues);
+  }
+  return issues;
+};
+
+export const validateJointAffordance: SchemaValidator = (value, path = '') => {
+  const issues: SchemaIssue[] = [];
+  const obj = expectObject(value, path, issues);
+  if (!obj) return issues;
+
+  expectString(obj, 'affordanceId', path, issues);
+  expectString(obj, 'actionType', path, issues);
+  expectNumber(obj, 'expiresAt', path, issues);
+  expectNumber(obj, 'estimatedCost', path, issues);
+  expectNumber(obj, 'requiredAgents', path, issues);
+  return issues;
+};
+
+export const validateTraceGlimpse: SchemaValidator = (value, path = '') => {
+  const issues: SchemaIssue[] = [];
+  const obj = expectObject(value, path, issues);
+  if (!obj) return issues;
+
+  expectString(obj, 'traceId', path, issues);
+  expectString(obj, 'zone', path, issues);
+  expectNumber(obj, 'tick', path, issues);
+
+  const physics = expectObject(obj.physics, join(path, 'physics'), issues);
+  if (physics) {
+    expectNumber(physics, 'depth', join(path, 'physics'), issues);
+    expectNumber(physics, 'permanence', join(path, 'physics'), issues);
+    expectNumber(physics, 'opacity', join(path, 'physics'), issues);
+  }
+
+  const skeleton = expectObject(obj.skeleton, join(path, 'skeleton'), issues);
+  if (skeleton) {
+    expectStringArray(skeleton, 'shape', join(path, 'skeleton'), issues);
+    const topology = expectObject(skeleton.topology, join(path, 'skeleton.topology'), issues);
+    if (topology) {
+      expectNumber(topology, 'depth', join(path, 'skeleton.topology'), issues);
+      expectNumber(topology, 'nodes', join(path, 'skeleton.topology'), issues);
+    }
+  }
+
+  const core = expectObject(obj.core, join(path, 'core'), issues);
+  if (core) {
+    expectStringArray(core, 'tokens', join(path, 'core'), issues);
+    expectBoolean(core, 'sealed', join(path, 'core'), issues);
+  }
+
+  const relations = expectObject(obj.relations, join(path, 'relations'), issues);
+  if (relations) {
+    expectStringArray(relations, 'derivesFrom', join(path, 'relations'), issues);
+    expectNumber(relations, 'outDegree', join(path, 'relations'), issues);
+  }
+
+  const costs = expectObject(obj.costEstimates, join(path, 'costEstimates'), issues);
+  if (costs) {
+    expectNumber(costs, 'mutatePartial', join(path, 'costEstimates'), issues);
+    expectNumber(costs, 'mutateDeep', join(path, 'costEstimates'), issues);
+  }
+
+  expectArrayOf(obj, 'jointAffordances', validateJointAffordance, path, issues, true);
+  return issues;
+};
+
+export const validateSeed: SchemaValidator = (value, path = '') => {
+  const issues: SchemaIssue[] = [];
+  const obj = expectObject(value, path, issues);
+  if (!obj) return issues;
+
+  expectOneOf(obj, 'type', ['trace', 'token', 'zone'], path, issues);
+  expectString(obj, 'value', path, issues);
+  return issues;
+};
+
+export const validatePerceiveResponse: SchemaValidator = (value, path = '') => {
+  const issues: SchemaIssue[] = [];
+  const obj = expectObject(value, path, issues);
+  if (!obj) return issues;
+
+  expectNumber(obj, 'tick', path, issues);
+
+  const window = expectObject(obj.tickWindow, join(path, 'tickWindow'), issues);
+  if (window) {
+    expectNumber(window, 'from', join(path, 'tickWindow'), issues);
+    expectNumber(window, 'to', join(path, 'tickWindow'), issues);
+  }
+
+  expectArrayOf(obj, 'glimpses', validateTraceGlimpse, path, issues);
+  expectArrayOf(obj, 'nextSeeds', validateSeed, path, issues);
+  return issues;
+};
+
+export const validateQuoteResponse: SchemaValidator = (value, path = '') => {
+  const issues: SchemaIssue[] = [];
+  const obj = expectObject(value, path, issues);
+  if (!obj) return issues;
+
+  expectNumber(obj, 'cost', path, issues);
+  expectBoolean(obj, 'allowed', path, issues);
+  expectNumber(obj, 'tick', path, issues);
+  expectNumber(obj, 'energyAfter', path, issues);
+  expectStringArray(obj, 'reasons', path, issues, true);
+  return issues;
+};
+
+/** Create and derive share the same response shape */
+export const validateTraceWriteResponse: SchemaValidator = (value, path = '') => {
+  const issues: SchemaIssue[] = [];
+  const obj = expectObject(value, path, issues);
+  if (!obj) return issues;
+
+  expectString(obj, 'traceId', path, issues);
+  expectNumber(obj, 'tick', path, issues);
+  expectNumber(obj, 'costPaid', path, issues);
+  return issues;
+};
+
+export const validateJointQuoteResponse: SchemaValidator = (value, path = '') => {
+  const issues: SchemaIssue[] = [];
+  const obj = expectObject(value, path, issues);
+  if (!obj) return issues;
+
+  expectNumber(obj, 'tick', path, issues);
+  expectNumber(obj, 'cost', path, issues);
+  expectNumber(obj, 'requiredAgents', path, issues);
+  expectNumber(obj, 'windowTicks', path, issues);
+  expectBoolean(obj, 'allowed', path, issues);
+  return issues;
+};
+
+export const validateJointTraceResponse: SchemaValidator = (value, path = '') => {
+  const issues: SchemaIssue[] = [];
+  const obj = expectObject(value, path, issues);
+  if (!obj) return issues;
+
+  expectOneOf(obj, 'status', ['created', 'pending'], path, issues);
+  expectNumber(obj, 'tick', path, issues);
+  expectString(obj, 'traceId', path, issues, true);
+  expectNumber(obj, 'expiresAt', path, issues, true);
+  expectNumber(obj, 'costReserved', path, issues, true);
+  return issues;
+};
+
+export const validateHealthResponse: SchemaValidator = (value, path = '') => {
+  const issues: SchemaIssue[] = [];
+  const obj = expectObject(value, path, issues);
+  if (!obj) return issues;
+
+  expectString(obj, 'status', path, issues);
+  return issues;
+};
@@ -0,0 +1,124 @@
+/**
+ * Shutdown Coordinator Tests
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { createShutdownCoordinator } from './shutdown.js';
+import { captureLogs, resetLogger } from './logger.js';
+
+/** Settles when resolve() is called */
+function deferred() {
+  let resolve!: () => void;
+  const promise = new Promise<void>((r) => { resolve = r; });
+  return { promise, resolve };
+}
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  captureLogs();
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  resetLogger();
+});
+
+describe('ShutdownCoordinator', () => {
+  it('ends sleeps and waits early when shutdown is requested', async () => {
+    const coordinator = createShutdownCoordinator({ drainTimeoutMs: 1000 });
+    const step = deferred();
+    let slept = false;
+    let waited = false;
+    void coordinator.sleep(60_000).then(() => { slept = true; });
+    void coordinator.until(step.promise).then(() => { waited = true; });
+
+    await vi.advanceTimersByTimeAsync(10);
+    expect(slept || waited).toBe(false);
+
+    coordinator.request('SIGINT');
+    await vi.advanceTimersByTimeAsync(0);
+    expect(coordinator.stopping).toBe(true);
+    expect([slept, waited]).toEqual([true, true]);
+    expect(coordinator.signal.aborted).toBe(false);
+  });
+
+  it('drains in-flight work that finishes before the deadline', async () => {
+    const coordinator = createShutdownCoordinator({ drainTimeoutMs: 1000 });
+    const step = deferred();
+    coordinator.request('SIGTERM');
+
+    let drained: boolean | null = null;
+    void coordinator.drain(step.promise).then((ok) => { drained = ok; });
+    await vi.advanceTimersByTimeAsync(500);
+    step.resolve();
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(drained).toBe(true);
+    expect(coordinator.report()).toEqual({
+      outcome: 'clean',
+      exitCode: 0,
+      reason: 'SIGTERM',
+      forced: null,
+      failures: [],
+    });
+  });
+
+  it('cancels outstanding calls at the deadline', async () => {
+    const coordinator = createShutdownCoordinator({ drainTimeoutMs: 1000, cancelGraceMs: 200 });
+    // A stuck step that only ends when cancelled
+    const step = new Promise<void>((resolve) => coordinator.signal.addEventListener('abort', () => resolve()));
+    coordinator.request('SIGINT');
+
+    let drained: boolean | null = null;
+    void coordinator.drain(step).then((ok) => { drained = ok; });
+    await vi.advanceTimersByTimeAsync(999);
+    expect(coordinator.signal.aborted).toBe(false);
+
+    await vi.advanceTimersByTimeAsync(1);
+    expect(coordinator.signal.aborted).toBe(true);
+    expect(drained).toBe(false);
+    expect(coordinator.report()).toMatchObject({ outcome: 'forced', exitCode: 2, forced: 'drain_timeout' });
+  });
+
+  it('forces on a second signal and exits on a third', async () => {
+    const exit = vi.fn();
+    const logs = captureLogs();
+    const coordinator = createShutdownCoordinator({ drainTimeoutMs: 60_000, cancelGraceMs: 100, exit });
+    coordinator.request('SIGINT');
+
+    let drained: boolean | null = null;
+    void coordinator.drain(new Promise(() => {})).then((ok) => { drained = ok; });
+    coordinator.request('SIGINT');
+    expect(coordinator.signal.aborted).toBe(true);
+
+    await vi.advanceTimersByTimeAsync(100);
+    expect(drained).toBe(false);
+    expect(exit).not.toHaveBeenCalled();
+
+    coordinator.request('SIGINT');
+    expect(exit).toHaveBeenCalledWith(2);
+    expect(logs.entries().map(e => e.step)).toEqual(['runner_shutdown', 'shutdown_forced', 'shutdown_abandoned']);
+    expect(logs.entries('shutdown_forced')[0]!.details).toEqual({ reason: 'second_SIGINT' });
+  });
+
+  it('keeps running final steps after one throws and reports the failure', async () => {
+    const coordinator = createShutdownCoordinator({ drainTimeoutMs: 1000 });
+    const ran: string[] = [];
+
+    await coordinator.step('state', () => { ran.push('state'); });
+    const ok = await coordinator.step('summary', () => {
+      throw new Error('disk full');
+    });
+    await coordinator.step('logs', async () => { ran.push('logs'); });
+
+    expect(ok).toBe(false);
+    expect(ran).toEqual(['state', 'logs']);
+    // Failed wins over forced
+    coordinator.force('drain_timeout');
+    expect(coordinator.report()).toMatchObject({
+      outcome: 'failed',
+      exitCode: 1,
+      failures: [{ step: 'summary', error: 'disk full' }],
+    });
+  });
+});
@@ -0,0 +1,233 @@
+/**
+ * Probe Agents Kit - Shutdown Coordinator
+ *
+ * Ends a run in a known state:
+ * - First signal: stop scheduling, let in-flight steps finish up to a deadline
+ * - Deadline or second signal: cancel outstanding HTTP/FRUX calls (signal)
+ * - Third signal: exit at once
+ * - Final steps (state, summary, log flush) run one by one; a failing step
+ *   is recorded and the next one still runs
+ *
+ * Outcome and exit code: clean (0), failed (1) when the run or a final step
+ * threw, forced (2) when in-flight work had to be cancelled.
+ */
+
+import { log } from './logger.js';
+
+export type ShutdownOutcome = 'clean' | 'failed' | 'forced';
+
+export const SHUTDOWN_EXIT_CODES: Record<ShutdownOutcome, number> = {
+  clean: 0,
+  failed: 1,
+  forced: 2,
+};
+
+export interface ShutdownOptions {
+  /** How long drain() waits for in-flight work before cancelling it */
+  drainTimeoutMs: number;
+  /** How long cancelled work gets to settle (default 1s) */
+  cancelGraceMs?: number;
+  /** Called with the forced exit code on the third signal */
+  exit?: (code: number) => void;
+}
+
+export interface ShutdownFailure {
+  /** Where it failed: "run" or a final step name */
+  step: string;
+  error: string;
+}
+
+export interface ShutdownReport {
+  outcome: ShutdownOutcome;
+  exitCode: number;
+  /** Signal that stopped the run (null when it ended on its own) */
+  reason: string | null;
+  /** Why in-flight work was cancelled, if it was */
+  forced: string | null;
+  failures: ShutdownFailure[];
+}
+
+const DEFAULT_CANCEL_GRACE_MS = 1000;
+
+function message(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+export class ShutdownCoordinator {
+  private controller = new AbortController();
+  private requests: string[] = [];
+  private forcedReason: string | null = null;
+  private failures: ShutdownFailure[] = [];
+  private waiters = new Set<() => void>();
+
+  constructor(readonly options: ShutdownOptions) {}
+
+  /** Aborted when outstanding calls must be cancelled */
+  get signal(): AbortSignal {
+    return this.controller.signal;
+  }
+
+  /** Shutdown was requested: schedule nothing new */
+  get stopping(): boolean {
+    return this.requests.length > 0;
+  }
+
+  /**
+   * A shutdown signal arrived. The first one drains, the second cancels
+   * outstanding calls, the third exits.
+   */
+  request(reason: string): void {
+    this.requests.push(reason);
+    const count = this.requests.length;
+
+    if (count === 1) {
+      log({
+        did: null,
+        archetype: 'QS',
+        step: 'runner_shutdown',
+        tick: 0,
+        details: { reason, drainTimeoutMs: this.options.drainTimeoutMs },
+      });
+      this.wake();
+    } else if (count === 2) {
+      this.force(`second_${reason}`);
+    } else {
+      this.options.exit?.(SHUTDOWN_EXIT_CODES.forced);
+    }
+  }
+
+  /**
+   * Cancel outstanding calls now
+   */
+  force(reason: string): void {
+    if (this.forcedReason !== null) return;
+    this.forcedReason = reason;
+    log({
+      did: null,
+      archetype: 'QS',
+      step: 'shutdown_forced',
+      tick: 0,
+      details: { reason },
+    });
+    this.controller.abort();
+    this.wake();
+  }
+
+  /**
+   * Wait `ms`, or less if shutdown is requested meanwhile
+   */
+  async sleep(ms: number): Promise<void> {
+    if (this.stopping) return;
+    await this.race(new Promise<void>(() => {}), ms);
+  }
+
+  /**
+   * Wait for `work`, or until shutdown is requested (the work keeps running;
+   * hand it to drain())
+   */
+  async until(work: Promise<unknown>): Promise<void> {
+    if (this.stopping) return;
+    await this.race(work, Infinity);
+  }
+
+  /**
+   * Wait for in-flight work up to the drain deadline. Past it (or on a
+   * second signal) outstanding calls are cancelled and the work gets the
+   * grace period to settle. Returns true when it finished without cancelling.
+   */
+  async drain(work: Promise<unknown>): Promise<boolean> {
+    const settled = work.then(() => true, () => true);
+
+    if (this.forcedReason === null) {
+      if (await this.race(settled, this.options.drainTimeoutMs)) return true;
+      this.force('drain_timeout');
+    }
+
+    const grace = this.options.cancelGraceMs ?? DEFAULT_CANCEL_GRACE_MS;
+    if (!await this.race(settled, grace)) {
+      log({
+        did: null,
+        archetype: 'QS',
+        step: 'shutdown_abandoned',
+        tick: 0,
+        details: { graceMs: grace },
+      });
+    }
+    return false;
+  }
+
+  /**
+   * Run one final step. A throw is recorded (outcome: failed), never rethrown.
+   */
+  async step(name: string, fn: () => unknown): Promise<boolean> {
+    try {
+      await fn();
+      return true;
+    } catch (error) {
+      log({
+        did: null,
+        archetype: 'QS',
+        step: 'shutdown_step_error',
+        tick: 0,
+        details: { shutdownStep: name, error: message(error) },
+      });
+      this.fail(name, error);
+      return false;
+    }
+  }
+
+  /**
+   * Record a failure that happened outside step(), e.g. in the run loop
+   */
+  fail(step: string, error: unknown): void {
+    this.failures.push({ step, error: message(error) });
+  }
+
+  get outcome(): ShutdownOutcome {
+    if (this.failures.length > 0) return 'failed';
+    return this.forcedReason !== null ? 'forced' : 'clean';
+  }
+
+  get exitCode(): number {
+    return SHUTDOWN_EXIT_CODES[this.outcome];
+  }
+
+  report(): ShutdownReport {
+    return {
+      outcome: this.outcome,
+      exitCode: this.exitCode,
+      reason: this.requests[0] ?? null,
+      forced: this.forcedReason,
+      failures: [...this.failures],
+    };
+  }
+
+  /**
+   * Settle with `work` (true) or after `ms` / a shutdown request or force (false)
+   */
+  private race(work: Promise<unknown>, ms: number): Promise<boolean> {
+    return new Promise((resolve) => {
+      let timer: ReturnType<typeof setTimeout> | undefined;
+      const finish = (value: boolean) => {
+        clearTimeout(timer);
+        this.waiters.delete(interrupt);
+        resolve(value);
+      };
+      const interrupt = () => finish(false);
+
+      if (Number.isFinite(ms)) timer = setTimeout(interrupt, ms);
+      this.waiters.add(interrupt);
+      work.then(() => finish(true), () => finish(true));
+    });
+  }
+
+  private wake(): void {
+    const waiters = [...this.waiters];
+    this.waiters.clear();
+    for (const wake of waiters) wake();
+  }
+}
+
+export function createShutdownCoordinator(options: ShutdownOptions): ShutdownCoordinator {
+  return new ShutdownCoordinator(options);
+}
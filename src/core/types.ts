@@ -8,7 +8,11 @@
 // AGENT TYPES
 // ============================================================================
 
-export type AgentArchetype = 'QS' | 'CBC' | 'JAP' | 'LLM';
+/** Archetypes shipped with the kit */
+export type BuiltinArchetype = 'QS' | 'CBC' | 'JAP' | 'LLM';
+
+/** Archetype code. Third-party archetypes register their own codes. */
+export type AgentArchetype = BuiltinArchetype | (string & {});
 
 export interface AgentConfig {
   /** Agent archetype */
@@ -27,6 +31,10 @@ export interface AgentConfig {
   costBudget?: number;
   /** Derive probability (CBC only) */
   deriveProbability?: number;
+  /** Scenario cohort this agent belongs to */
+  cohort?: string;
+  /** Cohort parameters, including ones only plugin archetypes understand */
+  params?: Record<string, unknown>;
 }
 
 export interface AgentState {
@@ -173,7 +181,7 @@ export interface JointQuoteResponse {
 export interface JointTraceRequest {
   did: string;
   affordanceId: string;
-  traceDraft: SlimPyramid;
+  traceDraft: TraceDraft;
 }
 
 export interface JointTraceResponse {
@@ -184,6 +192,11 @@ export interface JointTraceResponse {
   costReserved?: number;
 }
 
+export interface HealthResponse {
+  status: string;
+  [key: string]: unknown;
+}
+
 // ============================================================================
 // SLIM PYRAMID (minimal)
 // ============================================================================
@@ -221,8 +234,12 @@ export interface TraceDraft {
 // LOG TYPES
 // ============================================================================
 
+/** Severity of a log entry, lowest first */
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
 export interface LogEntry {
   ts: string;
+  level?: LogLevel;
   did: string | null;
   archetype: AgentArchetype;
   step: string;
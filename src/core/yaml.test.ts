@@ -0,0 +1,67 @@
+/**
+ * Minimal YAML Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { parseYaml } from './yaml.js';
+
+describe('parseYaml', () => {
+  it('parses nested mappings and scalars', () => {
+    const doc = parseYaml(`
+# comment
+name: demo   # trailing comment
+count: 3
+ratio: 0.4
+enabled: true
+empty: ~
+quoted: "a # not a comment"
+single: 'it''s'
+nested:
+  key: value
+  deeper:
+    n: -2
+`);
+
+    expect(doc).toEqual({
+      name: 'demo',
+      count: 3,
+      ratio: 0.4,
+      enabled: true,
+      empty: null,
+      quoted: 'a # not a comment',
+      single: "it's",
+      nested: { key: 'value', deeper: { n: -2 } },
+    });
+  });
+
+  it('parses sequences of mappings at either indentation', () => {
+    const doc = parseYaml(`
+indented:
+  - name: a
+    count: 1
+  - name: b
+flush:
+- x
+- y
+`);
+
+    expect(doc).toEqual({
+      indented: [{ name: 'a', count: 1 }, { name: 'b' }],
+      flush: ['x', 'y'],
+    });
+  });
+
+  it('parses flow collections', () => {
+    expect(parseYaml('params: { costBudget: 50, tags: [a, "b, c"] }\nlist: []')).toEqual({
+      params: { costBudget: 50, tags: ['a', 'b, c'] },
+      list: [],
+    });
+  });
+
+  it('reports the offending line', () => {
+    expect(() => parseYaml('a: 1\n  b: 2')).toThrow('YAML line 2: unexpected indentation');
+    expect(() => parseYaml('a: 1\na: 2')).toThrow('YAML line 2: duplicate key "a"');
+    expect(() => parseYaml('a: |\n  text')).toThrow('block scalars are not supported');
+    expect(() => parseYaml('a:\n\t- b')).toThrow('tabs are not allowed');
+  });
+});
@@ -0,0 +1,272 @@
+/**
+ * Probe Agents Kit - Minimal YAML
+ *
+ * Dependency-free parser for the YAML subset used by scenario and config files:
+ * - Block mappings and sequences (indentation-based, spaces only)
+ * - Sequences of mappings ("- name: a")
+ * - Plain, single- and double-quoted scalars; numbers, booleans, null
+ * - Flow sequences and mappings on one line ([a, b], { a: 1 })
+ * - Comments (#)
+ *
+ * Anchors, tags, multi-document streams and block scalars (| >) are not supported.
+ */
+
+interface Line {
+  /** 1-based line number in the source */
+  number: number;
+  indent: number;
+  text: string;
+}
+
+function fail(line: number, message: string): never {
+  throw new Error(`YAML line ${line}: ${message}`);
+}
+
+/**
+ * Remove a trailing comment, ignoring # inside quotes
+ */
+function stripComment(text: string): string {
+  let quote: string | null = null;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (quote) {
+      if (ch === '\\' && quote === '"') i++;
+      else if (ch === quote) quote = null;
+    } else if (ch === '"' || ch === "'") {
+      quote = ch;
+    } else if (ch === '#' && (i === 0 || /\s/.test(text[i - 1]!))) {
+      return text.slice(0, i);
+    }
+  }
+  return text;
+}
+
+function tokenize(source: string): Line[] {
+  const lines: Line[] = [];
+  source.split(/\r?\n/).forEach((raw, i) => {
+    const number = i + 1;
+    const content = stripComment(raw).trimEnd();
+    if (content.trim() === '' || content.trim() === '---') return;
+    const indentMatch = /^[ \t]*/.exec(content)![0];
+    if (indentMatch.includes('\t')) fail(number, 'tabs are not allowed for indentation');
+    lines.push({ number, indent: indentMatch.length, text: content.slice(indentMatch.length) });
+  });
+  return lines;
+}
+
+/**
+ * Index of the ": " (or trailing ":") separating a key from its value, outside quotes
+ */
+function findKeySeparator(text: string): number {
+  let quote: string | null = null;
+  let depth = 0;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (quote) {
+      if (ch === '\\' && quote === '"') i++;
+      else if (ch === quote) quote = null;
+      continue;
+    }
+    if (ch === '"' || ch === "'") quote = ch;
+    else if (ch === '[' || ch === '{') depth++;
+    else if (ch === ']' || ch === '}') depth--;
+    else if (ch === ':' && depth === 0 && (i === text.length - 1 || text[i + 1] === ' ')) return i;
+  }
+  return -1;
+}
+
+function isSequenceItem(text: string): boolean {
+  return text === '-' || text.startsWith('- ');
+}
+
+/**
+ * Split a flow collection body on top-level commas
+ */
+function splitFlow(body: string, line: number): string[] {
+  const parts: string[] = [];
+  let quote: string | null = null;
+  let depth = 0;
+  let start = 0;
+  for (let i = 0; i < body.length; i++) {
+    const ch = body[i];
+    if (quote) {
+      if (ch === '\\' && quote === '"') i++;
+      else if (ch === quote) quote = null;
+      continue;
+    }
+    if (ch === '"' || ch === "'") quote = ch;
+    else if (ch === '[' || ch === '{') depth++;
+    else if (ch === ']' || ch === '}') depth--;
+    else if (ch === ',' && depth === 0) {
+      parts.push(body.slice(start, i));
+      start = i + 1;
+    }
+  }
+  if (quote || depth !== 0) fail(line, 'unterminated flow collection');
+  parts.push(body.slice(start));
+  return parts.map((p) => p.trim()).filter((p, i, all) => p.length > 0 || i < all.length - 1);
+}
+
+function parseDoubleQuoted(text: string, line: number): string {
+  try {
+    return JSON.parse(text) as string;
+  } catch {
+    return fail(line, `invalid double-quoted string ${text}`);
+  }
+}
+
+/**
+ * Parse an inline value: quoted or plain scalar, or a flow collection
+ */
+function parseScalar(text: string, line: number): unknown {
+  const value = text.trim();
+
+  if (value === '|' || value === '>' || /^[|>][+-]?$/.test(value)) {
+    fail(line, 'block scalars are not supported');
+  }
+  if (value.startsWith('&') || value.startsWith('*') || value.startsWith('!')) {
+    fail(line, 'anchors, aliases and tags are not supported');
+  }
+
+  if (value.startsWith('[')) {
+    if (!value.endsWith(']')) fail(line, 'unterminated flow sequence');
+    const inner = value.slice(1, -1).trim();
+    return inner === '' ? [] : splitFlow(inner, line).map((part) => parseScalar(part, line));
+  }
+
+  if (value.startsWith('{')) {
+    if (!value.endsWith('}')) fail(line, 'unterminated flow mapping');
+    const inner = value.slice(1, -1).trim();
+    const result: Record<string, unknown> = {};
+    if (inner === '') return result;
+    for (const part of splitFlow(inner, line)) {
+      const sep = findKeySeparator(part);
+      if (sep === -1) fail(line, `expected "key: value" in flow mapping, got "${part}"`);
+      result[parseKey(part.slice(0, sep), line)] = parseScalar(part.slice(sep + 1), line);
+    }
+    return result;
+  }
+
+  if (value.startsWith('"')) return parseDoubleQuoted(value, line);
+  if (value.startsWith("'")) {
+    if (!value.endsWith("'") || value.length < 2) fail(line, 'unterminated single-quoted string');
+    return value.slice(1, -1).replace(/''/g, "'");
+  }
+
+  if (value === '' || value === '~' || value === 'null' || value === 'Null' || value === 'NULL') return null;
+  if (/^(true|True|TRUE)$/.test(value)) return true;
+  if (/^(false|False|FALSE)$/.test(value)) return false;
+  if (/^[-+]?\d+$/.test(value)) return parseInt(value, 10);
+  if (/^[-+]?(\d+\.\d*|\.\d+|\d+)([eE][-+]?\d+)?$/.test(value)) return parseFloat(value);
+  return value;
+}
+
+function parseKey(text: string, line: number): string {
+  const key = text.trim();
+  if (key === '') fail(line, 'empty mapping key');
+  if (key.startsWith('"')) return parseDoubleQuoted(key, line);
+  if (key.startsWith("'") && key.endsWith("'")) return key.slice(1, -1).replace(/''/g, "'");
+  return key;
+}
+
+class Parser {
+  private pos = 0;
+
+  constructor(private lines: Line[]) {}
+
+  parseDocument(): unknown {
+    if (this.lines.length === 0) return null;
+    const first = this.lines[0]!;
+    const value = this.parseBlock(first.indent);
+    if (this.pos < this.lines.length) {
+      const line = this.lines[this.pos]!;
+      fail(line.number, 'unexpected indentation');
+    }
+    return value;
+  }
+
+  private parseBlock(indent: number): unknown {
+    const line = this.lines[this.pos]!;
+    if (isSequenceItem(line.text)) return this.parseSequence(indent);
+    if (findKeySeparator(line.text) !== -1) return this.parseMapping(indent);
+
+    // A lone scalar document or nested value
+    this.pos++;
+    return parseScalar(line.text, line.number);
+  }
+
+  private parseMapping(indent: number): Record<string, unknown> {
+    const result: Record<string, unknown> = {};
+
+    while (this.pos < this.lines.length) {
+      const line = this.lines[this.pos]!;
+      if (line.indent < indent) break;
+      if (line.indent > indent) fail(line.number, 'unexpected indentation');
+      if (isSequenceItem(line.text)) break;
+
+      const sep = findKeySeparator(line.text);
+      if (sep === -1) fail(line.number, `expected "key: value", got "${line.text}"`);
+
+      const key = parseKey(line.text.slice(0, sep), line.number);
+      if (key in result) fail(line.number, `duplicate key "${key}"`);
+      const rest = line.text.slice(sep + 1).trim();
+      this.pos++;
+
+      if (rest !== '') {
+        result[key] = parseScalar(rest, line.number);
+        continue;
+      }
+
+      const next = this.lines[this.pos];
+      if (next && next.indent > indent) {
+        result[key] = this.parseBlock(next.indent);
+      } else if (next && next.indent === indent && isSequenceItem(next.text)) {
+        // "key:" followed by "- item" at the same indentation
+        result[key] = this.parseSequence(indent);
+      } else {
+        result[key] = null;
+      }
+    }
+
+    return result;
+  }
+
+  private parseSequence(indent: number): unknown[] {
+    const result: unknown[] = [];
+
+    while (this.pos < this.lines.length) {
+      const line = this.lines[this.pos]!;
+      if (line.indent < indent) break;
+      if (line.indent > indent) fail(line.number, 'unexpected indentation');
+      if (!isSequenceItem(line.text)) break;
+
+      const rest = line.text.slice(1).trimStart();
+      if (rest === '') {
+        this.pos++;
+        const next = this.lines[this.pos];
+        result.push(next && next.indent > indent ? this.parseBlock(next.indent) : null);
+        continue;
+      }
+
+      if (isSequenceItem(rest) || findKeySeparator(rest) !== -1) {
+        // "- key: value" opens a nested block at the column after "- "
+        const column = indent + (line.text.length - rest.length);
+        this.lines[this.pos] = { number: line.number, indent: column, text: rest };
+        result.push(this.parseBlock(column));
+        continue;
+      }
+
+      this.pos++;
+      result.push(parseScalar(rest, line.number));
+    }
+
+    return result;
+  }
+}
+
+/**
+ * Parse a YAML document. Throws with the offending line number on invalid input.
+ */
+export function parseYaml(source: string): unknown {
+  return new Parser(tokenize(source)).parseDocument();
+}
@@ -0,0 +1,127 @@
+/**
+ * Fake Provider and Script Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { mkdtemp, writeFile, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { createFakeProvider } from './fake.js';
+import { parseLLMScript } from './script.js';
+import { createLLMProvider } from './providers.js';
+import type { LLMProviderSettings, LLMScript } from './types.js';
+
+function settings(overrides: Partial<LLMProviderSettings> = {}): LLMProviderSettings {
+  return { kind: 'fake', apiUrl: '', apiKey: '', model: '', timeoutMs: 5, maxRetries: 0, preferLocal: false, ...overrides };
+}
+
+const request = (context: unknown = {}) => ({ system: 's', prompt: 'p', context });
+
+async function actions(script: LLMScript, seed: number, calls: number): Promise<string[]> {
+  const provider = createFakeProvider(settings({ seed }), script);
+  const answers: string[] = [];
+  for (let i = 0; i < calls; i++) {
+    const result = await provider.complete(request());
+    answers.push(result.ok ? JSON.parse(result.text!).action : `error:${result.status ?? result.error}`);
+  }
+  return answers;
+}
+
+describe('FakeProvider', () => {
+  it('prefers matching rules, then cycles the sequence', async () => {
+    const provider = createFakeProvider(settings(), {
+      rules: [
+        { when: { 'jointAffordances.length': { gte: 1 }, 'agent.energy': { gt: 10 } }, decision: { action: 'JOINT_ATTEMPT' } },
+        { when: { 'environment.zone': 'FORGE' }, decision: { action: 'DERIVE_TRACE', reason: 'forge' } },
+      ],
+      sequence: [{ action: 'SILENCE' }, { action: 'CREATE_TRACE', params: { permanence: 2 } }],
+    });
+
+    const answer = async (context: unknown) => JSON.parse((await provider.complete(request(context))).text!);
+
+    expect(await answer({ agent: { energy: 12 }, jointAffordances: [{}] })).toEqual({ action: 'JOINT_ATTEMPT', reason: 'rule 1' });
+    expect(await answer({ agent: { energy: 5 }, jointAffordances: [{}], environment: { zone: 'FORGE' } }))
+      .toEqual({ action: 'DERIVE_TRACE', reason: 'forge' });
+    expect(await answer({ agent: { energy: 5 } })).toEqual({ action: 'SILENCE', reason: 'sequence 1' });
+    expect(await answer({})).toEqual({ action: 'CREATE_TRACE', reason: 'sequence 2', params: { permanence: 2 } });
+    expect(await answer({})).toEqual({ action: 'SILENCE', reason: 'sequence 1' });
+  });
+
+  it('repeats the same random policy and failures for the same seed', async () => {
+    const script: LLMScript = {
+      weights: { SILENCE: 1, CREATE_TRACE: 3 },
+      failures: [{ kind: 'unauthorized', calls: [2] }, { kind: 'server_error', every: 5 }, { kind: 'empty', rate: 0.2 }],
+    };
+
+    const first = await actions(script, 7, 20);
+    expect(await actions(script, 7, 20)).toEqual(first);
+    expect(await actions(script, 8, 20)).not.toEqual(first);
+    expect(first[1]).toBe('error:401');
+    expect(first[4]).toBe('error:500');
+    expect(first).toContain('error:Empty response from fake');
+    expect(first.filter(a => !a.startsWith('error')).every(a => a === 'SILENCE' || a === 'CREATE_TRACE')).toBe(true);
+  });
+
+  it('injects latency, timeouts and malformed answers', async () => {
+    const provider = createFakeProvider(settings({ timeoutMs: 20 }), {
+      latencyMs: { min: 5, max: 10 },
+      failures: [{ kind: 'timeout', calls: [1] }, { kind: 'malformed', calls: [2] }],
+    });
+
+    const started = performance.now();
+    expect(await provider.complete(request())).toEqual({ ok: false, error: 'Request timeout' });
+    expect(performance.now() - started).toBeGreaterThanOrEqual(20);
+
+    const malformed = await provider.complete(request());
+    expect(malformed.ok).toBe(true);
+    expect(() => JSON.parse(malformed.text!)).toThrow();
+
+    const controller = new AbortController();
+    controller.abort();
+    const cancelled = createFakeProvider(settings({ signal: controller.signal }), { latencyMs: 50 });
+    expect(await cancelled.complete(request())).toEqual({ ok: false, error: 'Request cancelled' });
+  });
+
+  it('loads its script file once and reports invalid scripts', async () => {
+    const dir = await mkdtemp(join(tmpdir(), 'probes-llm-'));
+    try {
+      const good = join(dir, 'script.yaml');
+      await writeFile(good, 'sequence:\n  - action: CREATE_TRACE\n');
+      const provider = createLLMProvider(settings({ script: good }));
+      expect(provider.apiUrl).toBe(good);
+      expect(JSON.parse((await provider.complete(request())).text!).action).toBe('CREATE_TRACE');
+
+      const bad = join(dir, 'bad.json');
+      await writeFile(bad, JSON.stringify({ sequence: [] }));
+      expect(await createLLMProvider(settings({ script: bad })).complete(request())).toEqual({
+        ok: false,
+        error: `Invalid LLM script ${bad}: sequence: Must be a non-empty array`,
+      });
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe('parseLLMScript', () => {
+  it('reports every problem with its path', () => {
+    const { script, errors } = parseLLMScript(JSON.stringify({
+      rules: [{ when: { 'agent.energy': { below: 3 } }, decision: { reason: 'x' } }],
+      weights: { SILENCE: 0 },
+      latencyMs: { min: 10, max: 5 },
+      failures: [{ kind: 'flaky', every: 0 }],
+      extra: true,
+    }), 'json');
+
+    expect(script).toBeUndefined();
+    expect(errors.map(e => e.path)).toEqual([
+      'extra',
+      'rules[0].when.agent.energy.below',
+      'rules[0].decision.action',
+      'weights',
+      'latencyMs',
+      'failures[0].kind',
+      'failures[0].every',
+    ]);
+  });
+});
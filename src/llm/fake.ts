@@ -0,0 +1,196 @@
+/**
+ * Fake LLM Provider
+ *
+ * Answers in-process from a script: rules on the decision context, a
+ * sequence, or a seeded random policy, with injected latency and failures.
+ * The same script and seed give the same answers, so LLM probes can run
+ * in the offline simulator and in CI without a model.
+ */
+
+import { setTimeout as sleep } from 'node:timers/promises';
+
+import { SeededRNG } from '../core/rng.js';
+import { loadLLMScript } from './script.js';
+import type {
+  LLMProvider,
+  LLMProviderSettings,
+  LLMRequest,
+  LLMResult,
+  LLMScript,
+  ScriptCondition,
+  ScriptedDecision,
+  ScriptFailure,
+  ScriptFailureKind,
+} from './types.js';
+
+/** Random policy without weights (CREATE_INQUIRY is off by default, so left out) */
+const DEFAULT_WEIGHTS: Record<string, number> = { SILENCE: 1, CREATE_TRACE: 2, DERIVE_TRACE: 1, JOINT_ATTEMPT: 1 };
+
+/** What a chatty model answers instead of JSON */
+const MALFORMED_TEXT = 'Sure! Creating a trace sounds like the best next step.';
+
+// ============================================================================
+// CONDITIONS
+// ============================================================================
+
+/** Value at a dotted path ("agent.energy", "derivableTraces.length") */
+function lookup(context: unknown, path: string): unknown {
+  return path.split('.').reduce<unknown>(
+    (value, key) => (value !== null && typeof value === 'object' ? (value as Record<string, unknown>)[key] : undefined),
+    context
+  );
+}
+
+function compare(value: unknown, operand: unknown): number | null {
+  if (typeof value === 'number' && typeof operand === 'number') return value - operand;
+  if (typeof value === 'string' && typeof operand === 'string') return value.localeCompare(operand);
+  return null;
+}
+
+function holds(value: unknown, condition: ScriptCondition): boolean {
+  if (typeof condition !== 'object') return value === condition;
+
+  return Object.entries(condition).every(([op, operand]) => {
+    if (op === 'eq') return value === operand;
+    if (op === 'ne') return value !== operand;
+    const order = compare(value, operand);
+    if (order === null) return false;
+    switch (op) {
+      case 'lt': return order < 0;
+      case 'lte': return order <= 0;
+      case 'gt': return order > 0;
+      case 'gte': return order >= 0;
+      default: return false;
+    }
+  });
+}
+
+// ============================================================================
+// PROVIDER
+// ============================================================================
+
+export class FakeProvider implements LLMProvider {
+  readonly kind = 'fake';
+  private rng: SeededRNG;
+  private calls = 0;
+  private sequenceIndex = 0;
+  /** The script, or why it could not be loaded */
+  private loaded: Promise<LLMScript | string> | null;
+
+  constructor(private settings: LLMProviderSettings, script?: LLMScript) {
+    this.rng = new SeededRNG(settings.seed ?? 0);
+    this.loaded = script ? Promise.resolve(script) : null;
+  }
+
+  get model(): string | null {
+    return this.settings.model || null;
+  }
+
+  /** Script file answered from, or the built-in random policy */
+  get apiUrl(): string {
+    return this.settings.script || 'random-policy';
+  }
+
+  unavailableReason(): string | null {
+    return null;
+  }
+
+  /** Calls answered so far, failures included */
+  get callCount(): number {
+    return this.calls;
+  }
+
+  async complete(request: LLMRequest): Promise<LLMResult> {
+    const script = await this.script();
+    if (typeof script === 'string') return { ok: false, error: script };
+    // No notes: the probe summarizes itself, and the script does not advance
+    if (request.purpose === 'reflection') return { ok: true, text: '{"notes":[]}' };
+
+    const call = ++this.calls;
+    // Draw in a fixed order (latency, then failures, then the decision)
+    const latency = this.latency(script);
+    const failure = script.failures?.find(f => this.fails(f, call));
+
+    if (latency > 0 && !(await this.wait(latency))) {
+      return { ok: false, error: 'Request cancelled' };
+    }
+    if (failure) return this.fail(failure.kind);
+
+    return { ok: true, text: JSON.stringify(this.decide(script, request.context ?? {})) };
+  }
+
+  private script(): Promise<LLMScript | string> {
+    if (!this.loaded) {
+      const path = this.settings.script;
+      this.loaded = path
+        ? loadLLMScript(path).then(({ script, errors }) =>
+          script ?? `Invalid LLM script ${path}: ${errors.map(e => `${e.path || '<root>'}: ${e.message}`).join('; ')}`)
+        : Promise.resolve({});
+    }
+    return this.loaded;
+  }
+
+  private latency(script: LLMScript): number {
+    const latency = script.latencyMs ?? 0;
+    return typeof latency === 'number' ? latency : this.rng.nextInt(latency.min, latency.max);
+  }
+
+  private fails(failure: ScriptFailure, call: number): boolean {
+    if (failure.calls?.includes(call)) return true;
+    if (failure.every && call % failure.every === 0) return true;
+    return failure.rate !== undefined && this.rng.nextBool(failure.rate);
+  }
+
+  /** False when cancelled */
+  private async wait(ms: number): Promise<boolean> {
+    try {
+      await sleep(ms, undefined, { signal: this.settings.signal });
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  private async fail(kind: ScriptFailureKind): Promise<LLMResult> {
+    switch (kind) {
+      case 'timeout':
+        return (await this.wait(this.settings.timeoutMs))
+          ? { ok: false, error: 'Request timeout' }
+          : { ok: false, error: 'Request cancelled' };
+      case 'malformed':
+        return { ok: true, text: MALFORMED_TEXT };
+      case 'empty':
+        return { ok: false, error: 'Empty response from fake' };
+      case 'unauthorized':
+        return { ok: false, error: 'HTTP 401: Unauthorized', status: 401 };
+      case 'server_error':
+        return { ok: false, error: 'HTTP 500: Internal Server Error', status: 500 };
+    }
+  }
+
+  private decide(script: LLMScript, context: unknown): ScriptedDecision {
+    const ruleIndex = script.rules?.findIndex(rule =>
+      Object.entries(rule.when).every(([path, condition]) => holds(lookup(context, path), condition))) ?? -1;
+    if (ruleIndex >= 0) {
+      return { reason: `rule ${ruleIndex + 1}`, ...script.rules![ruleIndex]!.decision };
+    }
+
+    if (script.sequence?.length) {
+      const index = this.sequenceIndex++ % script.sequence.length;
+      return { reason: `sequence ${index + 1}`, ...script.sequence[index]! };
+    }
+
+    const weights = Object.entries(script.weights ?? DEFAULT_WEIGHTS).filter(([, weight]) => weight > 0);
+    const total = weights.reduce((sum, [, weight]) => sum + weight, 0);
+    let roll = this.rng.next() * total;
+    for (const [action, weight] of weights) {
+      roll -= weight;
+      if (roll < 0) return { action, reason: 'random policy' };
+    }
+    return { action: weights.at(-1)![0], reason: 'random policy' };
+  }
+}
+
+export function createFakeProvider(settings: LLMProviderSettings, script?: LLMScript): FakeProvider {
+  return new FakeProvider(settings, script);
+}
@@ -0,0 +1,41 @@
+/**
+ * LLM Module
+ *
+ * Chat services an LLM probe can ask for decisions: FRUX, OpenAI-compatible
+ * chat completions, Anthropic-style messages, a local Ollama server, and a
+ * scripted fake for offline runs and tests.
+ */
+
+export type {
+  LLMProviderKind,
+  LLMRequest,
+  LLMResult,
+  LLMProviderSettings,
+  LLMProvider,
+  ScriptedDecision,
+  ScriptComparison,
+  ScriptCondition,
+  ScriptRule,
+  ScriptFailureKind,
+  ScriptFailure,
+  LLMScript,
+} from './types.js';
+
+export { LLM_PROVIDER_KINDS, SCRIPT_COMPARISONS, SCRIPT_FAILURE_KINDS } from './types.js';
+
+export {
+  FruxProvider,
+  OpenAIProvider,
+  AnthropicProvider,
+  OllamaProvider,
+  createLLMProvider,
+  providerSettingsFromConfig,
+  providerSettingNames,
+  isLLMProviderKind,
+  type ProviderOverrides,
+  type ProviderSettingNames,
+} from './providers.js';
+
+export { FakeProvider, createFakeProvider } from './fake.js';
+
+export { validateLLMScript, parseLLMScript, loadLLMScript } from './script.js';
@@ -0,0 +1,185 @@
+/**
+ * LLM Provider Tests
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { loadConfig } from '../core/config.js';
+import { createLLMProvider, providerSettingsFromConfig } from './providers.js';
+import type { LLMProviderSettings } from './types.js';
+
+function jsonResponse(status: number, body: unknown, headers: Record<string, string> = {}): Response {
+  return new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json', ...headers } });
+}
+
+function settings(overrides: Partial<LLMProviderSettings>): LLMProviderSettings {
+  return {
+    kind: 'openai',
+    apiUrl: 'http://127.0.0.1:8080/v1/',
+    apiKey: '',
+    model: '',
+    timeoutMs: 1000,
+    maxRetries: 0,
+    preferLocal: true,
+    ...overrides,
+  };
+}
+
+function lastRequest(fetchFn: typeof fetch): { url: string; headers: Record<string, string>; body: any } {
+  const [url, init] = (fetchFn as unknown as ReturnType<typeof vi.fn>).mock.calls.at(-1)!;
+  return {
+    url: String(url),
+    headers: (init as RequestInit).headers as Record<string, string>,
+    body: JSON.parse((init as RequestInit).body as string),
+  };
+}
+
+const request = { system: 'Pick an action.', prompt: 'Context: {}' };
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('providers', () => {
+  it('speaks OpenAI-compatible chat completions, with a key only when set', async () => {
+    const fetchFn = vi.fn(async () => jsonResponse(200, { choices: [{ message: { content: ' {"action":"SILENCE"} ' } }] })) as unknown as typeof fetch;
+    const provider = createLLMProvider(settings({ fetch: fetchFn }));
+
+    expect(provider.unavailableReason()).toBeNull();
+    expect(provider.model).toBe('gpt-4o-mini');
+    expect(await provider.complete(request)).toEqual({ ok: true, text: '{"action":"SILENCE"}' });
+
+    const sent = lastRequest(fetchFn);
+    expect(sent.url).toBe('http://127.0.0.1:8080/v1/chat/completions');
+    expect(sent.headers.Authorization).toBeUndefined();
+    expect(sent.body.messages).toEqual([
+      { role: 'system', content: request.system },
+      { role: 'user', content: request.prompt },
+    ]);
+
+    const hosted = createLLMProvider(settings({ apiUrl: 'https://api.openai.com/v1' }));
+    expect(hosted.unavailableReason()).toBe('OPENAI_API_KEY not configured');
+  });
+
+  it('speaks Anthropic-style messages and joins text blocks', async () => {
+    const fetchFn = vi.fn(async () => jsonResponse(200, {
+      content: [{ type: 'text', text: '{"action":' }, { type: 'text', text: '"SILENCE"}' }],
+    })) as unknown as typeof fetch;
+    const provider = createLLMProvider(settings({
+      kind: 'anthropic',
+      apiUrl: 'https://api.anthropic.com',
+      apiKey: 'sk-ant-test',
+      model: 'claude-test',
+      fetch: fetchFn,
+    }));
+
+    expect(await provider.complete(request)).toEqual({ ok: true, text: '{"action":"SILENCE"}' });
+    const sent = lastRequest(fetchFn);
+    expect(sent.url).toBe('https://api.anthropic.com/v1/messages');
+    expect(sent.headers['x-api-key']).toBe('sk-ant-test');
+    expect(sent.body).toMatchObject({ model: 'claude-test', system: request.system, messages: [{ role: 'user', content: request.prompt }] });
+    expect(createLLMProvider(settings({ kind: 'anthropic' })).unavailableReason()).toBe('ANTHROPIC_API_KEY not configured');
+  });
+
+  it('asks Ollama for JSON without streaming', async () => {
+    const fetchFn = vi.fn(async () => jsonResponse(200, { message: { content: '{}' } })) as unknown as typeof fetch;
+    const provider = createLLMProvider(settings({ kind: 'ollama', apiUrl: 'http://127.0.0.1:11434', fetch: fetchFn }));
+
+    expect(await provider.complete(request)).toEqual({ ok: true, text: '{}' });
+    expect(lastRequest(fetchFn)).toMatchObject({
+      url: 'http://127.0.0.1:11434/api/chat',
+      body: { model: 'llama3.1', stream: false, format: 'json' },
+    });
+  });
+
+  it('retries server errors but not rejected keys', async () => {
+    const flaky = vi.fn()
+      .mockResolvedValueOnce(new Response('', { status: 503, statusText: 'Service Unavailable' }))
+      .mockResolvedValueOnce(jsonResponse(200, { message: { content: '{}' } })) as unknown as typeof fetch;
+    const ollama = createLLMProvider(settings({ kind: 'ollama', maxRetries: 2, baseDelayMs: 0, fetch: flaky }));
+    expect((await ollama.complete(request)).ok).toBe(true);
+    expect(flaky).toHaveBeenCalledTimes(2);
+
+    const rejecting = vi.fn(async () => new Response('', { status: 401, statusText: 'Unauthorized' })) as unknown as typeof fetch;
+    const openai = createLLMProvider(settings({ apiKey: 'sk-bad', maxRetries: 2, fetch: rejecting }));
+    expect(await openai.complete(request)).toEqual({ ok: false, error: 'HTTP 401: Unauthorized', status: 401 });
+    expect(rejecting).toHaveBeenCalledTimes(1);
+
+    const empty = vi.fn(async () => jsonResponse(200, { choices: [] })) as unknown as typeof fetch;
+    expect(await createLLMProvider(settings({ fetch: empty })).complete(request))
+      .toEqual({ ok: false, error: 'Empty response from openai' });
+  });
+
+  it('backs off with jitter between attempts and honours Retry-After', async () => {
+    vi.useFakeTimers();
+    const started = Date.now();
+    const attempts: number[] = [];
+    const fetchFn = vi.fn(async () => {
+      attempts.push(Date.now() - started);
+      switch (attempts.length) {
+        case 1: return new Response('', { status: 503, statusText: 'Service Unavailable' });
+        case 2: return jsonResponse(429, { error: 'slow down' }, { 'Retry-After': '3' });
+        default: return jsonResponse(200, { message: { content: '{}' } });
+      }
+    }) as unknown as typeof fetch;
+    const provider = createLLMProvider(settings({
+      kind: 'ollama', maxRetries: 2, baseDelayMs: 400, random: () => 0.5, fetch: fetchFn,
+    }));
+
+    const result = provider.complete(request);
+    await vi.advanceTimersByTimeAsync(5000);
+    expect(await result).toEqual({ ok: true, text: '{}' });
+    // Half of the 400ms cap, then the 3s the server asked for
+    expect(attempts).toEqual([0, 200, 3200]);
+  });
+
+  it('stops waiting for a retry when cancelled', async () => {
+    vi.useFakeTimers();
+    const controller = new AbortController();
+    const fetchFn = vi.fn(async () => new Response('', { status: 500, statusText: 'Internal Server Error' })) as unknown as typeof fetch;
+    const provider = createLLMProvider(settings({
+      kind: 'ollama', maxRetries: 3, baseDelayMs: 10_000, random: () => 0.99, fetch: fetchFn, signal: controller.signal,
+    }));
+
+    const result = provider.complete(request);
+    await vi.advanceTimersByTimeAsync(100);
+    controller.abort();
+    expect(await result).toEqual({ ok: false, error: 'Request cancelled' });
+    expect(fetchFn).toHaveBeenCalledTimes(1);
+  });
+
+  it('builds settings from config with cohort overrides on top', () => {
+    const config = { ...loadConfig(), llmProvider: 'openai' as const, llmModel: 'gpt-test', openaiApiKey: 'sk-openai' };
+
+    expect(providerSettingsFromConfig(config)).toMatchObject({
+      kind: 'openai',
+      apiUrl: config.openaiApiUrl,
+      apiKey: 'sk-openai',
+      model: 'gpt-test',
+      timeoutMs: config.llmTimeoutMs,
+    });
+    expect(providerSettingsFromConfig(config, { provider: 'ollama', model: 'qwen2.5', apiUrl: 'http://gpu:11434' })).toMatchObject({
+      kind: 'ollama',
+      apiUrl: 'http://gpu:11434',
+      apiKey: '',
+      model: 'qwen2.5',
+    });
+    expect(providerSettingsFromConfig(config, { provider: 'frux' })).toMatchObject({
+      kind: 'frux',
+      apiUrl: config.fruxApiUrl,
+      timeoutMs: config.fruxTimeoutMs,
+    });
+  });
+
+  it('keeps the configured key and model to the configured service', () => {
+    const config = { ...loadConfig(), llmProvider: 'openai' as const, llmModel: 'gpt-test', openaiApiKey: 'sk-openai', anthropicApiKey: 'sk-ant' };
+
+    expect(providerSettingsFromConfig(config, { apiUrl: `${config.openaiApiUrl}/` })).toMatchObject({ apiKey: 'sk-openai' });
+    expect(providerSettingsFromConfig(config, { apiUrl: 'https://elsewhere.example/v1' })).toMatchObject({
+      apiUrl: 'https://elsewhere.example/v1',
+      apiKey: '',
+      model: 'gpt-test',
+    });
+    expect(providerSettingsFromConfig(config, { provider: 'anthropic' })).toMatchObject({ apiKey: 'sk-ant', model: '' });
+    expect(createLLMProvider(providerSettingsFromConfig(config, { provider: 'anthropic' })).model).toBe('claude-3-5-haiku-latest');
+  });
+});
@@ -0,0 +1,379 @@
+/**
+ * LLM Providers
+ *
+ * One way to ask each chat service for a completion. FRUX goes through
+ * callFruxLLM; the others share one JSON-over-HTTP loop with the same
+ * timeout, retry and cancellation rules.
+ *
+ * Security:
+ * - Never log API keys
+ */
+
+import type { ProbeConfig } from '../core/config.js';
+import { callFruxLLM, isFruxConfigured } from '../core/frux-llm.js';
+import { parseRetryAfter } from '../core/resilience.js';
+import { FakeProvider } from './fake.js';
+import {
+  LLM_PROVIDER_KINDS,
+  type LLMProvider,
+  type LLMProviderKind,
+  type LLMProviderSettings,
+  type LLMRequest,
+  type LLMResult,
+} from './types.js';
+
+/** Env settings behind a provider, for hints */
+export interface ProviderSettingNames {
+  apiUrl: string;
+  /** null when the provider needs no key */
+  apiKey: string | null;
+  timeout: string;
+}
+
+/** Default model and settings per provider */
+const PROVIDER_INFO: Record<LLMProviderKind, { model: string | null; settings: ProviderSettingNames }> = {
+  frux: {
+    model: null,
+    settings: { apiUrl: 'FRUX_API_URL', apiKey: 'FRUX_API_KEY', timeout: 'FRUX_TIMEOUT_MS' },
+  },
+  openai: {
+    model: 'gpt-4o-mini',
+    settings: { apiUrl: 'OPENAI_BASE_URL', apiKey: 'OPENAI_API_KEY', timeout: 'PROBE_LLM_TIMEOUT_MS' },
+  },
+  anthropic: {
+    model: 'claude-3-5-haiku-latest',
+    settings: { apiUrl: 'ANTHROPIC_BASE_URL', apiKey: 'ANTHROPIC_API_KEY', timeout: 'PROBE_LLM_TIMEOUT_MS' },
+  },
+  ollama: {
+    model: 'llama3.1',
+    settings: { apiUrl: 'OLLAMA_HOST', apiKey: null, timeout: 'PROBE_LLM_TIMEOUT_MS' },
+  },
+  fake: {
+    model: null,
+    settings: { apiUrl: 'PROBE_LLM_SCRIPT', apiKey: null, timeout: 'PROBE_LLM_TIMEOUT_MS' },
+  },
+};
+
+/** Tokens an Anthropic-style answer may use (a decision is a short JSON object) */
+const ANTHROPIC_MAX_TOKENS = 512;
+const ANTHROPIC_VERSION = '2023-06-01';
+
+const DEFAULT_BASE_DELAY_MS = 1000;
+
+export function isLLMProviderKind(value: unknown): value is LLMProviderKind {
+  return typeof value === 'string' && LLM_PROVIDER_KINDS.includes(value as LLMProviderKind);
+}
+
+export function providerSettingNames(kind: LLMProviderKind): ProviderSettingNames {
+  return PROVIDER_INFO[kind].settings;
+}
+
+// ============================================================================
+// HTTP
+// ============================================================================
+
+/** Statuses worth another attempt; other 4xx answers will not change */
+function isRetryable(status: number): boolean {
+  return status === 408 || status === 429 || status >= 500;
+}
+
+/** Value at a path into parsed JSON (["choices", 0, "message"]), undefined when missing */
+function lookup(data: unknown, path: Array<string | number>): unknown {
+  return path.reduce<unknown>(
+    (value, key) => (value !== null && typeof value === 'object' ? (value as Record<string | number, unknown>)[key] : undefined),
+    data
+  );
+}
+
+/**
+ * Sleep that ends early when the signal aborts
+ */
+async function sleep(ms: number, signal: AbortSignal | undefined): Promise<void> {
+  if (signal?.aborted) return;
+  return new Promise((resolve) => {
+    const done = () => {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', done);
+      resolve();
+    };
+    const timer = setTimeout(done, ms);
+    signal?.addEventListener('abort', done, { once: true });
+  });
+}
+
+/**
+ * Full jitter: uniform between 0 and the exponential cap, so probes that
+ * failed together do not retry together
+ */
+function backoff(settings: LLMProviderSettings, retry: number): number {
+  const random = settings.random ?? Math.random;
+  return Math.floor(random() * (settings.baseDelayMs ?? DEFAULT_BASE_DELAY_MS) * Math.pow(2, retry - 1));
+}
+
+/**
+ * POST a JSON body and extract the answer text, with a timeout per attempt
+ * and retries on network errors, 408, 429 and 5xx. Retries wait a jittered
+ * backoff, or as long as a Retry-After header asks.
+ */
+async function postCompletion(
+  settings: LLMProviderSettings,
+  url: string,
+  headers: Record<string, string>,
+  body: unknown,
+  extract: (data: unknown) => unknown
+): Promise<LLMResult> {
+  const fetchFn = settings.fetch ?? fetch;
+  let last: LLMResult = { ok: false, error: 'No attempt made' };
+  let retryAfter: number | null = null;
+
+  for (let attempt = 0; attempt <= settings.maxRetries; attempt++) {
+    if (attempt > 0) await sleep(retryAfter ?? backoff(settings, attempt), settings.signal);
+    if (settings.signal?.aborted) {
+      return { ok: false, error: 'Request cancelled' };
+    }
+    retryAfter = null;
+
+    const controller = new AbortController();
+    const timeout = settings.timeoutMs > 0 ? setTimeout(() => controller.abort(), settings.timeoutMs) : undefined;
+    const cancel = () => controller.abort();
+    settings.signal?.addEventListener('abort', cancel, { once: true });
+
+    try {
+      const response = await fetchFn(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...headers },
+        body: JSON.stringify(body),
+        signal: controller.signal,
+      });
+
+      if (!response.ok) {
+        last = { ok: false, error: `HTTP ${response.status}: ${response.statusText}`, status: response.status };
+        if (!isRetryable(response.status)) return last;
+        retryAfter = parseRetryAfter(response.headers.get('Retry-After'));
+        continue;
+      }
+
+      const text = extract(await response.json());
+      if (typeof text === 'string' && text.trim().length > 0) {
+        return { ok: true, text: text.trim() };
+      }
+      last = { ok: false, error: `Empty response from ${settings.kind}` };
+    } catch (err) {
+      if (settings.signal?.aborted) {
+        return { ok: false, error: 'Request cancelled' };
+      }
+      last = {
+        ok: false,
+        error: err instanceof Error ? (err.name === 'AbortError' ? 'Request timeout' : err.message) : 'Unknown error',
+      };
+    } finally {
+      clearTimeout(timeout);
+      settings.signal?.removeEventListener('abort', cancel);
+    }
+  }
+
+  return last;
+}
+
+function trimUrl(url: string): string {
+  return url.replace(/\/+$/, '');
+}
+
+// ============================================================================
+// PROVIDERS
+// ============================================================================
+
+abstract class HttpProvider implements LLMProvider {
+  abstract readonly kind: LLMProviderKind;
+
+  constructor(protected settings: LLMProviderSettings) {}
+
+  get apiUrl(): string {
+    return trimUrl(this.settings.apiUrl);
+  }
+
+  get model(): string | null {
+    return this.settings.model || PROVIDER_INFO[this.kind].model;
+  }
+
+  unavailableReason(): string | null {
+    const keySetting = PROVIDER_INFO[this.kind].settings.apiKey;
+    return keySetting && !this.settings.apiKey ? `${keySetting} not configured` : null;
+  }
+
+  abstract complete(request: LLMRequest): Promise<LLMResult>;
+}
+
+/**
+ * FRUX Smart API: one combined message, the service picks the model
+ */
+export class FruxProvider extends HttpProvider {
+  readonly kind = 'frux';
+
+  override get model(): string | null {
+    return null;
+  }
+
+  override unavailableReason(): string | null {
+    return isFruxConfigured(this.settings.apiKey) ? null : 'FRUX_API_KEY not configured';
+  }
+
+  async complete(request: LLMRequest): Promise<LLMResult> {
+    const result = await callFruxLLM(`${request.system}\n\n${request.prompt}`, {
+      apiUrl: this.apiUrl,
+      apiKey: this.settings.apiKey,
+      preferLocal: this.settings.preferLocal,
+      timeoutMs: this.settings.timeoutMs,
+      maxRetries: this.settings.maxRetries,
+      fetch: this.settings.fetch,
+      signal: this.settings.signal,
+    });
+    return result.error?.startsWith('Invalid FRUX_API_KEY') ? { ...result, status: 401 } : result;
+  }
+}
+
+/**
+ * OpenAI-compatible chat completions. Works with local servers
+ * (llama.cpp, vLLM, LM Studio) too; the key is optional there.
+ */
+export class OpenAIProvider extends HttpProvider {
+  readonly kind = 'openai';
+
+  override unavailableReason(): string | null {
+    // Only the hosted API insists on a key
+    return this.apiUrl.includes('api.openai.com') ? super.unavailableReason() : null;
+  }
+
+  complete(request: LLMRequest): Promise<LLMResult> {
+    return postCompletion(
+      this.settings,
+      `${this.apiUrl}/chat/completions`,
+      this.settings.apiKey ? { Authorization: `Bearer ${this.settings.apiKey}` } : {},
+      {
+        model: this.model,
+        messages: [
+          { role: 'system', content: request.system },
+          { role: 'user', content: request.prompt },
+        ],
+      },
+      data => lookup(data, ['choices', 0, 'message', 'content'])
+    );
+  }
+}
+
+/**
+ * Anthropic-style messages: the system prompt travels separately
+ */
+export class AnthropicProvider extends HttpProvider {
+  readonly kind = 'anthropic';
+
+  complete(request: LLMRequest): Promise<LLMResult> {
+    return postCompletion(
+      this.settings,
+      `${this.apiUrl}/v1/messages`,
+      { 'x-api-key': this.settings.apiKey, 'anthropic-version': ANTHROPIC_VERSION },
+      {
+        model: this.model,
+        max_tokens: ANTHROPIC_MAX_TOKENS,
+        system: request.system,
+        messages: [{ role: 'user', content: request.prompt }],
+      },
+      (data) => {
+        const content = lookup(data, ['content']);
+        return Array.isArray(content)
+          ? content
+            .filter(block => lookup(block, ['type']) === 'text')
+            .map(block => lookup(block, ['text']))
+            .filter((text): text is string => typeof text === 'string')
+            .join('')
+          : undefined;
+      }
+    );
+  }
+}
+
+/**
+ * Ollama /api/chat on a local server, no key and no external network
+ */
+export class OllamaProvider extends HttpProvider {
+  readonly kind = 'ollama';
+
+  complete(request: LLMRequest): Promise<LLMResult> {
+    return postCompletion(
+      this.settings,
+      `${this.apiUrl}/api/chat`,
+      {},
+      {
+        model: this.model,
+        stream: false,
+        format: 'json',
+        messages: [
+          { role: 'system', content: request.system },
+          { role: 'user', content: request.prompt },
+        ],
+      },
+      data => lookup(data, ['message', 'content'])
+    );
+  }
+}
+
+// ============================================================================
+// FACTORIES
+// ============================================================================
+
+export function createLLMProvider(settings: LLMProviderSettings): LLMProvider {
+  switch (settings.kind) {
+    case 'frux':
+      return new FruxProvider(settings);
+    case 'openai':
+      return new OpenAIProvider(settings);
+    case 'anthropic':
+      return new AnthropicProvider(settings);
+    case 'ollama':
+      return new OllamaProvider(settings);
+    case 'fake':
+      return new FakeProvider(settings);
+  }
+}
+
+/** Cohort params that pick a provider */
+export interface ProviderOverrides {
+  provider?: unknown;
+  model?: unknown;
+  apiUrl?: unknown;
+  script?: unknown;
+}
+
+function sameUrl(a: string, b: string): boolean {
+  return a.replace(/\/+$/, '') === b.replace(/\/+$/, '');
+}
+
+/**
+ * Provider settings from the runner config, with a cohort's provider,
+ * model, URL and script on top. The configured key is only sent to the
+ * configured URL, and the configured model only to the configured provider.
+ */
+export function providerSettingsFromConfig(config: ProbeConfig, overrides: ProviderOverrides = {}): LLMProviderSettings {
+  const kind = isLLMProviderKind(overrides.provider) ? overrides.provider : config.llmProvider;
+  const service = {
+    frux: { apiUrl: config.fruxApiUrl, apiKey: config.fruxApiKey, timeoutMs: config.fruxTimeoutMs },
+    openai: { apiUrl: config.openaiApiUrl, apiKey: config.openaiApiKey, timeoutMs: config.llmTimeoutMs },
+    anthropic: { apiUrl: config.anthropicApiUrl, apiKey: config.anthropicApiKey, timeoutMs: config.llmTimeoutMs },
+    ollama: { apiUrl: config.ollamaApiUrl, apiKey: '', timeoutMs: config.llmTimeoutMs },
+    fake: { apiUrl: '', apiKey: '', timeoutMs: config.llmTimeoutMs },
+  }[kind];
+
+  const apiUrl = typeof overrides.apiUrl === 'string' && overrides.apiUrl ? overrides.apiUrl : service.apiUrl;
+  const model = kind === config.llmProvider ? config.llmModel : '';
+
+  return {
+    kind,
+    ...service,
+    apiUrl,
+    apiKey: sameUrl(apiUrl, service.apiUrl) ? service.apiKey : '',
+    model: typeof overrides.model === 'string' ? overrides.model : model,
+    maxRetries: config.maxRetries,
+    preferLocal: config.fruxPreferLocal,
+    script: typeof overrides.script === 'string' ? overrides.script : config.llmScript,
+  };
+}
@@ -0,0 +1,194 @@
+/**
+ * LLM Script Loader
+ *
+ * Parses JSON/YAML scripts for the fake provider and validates them
+ * with path-based errors, like scenario files.
+ */
+
+import { readFile } from 'node:fs/promises';
+import { extname } from 'node:path';
+
+import type { SchemaIssue } from '../core/schema.js';
+import { parseYaml } from '../core/yaml.js';
+import {
+  SCRIPT_COMPARISONS,
+  SCRIPT_FAILURE_KINDS,
+  type LLMScript,
+  type ScriptComparison,
+  type ScriptFailureKind,
+} from './types.js';
+
+const SCRIPT_FIELDS = ['rules', 'sequence', 'weights', 'latencyMs', 'failures'];
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+function isScalar(value: unknown): boolean {
+  return typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean';
+}
+
+function isNonNegative(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value) && value >= 0;
+}
+
+function validateDecision(value: unknown, path: string): SchemaIssue[] {
+  if (!isObject(value)) return [{ path, message: 'Must be an object' }];
+
+  const errors: SchemaIssue[] = [];
+  if (typeof value.action !== 'string' || value.action.length === 0) {
+    errors.push({ path: `${path}.action`, message: 'Must be a non-empty string' });
+  }
+  if (value.reason !== undefined && typeof value.reason !== 'string') {
+    errors.push({ path: `${path}.reason`, message: 'Must be a string' });
+  }
+  if (value.params !== undefined && !isObject(value.params)) {
+    errors.push({ path: `${path}.params`, message: 'Must be an object' });
+  }
+  return errors;
+}
+
+function validateCondition(value: unknown, path: string): SchemaIssue[] {
+  if (isScalar(value)) return [];
+  if (!isObject(value) || Object.keys(value).length === 0) {
+    return [{ path, message: 'Must be a value or an object of comparisons' }];
+  }
+
+  const errors: SchemaIssue[] = [];
+  for (const [op, operand] of Object.entries(value)) {
+    if (!SCRIPT_COMPARISONS.includes(op as ScriptComparison)) {
+      errors.push({ path: `${path}.${op}`, message: `Unknown comparison (allowed: ${SCRIPT_COMPARISONS.join(', ')})` });
+    } else if (!isScalar(operand)) {
+      errors.push({ path: `${path}.${op}`, message: 'Must be a string, number or boolean' });
+    }
+  }
+  return errors;
+}
+
+/**
+ * Validate script structure
+ */
+export function validateLLMScript(script: unknown): SchemaIssue[] {
+  if (!isObject(script)) return [{ path: '', message: 'Script must be an object' }];
+
+  const errors: SchemaIssue[] = [];
+  for (const key of Object.keys(script)) {
+    if (!SCRIPT_FIELDS.includes(key)) {
+      errors.push({ path: key, message: `Unknown field (allowed: ${SCRIPT_FIELDS.join(', ')})` });
+    }
+  }
+
+  if (script.rules !== undefined) {
+    if (!Array.isArray(script.rules)) {
+      errors.push({ path: 'rules', message: 'Must be an array' });
+    } else {
+      script.rules.forEach((rule: unknown, i) => {
+        const path = `rules[${i}]`;
+        if (!isObject(rule)) {
+          errors.push({ path, message: 'Must be an object' });
+          return;
+        }
+        if (!isObject(rule.when)) {
+          errors.push({ path: `${path}.when`, message: 'Must be an object of context paths' });
+        } else {
+          for (const [field, condition] of Object.entries(rule.when)) {
+            errors.push(...validateCondition(condition, `${path}.when.${field}`));
+          }
+        }
+        errors.push(...validateDecision(rule.decision, `${path}.decision`));
+      });
+    }
+  }
+
+  if (script.sequence !== undefined) {
+    if (!Array.isArray(script.sequence) || script.sequence.length === 0) {
+      errors.push({ path: 'sequence', message: 'Must be a non-empty array' });
+    } else {
+      script.sequence.forEach((decision: unknown, i) => errors.push(...validateDecision(decision, `sequence[${i}]`)));
+    }
+  }
+
+  if (script.weights !== undefined) {
+    if (!isObject(script.weights)) {
+      errors.push({ path: 'weights', message: 'Must be an object of action weights' });
+    } else {
+      for (const [action, weight] of Object.entries(script.weights)) {
+        if (!isNonNegative(weight)) errors.push({ path: `weights.${action}`, message: 'Must be a number >= 0' });
+      }
+      if (!Object.values(script.weights).some(w => isNonNegative(w) && w > 0)) {
+        errors.push({ path: 'weights', message: 'At least one weight must be above 0' });
+      }
+    }
+  }
+
+  const latency = script.latencyMs;
+  if (latency !== undefined && !isNonNegative(latency)) {
+    if (!isObject(latency) || !isNonNegative(latency.min) || !isNonNegative(latency.max) || latency.min > latency.max) {
+      errors.push({ path: 'latencyMs', message: 'Must be a number >= 0 or { min, max } with 0 <= min <= max' });
+    }
+  }
+
+  if (script.failures !== undefined) {
+    if (!Array.isArray(script.failures)) {
+      errors.push({ path: 'failures', message: 'Must be an array' });
+    } else {
+      script.failures.forEach((failure: unknown, i) => {
+        const path = `failures[${i}]`;
+        if (!isObject(failure)) {
+          errors.push({ path, message: 'Must be an object' });
+          return;
+        }
+        if (!SCRIPT_FAILURE_KINDS.includes(failure.kind as ScriptFailureKind)) {
+          errors.push({ path: `${path}.kind`, message: `Must be one of: ${SCRIPT_FAILURE_KINDS.join(', ')}` });
+        }
+        if (failure.calls === undefined && failure.every === undefined && failure.rate === undefined) {
+          errors.push({ path, message: 'Needs calls, every or rate' });
+        }
+        if (failure.calls !== undefined
+          && (!Array.isArray(failure.calls) || !failure.calls.every(c => Number.isInteger(c) && c >= 1))) {
+          errors.push({ path: `${path}.calls`, message: 'Must be an array of call numbers (1-based)' });
+        }
+        if (failure.every !== undefined && !(Number.isInteger(failure.every) && (failure.every as number) >= 1)) {
+          errors.push({ path: `${path}.every`, message: 'Must be an integer >= 1' });
+        }
+        if (failure.rate !== undefined && !(isNonNegative(failure.rate) && failure.rate <= 1)) {
+          errors.push({ path: `${path}.rate`, message: 'Must be between 0 and 1' });
+        }
+      });
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Parse and validate a script document
+ */
+export function parseLLMScript(
+  text: string,
+  format: 'json' | 'yaml'
+): { script?: LLMScript; errors: SchemaIssue[] } {
+  let parsed: unknown;
+  try {
+    parsed = format === 'yaml' ? parseYaml(text) : JSON.parse(text);
+  } catch (e) {
+    return { errors: [{ path: '', message: `Invalid ${format.toUpperCase()}: ${(e as Error).message}` }] };
+  }
+
+  const errors = validateLLMScript(parsed);
+  return errors.length > 0 ? { errors } : { script: parsed as LLMScript, errors };
+}
+
+/**
+ * Read and validate a script file (.yaml/.yml, otherwise JSON)
+ */
+export async function loadLLMScript(path: string): Promise<{ script?: LLMScript; errors: SchemaIssue[] }> {
+  let text: string;
+  try {
+    text = await readFile(path, 'utf8');
+  } catch (e) {
+    return { errors: [{ path: '', message: `Cannot read ${path}: ${(e as Error).message}` }] };
+  }
+  const ext = extname(path).toLowerCase();
+  return parseLLMScript(text, ext === '.yaml' || ext === '.yml' ? 'yaml' : 'json');
+}
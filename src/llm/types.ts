@@ -0,0 +1,133 @@
+/**
+ * LLM Provider Types
+ */
+
+/**
+ * Chat services an LLM probe can ask:
+ * - frux: FRUX Smart API (/api/v1/smart/chat)
+ * - openai: OpenAI-compatible chat completions (OpenAI, llama.cpp server, vLLM, ...)
+ * - anthropic: Anthropic-style messages
+ * - ollama: Ollama /api/chat on a local server
+ * - fake: answers from a script in-process (offline runs, CI)
+ */
+export type LLMProviderKind = 'frux' | 'openai' | 'anthropic' | 'ollama' | 'fake';
+
+export const LLM_PROVIDER_KINDS: readonly LLMProviderKind[] = ['frux', 'openai', 'anthropic', 'ollama', 'fake'];
+
+export interface LLMRequest {
+  /** Instructions (the action menu and response schema) */
+  system: string;
+  /** The decision context */
+  prompt: string;
+  /** The same context as data, for providers that do not read text (fake) */
+  context?: unknown;
+  /** What the answer is for (default: decision) */
+  purpose?: 'decision' | 'reflection';
+}
+
+export interface LLMResult {
+  ok: boolean;
+  text?: string;
+  error?: string;
+  /** HTTP status of the last failed attempt, when there was one */
+  status?: number;
+}
+
+export interface LLMProviderSettings {
+  kind: LLMProviderKind;
+  /** Base URL of the service */
+  apiUrl: string;
+  /** API key ('' = none, fine for local servers) - NEVER LOG THIS */
+  apiKey: string;
+  /** Model name ('' = the provider's default) */
+  model: string;
+  /** Timeout per attempt in ms */
+  timeoutMs: number;
+  /** Retries after a failed attempt */
+  maxRetries: number;
+  /** Backoff cap before the first retry in ms, doubled per retry (default 1000) */
+  baseDelayMs?: number;
+  /** Random source for backoff jitter, in [0, 1) */
+  random?: () => number;
+  /** Let FRUX route to a local model (FRUX only) */
+  preferLocal: boolean;
+  /** Script file to answer from (fake only, '' = random policy) */
+  script?: string;
+  /** Seed for random choices (fake only) */
+  seed?: number;
+  /** Fetch implementation (defaults to global fetch, e.g. cassette replay) */
+  fetch?: typeof fetch;
+  /** Cancels the call, retries included (e.g. on shutdown) */
+  signal?: AbortSignal;
+}
+
+export interface LLMProvider {
+  readonly kind: LLMProviderKind;
+  /** Model asked for, or null when the service picks (FRUX) */
+  readonly model: string | null;
+  readonly apiUrl: string;
+  /** Why calls cannot succeed (e.g. a missing key), or null */
+  unavailableReason(): string | null;
+  complete(request: LLMRequest): Promise<LLMResult>;
+}
+
+// ============================================================================
+// SCRIPTS (fake provider)
+// ============================================================================
+
+/** A decision as the fake provider answers it; the probe validates it like any answer */
+export interface ScriptedDecision {
+  action: string;
+  reason?: string;
+  params?: Record<string, unknown>;
+}
+
+export type ScriptComparison = 'eq' | 'ne' | 'lt' | 'lte' | 'gt' | 'gte';
+
+export const SCRIPT_COMPARISONS: readonly ScriptComparison[] = ['eq', 'ne', 'lt', 'lte', 'gt', 'gte'];
+
+/** Expected value, or comparisons that must all hold */
+export type ScriptCondition = string | number | boolean | Partial<Record<ScriptComparison, string | number | boolean>>;
+
+export interface ScriptRule {
+  /** Context paths (e.g. "agent.energy", "jointAffordances.length") and their conditions */
+  when: Record<string, ScriptCondition>;
+  decision: ScriptedDecision;
+}
+
+/**
+ * Injected failures:
+ * - timeout: waits the provider timeout, then fails like a timed-out request
+ * - malformed: answers text that is not JSON
+ * - empty: answers nothing
+ * - unauthorized: HTTP 401
+ * - server_error: HTTP 500
+ */
+export type ScriptFailureKind = 'timeout' | 'malformed' | 'empty' | 'unauthorized' | 'server_error';
+
+export const SCRIPT_FAILURE_KINDS: readonly ScriptFailureKind[] = ['timeout', 'malformed', 'empty', 'unauthorized', 'server_error'];
+
+export interface ScriptFailure {
+  kind: ScriptFailureKind;
+  /** Fail these calls (1-based) */
+  calls?: number[];
+  /** Fail every Nth call */
+  every?: number;
+  /** Fail this fraction of calls (seeded) */
+  rate?: number;
+}
+
+/**
+ * What the fake provider answers. Per call: the first matching failure,
+ * else the first matching rule, else the next sequence entry (cycling),
+ * else a seeded pick by weight.
+ */
+export interface LLMScript {
+  rules?: ScriptRule[];
+  sequence?: ScriptedDecision[];
+  /** Relative weight per action for the random policy */
+  weights?: Record<string, number>;
+  /** Delay per call, fixed or a seeded pick from a range */
+  latencyMs?: number | { min: number; max: number };
+  failures?: ScriptFailure[];
+}
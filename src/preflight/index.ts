@@ -0,0 +1,17 @@
+/**
+ * Preflight Module
+ *
+ * Health, quote, LLM provider and config checks run before any agent registers,
+ * by the runner and by `probes doctor`.
+ */
+
+export type {
+  CheckStatus,
+  PreflightCheck,
+  PreflightReport,
+  PreflightOptions,
+} from './types.js';
+
+export { CHECK_STATUSES } from './types.js';
+
+export { runPreflight, renderPreflight, PREFLIGHT_DID } from './preflight.js';
@@ -0,0 +1,183 @@
+/**
+ * Preflight Tests
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { runPreflight, renderPreflight, PREFLIGHT_DID } from './preflight.js';
+import { loadConfig, type ProbeConfig } from '../core/config.js';
+import { captureLogs, resetLogger } from '../core/logger.js';
+import { createSimulatedHabitat, createSimulatorFetch } from '../simulator/index.js';
+
+function jsonResponse(status: number, body: unknown): Response {
+  return new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+}
+
+function baseConfig(overrides: Partial<ProbeConfig> = {}): ProbeConfig {
+  return {
+    ...loadConfig(),
+    scenario: '',
+    qsCount: 2,
+    cbcCount: 1,
+    japCount: 0,
+    llmCount: 0,
+    extraCounts: {},
+    fruxApiKey: '',
+    maxRetries: 0,
+    ...overrides,
+  };
+}
+
+function statuses(report: Awaited<ReturnType<typeof runPreflight>>): Record<string, string> {
+  return Object.fromEntries(report.checks.map(c => [c.name, c.status]));
+}
+
+beforeEach(() => {
+  captureLogs();
+});
+
+afterEach(() => {
+  resetLogger();
+});
+
+describe('runPreflight', () => {
+  it('passes against the simulator without registering anyone', async () => {
+    const habitat = createSimulatedHabitat({ seed: 1 });
+    const report = await runPreflight({ config: baseConfig(), fetch: createSimulatorFetch(habitat) });
+
+    expect(report.ok).toBe(true);
+    expect(statuses(report)).toEqual({
+      config: 'pass',
+      scenario: 'pass',
+      core_health: 'pass',
+      perception_health: 'pass',
+      quote: 'pass',
+      llm: 'skip',
+    });
+    expect(report.counts).toEqual({ pass: 5, warn: 0, fail: 0, skip: 1 });
+    expect(habitat.getStats().agents).toBe(0);
+  });
+
+  it('fails unreachable habitats with a hint and skips the quote', async () => {
+    const fetchFn = vi.fn(async () => {
+      throw new TypeError('fetch failed');
+    }) as unknown as typeof fetch;
+
+    const report = await runPreflight({ config: baseConfig(), fetch: fetchFn });
+
+    expect(report.ok).toBe(false);
+    expect(statuses(report)).toMatchObject({ core_health: 'fail', perception_health: 'fail', quote: 'skip' });
+    const core = report.checks.find(c => c.name === 'core_health')!;
+    expect(core.message).toContain('NETWORK_ERROR');
+    expect(core.hint).toContain('HABITAT_CORE_URL');
+  });
+
+  it('fails a quote the habitat cannot parse', async () => {
+    const fetchFn = vi.fn(async (input: string | URL | Request) => String(input).endsWith('/health')
+      ? jsonResponse(200, { status: 'ok' })
+      : jsonResponse(400, { error: 'invalid_trace_draft' })) as unknown as typeof fetch;
+
+    const report = await runPreflight({ config: baseConfig(), fetch: fetchFn });
+
+    expect(report.ok).toBe(false);
+    const quote = report.checks.find(c => c.name === 'quote')!;
+    expect(quote).toMatchObject({ status: 'fail', message: 'Quote: BAD_REQUEST (HTTP 400): invalid_trace_draft' });
+    const [, init] = (fetchFn as unknown as ReturnType<typeof vi.fn>).mock.calls.at(-1)!;
+    expect(JSON.parse((init as RequestInit).body as string).did).toBe(PREFLIGHT_DID);
+  });
+
+  it('reports inconsistent config and skips the network', async () => {
+    const fetchFn = vi.fn() as unknown as typeof fetch;
+    const report = await runPreflight({
+      config: baseConfig({ coreApiUrl: 'localhost:9670', httpBurst: 5, httpRateLimit: 0, adminPort: 9465, adminHost: '0.0.0.0' }),
+      fetch: fetchFn,
+    });
+
+    expect(report.ok).toBe(false);
+    expect(report.checks.filter(c => c.name === 'config').map(c => c.status)).toEqual(['fail', 'warn', 'warn']);
+    expect(report.checks.filter(c => c.status === 'skip')).toHaveLength(4);
+    expect(fetchFn).not.toHaveBeenCalled();
+    expect(renderPreflight(report)).toContain('Not ready');
+  });
+
+  it('checks the FRUX key only when LLM agents are requested', async () => {
+    const habitatFetch = createSimulatorFetch(createSimulatedHabitat({ seed: 1 }));
+    const fruxFetch = vi.fn(async () => new Response('', { status: 401, statusText: 'Unauthorized' })) as unknown as typeof fetch;
+
+    const missing = await runPreflight({ config: baseConfig({ llmCount: 1 }), fetch: habitatFetch, externalFetch: fruxFetch });
+    expect(missing.ok).toBe(true);
+    expect(statuses(missing).llm).toBe('warn');
+
+    const rejected = await runPreflight({
+      config: baseConfig({ llmCount: 1, fruxApiKey: 'sk-bad-key-123456' }),
+      fetch: habitatFetch,
+      externalFetch: fruxFetch,
+    });
+    expect(rejected.ok).toBe(false);
+    expect(rejected.checks.find(c => c.name === 'llm')).toMatchObject({ status: 'fail', hint: 'Check FRUX_API_KEY' });
+    expect(fruxFetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('checks each provider the LLM cohorts use', async () => {
+    const habitatFetch = createSimulatorFetch(createSimulatedHabitat({ seed: 1 }));
+    const ollamaFetch = vi.fn(async () => jsonResponse(200, { message: { content: '{"ok":true}' } })) as unknown as typeof fetch;
+
+    const report = await runPreflight({
+      config: baseConfig({ llmProvider: 'ollama', anthropicApiKey: '' }),
+      scenario: {
+        name: 'providers',
+        cohorts: [
+          { name: 'local', archetype: 'LLM', count: 1 },
+          { name: 'hosted', archetype: 'LLM', count: 1, params: { provider: 'anthropic' } },
+        ],
+      },
+      fetch: habitatFetch,
+      externalFetch: ollamaFetch,
+    });
+
+    const llm = report.checks.filter(c => c.name === 'llm');
+    expect(llm.map(c => c.status)).toEqual(['pass', 'warn']);
+    expect(llm[1]!.hint).toBe('Set ANTHROPIC_API_KEY, or remove the LLM cohorts');
+    expect(ollamaFetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('validates the prompt templates LLM cohorts load before the network checks', async () => {
+    const fetchFn = vi.fn() as unknown as typeof fetch;
+    const report = await runPreflight({
+      config: baseConfig({ llmPrompt: 'examples/prompts/terse.md' }),
+      scenario: {
+        name: 'prompts',
+        cohorts: [
+          { name: 'terse', archetype: 'LLM', count: 1 },
+          { name: 'broken', archetype: 'LLM', count: 1, params: { prompt: 'examples/prompts/missing.md' } },
+          { name: 'builtin', archetype: 'LLM', count: 1, params: { prompt: '' } },
+        ],
+      },
+      fetch: fetchFn,
+    });
+
+    const prompts = report.checks.filter(c => c.name === 'prompt');
+    expect(prompts.map(c => c.status)).toEqual(['pass', 'fail']);
+    expect(prompts[0]!.message).toBe('Prompt template terse@2 (examples/prompts/terse.md) is valid');
+    expect(prompts[1]!.message).toMatch(/^Invalid prompt template examples\/prompts\/missing\.md: <root>: Cannot read/);
+    expect(statuses(report).llm).toBe('skip');
+    expect(fetchFn).not.toHaveBeenCalled();
+  });
+
+  it('fails a template without {{planning}} that a planning cohort loads', async () => {
+    const prompt = join(mkdtempSync(join(tmpdir(), 'preflight-')), 'flat.md');
+    writeFileSync(prompt, '---\nname: flat\nversion: 1\n---\n[[system]]\n{{schema}}\n[[user]]\n{{context}}\n');
+    const check = async (planning: boolean) => (await runPreflight({
+      config: baseConfig({ llmPrompt: prompt, llmPlanning: planning }),
+      scenario: { name: 'plans', cohorts: [{ name: 'llm', archetype: 'LLM', count: 1 }] },
+      fetch: vi.fn() as unknown as typeof fetch,
+    })).checks.find(c => c.name === 'prompt')!;
+
+    expect((await check(false)).status).toBe('pass');
+    const planning = await check(true);
+    expect(planning.status).toBe('fail');
+    expect(planning.message).toBe(`Invalid prompt template ${prompt}: system: Must include {{planning}} (here or in user) when planning is on`);
+  });
+});
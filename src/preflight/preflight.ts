@@ -0,0 +1,399 @@
+/**
+ * Preflight Checks
+ *
+ * Everything that can be verified before the runner mints a DID:
+ * - config: valid, consistent settings (URLs, ranges, options that cancel out)
+ * - scenario: loads, and every cohort's archetype is registered
+ * - prompt: each prompt template file LLM cohorts use loads and validates
+ * - core_health / perception_health: GET /health on both APIs
+ * - quote: a quote round-trip with a placeholder DID (no agent is created)
+ * - llm: reachability and key validity of each provider LLM cohorts use
+ *
+ * Checks never throw; every problem becomes a check with a hint.
+ */
+
+import type { ProbeConfig, ConfigIssue } from '../core/config.js';
+import { createHttpClient } from '../core/http.js';
+import { createHabitatClient, type HabitatClient, type HabitatError } from '../core/habitat-client.js';
+import { createLLMProvider, providerSettingNames, providerSettingsFromConfig, type LLMProvider } from '../llm/index.js';
+import { generateCreateDraft } from '../core/pyramid.js';
+import { SeededRNG } from '../core/rng.js';
+import { listArchetypes } from '../archetypes/registry.js';
+import { loadPromptTemplate, promptVersion, validatePlanningTemplate } from '../archetypes/llm-prompts.js';
+import { loadScenarioFile, scenarioFromConfig } from '../scenario/loader.js';
+import type { Scenario } from '../scenario/types.js';
+import {
+  CHECK_STATUSES,
+  type CheckStatus,
+  type PreflightCheck,
+  type PreflightOptions,
+  type PreflightReport,
+} from './types.js';
+
+/** Quoted by the dry run; the habitat is expected not to know it */
+export const PREFLIGHT_DID = 'agent:0xpreflight';
+
+type CheckResult = Omit<PreflightCheck, 'name' | 'durationMs'>;
+
+async function timed(name: string, run: () => Promise<CheckResult> | CheckResult): Promise<PreflightCheck> {
+  const started = performance.now();
+  let result: CheckResult;
+  try {
+    result = await run();
+  } catch (error) {
+    result = { status: 'fail', message: error instanceof Error ? error.message : String(error) };
+  }
+  return { name, ...result, durationMs: Math.round(performance.now() - started) };
+}
+
+function skipped(name: string, message: string): PreflightCheck {
+  return { name, status: 'skip', message, durationMs: 0 };
+}
+
+function describeError(error: HabitatError): string {
+  return error.status > 0 ? `${error.code} (HTTP ${error.status}): ${error.message}` : `${error.code}: ${error.message}`;
+}
+
+// ============================================================================
+// CONFIG
+// ============================================================================
+
+function isHttpUrl(value: string): boolean {
+  try {
+    const url = new URL(value);
+    return url.protocol === 'http:' || url.protocol === 'https:';
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Settings that make the run fail or silently do nothing
+ */
+function checkConfig(config: ProbeConfig, configIssues: ConfigIssue[]): CheckResult[] {
+  const issues: CheckResult[] = configIssues.map(issue => ({
+    status: 'fail',
+    message: issue.message,
+    hint: issue.source === 'file' ? 'Fix the config file' : 'Run `probes config print` to see where each value comes from',
+  }));
+
+  for (const [name, url] of [['HABITAT_CORE_URL', config.coreApiUrl], ['HABITAT_PERCEPTION_URL', config.perceptionApiUrl]]) {
+    if (!isHttpUrl(url!)) {
+      issues.push({ status: 'fail', message: `${name} is not an http(s) URL: "${url}"`, hint: `Set ${name}, e.g. http://localhost:9670` });
+    }
+  }
+
+  if (config.record && config.replay) {
+    issues.push({ status: 'fail', message: 'Both --record and --replay are set', hint: 'Record a cassette first, then replay it in a separate run' });
+  }
+
+  const ranges: Array<[name: string, value: number]> = [
+    ['PROBE_TICK_INTERVAL_MS', config.tickIntervalMs],
+    ['PROBE_MAX_RETRIES', config.maxRetries],
+    ['PROBE_HTTP_TIMEOUT_MS', config.httpTimeoutMs],
+    ['PROBE_CIRCUIT_COOLDOWN_MS', config.circuitCooldownMs],
+    ['PROBE_SHUTDOWN_TIMEOUT_MS', config.shutdownTimeoutMs],
+  ];
+  for (const [name, value] of ranges) {
+    if (!(value >= 0)) {
+      issues.push({ status: 'fail', message: `${name} must be a non-negative number (got ${value})`, hint: `Fix ${name} or drop it to use the default` });
+    }
+  }
+
+  if (config.httpBurst > 0 && config.httpRateLimit <= 0) {
+    issues.push({ status: 'warn', message: 'PROBE_HTTP_BURST has no effect without PROBE_HTTP_RATE_LIMIT', hint: 'Set PROBE_HTTP_RATE_LIMIT or drop PROBE_HTTP_BURST' });
+  }
+
+  if (Object.keys(config.cadenceMs).length > 0 && config.schedulerMode !== 'async') {
+    issues.push({ status: 'warn', message: 'PROBE_CADENCE only applies to the async scheduler', hint: 'Add --scheduler async, or drop PROBE_CADENCE' });
+  }
+
+  if (config.schedulerMode === 'async' && (config.record || config.replay)) {
+    issues.push({ status: 'warn', message: 'Record and replay always run in lockstep; the async scheduler is ignored' });
+  }
+
+  const loopback = ['127.0.0.1', '::1', 'localhost'].includes(config.adminHost);
+  if (config.adminPort > 0 && !loopback && !config.adminToken) {
+    issues.push({ status: 'warn', message: `The admin API listens on ${config.adminHost} without a token`, hint: 'Set PROBE_ADMIN_TOKEN' });
+  }
+
+  return issues.length > 0 ? issues : [{ status: 'pass', message: 'Settings are consistent' }];
+}
+
+// ============================================================================
+// SCENARIO
+// ============================================================================
+
+async function resolveScenario(config: ProbeConfig, known: string[]): Promise<Scenario | string> {
+  if (!config.scenario) return scenarioFromConfig(config);
+
+  const { scenario, validation } = await loadScenarioFile(config.scenario, { knownArchetypes: known });
+  if (scenario) return scenario;
+  return validation.errors.map(e => `${e.path || '<root>'}: ${e.message}`).join('; ');
+}
+
+function checkScenario(scenario: Scenario, known: string[]): CheckResult {
+  const cohorts = scenario.cohorts.filter(c => c.count > 0);
+  const agents = cohorts.reduce((sum, c) => sum + c.count, 0);
+  if (agents === 0) {
+    return { status: 'fail', message: `Scenario "${scenario.name}" requests no agents`, hint: 'Set agent counts (e.g. PROBE_QS_COUNT) or fix the scenario cohorts' };
+  }
+
+  const unknown = cohorts.filter(c => !known.includes(c.archetype));
+  if (unknown.length > 0) {
+    return {
+      status: 'warn',
+      message: `Unregistered archetypes will be skipped: ${unknown.map(c => `${c.name} (${c.archetype})`).join(', ')}`,
+      hint: 'Load the archetype plugin with --plugin <module>',
+    };
+  }
+
+  return { status: 'pass', message: `Scenario "${scenario.name}": ${agents} agents in ${cohorts.length} cohorts` };
+}
+
+// ============================================================================
+// PROMPTS
+// ============================================================================
+
+/**
+ * Template files the scenario's LLM cohorts would load: their `prompt`
+ * param (resolved by the scenario loader) or PROBE_LLM_PROMPT, each with
+ * whether a cohort using it plans
+ */
+function promptFiles(config: ProbeConfig, scenario: Scenario): Map<string, boolean> {
+  const files = new Map<string, boolean>();
+  for (const cohort of scenario.cohorts) {
+    if (cohort.archetype !== 'LLM' || cohort.count <= 0) continue;
+    const prompt = typeof cohort.params?.prompt === 'string' ? cohort.params.prompt : config.llmPrompt;
+    const planning = typeof cohort.params?.planning === 'boolean' ? cohort.params.planning : config.llmPlanning;
+    if (prompt) files.set(prompt, (files.get(prompt) ?? false) || planning);
+  }
+  return files;
+}
+
+async function checkPrompt(path: string, planning: boolean): Promise<CheckResult> {
+  const loaded = await loadPromptTemplate(path);
+  const { template } = loaded;
+  const errors = template && planning ? validatePlanningTemplate(template) : loaded.errors;
+  if (template && errors.length === 0) {
+    return { status: 'pass', message: `Prompt template ${promptVersion(template)} (${path}) is valid` };
+  }
+  return {
+    status: 'fail',
+    message: `Invalid prompt template ${path}: ${errors.map(e => `${e.path || '<root>'}: ${e.message}`).join('; ')}`,
+    hint: 'Fix the template; examples/prompts/default.md shows the format',
+  };
+}
+
+// ============================================================================
+// HABITAT
+// ============================================================================
+
+function unreachableHint(config: ProbeConfig, variable: string): string {
+  return config.simulate
+    ? 'The simulator should always answer; this is a bug in the kit'
+    : `Is the habitat running? Check ${variable}, or run offline with --simulate`;
+}
+
+async function checkHealth(
+  habitat: HabitatClient,
+  config: ProbeConfig,
+  service: 'core' | 'perception'
+): Promise<CheckResult> {
+  const url = service === 'core' ? config.coreApiUrl : config.perceptionApiUrl;
+  const variable = service === 'core' ? 'HABITAT_CORE_URL' : 'HABITAT_PERCEPTION_URL';
+  const result = await habitat.health(service);
+
+  if (!result.ok) {
+    return {
+      status: 'fail',
+      message: `${url}/health: ${describeError(result.error)}`,
+      hint: result.error.status >= 400 && result.error.status < 500
+        ? `${variable} answers but has no /health endpoint; is it the ${service} API?`
+        : unreachableHint(config, variable),
+    };
+  }
+  if (result.data.status !== 'ok') {
+    return { status: 'warn', message: `${url}/health reports status "${result.data.status}"`, hint: 'Agents may fail until the habitat is healthy' };
+  }
+  return { status: 'pass', message: `${url} is healthy` };
+}
+
+async function checkQuote(habitat: HabitatClient, config: ProbeConfig): Promise<CheckResult> {
+  const draft = generateCreateDraft(new SeededRNG(config.baseSeed), {});
+  const result = await habitat.quote(PREFLIGHT_DID, 'CREATE_TRACE', draft);
+
+  if (result.ok) {
+    return { status: 'pass', message: `Quote round-trip ok (cost ${result.data.cost})` };
+  }
+
+  const { error } = result;
+  switch (error.code) {
+    case 'NOT_FOUND':
+      // The habitat parsed the request and looked the agent up
+      return { status: 'pass', message: 'Quote round-trip ok (placeholder DID rejected as expected)' };
+    case 'BAD_REQUEST':
+    case 'INVALID_RESPONSE':
+      return {
+        status: 'fail',
+        message: `Quote: ${describeError(error)}`,
+        hint: 'The habitat and this kit disagree on the quote format; check the habitat version',
+      };
+    case 'UNAUTHORIZED':
+      return { status: 'fail', message: `Quote: ${describeError(error)}`, hint: 'The Core API requires credentials the kit does not send' };
+    default:
+      return { status: 'fail', message: `Quote: ${describeError(error)}`, hint: unreachableHint(config, 'HABITAT_CORE_URL') };
+  }
+}
+
+// ============================================================================
+// LLM
+// ============================================================================
+
+/**
+ * Providers the scenario's LLM cohorts would ask, one per distinct
+ * service, URL and model
+ */
+function llmProviders(config: ProbeConfig, scenario: Scenario, fetchFn: typeof fetch | undefined): LLMProvider[] {
+  const providers = new Map<string, LLMProvider>();
+  for (const cohort of scenario.cohorts) {
+    if (cohort.archetype !== 'LLM' || cohort.count <= 0) continue;
+    // One attempt: preflight reports, it does not wait out retries
+    const provider = createLLMProvider({
+      ...providerSettingsFromConfig({ ...config, maxRetries: 0 }, cohort.params),
+      fetch: fetchFn,
+    });
+    providers.set(`${provider.kind} ${provider.apiUrl} ${provider.model}`, provider);
+  }
+  return [...providers.values()];
+}
+
+async function checkLLM(provider: LLMProvider): Promise<CheckResult> {
+  const names = providerSettingNames(provider.kind);
+  const label = provider.model ? `${provider.kind} (${provider.model})` : provider.kind;
+
+  const unavailable = provider.unavailableReason();
+  if (unavailable) {
+    return {
+      status: 'warn',
+      message: `LLM agents use ${label} but ${unavailable}; they will be skipped`,
+      hint: `Set ${names.apiKey ?? names.apiUrl}, or remove the LLM cohorts`,
+    };
+  }
+
+  const result = await provider.complete({ system: 'You are a health check.', prompt: 'Reply with {"ok":true}' });
+
+  if (result.ok) return { status: 'pass', message: `${label} at ${provider.apiUrl} answered` };
+  if (result.status === 401 || result.status === 403) {
+    return {
+      status: 'fail',
+      message: `${label} rejected the API key (${result.status})`,
+      hint: `Check ${names.apiKey ?? names.apiUrl}`,
+    };
+  }
+  if (result.error?.startsWith('Empty response')) {
+    return { status: 'warn', message: `${label} answered with an empty response`, hint: 'LLM agents may stay silent' };
+  }
+  return {
+    status: 'fail',
+    message: `${label} at ${provider.apiUrl}: ${result.error ?? 'unknown error'}`,
+    hint: `Check ${names.apiUrl}${provider.model ? ' and the model name' : ''} and network access, or raise ${names.timeout}`,
+  };
+}
+
+// ============================================================================
+// PREFLIGHT
+// ============================================================================
+
+/**
+ * Run every check in order. Network checks are skipped when the
+ * configuration or scenario already failed.
+ */
+export async function runPreflight(options: PreflightOptions): Promise<PreflightReport> {
+  const { config } = options;
+  const checks: PreflightCheck[] = [];
+  const known = listArchetypes().map(d => d.code);
+
+  const started = performance.now();
+  for (const issue of checkConfig(config, options.configIssues ?? [])) {
+    checks.push({ name: 'config', ...issue, durationMs: Math.round(performance.now() - started) });
+  }
+
+  let scenario: Scenario | null = null;
+  checks.push(await timed('scenario', async () => {
+    const resolved = options.scenario ?? await resolveScenario(config, known);
+    if (typeof resolved === 'string') {
+      return { status: 'fail', message: `Invalid scenario ${config.scenario}: ${resolved}`, hint: 'Fix the scenario file' };
+    }
+    scenario = resolved;
+    return checkScenario(resolved, known);
+  }));
+
+  for (const [path, planning] of scenario ? promptFiles(config, scenario) : []) {
+    checks.push(await timed('prompt', () => checkPrompt(path, planning)));
+  }
+
+  const offline = options.offlineReason
+    ?? (checks.some(c => c.status === 'fail') ? 'Fix the failures above first' : undefined);
+  const networkChecks = ['core_health', 'perception_health', 'quote', 'llm'];
+  if (offline) {
+    checks.push(...networkChecks.map(name => skipped(name, offline)));
+    return report(checks);
+  }
+
+  const http = (baseUrl: string) => createHttpClient({
+    baseUrl,
+    maxRetries: 0,
+    timeoutMs: config.httpTimeoutMs,
+    fetch: options.fetch,
+  });
+  const habitat = createHabitatClient({ core: http(config.coreApiUrl), perception: http(config.perceptionApiUrl) });
+
+  const core = await timed('core_health', () => checkHealth(habitat, config, 'core'));
+  checks.push(core);
+  checks.push(await timed('perception_health', () => checkHealth(habitat, config, 'perception')));
+  checks.push(core.status === 'fail'
+    ? skipped('quote', 'Core is not reachable')
+    : await timed('quote', () => checkQuote(habitat, config)));
+
+  const providers = scenario ? llmProviders(config, scenario, options.externalFetch) : [];
+  for (const provider of providers) {
+    checks.push(await timed('llm', () => checkLLM(provider)));
+  }
+  if (providers.length === 0) checks.push(skipped('llm', 'No LLM agents requested'));
+
+  return report(checks);
+}
+
+function report(checks: PreflightCheck[]): PreflightReport {
+  const counts = Object.fromEntries(CHECK_STATUSES.map(s => [s, 0])) as Record<CheckStatus, number>;
+  for (const check of checks) counts[check.status]++;
+  return { ok: counts.fail === 0, checks, counts };
+}
+
+// ============================================================================
+// REPORT
+// ============================================================================
+
+const STATUS_LABELS: Record<CheckStatus, string> = {
+  pass: 'PASS',
+  warn: 'WARN',
+  fail: 'FAIL',
+  skip: 'SKIP',
+};
+
+/**
+ * Plain-text report, one line per check with its hint below
+ */
+export function renderPreflight(report: PreflightReport): string {
+  const width = Math.max(...report.checks.map(c => c.name.length));
+  const lines = ['Preflight', ''];
+  for (const check of report.checks) {
+    lines.push(`  ${STATUS_LABELS[check.status]}  ${check.name.padEnd(width)}  ${check.message}`);
+    if (check.hint) lines.push(`        ${''.padEnd(width)}  -> ${check.hint}`);
+  }
+  const { pass, warn, fail, skip } = report.counts;
+  lines.push('', `${pass} passed, ${warn} warnings, ${fail} failed, ${skip} skipped`);
+  lines.push(report.ok ? 'Ready to run.' : 'Not ready: fix the failures above before registering agents.', '');
+  return lines.join('\n');
+}
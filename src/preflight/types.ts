@@ -0,0 +1,48 @@
+/**
+ * Preflight Types
+ */
+
+import type { ProbeConfig, ConfigIssue } from '../core/config.js';
+import type { Scenario } from '../scenario/types.js';
+
+/**
+ * Check outcome:
+ * - pass: ready
+ * - warn: the run works, but not as configured (e.g. LLM agents skipped)
+ * - fail: the run would fail or mint DIDs for nothing
+ * - skip: not applicable (e.g. LLM providers without LLM agents, network on replay)
+ */
+export type CheckStatus = 'pass' | 'warn' | 'fail' | 'skip';
+
+export const CHECK_STATUSES: readonly CheckStatus[] = ['pass', 'warn', 'fail', 'skip'];
+
+export interface PreflightCheck {
+  /** Check name, e.g. "core_health" */
+  name: string;
+  status: CheckStatus;
+  message: string;
+  /** What to do about a warning or failure */
+  hint?: string;
+  durationMs: number;
+}
+
+export interface PreflightReport {
+  /** No check failed */
+  ok: boolean;
+  checks: PreflightCheck[];
+  counts: Record<CheckStatus, number>;
+}
+
+export interface PreflightOptions {
+  config: ProbeConfig;
+  /** Problems found while resolving the config, reported as failed config checks */
+  configIssues?: ConfigIssue[];
+  /** Resolved scenario (loaded from config.scenario when omitted) */
+  scenario?: Scenario;
+  /** Fetch for Core and Perception (e.g. simulator); defaults to global fetch */
+  fetch?: typeof fetch;
+  /** Fetch for LLM providers; defaults to global fetch */
+  externalFetch?: typeof fetch;
+  /** Skip every network check with this reason (e.g. replaying a cassette) */
+  offlineReason?: string;
+}
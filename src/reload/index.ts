@@ -0,0 +1,20 @@
+/**
+ * Reload Module
+ *
+ * Apply config and scenario changes to a running population:
+ * plan what changed, and watch the files it came from.
+ */
+
+export type {
+  ReloadTrigger,
+  ReloadInput,
+  SettingChange,
+  CohortChange,
+  ReloadPlan,
+} from './types.js';
+
+export { LIVE_SETTINGS } from './types.js';
+
+export { planReload, isEmptyPlan } from './plan.js';
+
+export { watchFiles, type FileWatcher, type FileWatcherOptions } from './watcher.js';
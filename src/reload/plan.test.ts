@@ -0,0 +1,65 @@
+/**
+ * Reload Plan Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { planReload, isEmptyPlan } from './plan.js';
+import { loadConfig } from '../core/config.js';
+import type { Scenario } from '../scenario/types.js';
+
+const config = { ...loadConfig({}), fruxApiKey: 'sk-1234567890abcdef' };
+
+const scenario: Scenario = {
+  name: 'live',
+  cohorts: [
+    { name: 'sensors', archetype: 'QS', count: 4 },
+    { name: 'crafters', archetype: 'CBC', count: 2, params: { costBudget: 10, deriveProbability: 0.4 } },
+    { name: 'scouts', archetype: 'JAP', count: 1 },
+  ],
+};
+
+describe('planReload', () => {
+  it('is empty when nothing changed', () => {
+    expect(isEmptyPlan(planReload({ config, scenario }, { config: { ...config }, scenario: structuredClone(scenario) }))).toBe(true);
+  });
+
+  it('reports count and param changes per cohort', () => {
+    const next: Scenario = {
+      name: 'live',
+      cohorts: [
+        { name: 'sensors', archetype: 'QS', count: 6 },
+        { name: 'crafters', archetype: 'CBC', count: 1, params: { costBudget: 20 } },
+        { name: 'scouts', archetype: 'QS', count: 1 },
+        { name: 'thinkers', archetype: 'LLM', count: 2, params: { sessionBudget: 5 } },
+      ],
+    };
+
+    expect(planReload({ config, scenario }, { config, scenario: next }).cohorts).toEqual([
+      { cohort: 'sensors', archetype: 'QS', count: { from: 4, to: 6 }, params: {} },
+      {
+        cohort: 'crafters',
+        archetype: 'CBC',
+        count: { from: 2, to: 1 },
+        params: { costBudget: { from: 10, to: 20 }, deriveProbability: { from: 0.4, to: undefined } },
+      },
+      // A changed archetype retires the old cohort and starts a new one
+      { cohort: 'scouts', archetype: 'JAP', count: { from: 1, to: 0 }, params: {} },
+      { cohort: 'scouts', archetype: 'QS', count: { from: 0, to: 1 }, params: {} },
+      { cohort: 'thinkers', archetype: 'LLM', count: { from: 0, to: 2 }, params: {} },
+    ]);
+  });
+
+  it('splits live settings from restart-only ones and redacts secrets', () => {
+    const plan = planReload(
+      { config, scenario },
+      { config: { ...config, tickIntervalMs: 250, coreApiUrl: 'http://other:9670', fruxApiKey: 'sk-other-key-123456' }, scenario }
+    );
+
+    expect(plan.settings).toEqual([{ key: 'tickIntervalMs', from: 1000, to: 250 }]);
+    expect(plan.restartRequired).toEqual([
+      { key: 'coreApiUrl', from: 'http://localhost:9670', to: 'http://other:9670' },
+      { key: 'fruxApiKey', from: '[redacted]', to: '[redacted]' },
+    ]);
+    expect(plan.cohorts).toEqual([]);
+  });
+});
@@ -0,0 +1,80 @@
+/**
+ * Reload Plan
+ *
+ * Compares the running config and scenario with freshly loaded ones.
+ * Cohorts are matched by name; a cohort whose archetype changed counts
+ * as removed and added. Only counts and params apply live: cohort windows
+ * and seed offsets, like restart-only settings, wait for the next run.
+ */
+
+import { CONFIG_KEYS, CONFIG_SPEC } from '../core/config-spec.js';
+import type { CohortSpec } from '../scenario/types.js';
+import {
+  LIVE_SETTINGS,
+  type CohortChange,
+  type ReloadInput,
+  type ReloadPlan,
+  type SettingChange,
+} from './types.js';
+
+function same(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+function cohortChange(before: CohortSpec | undefined, after: CohortSpec | undefined): CohortChange | null {
+  const spec = (after ?? before)!;
+  const from = before?.params ?? {};
+  const to = after?.params ?? {};
+  const params: CohortChange['params'] = {};
+  // Params of a cohort that is added or removed are not changes
+  if (before && after) {
+    for (const name of new Set([...Object.keys(from), ...Object.keys(to)])) {
+      if (!same(from[name], to[name])) params[name] = { from: from[name], to: to[name] };
+    }
+  }
+
+  const count = { from: before?.count ?? 0, to: after?.count ?? 0 };
+  if (count.from === count.to && Object.keys(params).length === 0) return null;
+  return { cohort: spec.name, archetype: spec.archetype, count, params };
+}
+
+/**
+ * What a reload changes. Secret values are redacted.
+ */
+export function planReload(current: ReloadInput, next: ReloadInput): ReloadPlan {
+  const settings: SettingChange[] = [];
+  const restartRequired: SettingChange[] = [];
+  for (const key of CONFIG_KEYS) {
+    if (same(current.config[key], next.config[key])) continue;
+    const change = CONFIG_SPEC[key].secret
+      ? { key, from: '[redacted]', to: '[redacted]' }
+      : { key, from: current.config[key], to: next.config[key] };
+    (LIVE_SETTINGS.includes(key) ? settings : restartRequired).push(change);
+  }
+
+  const cohorts: CohortChange[] = [];
+  const nextByName = new Map(next.scenario.cohorts.map(c => [c.name, c]));
+  for (const before of current.scenario.cohorts) {
+    const after = nextByName.get(before.name);
+    if (after && after.archetype === before.archetype) {
+      const change = cohortChange(before, after);
+      if (change) cohorts.push(change);
+    } else {
+      const removed = cohortChange(before, undefined);
+      if (removed) cohorts.push(removed);
+    }
+  }
+  for (const after of next.scenario.cohorts) {
+    const before = current.scenario.cohorts.find(c => c.name === after.name);
+    if (!before || before.archetype !== after.archetype) {
+      const added = cohortChange(undefined, after);
+      if (added) cohorts.push(added);
+    }
+  }
+
+  return { settings, restartRequired, cohorts };
+}
+
+export function isEmptyPlan(plan: ReloadPlan): boolean {
+  return plan.settings.length === 0 && plan.restartRequired.length === 0 && plan.cohorts.length === 0;
+}
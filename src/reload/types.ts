@@ -0,0 +1,63 @@
+/**
+ * Reload Types
+ */
+
+import type { AgentArchetype } from '../core/types.js';
+import type { ProbeConfig } from '../core/config.js';
+import type { Scenario } from '../scenario/types.js';
+
+/** What asked for the reload */
+export type ReloadTrigger = 'watch' | 'signal' | 'admin';
+
+/** Config and population a reload compares */
+export interface ReloadInput {
+  config: ProbeConfig;
+  scenario: Scenario;
+}
+
+export interface SettingChange {
+  key: keyof ProbeConfig;
+  from: unknown;
+  to: unknown;
+}
+
+export interface CohortChange {
+  cohort: string;
+  archetype: AgentArchetype;
+  /** Agent count before and after (0 = cohort added or removed) */
+  count: { from: number; to: number };
+  /** Changed params by name (undefined = unset) */
+  params: Record<string, { from: unknown; to: unknown }>;
+}
+
+export interface ReloadPlan {
+  /** Settings applied to the running population */
+  settings: SettingChange[];
+  /** Changed settings that only take effect after a restart */
+  restartRequired: SettingChange[];
+  /** Cohorts whose count or params changed */
+  cohorts: CohortChange[];
+}
+
+/**
+ * Settings a running population picks up. Counts and the scenario path
+ * take effect through the cohort changes.
+ */
+export const LIVE_SETTINGS: readonly (keyof ProbeConfig)[] = [
+  'profile',
+  'qsCount',
+  'cbcCount',
+  'japCount',
+  'llmCount',
+  'extraCounts',
+  'scenario',
+  'tickIntervalMs',
+  'cadenceMs',
+  'llmEnergyFloor',
+  'llmSessionBudget',
+  'llmEnableInquiry',
+  'verbose',
+  'logLevel',
+  'logArchetypeLevels',
+  'logStepLevels',
+];
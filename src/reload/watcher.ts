@@ -0,0 +1,62 @@
+/**
+ * File Watcher
+ *
+ * Watches the directories of the given files rather than the files
+ * themselves, so editors that save by replacing the file still trigger.
+ * Bursts of events (write + rename) are debounced into one callback.
+ */
+
+import { watch, type FSWatcher } from 'node:fs';
+import { basename, dirname, resolve } from 'node:path';
+
+export interface FileWatcherOptions {
+  /** Quiet period before onChange fires (default 250) */
+  debounceMs?: number;
+}
+
+export interface FileWatcher {
+  /** Absolute paths being watched */
+  readonly paths: string[];
+  close(): void;
+}
+
+export function watchFiles(
+  paths: string[],
+  onChange: (path: string) => void,
+  options: FileWatcherOptions = {}
+): FileWatcher {
+  const debounceMs = options.debounceMs ?? 250;
+  const absolute = [...new Set(paths.filter(p => p).map(p => resolve(p)))];
+  const byDirectory = new Map<string, Set<string>>();
+  for (const path of absolute) {
+    const names = byDirectory.get(dirname(path)) ?? new Set<string>();
+    names.add(basename(path));
+    byDirectory.set(dirname(path), names);
+  }
+
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let changed: string | null = null;
+  const watchers: FSWatcher[] = [];
+  for (const [directory, names] of byDirectory) {
+    const watcher = watch(directory, (_event, filename) => {
+      if (!filename || !names.has(filename.toString())) return;
+      changed = resolve(directory, filename.toString());
+      if (timer) clearTimeout(timer);
+      timer = setTimeout(() => {
+        timer = null;
+        onChange(changed!);
+      }, debounceMs);
+    });
+    // Never keep the process alive just to watch
+    watcher.unref();
+    watchers.push(watcher);
+  }
+
+  return {
+    paths: absolute,
+    close() {
+      if (timer) clearTimeout(timer);
+      for (const watcher of watchers) watcher.close();
+    },
+  };
+}
@@ -5,130 +5,254 @@
  * Supports both CLI and Docker execution modes.
  */
 
+import { dirname } from 'node:path';
+import { mkdir, rename, writeFile } from 'node:fs/promises';
+
 import {
-  loadConfig,
-  parseCliArgs,
-  mergeConfig,
+  resolveConfig,
   getAgentSeed,
-  setVerbose,
+  configureLogger,
+  closeLogSinks,
+  createStdoutSink,
+  createRotatingFileSink,
+  createSocketSink,
+  createDidHistorySink,
+  createBroadcastSink,
+  setValidationMode,
+  getSchemaMismatchCounts,
+  probeMetrics,
+  startMetricsServer,
   log,
   createHttpClient,
+  createHttpGuard,
+  createShutdownCoordinator,
+  type HttpGuard,
   type ProbeConfig,
-  type AgentArchetype,
+  type AgentConfig,
+  type MetricsServer,
+  type LogLevel,
 } from './core/index.js';
 
-import { createQuietSensor, QuietSensor } from './archetypes/quiet-sensor.js';
-import { createCostBoundCrafter, CostBoundCrafter } from './archetypes/cost-bound-crafter.js';
-import { createJointProspector, JointProspector } from './archetypes/joint-prospector.js';
-import { createLLMProbe, LLMProbe, type LLMConfig } from './archetypes/llm-probe.js';
+import type { ProbeAgent } from './archetypes/base.js';
+import {
+  getArchetype,
+  listArchetypes,
+  loadPlugins,
+  createArchetypeAgent,
+  reconfigureArchetypeAgent,
+  type ArchetypeContext,
+} from './archetypes/registry.js';
+import { createSimulatedHabitat, createSimulatorFetch } from './simulator/index.js';
+import {
+  loadScenarioFile,
+  scenarioFromConfig,
+  expandScenario,
+  type Scenario,
+  type CohortSpec,
+  type CohortParams,
+  type CohortMember,
+} from './scenario/index.js';
+import {
+  createCassetteRecorder,
+  loadCassette,
+  type CassetteRecorder,
+  type CassettePlayer,
+} from './cassette/index.js';
+import { createStepScheduler, type SchedulableAgent } from './scheduler/index.js';
+import { runPreflight, renderPreflight, type CheckStatus } from './preflight/index.js';
+import {
+  planReload,
+  isEmptyPlan,
+  watchFiles,
+  type ReloadPlan,
+  type ReloadTrigger,
+  type CohortChange,
+  type FileWatcher,
+} from './reload/index.js';
+import {
+  createStateStore,
+  agentSlot,
+  type StateStore,
+  type AgentSnapshot,
+} from './state/index.js';
+import {
+  createAdminController,
+  startAdminServer,
+  type AdminServer,
+  type ManagedAgent,
+} from './admin/index.js';
+
+type Agent = ProbeAgent;
 
-type Agent = QuietSensor | CostBoundCrafter | JointProspector | LLMProbe;
+/** Fetch implementations the agents use (undefined = global fetch) */
+interface Transport {
+  /** Core and Perception */
+  habitat?: typeof fetch;
+  /** FRUX and other external APIs */
+  external?: typeof fetch;
+}
 
-interface RunnerState {
-  agents: Agent[];
-  running: boolean;
-  tick: number;
+/** Agent plus the cohort window it is active in */
+interface ScheduledAgent extends ManagedAgent {
+  /** Saved identity to resume instead of registering */
+  snapshot?: AgentSnapshot;
 }
 
+/** Log level of preflight_check entries by outcome */
+const PREFLIGHT_LEVELS: Record<CheckStatus, LogLevel> = {
+  pass: 'info',
+  warn: 'warn',
+  fail: 'error',
+  skip: 'debug',
+};
+
 async function sleep(ms: number): Promise<void> {
   return new Promise((resolve) => setTimeout(resolve, ms));
 }
 
-async function createAgents(config: ProbeConfig): Promise<Agent[]> {
-  const coreHttp = createHttpClient({
-    baseUrl: config.coreApiUrl,
-    maxRetries: config.maxRetries,
-  });
+/**
+ * Rate limit and circuit breaker per base URL, shared by every client of it
+ */
+function httpGuards(config: ProbeConfig): (baseUrl: string) => HttpGuard {
+  const guards = new Map<string, HttpGuard>();
+  return (baseUrl) => {
+    const key = baseUrl.replace(/\/$/, '');
+    let guard = guards.get(key);
+    if (!guard) {
+      guard = createHttpGuard(key, {
+        rateLimit: config.httpRateLimit,
+        burst: config.httpBurst,
+        endpointRateLimits: config.httpEndpointRateLimits,
+        circuitFailures: config.circuitFailures,
+        circuitCooldownMs: config.circuitCooldownMs,
+        endpointCircuitFailures: config.circuitEndpointFailures,
+      });
+      guards.set(key, guard);
+    }
+    return guard;
+  };
+}
 
-  const perceptionHttp = createHttpClient({
-    baseUrl: config.perceptionApiUrl,
-    maxRetries: config.maxRetries,
-  });
+/**
+ * AgentConfig fields that come from cohort params
+ */
+function paramFields(params: CohortParams): Partial<AgentConfig> {
+  return {
+    params,
+    silenceThreshold: typeof params.silenceThreshold === 'number' ? params.silenceThreshold : undefined,
+    costBudget: typeof params.costBudget === 'number' ? params.costBudget : undefined,
+    deriveProbability: typeof params.deriveProbability === 'number' ? params.deriveProbability : undefined,
+  };
+}
 
-  const agents: Agent[] = [];
+/**
+ * AgentConfig for one cohort member. Known params map onto AgentConfig fields.
+ */
+function memberAgentConfig(config: ProbeConfig, member: CohortMember): AgentConfig {
+  return {
+    archetype: member.archetype,
+    index: member.index,
+    coreApiUrl: config.coreApiUrl,
+    perceptionApiUrl: config.perceptionApiUrl,
+    seed: member.seed,
+    cohort: member.cohort,
+    ...paramFields(member.params),
+  };
+}
 
-  // Create Quiet Sensors
-  for (let i = 0; i < config.qsCount; i++) {
-    agents.push(createQuietSensor({
-      archetype: 'QS',
-      index: i,
-      coreApiUrl: config.coreApiUrl,
-      perceptionApiUrl: config.perceptionApiUrl,
-      seed: getAgentSeed(config.baseSeed, 'QS', i),
-      silenceThreshold: 5,
-    }, coreHttp, perceptionHttp));
-  }
+/**
+ * HTTP clients and settings shared by every agent
+ */
+function createAgentContext(config: ProbeConfig, transport: Transport, signal: AbortSignal): ArchetypeContext {
+  const guardFor = httpGuards(config);
+  const http = (baseUrl: string) => createHttpClient({
+    baseUrl,
+    maxRetries: config.maxRetries,
+    fetch: transport.habitat,
+    guard: guardFor(baseUrl),
+    timeoutMs: config.httpTimeoutMs,
+    endpointTimeouts: config.httpEndpointTimeouts,
+    signal,
+  });
 
-  // Create Cost-Bound Crafters
-  for (let i = 0; i < config.cbcCount; i++) {
-    agents.push(createCostBoundCrafter({
-      archetype: 'CBC',
-      index: i,
-      coreApiUrl: config.coreApiUrl,
-      perceptionApiUrl: config.perceptionApiUrl,
-      seed: getAgentSeed(config.baseSeed, 'CBC', i),
-      costBudget: 50,
-      deriveProbability: 0.4,
-    }, coreHttp, perceptionHttp));
-  }
+  return {
+    coreHttp: http(config.coreApiUrl),
+    perceptionHttp: http(config.perceptionApiUrl),
+    probeConfig: config,
+    fetch: transport.external,
+    signal,
+  };
+}
 
-  // Create Joint Prospectors
-  for (let i = 0; i < config.japCount; i++) {
-    agents.push(createJointProspector({
-      archetype: 'JAP',
-      index: i,
-      coreApiUrl: config.coreApiUrl,
-      perceptionApiUrl: config.perceptionApiUrl,
-      seed: getAgentSeed(config.baseSeed, 'JAP', i),
-    }, coreHttp, perceptionHttp));
+/**
+ * Agents for some members of one cohort, or none (logged) when its
+ * archetype is unknown or unavailable
+ */
+function createCohortAgents(
+  context: ArchetypeContext,
+  cohort: CohortSpec,
+  members: CohortMember[],
+  tick: number
+): ScheduledAgent[] {
+  const { archetype } = cohort;
+  const definition = getArchetype(archetype);
+  if (!definition) {
+    log({
+      did: null,
+      archetype,
+      step: 'skip_unknown_archetype',
+      tick,
+      details: { cohort: cohort.name, requestedCount: members.length },
+    });
+    return [];
   }
 
-  // Create LLM Probes (only if API key is configured)
-  if (config.llmCount > 0 && config.fruxApiKey) {
-    const llmConfig: LLMConfig = {
-      fruxApiUrl: config.fruxApiUrl,
-      fruxApiKey: config.fruxApiKey,
-      preferLocal: config.fruxPreferLocal,
-      timeoutMs: config.fruxTimeoutMs,
-      maxRetries: config.maxRetries,
-      energyFloor: config.llmEnergyFloor,
-      sessionBudget: config.llmSessionBudget,
-      enableInquiry: config.llmEnableInquiry,
-    };
-
-    for (let i = 0; i < config.llmCount; i++) {
-      agents.push(createLLMProbe({
-        archetype: 'LLM',
-        index: i,
-        coreApiUrl: config.coreApiUrl,
-        perceptionApiUrl: config.perceptionApiUrl,
-        seed: getAgentSeed(config.baseSeed, 'LLM', i),
-      }, llmConfig, coreHttp, perceptionHttp));
-    }
-  } else if (config.llmCount > 0 && !config.fruxApiKey) {
+  // e.g. LLM probes need an API key
+  const unavailable = definition.unavailableReason?.(context.probeConfig, cohort.params) ?? null;
+  if (unavailable) {
     log({
       did: null,
-      archetype: 'LLM',
-      step: 'skip_llm_agents',
-      tick: 0,
-      details: { reason: 'FRUX_API_KEY not configured', requestedCount: config.llmCount },
+      archetype,
+      step: `skip_${archetype.toLowerCase()}_agents`,
+      tick,
+      details: { cohort: cohort.name, reason: unavailable, requestedCount: members.length },
     });
+    return [];
   }
 
-  return agents;
+  return members.map(member => ({
+    agent: createArchetypeAgent(archetype, memberAgentConfig(context.probeConfig, member), context),
+    cohort: member.cohort,
+    slot: agentSlot(archetype, member.index, member.cohort),
+    startTick: member.startTick,
+    stopTick: member.stopTick,
+    registered: false,
+    paused: false,
+    params: member.params,
+  }));
 }
 
-async function registerAgents(agents: Agent[]): Promise<Agent[]> {
-  const registered: Agent[] = [];
+function createAgents(context: ArchetypeContext, scenario: Scenario): ScheduledAgent[] {
+  const members = expandScenario(scenario, context.probeConfig.baseSeed);
+  return scenario.cohorts
+    .filter(cohort => cohort.count > 0)
+    .flatMap(cohort => createCohortAgents(context, cohort, members.filter(m => m.cohort === cohort.name), 0));
+}
+
+async function registerAgents(agents: ScheduledAgent[]): Promise<ScheduledAgent[]> {
+  const registered: ScheduledAgent[] = [];
 
   // Register agents in parallel batches (10 at a time to avoid overwhelming the API)
   const batchSize = 10;
   for (let i = 0; i < agents.length; i += batchSize) {
     const batch = agents.slice(i, i + batchSize);
-    const results = await Promise.all(batch.map(a => a.register()));
+    const results = await Promise.all(batch.map(a =>
+      a.snapshot && a.agent.resume(a.snapshot) ? true : a.agent.register()
+    ));
 
     for (let j = 0; j < batch.length; j++) {
       if (results[j]) {
+        batch[j]!.registered = true;
         registered.push(batch[j]!);
       }
     }
@@ -142,37 +266,345 @@ async function registerAgents(agents: Agent[]): Promise<Agent[]> {
   return registered;
 }
 
-async function runAgentStep(agent: Agent): Promise<void> {
+/**
+ * State store for resuming identities, or null when persistence does not apply:
+ * the simulator and cassettes start from a blank habitat every run.
+ */
+async function openStateStore(config: ProbeConfig): Promise<StateStore | null> {
+  const disabledReason = !config.stateFile ? 'no_state_file'
+    : config.simulate ? 'simulate'
+      : config.replay ? 'replay'
+        : config.record ? 'record'
+          : null;
+
+  if (disabledReason) {
+    log({
+      did: null,
+      archetype: 'QS',
+      step: 'state_disabled',
+      tick: 0,
+      details: { reason: disabledReason },
+    });
+    return null;
+  }
+
+  const store = createStateStore(config.stateFile, config.coreApiUrl);
+  const result = config.fresh ? { agents: 0 } : await store.load();
+  log({
+    did: null,
+    archetype: 'QS',
+    step: 'state_loaded',
+    tick: 0,
+    details: { path: config.stateFile, fresh: config.fresh, ...result },
+  });
+  return store;
+}
+
+/**
+ * Copy every registered agent's snapshot into the store (not saved yet)
+ */
+function stageState(store: StateStore, agents: ScheduledAgent[]): void {
+  for (const scheduled of agents) {
+    if (!scheduled.registered) continue;
+    store.set(scheduled.slot, {
+      ...scheduled.agent.snapshot(),
+      archetype: scheduled.agent.archetype,
+      index: scheduled.agent.index,
+      cohort: scheduled.cohort,
+    });
+  }
+}
+
+/**
+ * Write every registered agent's snapshot. Failures are logged, never fatal.
+ */
+async function persistState(store: StateStore, agents: ScheduledAgent[], tick: number): Promise<void> {
   try {
-    await agent.step();
+    stageState(store, agents);
+    await store.save();
   } catch (error) {
-    // Log error but don't crash the runner
-    const archetype = agent instanceof QuietSensor ? 'QS'
-      : agent instanceof CostBoundCrafter ? 'CBC'
-      : agent instanceof JointProspector ? 'JAP'
-      : 'LLM';
     log({
-      did: agent.getState().did,
-      archetype: archetype as AgentArchetype,
-      step: 'step_error',
-      tick: agent.getState().tick,
-      details: { error: error instanceof Error ? error.message : String(error) },
+      did: null,
+      archetype: 'QS',
+      step: 'state_save_error',
+      tick,
+      details: { path: store.path, error: error instanceof Error ? error.message : String(error) },
+    });
+  }
+}
+
+/**
+ * Per-archetype gauges: active agents and their mean energy
+ */
+function updateAgentGauges(agents: ScheduledAgent[], tick: number): void {
+  const byArchetype = new Map<string, { registered: number; active: number; energy: number }>();
+  for (const scheduled of agents) {
+    if (!scheduled.registered) continue;
+    const group = byArchetype.get(scheduled.agent.archetype) ?? { registered: 0, active: 0, energy: 0 };
+    group.registered++;
+    group.energy += scheduled.agent.getState().energy;
+    if (isActive(scheduled, tick) && !scheduled.paused) group.active++;
+    byArchetype.set(scheduled.agent.archetype, group);
+  }
+
+  for (const [archetype, group] of byArchetype) {
+    probeMetrics.activeAgents.set({ archetype }, group.active);
+    probeMetrics.energy.set({ archetype }, group.energy / group.registered);
+  }
+}
+
+/**
+ * Counters summed over agents (tick and final summaries)
+ */
+function runTotals(agents: Agent[]) {
+  return agents.reduce((acc, agent) => {
+    const state = agent.getState();
+    acc.totalTraces += state.tracesCreated;
+    acc.totalDerivations += state.derivationsMade;
+    acc.totalJointAttempts += state.jointAttempts;
+    acc.totalJointSuccesses += state.jointSuccesses;
+    acc.totalCost += state.totalCostSpent;
+    return acc;
+  }, {
+    totalTraces: 0,
+    totalDerivations: 0,
+    totalJointAttempts: 0,
+    totalJointSuccesses: 0,
+    totalCost: 0,
+  });
+}
+
+/**
+ * Write the run summary file (temp file renamed into place)
+ */
+async function writeSummaryFile(path: string, summary: Record<string, unknown>): Promise<void> {
+  await mkdir(dirname(path), { recursive: true });
+  const temp = `${path}.tmp`;
+  await writeFile(temp, JSON.stringify(summary, null, 2) + '\n');
+  await rename(temp, path);
+}
+
+/**
+ * Log a failed step but don't crash the runner
+ */
+function logStepError(agent: SchedulableAgent, error: unknown): void {
+  const state = agent.getState();
+  log({
+    did: state.did,
+    archetype: agent.archetype,
+    step: 'step_error',
+    tick: state.tick,
+    details: { error: error instanceof Error ? error.message : String(error) },
+  });
+}
+
+/**
+ * Cohort window check: active while startTick <= tick < stopTick
+ */
+function isActive(scheduled: ScheduledAgent, tick: number): boolean {
+  return scheduled.registered
+    && tick >= scheduled.startTick
+    && (scheduled.stopTick === undefined || tick < scheduled.stopTick);
+}
+
+/**
+ * Register cohorts whose start tick has been reached
+ */
+async function registerDueCohorts(pending: ScheduledAgent[], tick: number): Promise<ScheduledAgent[]> {
+  // Agents retired before their cohort started never register
+  const due = pending.filter(a => a.startTick <= tick && (a.stopTick === undefined || a.stopTick > tick));
+  if (due.length === 0) return pending;
+
+  const registered = await registerAgents(due);
+  for (const cohort of new Set(due.map(a => a.cohort))) {
+    log({
+      did: null,
+      archetype: due.find(a => a.cohort === cohort)!.agent.archetype,
+      step: 'cohort_start',
+      tick,
+      details: {
+        cohort,
+        registered: registered.filter(a => a.cohort === cohort).length,
+        failed: due.filter(a => a.cohort === cohort && !a.registered).length,
+      },
+    });
+  }
+
+  return pending.filter(a => a.startTick > tick);
+}
+
+/** Runner settings that reach running LLM agents through reconfigure */
+const AGENT_SETTINGS = new Set<keyof ProbeConfig>(['llmEnergyFloor', 'llmSessionBudget', 'llmEnableInquiry']);
+
+/** Runner settings applied to the logger */
+const LOGGER_SETTINGS = new Set<keyof ProbeConfig>(['verbose', 'logLevel', 'logArchetypeLevels', 'logStepLevels']);
+
+/**
+ * Apply a reload plan between ticks: retire or spawn agents per changed
+ * cohort, and hand new params to the agents that stay. Spawned agents get
+ * indexes after every existing agent of their archetype, so no seed or
+ * state slot is reused. The context carries the reloaded config.
+ */
+function applyReload(
+  plan: ReloadPlan,
+  scenario: Scenario,
+  agents: ScheduledAgent[],
+  context: ArchetypeContext,
+  tick: number
+): { spawned: ScheduledAgent[]; cohorts: Array<CohortChange & { spawned: number; retired: number }> } {
+  const isLive = (scheduled: ScheduledAgent) => scheduled.stopTick === undefined || scheduled.stopTick > tick;
+  const cohortsByName = new Map(scenario.cohorts.map(c => [c.name, c]));
+  const spawned: ScheduledAgent[] = [];
+
+  const cohorts = plan.cohorts.map((change) => {
+    const live = agents
+      .filter(a => a.cohort === change.cohort && a.agent.archetype === change.archetype && isLive(a))
+      .sort((a, b) => a.agent.index - b.agent.index);
+
+    // Highest indexes leave first
+    const retiring = live.slice(change.count.to);
+    for (const scheduled of retiring) {
+      scheduled.stopTick = tick;
+    }
+
+    const spec = cohortsByName.get(change.cohort);
+    const ended = spec?.stopTick !== undefined && spec.stopTick <= tick;
+    let added: ScheduledAgent[] = [];
+    if (spec && !ended && change.count.to > live.length) {
+      let index = Math.max(-1, ...agents.filter(a => a.agent.archetype === spec.archetype).map(a => a.agent.index)) + 1;
+      const seedBase = context.probeConfig.baseSeed + (spec.seedOffset ?? 0);
+      const members: CohortMember[] = Array.from({ length: change.count.to - live.length }, () => {
+        const memberIndex = index++;
+        return {
+          cohort: spec.name,
+          archetype: spec.archetype,
+          index: memberIndex,
+          seed: getAgentSeed(seedBase, spec.archetype, memberIndex),
+          params: { ...spec.params },
+          startTick: Math.max(spec.startTick ?? 0, tick),
+          stopTick: spec.stopTick,
+        };
+      });
+      added = createCohortAgents(context, spec, members, tick);
+      agents.push(...added);
+      spawned.push(...added);
+    }
+
+    return { ...change, spawned: added.length, retired: retiring.length };
+  });
+
+  const reconfigureAll = plan.settings.some(c => AGENT_SETTINGS.has(c.key));
+  const paramsChanged = new Set(plan.cohorts.filter(c => Object.keys(c.params).length > 0).map(c => c.cohort));
+  for (const scheduled of agents) {
+    const spec = cohortsByName.get(scheduled.cohort);
+    if (!spec || !isLive(scheduled) || spawned.includes(scheduled)) continue;
+    if (paramsChanged.has(spec.name)) {
+      scheduled.params = { ...spec.params };
+    }
+    if (reconfigureAll || paramsChanged.has(spec.name)) {
+      reconfigureArchetypeAgent(scheduled.agent, paramFields({ ...scheduled.params }), context);
+    }
+  }
+
+  return { spawned, cohorts };
+}
+
+/**
+ * Scenario from --scenario / PROBE_SCENARIO, or the per-archetype counts.
+ * Returns null (after logging every error) when the file is invalid.
+ */
+async function resolveScenario(config: ProbeConfig): Promise<Scenario | null> {
+  if (!config.scenario) {
+    return scenarioFromConfig(config);
+  }
+
+  const { scenario, validation } = await loadScenarioFile(config.scenario, {
+    knownArchetypes: listArchetypes().map(d => d.code),
+  });
+
+  if (!scenario) {
+    log({
+      did: null,
+      archetype: 'QS',
+      step: 'scenario_invalid',
+      tick: 0,
+      details: { path: config.scenario, errors: validation.errors },
     });
+    return null;
   }
+
+  log({
+    did: null,
+    archetype: 'QS',
+    step: 'scenario_loaded',
+    tick: 0,
+    details: {
+      path: config.scenario,
+      name: scenario.name,
+      cohorts: scenario.cohorts.map(c => ({
+        name: c.name,
+        archetype: c.archetype,
+        count: c.count,
+        startTick: c.startTick ?? 0,
+        stopTick: c.stopTick ?? null,
+      })),
+    },
+  });
+
+  return scenario;
 }
 
-async function runTick(agents: Agent[]): Promise<void> {
-  // Run all agents in parallel (each agent is independent)
-  await Promise.all(agents.map(runAgentStep));
+/**
+ * End a run that could not start: log why, close the metrics server and
+ * flush the log sinks. Returns the exit code for main().
+ */
+async function abortRun(details: { reason: string } & Record<string, unknown>, metricsServer: MetricsServer | null = null): Promise<number> {
+  log({
+    did: null,
+    archetype: 'QS',
+    step: 'runner_abort',
+    tick: 0,
+    details,
+  });
+  await metricsServer?.close();
+  await closeLogSinks();
+  return 1;
 }
 
-async function main(): Promise<void> {
+async function main(): Promise<number> {
   // Load configuration
-  const envConfig = loadConfig();
-  const cliOverrides = parseCliArgs(process.argv.slice(2));
-  const config = mergeConfig(envConfig, cliOverrides);
+  const argv = process.argv.slice(2);
+  const { config, sources, issues } = await resolveConfig({ argv });
+  // The admin API serves recent entries per DID and a live event stream
+  const adminLogs = config.adminPort > 0 ? { history: createDidHistorySink(), events: createBroadcastSink() } : null;
+
+  configureLogger({
+    level: config.verbose ? 'debug' : config.logLevel,
+    archetypeLevels: config.logArchetypeLevels,
+    stepLevels: config.logStepLevels,
+    sampling: config.logSampling,
+    seed: config.baseSeed,
+    sinks: [
+      createStdoutSink(),
+      ...(config.logFile
+        ? [createRotatingFileSink(config.logFile, { maxBytes: config.logMaxBytes, maxFiles: config.logMaxFiles })]
+        : []),
+      ...(config.logSocket ? [createSocketSink(config.logSocket)] : []),
+      ...(adminLogs ? [adminLogs.history, adminLogs.events] : []),
+    ],
+  });
+  setValidationMode(config.validationMode);
 
-  setVerbose(config.verbose);
+  if (issues.length > 0) {
+    log({
+      did: null,
+      archetype: 'QS',
+      step: 'config_invalid',
+      tick: 0,
+      details: { configFile: config.configFile || null, profile: config.profile || null, issues },
+    });
+    return abortRun({ reason: 'config_invalid' });
+  }
 
   // Log startup
   log({
@@ -189,11 +621,123 @@ async function main(): Promise<void> {
       perceptionApiUrl: config.perceptionApiUrl,
       tickIntervalMs: config.tickIntervalMs,
       fruxConfigured: !!config.fruxApiKey,
+      llmProvider: config.llmProvider,
+      simulate: config.simulate,
+      validationMode: config.validationMode,
+      scenario: config.scenario || null,
+      schedulerMode: config.schedulerMode,
+      configFile: config.configFile || null,
+      profile: config.profile || null,
     },
   });
 
+  await loadPlugins(config.plugins);
+
+  const metricsServer: MetricsServer | null = config.metricsPort > 0
+    ? await startMetricsServer({ port: config.metricsPort, host: config.metricsHost })
+    : null;
+  if (metricsServer) {
+    log({
+      did: null,
+      archetype: 'QS',
+      step: 'metrics_start',
+      tick: 0,
+      details: { url: metricsServer.url },
+    });
+  }
+
+  const initialScenario = await resolveScenario(config);
+  if (!initialScenario) {
+    return abortRun({ reason: 'scenario_invalid' }, metricsServer);
+  }
+  let scenario: Scenario = initialScenario;
+
+  if (config.record && config.replay) {
+    return abortRun({ reason: 'record_and_replay_both_set' }, metricsServer);
+  }
+
+  const player: CassettePlayer | null = config.replay ? await loadCassette(config.replay) : null;
+
+  // Precedence: --seed, then the replayed cassette, then the scenario, then env/config file
+  let runConfig: ProbeConfig = {
+    ...config,
+    baseSeed: (sources.baseSeed === 'cli' ? config.baseSeed : undefined) ?? player?.header.baseSeed ?? scenario.baseSeed ?? config.baseSeed,
+  };
+
+  // Offline mode: serve Core and Perception from the in-process simulator
+  const simulatorFetch = runConfig.simulate
+    ? createSimulatorFetch(createSimulatedHabitat({
+      seed: runConfig.baseSeed,
+      tickMs: runConfig.tickIntervalMs,
+    }))
+    : undefined;
+
+  // Everything that can fail before any DID is minted
+  if (runConfig.preflight) {
+    const preflight = await runPreflight({
+      config: runConfig,
+      scenario,
+      fetch: simulatorFetch,
+      offlineReason: player ? 'Replaying a cassette' : undefined,
+    });
+    for (const check of preflight.checks) {
+      log({
+        did: null,
+        archetype: 'QS',
+        step: 'preflight_check',
+        tick: 0,
+        level: PREFLIGHT_LEVELS[check.status],
+        details: { ...check },
+      });
+    }
+    if (!preflight.ok) {
+      process.stderr.write(renderPreflight(preflight));
+      return abortRun({
+        reason: 'preflight_failed',
+        failed: preflight.checks.filter(c => c.status === 'fail').map(c => c.name),
+      }, metricsServer);
+    }
+  }
+
+  const recorder: CassetteRecorder | null = config.record
+    ? createCassetteRecorder(config.record, { baseSeed: runConfig.baseSeed, scenario: scenario.name })
+    : null;
+
+  const globalFetch: typeof fetch = (input, init) => fetch(input, init);
+  const transport: Transport = player
+    ? { habitat: player.fetch, external: player.fetch }
+    : recorder
+      ? { habitat: recorder.wrap(simulatorFetch ?? globalFetch), external: recorder.wrap(globalFetch) }
+      : { habitat: simulatorFetch };
+  const cassette = player ?? recorder;
+
+  if (cassette) {
+    log({
+      did: null,
+      archetype: 'QS',
+      step: player ? 'replay_start' : 'record_start',
+      tick: 0,
+      details: {
+        path: config.replay || config.record,
+        baseSeed: runConfig.baseSeed,
+        ...(player ? { lastTick: player.lastTick, recordedAt: player.header.createdAt } : {}),
+      },
+    });
+  }
+
+  // SIGINT/SIGTERM: stop scheduling and drain; a second signal cancels
+  // in-flight habitat and FRUX calls, a third exits at once
+  const startedAt = new Date();
+  const coordinator = createShutdownCoordinator({
+    drainTimeoutMs: runConfig.shutdownTimeoutMs,
+    exit: (code) => process.exit(code),
+  });
+  process.on('SIGINT', () => coordinator.request('SIGINT'));
+  process.on('SIGTERM', () => coordinator.request('SIGTERM'));
+
   // Create agents
-  const agents = await createAgents(config);
+  let context = createAgentContext(runConfig, transport, coordinator.signal);
+  const agents = createAgents(context, scenario);
   log({
     did: null,
     archetype: 'QS',
@@ -202,17 +746,34 @@ async function main(): Promise<void> {
     details: { count: agents.length },
   });
 
-  // Register agents
-  const registeredAgents = await registerAgents(agents);
+  // Resume saved identities by slot; the rest register as new agents
+  const stateStore = await openStateStore(runConfig);
+  if (stateStore) {
+    for (const scheduled of agents) {
+      scheduled.snapshot = stateStore.get(scheduled.slot);
+    }
+  }
+
+  // Register agents whose cohort starts immediately; later cohorts join on their start tick
+  const initial = agents.filter(a => a.startTick <= 1);
+  let pending = agents.filter(a => a.startTick > 1);
+  const initiallyRegistered = await registerAgents(initial);
   log({
     did: null,
     archetype: 'QS',
     step: 'agents_registered',
     tick: 0,
-    details: { count: registeredAgents.length, failed: agents.length - registeredAgents.length },
+    details: {
+      count: initiallyRegistered.length,
+      resumed: initiallyRegistered.filter(a => a.snapshot).length,
+      failed: initial.length - initiallyRegistered.length,
+      pending: pending.length,
+    },
   });
 
-  if (registeredAgents.length === 0) {
+  // Nothing to run: skip the loop but still go through the shutdown steps
+  const noAgents = initiallyRegistered.length === 0 && pending.length === 0;
+  if (noAgents) {
     log({
       did: null,
       archetype: 'QS',
@@ -220,102 +781,298 @@ async function main(): Promise<void> {
       tick: 0,
       details: { reason: 'no_agents_registered' },
     });
-    process.exit(1);
+    coordinator.fail('register', 'no agents registered');
+  }
+
+  if (stateStore) {
+    await persistState(stateStore, agents, 0);
   }
 
-  // Handle graceful shutdown
-  let running = true;
-  process.on('SIGINT', () => {
+  const registeredAgents = () => agents.filter(a => a.registered).map(a => a.agent);
+
+  // Cassettes are keyed by runner tick, so record/replay always run in lockstep
+  const schedulerMode = cassette ? 'lockstep' : runConfig.schedulerMode;
+  if (schedulerMode !== runConfig.schedulerMode) {
     log({
       did: null,
       archetype: 'QS',
-      step: 'runner_shutdown',
+      step: 'scheduler_lockstep_forced',
       tick: 0,
-      details: { reason: 'SIGINT' },
+      details: { requested: runConfig.schedulerMode, reason: player ? 'replay' : 'record' },
     });
-    running = false;
+  }
+
+  const scheduler = createStepScheduler({
+    mode: schedulerMode,
+    maxConcurrency: runConfig.maxConcurrency,
+    overrunPolicy: runConfig.overrunPolicy,
+    jitter: runConfig.jitter,
+    seed: runConfig.baseSeed,
+    cadenceFor: (agent) => runConfig.cadenceMs[agent.archetype] ?? runConfig.tickIntervalMs,
+    onError: logStepError,
   });
-  process.on('SIGTERM', () => {
+
+  // Hot reload: SIGHUP, or saving the config/scenario file with --watch.
+  // Applied between ticks; the loaded config is what reloads compare against
+  let loadedConfig = config;
+  let reloadTrigger: ReloadTrigger | null = null;
+  const requestReload = (trigger: ReloadTrigger) => {
+    reloadTrigger ??= trigger;
+  };
+  process.on('SIGHUP', () => requestReload('signal'));
+
+  const watchReloadFiles = (): FileWatcher | null => {
+    const paths = [loadedConfig.configFile, loadedConfig.scenario].filter(p => p);
+    return runConfig.watch && !cassette && paths.length > 0 ? watchFiles(paths, () => requestReload('watch')) : null;
+  };
+  let watcher = watchReloadFiles();
+
+  const reload = async (trigger: ReloadTrigger, tick: number): Promise<void> => {
+    const reject = (details: Record<string, unknown>) => log({
+      did: null,
+      archetype: 'QS',
+      step: 'config_reload_rejected',
+      tick,
+      details: { trigger, ...details },
+    });
+
+    // Cassettes are keyed by a fixed population
+    if (cassette) return reject({ reason: player ? 'replay' : 'record' });
+
+    const resolved = await resolveConfig({ argv });
+    if (resolved.issues.length > 0) return reject({ reason: 'config_invalid', issues: resolved.issues });
+    const nextScenario = await resolveScenario(resolved.config);
+    if (!nextScenario) return reject({ reason: 'scenario_invalid', path: resolved.config.scenario });
+
+    const plan = planReload({ config: loadedConfig, scenario }, { config: resolved.config, scenario: nextScenario });
+    runConfig = { ...runConfig, ...Object.fromEntries(plan.settings.map(c => [c.key, resolved.config[c.key]])) };
+    context = { ...context, probeConfig: runConfig };
+    const { spawned, cohorts } = applyReload(plan, nextScenario, agents, context, tick);
+    for (const scheduled of spawned) {
+      scheduled.snapshot = stateStore?.get(scheduled.slot);
+    }
+    pending = [...pending.filter(a => a.stopTick === undefined || a.stopTick > tick), ...spawned];
+    loadedConfig = resolved.config;
+    scenario = nextScenario;
+
+    if (plan.settings.some(c => LOGGER_SETTINGS.has(c.key))) {
+      configureLogger({
+        level: runConfig.verbose ? 'debug' : runConfig.logLevel,
+        archetypeLevels: runConfig.logArchetypeLevels,
+        stepLevels: runConfig.logStepLevels,
+      });
+    }
+    if (plan.settings.some(c => c.key === 'scenario')) {
+      watcher?.close();
+      watcher = watchReloadFiles();
+    }
+
     log({
       did: null,
       archetype: 'QS',
-      step: 'runner_shutdown',
-      tick: 0,
-      details: { reason: 'SIGTERM' },
+      step: 'config_reload',
+      tick,
+      level: isEmptyPlan(plan) ? 'debug' : undefined,
+      details: {
+        trigger,
+        settings: plan.settings,
+        restartRequired: plan.restartRequired,
+        cohorts,
+      },
     });
-    running = false;
-  });
+  };
 
-  // Main loop
+  // Main loop. A throw here still goes through the shutdown steps below
   let tickCount = 0;
-  while (running) {
-    tickCount++;
-
-    // Run tick
-    await runTick(registeredAgents);
-
-    // Log tick summary (every 10 ticks)
-    if (tickCount % 10 === 0) {
-      const summary = registeredAgents.reduce((acc, agent) => {
-        const state = agent.getState();
-        acc.totalTraces += state.tracesCreated;
-        acc.totalDerivations += state.derivationsMade;
-        acc.totalJointAttempts += state.jointAttempts;
-        acc.totalJointSuccesses += state.jointSuccesses;
-        acc.totalCost += state.totalCostSpent;
-        return acc;
-      }, {
-        totalTraces: 0,
-        totalDerivations: 0,
-        totalJointAttempts: 0,
-        totalJointSuccesses: 0,
-        totalCost: 0,
-      });
+  let inFlight: Promise<void> = Promise.resolve();
 
+  // Admin API: inspect and steer agents while the loop runs
+  const adminServer: AdminServer | null = adminLogs && !noAgents
+    ? await startAdminServer(createAdminController({
+      agents: () => agents,
+      tick: () => tickCount,
+      scenario: () => scenario.name,
+      settle: (managed) => scheduler.settle(managed.agent),
+      reconfigure: (managed, params) => reconfigureArchetypeAgent(managed.agent, paramFields({ ...params }), context),
+      reload: () => requestReload('admin'),
+      logs: (did, limit) => adminLogs.history.entries(did, limit),
+      subscribe: (listener) => adminLogs.events.subscribe(listener),
+    }), { port: runConfig.adminPort, host: runConfig.adminHost, token: runConfig.adminToken })
+    : null;
+  if (adminServer) {
+    log({
+      did: null,
+      archetype: 'QS',
+      step: 'admin_start',
+      tick: 0,
+      details: { url: adminServer.url, auth: !!runConfig.adminToken },
+    });
+  }
+  try {
+    while (!noAgents && !coordinator.stopping) {
+      tickCount++;
+
+      // A replay ends where the recording ends
+      if (player && tickCount > player.lastTick) {
+        break;
+      }
+
+      cassette?.setTick(tickCount);
+      if (reloadTrigger) {
+        const trigger = reloadTrigger;
+        reloadTrigger = null;
+        await reload(trigger, tickCount);
+      }
+      pending = await registerDueCohorts(pending, tickCount);
+
+      for (const cohort of scenario.cohorts) {
+        if (cohort.stopTick === tickCount) {
+          log({
+            did: null,
+            archetype: cohort.archetype,
+            step: 'cohort_stop',
+            tick: tickCount,
+            details: { cohort: cohort.name },
+          });
+        }
+      }
+
+      const active = agents.filter(a => isActive(a, tickCount));
+      if (active.length === 0 && pending.length === 0) {
+        log({
+          did: null,
+          archetype: 'QS',
+          step: 'scenario_complete',
+          tick: tickCount,
+          details: { scenario: scenario.name },
+        });
+        break;
+      }
+
+      // Lockstep: step everyone and wait. Async: agents step on their own timers.
+      // Paused agents stay in the run but are not stepped
+      const stepping = active.filter(a => !a.paused).map(a => a.agent);
+      if (scheduler.mode === 'lockstep') {
+        inFlight = scheduler.runTick(stepping);
+        await coordinator.until(inFlight);
+        if (coordinator.stopping) break;
+      } else {
+        scheduler.setAgents(stepping);
+      }
+
+      if (stateStore) {
+        await persistState(stateStore, agents, tickCount);
+      }
+      updateAgentGauges(agents, tickCount);
+
+      // Log tick summary (every 10 ticks)
+      if (tickCount % 10 === 0) {
+        const summary = runTotals(registeredAgents());
+
+        log({
+          did: null,
+          archetype: 'QS',
+          step: 'tick_summary',
+          tick: tickCount,
+          details: {
+            ...summary,
+            activeAgents: active.length,
+            schemaMismatches: getSchemaMismatchCounts().total,
+            steps: scheduler.getStatsByArchetype(),
+          },
+        });
+      }
+
+      // Wait for next tick
+      await coordinator.sleep(runConfig.tickIntervalMs);
+    }
+  } catch (error) {
+    log({
+      did: null,
+      archetype: 'QS',
+      step: 'runner_fatal',
+      tick: tickCount,
+      details: { error: error instanceof Error ? error.message : String(error) },
+    });
+    coordinator.fail('run', error);
+  }
+
+  watcher?.close();
+
+  // Stop scheduling, then give in-flight steps until the deadline
+  const drained = await coordinator.drain(Promise.all([inFlight, scheduler.stop()]));
+
+  if (stateStore) {
+    await coordinator.step('state', () => {
+      stageState(stateStore, agents);
+      return stateStore.save();
+    });
+  }
+
+  let totals: ReturnType<typeof runTotals> | null = null;
+  await coordinator.step('summary', () => {
+    totals = runTotals(registeredAgents());
+    log({
+      did: null,
+      archetype: 'QS',
+      step: 'runner_complete',
+      tick: tickCount,
+      details: {
+        ...totals,
+        agentCount: registeredAgents().length,
+        schemaMismatches: getSchemaMismatchCounts(),
+        steps: scheduler.getStatsByArchetype(),
+      },
+    });
+
+    if (cassette) {
       log({
         did: null,
         archetype: 'QS',
-        step: 'tick_summary',
+        step: player ? 'replay_complete' : 'record_complete',
         tick: tickCount,
-        details: summary,
+        details: { path: config.replay || config.record, ...cassette.getStats() },
       });
     }
+  });
 
-    // Wait for next tick
-    await sleep(config.tickIntervalMs);
-  }
+  await coordinator.step('metrics', () => metricsServer?.close());
+  await coordinator.step('admin', () => adminServer?.close());
 
-  // Final summary
-  const finalSummary = registeredAgents.reduce((acc, agent) => {
-    const state = agent.getState();
-    acc.totalTraces += state.tracesCreated;
-    acc.totalDerivations += state.derivationsMade;
-    acc.totalJointAttempts += state.jointAttempts;
-    acc.totalJointSuccesses += state.jointSuccesses;
-    acc.totalCost += state.totalCostSpent;
-    return acc;
-  }, {
-    totalTraces: 0,
-    totalDerivations: 0,
-    totalJointAttempts: 0,
-    totalJointSuccesses: 0,
-    totalCost: 0,
-  });
+  if (runConfig.summaryFile) {
+    await coordinator.step('summary_file', () => writeSummaryFile(runConfig.summaryFile, {
+      version: 1,
+      ...coordinator.report(),
+      drained,
+      startedAt: startedAt.toISOString(),
+      endedAt: new Date().toISOString(),
+      durationMs: Date.now() - startedAt.getTime(),
+      ticks: tickCount,
+      scenario: scenario.name,
+      baseSeed: runConfig.baseSeed,
+      agents: { created: agents.length, registered: registeredAgents().length },
+      totals,
+      steps: scheduler.getStatsByArchetype(),
+      schemaMismatches: getSchemaMismatchCounts(),
+      cassette: cassette ? { path: config.replay || config.record, ...cassette.getStats() } : null,
+    }));
+  }
 
+  const { outcome, exitCode, failures } = coordinator.report();
   log({
     did: null,
     archetype: 'QS',
-    step: 'runner_complete',
+    step: 'runner_exit',
     tick: tickCount,
-    details: {
-      ...finalSummary,
-      agentCount: registeredAgents.length,
-    },
+    details: { outcome, exitCode, failures: failures.map(f => f.step) },
   });
+
+  await coordinator.step('logs', () => closeLogSinks());
+  return coordinator.exitCode;
 }
 
-// Run
-main().catch((error) => {
+// Run: exit even if abandoned steps still hold timers or sockets
+main().then((code) => process.exit(code), (error) => {
   log({
     did: null,
     archetype: 'QS',
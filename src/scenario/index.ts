@@ -0,0 +1,27 @@
+/**
+ * Scenario Module
+ *
+ * Declarative probe populations: named cohorts with archetype,
+ * count, parameters, active tick window and seed offset.
+ */
+
+export type {
+  CohortParams,
+  CohortSpec,
+  Scenario,
+  ScenarioFormat,
+  ScenarioValidationResult,
+  CohortMember,
+} from './types.js';
+
+export type { ValidateScenarioOptions } from './loader.js';
+
+export {
+  validateScenario,
+  parseScenario,
+  scenarioFormatFromPath,
+  loadScenarioFile,
+  validateCohortParams,
+  scenarioFromConfig,
+  expandScenario,
+} from './loader.js';
@@ -0,0 +1,191 @@
+/**
+ * Scenario Loader Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { mkdtempSync, readFileSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join, resolve } from 'node:path';
+import { loadConfig, getAgentSeed } from '../core/config.js';
+import {
+  validateScenario,
+  parseScenario,
+  loadScenarioFile,
+  scenarioFormatFromPath,
+  scenarioFromConfig,
+  expandScenario,
+} from './loader.js';
+
+describe('validateScenario', () => {
+  it('accepts a minimal scenario', () => {
+    const result = validateScenario({ name: 's', cohorts: [{ name: 'a', archetype: 'QS', count: 1 }] });
+    expect(result).toEqual({ valid: true, errors: [] });
+  });
+
+  it('reports errors by path', () => {
+    const result = validateScenario({
+      name: 's',
+      cohorts: [
+        { name: 'a', archetype: 'QS', count: 1.5 },
+        { name: 'a', archetype: 'cbc', count: 1, startTick: 10, stopTick: 5 },
+        { name: 'c', archetype: 'CBC', count: 1, params: { deriveProbability: 2, custom: 'ok' }, typo: 1 },
+      ],
+    });
+
+    expect(result.valid).toBe(false);
+    expect(result.errors.map(e => e.path)).toEqual([
+      'cohorts[0].count',
+      'cohorts[1].name',
+      'cohorts[1].archetype',
+      'cohorts[1].stopTick',
+      'cohorts[2].typo',
+      'cohorts[2].params.deriveProbability',
+    ]);
+  });
+
+  it('checks archetypes against the registry when given', () => {
+    const result = validateScenario(
+      { name: 's', cohorts: [{ name: 'a', archetype: 'XYZ', count: 1 }] },
+      { knownArchetypes: ['QS', 'CBC'] }
+    );
+    expect(result.errors[0]).toEqual({
+      path: 'cohorts[0].archetype',
+      message: 'Unknown archetype "XYZ" (registered: QS, CBC)',
+    });
+  });
+
+  it('requires cohorts', () => {
+    expect(validateScenario({ name: 's', cohorts: [] }).errors).toEqual([
+      { path: 'cohorts', message: 'Required non-empty array' },
+    ]);
+  });
+});
+
+describe('parseScenario', () => {
+  it('reports syntax errors', () => {
+    const { scenario, validation } = parseScenario('{ nope', 'json');
+    expect(scenario).toBeUndefined();
+    expect(validation.errors[0]!.message).toMatch(/^Invalid JSON/);
+  });
+
+  it('loads the example scenarios', () => {
+    for (const path of [
+      'examples/scenarios/newcomers.yaml',
+      'examples/scenarios/smoke.json',
+      'examples/scenarios/offline-llm.yaml',
+      'examples/scenarios/prompt-ab.yaml',
+    ]) {
+      const { scenario, validation } = parseScenario(readFileSync(path, 'utf8'), scenarioFormatFromPath(path));
+      expect(validation.errors).toEqual([]);
+      expect(scenario!.cohorts.length).toBeGreaterThan(0);
+    }
+  });
+});
+
+describe('loadScenarioFile', () => {
+  it('resolves prompt templates next to the scenario file', async () => {
+    const { scenario, validation } = await loadScenarioFile('examples/scenarios/prompt-ab.yaml');
+    expect(validation.errors).toEqual([]);
+    expect(scenario!.cohorts[0]!.params!.prompt).toBe(resolve('examples/prompts/default.md'));
+  });
+
+  it('reports invalid prompt templates by cohort', async () => {
+    const dir = mkdtempSync(join(tmpdir(), 'scenario-'));
+    writeFileSync(join(dir, 'bad.md'), '---\nname: bad\nversion: 1\n---\n[[system]]\n{{nope}}\n');
+    writeFileSync(join(dir, 'scenario.yaml'), [
+      'name: prompts',
+      'cohorts:',
+      '  - { name: ok, archetype: LLM, count: 1 }',
+      '  - { name: bad, archetype: LLM, count: 1, params: { prompt: bad.md } }',
+    ].join('\n'));
+
+    const { scenario, validation } = await loadScenarioFile(join(dir, 'scenario.yaml'));
+    expect(scenario).toBeUndefined();
+    expect(validation.valid).toBe(false);
+    expect(new Set(validation.errors.map(e => e.path))).toEqual(new Set(['cohorts[1].params.prompt']));
+    expect(validation.errors[0]!.message.startsWith(`${join(dir, 'bad.md')}: system: Unknown variable {{nope}}`)).toBe(true);
+  });
+
+  it('requires a {{planning}} slot in templates of planning cohorts', async () => {
+    const dir = mkdtempSync(join(tmpdir(), 'scenario-'));
+    writeFileSync(join(dir, 'flat.md'), '---\nname: flat\nversion: 1\n---\n[[system]]\n{{schema}}\n[[user]]\n{{context}}\n');
+    writeFileSync(join(dir, 'scenario.yaml'), [
+      'name: prompts',
+      'cohorts:',
+      '  - { name: single, archetype: LLM, count: 1, params: { prompt: flat.md } }',
+      '  - { name: plans, archetype: LLM, count: 1, params: { prompt: flat.md, planning: true } }',
+      '  - { name: terse, archetype: LLM, count: 1, params: { prompt: "' + resolve('examples/prompts/terse.md') + '", planning: true } }',
+    ].join('\n'));
+
+    const { validation } = await loadScenarioFile(join(dir, 'scenario.yaml'));
+    expect(validation.errors).toEqual([{
+      path: 'cohorts[1].params.prompt',
+      message: `${join(dir, 'flat.md')}: system: Must include {{planning}} (here or in user) when planning is on`,
+    }]);
+  });
+
+  it('resolves and validates fake provider scripts next to the scenario file', async () => {
+    const loaded = await loadScenarioFile('examples/scenarios/offline-llm.yaml');
+    expect(loaded.validation.errors).toEqual([]);
+    expect(loaded.scenario!.cohorts[0]!.params!.script).toBe(resolve('examples/llm/explorer.yaml'));
+
+    const dir = mkdtempSync(join(tmpdir(), 'scenario-'));
+    writeFileSync(join(dir, 'script.yaml'), 'sequence: []\n');
+    writeFileSync(join(dir, 'scenario.yaml'), [
+      'name: scripts',
+      'cohorts:',
+      '  - { name: random, archetype: LLM, count: 1, params: { provider: fake, script: "" } }',
+      '  - { name: bad, archetype: LLM, count: 1, params: { provider: fake, script: script.yaml } }',
+    ].join('\n'));
+
+    const { validation } = await loadScenarioFile(join(dir, 'scenario.yaml'));
+    expect(validation.errors.map(e => e.path)).toEqual(['cohorts[1].params.script']);
+    expect(validation.errors[0]!.message.startsWith(`${join(dir, 'script.yaml')}: sequence: `)).toBe(true);
+  });
+
+  it('keeps an empty prompt as the built-in template', async () => {
+    const dir = mkdtempSync(join(tmpdir(), 'scenario-'));
+    writeFileSync(join(dir, 'scenario.yaml'), [
+      'name: prompts',
+      'cohorts:',
+      '  - { name: builtin, archetype: LLM, count: 1, params: { prompt: "" } }',
+    ].join('\n'));
+
+    const { scenario, validation } = await loadScenarioFile(join(dir, 'scenario.yaml'));
+    expect(validation.errors).toEqual([]);
+    expect(scenario!.cohorts[0]!.params!.prompt).toBe('');
+  });
+});
+
+describe('expandScenario', () => {
+  it('keeps indexes unique per archetype across cohorts', () => {
+    const members = expandScenario({
+      name: 's',
+      cohorts: [
+        { name: 'early', archetype: 'CBC', count: 2 },
+        { name: 'late', archetype: 'CBC', count: 1, startTick: 50, seedOffset: 3, params: { costBudget: 10 } },
+      ],
+    }, 42);
+
+    expect(members.map(m => [m.cohort, m.index, m.startTick])).toEqual([
+      ['early', 0, 0],
+      ['early', 1, 0],
+      ['late', 2, 50],
+    ]);
+    expect(members[0]!.seed).toBe(getAgentSeed(42, 'CBC', 0));
+    expect(members[2]!.seed).toBe(getAgentSeed(45, 'CBC', 2));
+    expect(members[2]!.params).toEqual({ costBudget: 10 });
+  });
+
+  it('matches the legacy count-based population', () => {
+    const config = { ...loadConfig(), qsCount: 2, cbcCount: 0, japCount: 1, llmCount: 0, extraCounts: { MIN: 1 } };
+    const members = expandScenario(scenarioFromConfig(config), 7);
+
+    expect(members.map(m => [m.archetype, m.index, m.seed])).toEqual([
+      ['QS', 0, getAgentSeed(7, 'QS', 0)],
+      ['QS', 1, getAgentSeed(7, 'QS', 1)],
+      ['JAP', 0, getAgentSeed(7, 'JAP', 0)],
+      ['MIN', 0, getAgentSeed(7, 'MIN', 0)],
+    ]);
+  });
+});
@@ -0,0 +1,349 @@
+/**
+ * Scenario Loader
+ *
+ * Parses JSON/YAML scenarios, validates them with path-based errors,
+ * and expands cohorts into the agents the runner creates.
+ */
+
+import { readFile } from 'node:fs/promises';
+import { dirname, extname, resolve } from 'node:path';
+
+import type { AgentArchetype } from '../core/types.js';
+import type { ProbeConfig } from '../core/config.js';
+import type { SchemaIssue } from '../core/schema.js';
+import { getAgentSeed } from '../core/config.js';
+import { parseYaml } from '../core/yaml.js';
+import { LLM_PROVIDER_KINDS } from '../llm/types.js';
+import { loadLLMScript } from '../llm/script.js';
+import { loadPromptTemplate, validatePlanningTemplate } from '../archetypes/llm-prompts.js';
+import type {
+  Scenario,
+  ScenarioFormat,
+  ScenarioValidationResult,
+  CohortMember,
+} from './types.js';
+
+const COHORT_FIELDS = ['name', 'archetype', 'count', 'params', 'startTick', 'stopTick', 'seedOffset'];
+const SCENARIO_FIELDS = ['name', 'description', 'baseSeed', 'cohorts'];
+
+/** Known params with their expected type and range */
+const PARAM_RULES: Record<string, {
+  type: 'number' | 'boolean' | 'string';
+  min?: number;
+  max?: number;
+  choices?: readonly string[];
+}> = {
+  silenceThreshold: { type: 'number', min: 0 },
+  costBudget: { type: 'number', min: 0 },
+  deriveProbability: { type: 'number', min: 0, max: 1 },
+  energyFloor: { type: 'number', min: 0 },
+  sessionBudget: { type: 'number', min: 0 },
+  enableInquiry: { type: 'boolean' },
+  provider: { type: 'string', choices: LLM_PROVIDER_KINDS },
+  model: { type: 'string' },
+  apiUrl: { type: 'string' },
+  script: { type: 'string' },
+  memorySize: { type: 'number', min: 0 },
+  memoryTokens: { type: 'number', min: 0 },
+  reflectEvery: { type: 'number', min: 0 },
+  prompt: { type: 'string' },
+  planning: { type: 'boolean' },
+  planSteps: { type: 'number', min: 1 },
+};
+
+function isInteger(value: unknown): value is number {
+  return typeof value === 'number' && Number.isInteger(value);
+}
+
+/**
+ * Validate cohort params against the known rules. Unknown params pass
+ * through for plugin archetypes.
+ */
+export function validateCohortParams(params: unknown, path = 'params'): SchemaIssue[] {
+  if (!params || typeof params !== 'object' || Array.isArray(params)) {
+    return [{ path, message: 'Must be an object' }];
+  }
+
+  const errors: SchemaIssue[] = [];
+  for (const [key, value] of Object.entries(params)) {
+    const rule = PARAM_RULES[key];
+    if (!rule) continue; // plugin archetype parameter
+
+    const paramPath = `${path}.${key}`;
+    if (rule.type === 'boolean') {
+      if (typeof value !== 'boolean') errors.push({ path: paramPath, message: 'Must be a boolean' });
+    } else if (rule.type === 'string') {
+      if (typeof value !== 'string') {
+        errors.push({ path: paramPath, message: 'Must be a string' });
+      } else if (rule.choices && !rule.choices.includes(value)) {
+        errors.push({ path: paramPath, message: `Must be one of: ${rule.choices.join(', ')}` });
+      }
+    } else if (typeof value !== 'number' || !Number.isFinite(value)) {
+      errors.push({ path: paramPath, message: 'Must be a number' });
+    } else if ((rule.min !== undefined && value < rule.min) || (rule.max !== undefined && value > rule.max)) {
+      errors.push({ path: paramPath, message: `Must be between ${rule.min ?? '-inf'} and ${rule.max ?? 'inf'}` });
+    }
+  }
+  return errors;
+}
+
+export interface ValidateScenarioOptions {
+  /** Archetype codes that can be created (e.g. after plugins load). Unchecked when omitted */
+  knownArchetypes?: AgentArchetype[];
+}
+
+/**
+ * Validate scenario structure
+ */
+export function validateScenario(
+  scenario: unknown,
+  options: ValidateScenarioOptions = {}
+): ScenarioValidationResult {
+  const errors: SchemaIssue[] = [];
+
+  if (!scenario || typeof scenario !== 'object' || Array.isArray(scenario)) {
+    return { valid: false, errors: [{ path: '', message: 'Scenario must be an object' }] };
+  }
+
+  const s = scenario as Record<string, unknown>;
+
+  for (const key of Object.keys(s)) {
+    if (!SCENARIO_FIELDS.includes(key)) {
+      errors.push({ path: key, message: `Unknown field (allowed: ${SCENARIO_FIELDS.join(', ')})` });
+    }
+  }
+
+  if (typeof s.name !== 'string' || s.name.length === 0) {
+    errors.push({ path: 'name', message: 'Required non-empty string' });
+  }
+
+  if (s.description !== undefined && typeof s.description !== 'string') {
+    errors.push({ path: 'description', message: 'Must be a string' });
+  }
+
+  if (s.baseSeed !== undefined && !isInteger(s.baseSeed)) {
+    errors.push({ path: 'baseSeed', message: 'Must be an integer' });
+  }
+
+  if (!Array.isArray(s.cohorts) || s.cohorts.length === 0) {
+    errors.push({ path: 'cohorts', message: 'Required non-empty array' });
+    return { valid: false, errors };
+  }
+
+  const names = new Set<string>();
+  s.cohorts.forEach((raw, i) => {
+    const path = `cohorts[${i}]`;
+
+    if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+      errors.push({ path, message: 'Must be an object' });
+      return;
+    }
+
+    const cohort = raw as Record<string, unknown>;
+
+    for (const key of Object.keys(cohort)) {
+      if (!COHORT_FIELDS.includes(key)) {
+        errors.push({ path: `${path}.${key}`, message: `Unknown field (allowed: ${COHORT_FIELDS.join(', ')})` });
+      }
+    }
+
+    if (typeof cohort.name !== 'string' || !/^[a-zA-Z][a-zA-Z0-9_-]*$/.test(cohort.name)) {
+      errors.push({ path: `${path}.name`, message: 'Required, must match ^[a-zA-Z][a-zA-Z0-9_-]*$' });
+    } else if (names.has(cohort.name)) {
+      errors.push({ path: `${path}.name`, message: `Duplicate cohort name "${cohort.name}"` });
+    } else {
+      names.add(cohort.name);
+    }
+
+    if (typeof cohort.archetype !== 'string' || !/^[A-Z][A-Z0-9_]*$/.test(cohort.archetype)) {
+      errors.push({ path: `${path}.archetype`, message: 'Required archetype code matching ^[A-Z][A-Z0-9_]*$' });
+    } else if (options.knownArchetypes && !options.knownArchetypes.includes(cohort.archetype)) {
+      errors.push({
+        path: `${path}.archetype`,
+        message: `Unknown archetype "${cohort.archetype}" (registered: ${options.knownArchetypes.join(', ')})`,
+      });
+    }
+
+    if (!isInteger(cohort.count) || cohort.count < 0) {
+      errors.push({ path: `${path}.count`, message: 'Required integer >= 0' });
+    }
+
+    if (cohort.startTick !== undefined && (!isInteger(cohort.startTick) || cohort.startTick < 0)) {
+      errors.push({ path: `${path}.startTick`, message: 'Must be an integer >= 0' });
+    }
+
+    if (cohort.stopTick !== undefined) {
+      const start = isInteger(cohort.startTick) ? cohort.startTick : 0;
+      if (!isInteger(cohort.stopTick) || cohort.stopTick <= start) {
+        errors.push({ path: `${path}.stopTick`, message: `Must be an integer > startTick (${start})` });
+      }
+    }
+
+    if (cohort.seedOffset !== undefined && !isInteger(cohort.seedOffset)) {
+      errors.push({ path: `${path}.seedOffset`, message: 'Must be an integer' });
+    }
+
+    if (cohort.params !== undefined) {
+      errors.push(...validateCohortParams(cohort.params, `${path}.params`));
+    }
+  });
+
+  return { valid: errors.length === 0, errors };
+}
+
+/**
+ * Parse and validate a scenario document
+ */
+export function parseScenario(
+  text: string,
+  format: ScenarioFormat,
+  options: ValidateScenarioOptions = {}
+): {
+  scenario?: Scenario;
+  validation: ScenarioValidationResult;
+} {
+  let parsed: unknown;
+  try {
+    parsed = format === 'yaml' ? parseYaml(text) : JSON.parse(text);
+  } catch (e) {
+    return {
+      validation: {
+        valid: false,
+        errors: [{ path: '', message: `Invalid ${format.toUpperCase()}: ${(e as Error).message}` }],
+      },
+    };
+  }
+
+  const validation = validateScenario(parsed, options);
+  if (!validation.valid) {
+    return { validation };
+  }
+
+  return { scenario: parsed as Scenario, validation };
+}
+
+/**
+ * Scenario format from a file extension (.yaml/.yml, otherwise JSON)
+ */
+export function scenarioFormatFromPath(path: string): ScenarioFormat {
+  const ext = extname(path).toLowerCase();
+  return ext === '.yaml' || ext === '.yml' ? 'yaml' : 'json';
+}
+
+/**
+ * Problems with a cohort's file, reported at its param
+ */
+function cohortFileIssues(index: number, param: string, file: string, issues: SchemaIssue[]): SchemaIssue[] {
+  return issues.map(e => ({
+    path: `cohorts[${index}].params.${param}`,
+    message: `${file}: ${e.path ? `${e.path}: ` : ''}${e.message}`,
+  }));
+}
+
+/**
+ * Resolve each cohort's prompt template and fake provider script against
+ * the scenario's directory (in place) and validate them, so a broken file
+ * stops the run before any agent registers. Planning cohorts need a
+ * {{planning}} slot in their template.
+ */
+async function resolveCohortFiles(scenario: Scenario, path: string): Promise<SchemaIssue[]> {
+  const errors: SchemaIssue[] = [];
+  for (const [i, cohort] of scenario.cohorts.entries()) {
+    const params = cohort.params;
+    if (!params) continue;
+
+    // '' keeps the built-in template
+    if (typeof params.prompt === 'string' && params.prompt !== '') {
+      params.prompt = resolve(dirname(path), params.prompt);
+      const { template, errors: issues } = await loadPromptTemplate(params.prompt);
+      if (template && params.planning === true) issues.push(...validatePlanningTemplate(template));
+      errors.push(...cohortFileIssues(i, 'prompt', params.prompt, issues));
+    }
+
+    // '' keeps the seeded random policy
+    if (typeof params.script === 'string' && params.script !== '') {
+      params.script = resolve(dirname(path), params.script);
+      const { errors: issues } = await loadLLMScript(params.script);
+      errors.push(...cohortFileIssues(i, 'script', params.script, issues));
+    }
+  }
+  return errors;
+}
+
+/**
+ * Read and validate a scenario file. Cohort prompt templates and
+ * scripts are resolved relative to the file and validated too.
+ */
+export async function loadScenarioFile(
+  path: string,
+  options: ValidateScenarioOptions = {}
+): Promise<{
+  scenario?: Scenario;
+  validation: ScenarioValidationResult;
+}> {
+  let text: string;
+  try {
+    text = await readFile(path, 'utf8');
+  } catch (e) {
+    return {
+      validation: {
+        valid: false,
+        errors: [{ path: '', message: `Cannot read ${path}: ${(e as Error).message}` }],
+      },
+    };
+  }
+
+  const parsed = parseScenario(text, scenarioFormatFromPath(path), options);
+  if (!parsed.scenario) return parsed;
+
+  const errors = await resolveCohortFiles(parsed.scenario, path);
+  return errors.length > 0 ? { validation: { valid: false, errors } } : parsed;
+}
+
+/**
+ * Scenario equivalent of the per-archetype counts in ProbeConfig
+ */
+export function scenarioFromConfig(config: ProbeConfig): Scenario {
+  const counts: Array<[AgentArchetype, number]> = [
+    ['QS', config.qsCount],
+    ['CBC', config.cbcCount],
+    ['JAP', config.japCount],
+    ['LLM', config.llmCount],
+    ...Object.entries(config.extraCounts),
+  ];
+
+  return {
+    name: 'default',
+    cohorts: counts
+      .filter(([, count]) => count > 0)
+      .map(([archetype, count]) => ({ name: archetype.toLowerCase(), archetype, count })),
+  };
+}
+
+/**
+ * Expand cohorts into individual agents.
+ * Indexes run per archetype across cohorts, so seeds never collide.
+ */
+export function expandScenario(scenario: Scenario, baseSeed: number): CohortMember[] {
+  const nextIndex = new Map<AgentArchetype, number>();
+  const members: CohortMember[] = [];
+
+  for (const cohort of scenario.cohorts) {
+    const seedBase = baseSeed + (cohort.seedOffset ?? 0);
+    for (let i = 0; i < cohort.count; i++) {
+      const index = nextIndex.get(cohort.archetype) ?? 0;
+      nextIndex.set(cohort.archetype, index + 1);
+      members.push({
+        cohort: cohort.name,
+        archetype: cohort.archetype,
+        index,
+        seed: getAgentSeed(seedBase, cohort.archetype, index),
+        params: { ...cohort.params },
+        startTick: cohort.startTick ?? 0,
+        stopTick: cohort.stopTick,
+      });
+    }
+  }
+
+  return members;
+}
@@ -0,0 +1,94 @@
+/**
+ * Scenario Types
+ *
+ * A scenario declares a full probe population as named cohorts,
+ * so experiments can be versioned as files instead of env vars.
+ */
+
+import type { AgentArchetype } from '../core/types.js';
+import type { SchemaIssue } from '../core/schema.js';
+import type { LLMProviderKind } from '../llm/types.js';
+
+/** Per-cohort agent parameters */
+export interface CohortParams {
+  /** Energy threshold for silence mode (QS) */
+  silenceThreshold?: number;
+  /** Cost budget (CBC) */
+  costBudget?: number;
+  /** Derive probability (CBC) */
+  deriveProbability?: number;
+  /** Energy floor (LLM) */
+  energyFloor?: number;
+  /** Session budget (LLM) */
+  sessionBudget?: number;
+  /** Enable CREATE_INQUIRY (LLM) */
+  enableInquiry?: boolean;
+  /** Chat service to ask (LLM, default: the llmProvider setting) */
+  provider?: LLMProviderKind;
+  /** Model name (LLM, default: the llmModel setting for the llmProvider, else the provider's default) */
+  model?: string;
+  /** Provider base URL (LLM, default: the provider's URL setting; the configured key is not sent elsewhere) */
+  apiUrl?: string;
+  /** Script file for the fake provider, relative to the scenario file (LLM, default: the llmScript setting) */
+  script?: string;
+  /** Episodes remembered (LLM, default: the llmMemorySize setting) */
+  memorySize?: number;
+  /** Memory token budget (LLM, default: the llmMemoryTokens setting) */
+  memoryTokens?: number;
+  /** Episodes between reflections (LLM, default: the llmReflectEvery setting) */
+  reflectEvery?: number;
+  /** Prompt template file, relative to the scenario file (LLM, default: the llmPrompt setting) */
+  prompt?: string;
+  /** Ask for multi-step plans (LLM, default: the llmPlanning setting) */
+  planning?: boolean;
+  /** Longest plan accepted (LLM, default: the llmPlanSteps setting) */
+  planSteps?: number;
+  /** Anything else is passed through for plugin archetypes */
+  [key: string]: unknown;
+}
+
+export interface CohortSpec {
+  /** Cohort name, unique within the scenario. Used in logs */
+  name: string;
+  /** Registered archetype code */
+  archetype: AgentArchetype;
+  /** Number of agents */
+  count: number;
+  /** Per-agent parameters */
+  params?: CohortParams;
+  /** Runner tick at which the cohort registers and starts stepping (default 0) */
+  startTick?: number;
+  /** Runner tick at which the cohort stops stepping (default: never) */
+  stopTick?: number;
+  /** Added to the base seed for this cohort's agents (default 0) */
+  seedOffset?: number;
+}
+
+export interface Scenario {
+  /** Scenario name, logged at startup */
+  name: string;
+  description?: string;
+  /** Base seed (a --seed flag still wins) */
+  baseSeed?: number;
+  cohorts: CohortSpec[];
+}
+
+export type ScenarioFormat = 'json' | 'yaml';
+
+/** Scenario validation result. Errors carry the failing path (e.g. "cohorts[1].count") */
+export interface ScenarioValidationResult {
+  valid: boolean;
+  errors: SchemaIssue[];
+}
+
+/** One agent to create, expanded from a cohort */
+export interface CohortMember {
+  cohort: string;
+  archetype: AgentArchetype;
+  /** Index among all agents of this archetype (keeps seeds unique across cohorts) */
+  index: number;
+  seed: number;
+  params: CohortParams;
+  startTick: number;
+  stopTick?: number;
+}
@@ -0,0 +1,19 @@
+/**
+ * Scheduler Module
+ *
+ * Per-agent step scheduling: lockstep ticks or independent cadences
+ * with jitter, bounded concurrency and overrun policies.
+ */
+
+export type {
+  SchedulerMode,
+  OverrunPolicy,
+  SchedulableAgent,
+  SchedulerOptions,
+  AgentStepStats,
+  ArchetypeStepStats,
+} from './types.js';
+
+export { SCHEDULER_MODES, OVERRUN_POLICIES, DEFAULT_SCHEDULER_OPTIONS } from './types.js';
+
+export { StepScheduler, createStepScheduler } from './scheduler.js';
@@ -0,0 +1,178 @@
+/**
+ * Step Scheduler Tests
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { StepScheduler } from './scheduler.js';
+import type { SchedulableAgent, OverrunPolicy } from './types.js';
+
+/**
+ * Agent whose steps take stepMs of (fake) time
+ */
+function fakeAgent(archetype: string, stepMs: number) {
+  let steps = 0;
+  const agent: SchedulableAgent & { steps: () => number } = {
+    archetype,
+    getState: () => ({ did: `did:${archetype}`, tick: 0 }),
+    step: async () => {
+      steps++;
+      await new Promise((resolve) => setTimeout(resolve, stepMs));
+    },
+    steps: () => steps,
+  };
+  return agent;
+}
+
+describe('StepScheduler', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  /** stop() waits for running steps, which need fake time to finish */
+  async function stopAndDrain(scheduler: StepScheduler): Promise<void> {
+    const stopped = scheduler.stop();
+    await vi.advanceTimersByTimeAsync(10_000);
+    await stopped;
+  }
+
+  it('runs every agent once per lockstep tick', async () => {
+    const a = fakeAgent('QS', 5);
+    const b = fakeAgent('CBC', 5);
+    const scheduler = new StepScheduler({ cadenceFor: () => 100 });
+
+    const tick = scheduler.runTick([a, b]);
+    await vi.advanceTimersByTimeAsync(5);
+    await tick;
+
+    expect([a.steps(), b.steps()]).toEqual([1, 1]);
+    expect(scheduler.getStatsByArchetype().QS!.steps).toBe(1);
+  });
+
+  it('bounds concurrency', async () => {
+    const agents = [fakeAgent('QS', 10), fakeAgent('QS', 10), fakeAgent('QS', 10)];
+    const scheduler = new StepScheduler({ cadenceFor: () => 100, maxConcurrency: 1 });
+
+    void scheduler.runTick(agents);
+    await vi.advanceTimersByTimeAsync(15);
+
+    expect(agents.map((a) => a.steps())).toEqual([1, 1, 0]);
+    await vi.advanceTimersByTimeAsync(15);
+    expect(agents.map((a) => a.steps())).toEqual([1, 1, 1]);
+  });
+
+  it('gives each agent its own cadence in async mode', async () => {
+    const fast = fakeAgent('QS', 1);
+    const slow = fakeAgent('LLM', 1);
+    const scheduler = new StepScheduler({
+      mode: 'async',
+      jitter: 0,
+      cadenceFor: (agent) => (agent.archetype === 'LLM' ? 500 : 100),
+    });
+
+    scheduler.setAgents([fast, slow]);
+    await vi.advanceTimersByTimeAsync(1000);
+    await stopAndDrain(scheduler);
+
+    expect(fast.steps()).toBe(10);
+    expect(slow.steps()).toBe(2);
+  });
+
+  it('keeps a slow agent from stalling the others', async () => {
+    const sensor = fakeAgent('QS', 1);
+    const llm = fakeAgent('LLM', 8000);
+    const scheduler = new StepScheduler({ mode: 'async', jitter: 0, cadenceFor: () => 1000 });
+
+    scheduler.setAgents([sensor, llm]);
+    await vi.advanceTimersByTimeAsync(5000);
+
+    expect(sensor.steps()).toBe(5);
+    expect(llm.steps()).toBe(1);
+    await stopAndDrain(scheduler);
+  });
+
+  // 3.3s steps due every 1s, observed for 10.5s
+  it.each<[OverrunPolicy, number, number, number]>([
+    // policy, overruns, skipped, coalesced
+    ['skip', 7, 7, 0],
+    ['coalesce', 9, 0, 6],
+    ['queue', 9, 0, 0],
+  ])('applies the %s overrun policy', async (policy, overruns, skipped, coalesced) => {
+    const agent = fakeAgent('LLM', 3300);
+    const scheduler = new StepScheduler({ mode: 'async', jitter: 0, overrunPolicy: policy, cadenceFor: () => 1000 });
+
+    scheduler.setAgents([agent]);
+    await vi.advanceTimersByTimeAsync(10_500);
+
+    const stats = scheduler.getStats()[0]!;
+    expect(agent.steps()).toBe(3);
+    expect(stats.steps).toBe(2); // the third step is still running
+    expect(stats.overruns).toBe(overruns);
+    expect(stats.skipped).toBe(skipped);
+    expect(stats.coalesced).toBe(coalesced);
+    await stopAndDrain(scheduler);
+  });
+
+  it('stops scheduling removed agents', async () => {
+    const agent = fakeAgent('QS', 1);
+    const scheduler = new StepScheduler({ mode: 'async', jitter: 0, cadenceFor: () => 100 });
+
+    scheduler.setAgents([agent]);
+    await vi.advanceTimersByTimeAsync(250);
+    scheduler.setAgents([]);
+    await vi.advanceTimersByTimeAsync(1000);
+
+    expect(agent.steps()).toBe(2);
+  });
+
+  it('settles one agent: no new steps, and waits for the running one', async () => {
+    const agent = fakeAgent('QS', 50);
+    const scheduler = new StepScheduler({ mode: 'async', jitter: 0, cadenceFor: () => 100 });
+
+    scheduler.setAgents([agent]);
+    await vi.advanceTimersByTimeAsync(120);
+    let settled = false;
+    const settling = scheduler.settle(agent).then(() => { settled = true; });
+
+    await vi.advanceTimersByTimeAsync(20);
+    expect(settled).toBe(false);
+    await vi.advanceTimersByTimeAsync(20);
+    await settling;
+    expect(settled).toBe(true);
+
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(agent.steps()).toBe(1);
+  });
+
+  it('applies seeded jitter deterministically', async () => {
+    const run = async () => {
+      const agent = fakeAgent('QS', 1);
+      const scheduler = new StepScheduler({ mode: 'async', jitter: 0.5, seed: 7, cadenceFor: () => 100 });
+      scheduler.setAgents([agent]);
+      await vi.advanceTimersByTimeAsync(2000);
+      await stopAndDrain(scheduler);
+      return agent.steps();
+    };
+
+    expect(await run()).toBe(await run());
+  });
+
+  it('reports step errors and keeps going', async () => {
+    const onError = vi.fn();
+    const agent: SchedulableAgent = {
+      archetype: 'QS',
+      getState: () => ({ did: null, tick: 0 }),
+      step: async () => { throw new Error('boom'); },
+    };
+    const scheduler = new StepScheduler({ cadenceFor: () => 100, onError });
+
+    await scheduler.runTick([agent]);
+    await scheduler.runTick([agent]);
+
+    expect(onError).toHaveBeenCalledTimes(2);
+    expect(scheduler.getStats()[0]).toMatchObject({ steps: 2, errors: 2 });
+  });
+});
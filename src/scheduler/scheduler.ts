@@ -0,0 +1,311 @@
+/**
+ * Step Scheduler
+ *
+ * Decides when each agent steps:
+ * - Lockstep: runTick() steps all agents once (deterministic order of ticks)
+ * - Async: setAgents() gives each agent its own timer, with seeded jitter
+ *
+ * Both modes bound concurrency with a FIFO semaphore and record
+ * per-agent step latency. Overruns follow the configured policy.
+ */
+
+import { SeededRNG } from '../core/rng.js';
+import type { AgentArchetype } from '../core/types.js';
+import {
+  DEFAULT_SCHEDULER_OPTIONS,
+  type SchedulerOptions,
+  type SchedulableAgent,
+  type AgentStepStats,
+  type ArchetypeStepStats,
+} from './types.js';
+
+/** Latencies kept per agent for percentiles */
+const LATENCY_WINDOW = 100;
+
+// ============================================================================
+// SEMAPHORE
+// ============================================================================
+
+/**
+ * FIFO counting semaphore. A limit of 0 means unlimited.
+ */
+class Semaphore {
+  private active = 0;
+  private waiters: Array<() => void> = [];
+
+  constructor(private limit: number) {}
+
+  async acquire(): Promise<void> {
+    if (this.limit <= 0 || this.active < this.limit) {
+      this.active++;
+      return;
+    }
+    await new Promise<void>((resolve) => this.waiters.push(resolve));
+    this.active++;
+  }
+
+  release(): void {
+    this.active--;
+    this.waiters.shift()?.();
+  }
+}
+
+// ============================================================================
+// SCHEDULER
+// ============================================================================
+
+interface AgentEntry {
+  agent: SchedulableAgent;
+  /** Running or waiting for a concurrency slot */
+  busy: boolean;
+  /** Steps to run after the current one */
+  pending: number;
+  timer: ReturnType<typeof setTimeout> | null;
+  /** Settles when the current step finishes */
+  current: Promise<void> | null;
+  steps: number;
+  errors: number;
+  overruns: number;
+  skipped: number;
+  coalesced: number;
+  latencies: number[];
+  totalMs: number;
+  lastMs: number;
+  maxMs: number;
+}
+
+function percentile(values: number[], p: number): number {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.min(sorted.length - 1, Math.ceil((p / 100) * sorted.length) - 1)]!;
+}
+
+function round(ms: number): number {
+  return Math.round(ms * 10) / 10;
+}
+
+export class StepScheduler {
+  private options: SchedulerOptions;
+  private semaphore: Semaphore;
+  private rng: SeededRNG;
+  private entries = new Map<SchedulableAgent, AgentEntry>();
+  private stopped = false;
+
+  constructor(options: Partial<SchedulerOptions> & Pick<SchedulerOptions, 'cadenceFor'>) {
+    this.options = { ...DEFAULT_SCHEDULER_OPTIONS, ...options };
+    this.semaphore = new Semaphore(this.options.maxConcurrency);
+    this.rng = new SeededRNG(this.options.seed);
+  }
+
+  get mode(): SchedulerOptions['mode'] {
+    return this.options.mode;
+  }
+
+  /**
+   * Lockstep: step every agent once and wait for all of them
+   */
+  async runTick(agents: SchedulableAgent[]): Promise<void> {
+    await Promise.all(agents.map((agent) => this.runStep(this.entryFor(agent))));
+  }
+
+  /**
+   * Async: schedule exactly these agents. New agents start after a jittered
+   * cadence; agents no longer listed stop being scheduled (a running step finishes).
+   */
+  setAgents(agents: SchedulableAgent[]): void {
+    const wanted = new Set(agents);
+
+    for (const [agent, entry] of this.entries) {
+      if (!wanted.has(agent) && entry.timer) {
+        clearTimeout(entry.timer);
+        entry.timer = null;
+        entry.pending = 0;
+      }
+    }
+
+    if (this.stopped) return;
+
+    for (const agent of agents) {
+      const entry = this.entryFor(agent);
+      if (!entry.timer) {
+        this.scheduleNext(entry);
+      }
+    }
+  }
+
+  /**
+   * Stop scheduling one agent and wait for its running step, if any
+   * (setAgents() schedules it again)
+   */
+  async settle(agent: SchedulableAgent): Promise<void> {
+    const entry = this.entries.get(agent);
+    if (!entry) return;
+    if (entry.timer) clearTimeout(entry.timer);
+    entry.timer = null;
+    entry.pending = 0;
+    await entry.current;
+  }
+
+  /**
+   * Stop all timers and wait for running steps
+   */
+  async stop(): Promise<void> {
+    this.stopped = true;
+    for (const entry of this.entries.values()) {
+      if (entry.timer) clearTimeout(entry.timer);
+      entry.timer = null;
+      entry.pending = 0;
+    }
+    await Promise.all([...this.entries.values()].map((entry) => entry.current));
+  }
+
+  getStats(): AgentStepStats[] {
+    return [...this.entries.values()].map((entry) => ({
+      archetype: entry.agent.archetype,
+      did: entry.agent.getState().did,
+      steps: entry.steps,
+      errors: entry.errors,
+      overruns: entry.overruns,
+      skipped: entry.skipped,
+      coalesced: entry.coalesced,
+      lastMs: round(entry.lastMs),
+      meanMs: round(entry.steps > 0 ? entry.totalMs / entry.steps : 0),
+      p95Ms: round(percentile(entry.latencies, 95)),
+      maxMs: round(entry.maxMs),
+    }));
+  }
+
+  /**
+   * Step stats per archetype (for runner summaries)
+   */
+  getStatsByArchetype(): Record<string, ArchetypeStepStats> {
+    const groups = new Map<AgentArchetype, AgentEntry[]>();
+    for (const entry of this.entries.values()) {
+      const group = groups.get(entry.agent.archetype) ?? [];
+      group.push(entry);
+      groups.set(entry.agent.archetype, group);
+    }
+
+    const result: Record<string, ArchetypeStepStats> = {};
+    for (const [archetype, group] of groups) {
+      const steps = group.reduce((sum, e) => sum + e.steps, 0);
+      const totalMs = group.reduce((sum, e) => sum + e.totalMs, 0);
+      result[archetype] = {
+        agents: group.length,
+        steps,
+        errors: group.reduce((sum, e) => sum + e.errors, 0),
+        overruns: group.reduce((sum, e) => sum + e.overruns, 0),
+        skipped: group.reduce((sum, e) => sum + e.skipped, 0),
+        coalesced: group.reduce((sum, e) => sum + e.coalesced, 0),
+        meanMs: round(steps > 0 ? totalMs / steps : 0),
+        p95Ms: round(percentile(group.flatMap((e) => e.latencies), 95)),
+        maxMs: round(Math.max(0, ...group.map((e) => e.maxMs))),
+      };
+    }
+    return result;
+  }
+
+  private entryFor(agent: SchedulableAgent): AgentEntry {
+    let entry = this.entries.get(agent);
+    if (!entry) {
+      entry = {
+        agent,
+        busy: false,
+        pending: 0,
+        timer: null,
+        current: null,
+        steps: 0,
+        errors: 0,
+        overruns: 0,
+        skipped: 0,
+        coalesced: 0,
+        latencies: [],
+        totalMs: 0,
+        lastMs: 0,
+        maxMs: 0,
+      };
+      this.entries.set(agent, entry);
+    }
+    return entry;
+  }
+
+  /**
+   * Cadence with seeded jitter: cadence * (1 ± jitter)
+   */
+  private nextDelay(agent: SchedulableAgent): number {
+    const cadence = this.options.cadenceFor(agent);
+    const spread = cadence * this.options.jitter;
+    return Math.max(0, cadence + spread * (2 * this.rng.next() - 1));
+  }
+
+  private scheduleNext(entry: AgentEntry): void {
+    entry.timer = setTimeout(() => {
+      entry.timer = null;
+      if (this.stopped) return;
+      this.scheduleNext(entry);
+      this.onDue(entry);
+    }, this.nextDelay(entry.agent));
+  }
+
+  private onDue(entry: AgentEntry): void {
+    if (!entry.busy) {
+      void this.runStep(entry);
+      return;
+    }
+
+    entry.overruns++;
+    switch (this.options.overrunPolicy) {
+      case 'skip':
+        entry.skipped++;
+        break;
+      case 'queue':
+        if (entry.pending < this.options.maxQueuedSteps) entry.pending++;
+        else entry.skipped++;
+        break;
+      case 'coalesce':
+        if (entry.pending === 0) entry.pending = 1;
+        else entry.coalesced++;
+        break;
+    }
+  }
+
+  private runStep(entry: AgentEntry): Promise<void> {
+    const run = async () => {
+      entry.busy = true;
+      do {
+        await this.semaphore.acquire();
+        const started = performance.now();
+        try {
+          await entry.agent.step();
+        } catch (error) {
+          entry.errors++;
+          this.options.onError?.(entry.agent, error);
+        } finally {
+          this.semaphore.release();
+          this.recordLatency(entry, performance.now() - started);
+        }
+        if (entry.pending > 0) entry.pending--;
+        else break;
+      } while (!this.stopped);
+      entry.busy = false;
+    };
+
+    entry.current = run();
+    return entry.current;
+  }
+
+  private recordLatency(entry: AgentEntry, ms: number): void {
+    entry.steps++;
+    entry.totalMs += ms;
+    entry.lastMs = ms;
+    entry.maxMs = Math.max(entry.maxMs, ms);
+    entry.latencies.push(ms);
+    if (entry.latencies.length > LATENCY_WINDOW) entry.latencies.shift();
+  }
+}
+
+export function createStepScheduler(
+  options: Partial<SchedulerOptions> & Pick<SchedulerOptions, 'cadenceFor'>
+): StepScheduler {
+  return new StepScheduler(options);
+}
@@ -0,0 +1,87 @@
+/**
+ * Scheduler Types
+ */
+
+import type { AgentArchetype } from '../core/types.js';
+
+/**
+ * How agents are stepped:
+ * - lockstep: every active agent steps once per runner tick (deterministic, required for replay)
+ * - async: each agent steps on its own cadence
+ */
+export type SchedulerMode = 'lockstep' | 'async';
+
+export const SCHEDULER_MODES: readonly SchedulerMode[] = ['lockstep', 'async'];
+
+/**
+ * What happens when a step comes due while the previous one is still running:
+ * - skip: drop the due step
+ * - queue: run it right after (up to maxQueuedSteps pending)
+ * - coalesce: keep at most one pending step
+ */
+export type OverrunPolicy = 'skip' | 'queue' | 'coalesce';
+
+export const OVERRUN_POLICIES: readonly OverrunPolicy[] = ['skip', 'queue', 'coalesce'];
+
+/** Anything the scheduler can step (ProbeAgent satisfies this) */
+export interface SchedulableAgent {
+  readonly archetype: AgentArchetype;
+  step(): Promise<void>;
+  getState(): { did: string | null; tick: number };
+}
+
+export interface SchedulerOptions {
+  mode: SchedulerMode;
+  /** Maximum steps running at once (0 = unlimited) */
+  maxConcurrency: number;
+  overrunPolicy: OverrunPolicy;
+  /** Pending step cap for the queue policy */
+  maxQueuedSteps: number;
+  /** Cadence jitter as a fraction of the cadence (0.1 = ±10%) */
+  jitter: number;
+  /** Seed for jitter */
+  seed: number;
+  /** Step interval for an agent in async mode */
+  cadenceFor: (agent: SchedulableAgent) => number;
+  /** Called when step() throws */
+  onError?: (agent: SchedulableAgent, error: unknown) => void;
+}
+
+export const DEFAULT_SCHEDULER_OPTIONS: Omit<SchedulerOptions, 'cadenceFor'> = {
+  mode: 'lockstep',
+  maxConcurrency: 0,
+  overrunPolicy: 'coalesce',
+  maxQueuedSteps: 10,
+  jitter: 0.1,
+  seed: 42,
+};
+
+export interface AgentStepStats {
+  archetype: AgentArchetype;
+  did: string | null;
+  steps: number;
+  errors: number;
+  /** Steps that came due while the previous one was still running */
+  overruns: number;
+  /** Overruns dropped (skip policy, full queue) */
+  skipped: number;
+  /** Overruns merged into an already pending step */
+  coalesced: number;
+  lastMs: number;
+  meanMs: number;
+  p95Ms: number;
+  maxMs: number;
+}
+
+/** Step stats aggregated per archetype */
+export interface ArchetypeStepStats {
+  agents: number;
+  steps: number;
+  errors: number;
+  overruns: number;
+  skipped: number;
+  coalesced: number;
+  meanMs: number;
+  p95Ms: number;
+  maxMs: number;
+}
@@ -0,0 +1,304 @@
+/**
+ * Habitat Simulator Tests
+ *
+ * Tests for:
+ * 1. Registration and energy regeneration
+ * 2. Quote physics (zones, permanence caps, outDegree, energy)
+ * 3. FLUX -> FORGE migration and joint affordance windows
+ * 4. Archetypes running end-to-end against the simulator
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { TraceDraft, PerceiveResponse, QuoteResponse } from '../core/types.js';
+import { createHttpClient } from '../core/http.js';
+import { createQuietSensor } from '../archetypes/quiet-sensor.js';
+import { createCostBoundCrafter } from '../archetypes/cost-bound-crafter.js';
+import { createJointProspector } from '../archetypes/joint-prospector.js';
+import { SimulatedHabitat, createSimulatorFetch, estimateTraceCost } from './index.js';
+
+const fluxDraft: TraceDraft = {
+  zone: 'FLUX',
+  L1: { intent: ['∇obs'] },
+  L2: { shape: ['lin'] },
+  L3: { topology: { depth: 2, nodes: 3, symmetry: 0 } },
+  L4: { core: ['⊗mem', '∥loc'] },
+  L6: { rel: { derives_from: [], mutation: 'none' } },
+  L7: { permanence: 2 },
+  L8: { opacity: 5 },
+};
+
+const jointCapableDraft: TraceDraft = {
+  ...fluxDraft,
+  L1: { intent: ['∇prv'] },
+  L4: { core: ['⊗mem', '⛓anc'] },
+  L7: { permanence: 3 },
+};
+
+function register(habitat: SimulatedHabitat, seed: string): string {
+  const res = habitat.handle('POST', '/v1/agents/register', { continuitySeed: seed });
+  return (res.body as { did: string }).did;
+}
+
+function createTrace(habitat: SimulatedHabitat, did: string, draft: TraceDraft): string {
+  const res = habitat.handle('POST', '/v1/traces', { did, traceDraft: draft });
+  expect(res.status).toBe(200);
+  return (res.body as { traceId: string }).traceId;
+}
+
+function perceive(habitat: SimulatedHabitat, did: string): PerceiveResponse {
+  return habitat.handle('POST', '/v1/perception/perceive', { did }).body as PerceiveResponse;
+}
+
+describe('Simulator - Registration', () => {
+  it('should register agents with initial energy', () => {
+    const habitat = new SimulatedHabitat({ seed: 1, startTick: 100 });
+    const res = habitat.handle('POST', '/v1/agents/register', { continuitySeed: 'qs-0' });
+
+    expect(res.status).toBe(200);
+    expect(res.body).toMatchObject({ energy: 25, tick: 100 });
+    expect((res.body as { did: string }).did).toMatch(/^agent:0x[0-9a-f]{12}$/);
+  });
+
+  it('should resume identity for the same continuity seed', () => {
+    const habitat = new SimulatedHabitat();
+    expect(register(habitat, 'qs-0')).toBe(register(habitat, 'qs-0'));
+    expect(register(habitat, 'qs-1')).not.toBe(register(habitat, 'qs-0'));
+  });
+
+  it('should be deterministic for the same seed', () => {
+    const a = new SimulatedHabitat({ seed: 7 });
+    const b = new SimulatedHabitat({ seed: 7 });
+    expect(register(a, 'x')).toBe(register(b, 'x'));
+  });
+
+  it('should reject unknown agents', () => {
+    const habitat = new SimulatedHabitat();
+    const res = habitat.handle('POST', '/v1/perception/perceive', { did: 'agent:0xnope' });
+    expect(res.status).toBe(404);
+    expect(res.body).toEqual({ error: 'unknown_agent' });
+  });
+
+  it('should regenerate energy per tick up to the cap', () => {
+    const habitat = new SimulatedHabitat({ energyRegenPerTick: 1, maxEnergy: 25 });
+    const did = register(habitat, 'regen');
+    const cost = estimateTraceCost(fluxDraft, 'CREATE_TRACE');
+
+    createTrace(habitat, did, fluxDraft);
+    expect(habitat.getAgent(did)!.energy).toBeCloseTo(25 - cost);
+
+    habitat.advance(2);
+    expect(habitat.getAgent(did)!.energy).toBeCloseTo(Math.min(25, 25 - cost + 2));
+
+    habitat.advance(100);
+    expect(habitat.getAgent(did)!.energy).toBe(25);
+  });
+});
+
+describe('Simulator - Quote Physics', () => {
+  let habitat: SimulatedHabitat;
+  let did: string;
+
+  beforeEach(() => {
+    habitat = new SimulatedHabitat();
+    did = register(habitat, 'quote');
+  });
+
+  function quote(action: string, traceDraft: TraceDraft): QuoteResponse {
+    return habitat.handle('POST', '/v1/physics/quote', { did, action, traceDraft }).body as QuoteResponse;
+  }
+
+  it('should allow a valid FLUX create without spending energy', () => {
+    const q = quote('CREATE_TRACE', fluxDraft);
+    expect(q.allowed).toBe(true);
+    expect(q.energyAfter).toBeCloseTo(25 - q.cost);
+    expect(habitat.getAgent(did)!.energy).toBe(25);
+  });
+
+  it('should enforce the FLUX permanence cap', () => {
+    const q = quote('CREATE_TRACE', { ...fluxDraft, L7: { permanence: 4 } });
+    expect(q.allowed).toBe(false);
+    expect(q.reasons).toContain('permanence_cap');
+  });
+
+  it('should deny when energy is insufficient', () => {
+    const poor = new SimulatedHabitat({ initialEnergy: 0.5 });
+    const poorDid = register(poor, 'poor');
+    const q = poor.handle('POST', '/v1/physics/quote', {
+      did: poorDid,
+      action: 'CREATE_TRACE',
+      traceDraft: fluxDraft,
+    }).body as QuoteResponse;
+
+    expect(q.allowed).toBe(false);
+    expect(q.reasons).toContain('insufficient_energy');
+    expect(q.energyAfter).toBeLessThan(0);
+  });
+
+  it('should require FORGE parents for derivation', () => {
+    const parentId = createTrace(habitat, did, fluxDraft);
+    const deriveDraft: TraceDraft = {
+      ...fluxDraft,
+      zone: 'FORGE',
+      L6: { rel: { derives_from: [parentId], mutation: 'partial' } },
+    };
+
+    expect(quote('DERIVE_TRACE', deriveDraft).reasons).toContain('parent_not_in_forge');
+
+    habitat.advance(10);
+    expect(quote('DERIVE_TRACE', deriveDraft).allowed).toBe(true);
+  });
+
+  it('should cap outDegree per parent', () => {
+    const rich = new SimulatedHabitat({ initialEnergy: 500, maxEnergy: 500, maxOutDegree: 2 });
+    const richDid = register(rich, 'rich');
+    const parentId = createTrace(rich, richDid, fluxDraft);
+    rich.advance(10);
+
+    const body = {
+      did: richDid,
+      parentTraceId: parentId,
+      mutation: 'partial',
+      traceDraft: { ...fluxDraft, zone: 'FORGE', L6: { rel: { derives_from: [parentId], mutation: 'partial' } } },
+    };
+
+    expect(rich.handle('POST', '/v1/traces/derive', body).status).toBe(200);
+    expect(rich.handle('POST', '/v1/traces/derive', body).status).toBe(200);
+
+    const third = rich.handle('POST', '/v1/traces/derive', body);
+    expect(third.status).toBe(409);
+    expect(third.body).toEqual({ error: 'out_degree_cap' });
+    expect(rich.getTrace(parentId)!.outDegree).toBe(2);
+  });
+});
+
+describe('Simulator - Zones and Joint Affordances', () => {
+  it('should migrate FLUX traces to FORGE', () => {
+    const habitat = new SimulatedHabitat({ fluxMigrationTicks: 5 });
+    const did = register(habitat, 'migrate');
+    const traceId = createTrace(habitat, did, fluxDraft);
+
+    expect(perceive(habitat, did).glimpses[0]).toMatchObject({ traceId, zone: 'FLUX' });
+    habitat.advance(5);
+    expect(perceive(habitat, did).glimpses[0]).toMatchObject({ traceId, zone: 'FORGE' });
+  });
+
+  it('should only expose affordances for joint-capable FORGE traces', () => {
+    const habitat = new SimulatedHabitat({ fluxMigrationTicks: 5 });
+    const did = register(habitat, 'joint');
+    createTrace(habitat, did, fluxDraft);
+    const capableId = createTrace(habitat, did, jointCapableDraft);
+
+    expect(perceive(habitat, did).glimpses.every(g => !g.jointAffordances)).toBe(true);
+
+    habitat.advance(5);
+    const glimpses = perceive(habitat, did).glimpses;
+    const withAffordance = glimpses.filter(g => g.jointAffordances?.length);
+    expect(withAffordance).toHaveLength(1);
+    expect(withAffordance[0]!.traceId).toBe(capableId);
+    expect(withAffordance[0]!.jointAffordances![0]).toMatchObject({ requiredAgents: 2, expiresAt: 100 + 5 + 20 });
+  });
+
+  it('should reserve energy until quorum and create on the last participant', () => {
+    const habitat = new SimulatedHabitat({ fluxMigrationTicks: 1 });
+    const a = register(habitat, 'a');
+    const b = register(habitat, 'b');
+    createTrace(habitat, a, jointCapableDraft);
+    habitat.advance(1);
+
+    const affordanceId = perceive(habitat, a).glimpses[0]!.jointAffordances![0]!.affordanceId;
+    const quote = habitat.handle('POST', '/v1/joint/quote', { did: a, affordanceId }).body as { allowed: boolean; cost: number };
+    expect(quote.allowed).toBe(true);
+
+    const first = habitat.handle('POST', '/v1/joint/traces', { did: a, affordanceId, traceDraft: jointCapableDraft });
+    expect(first.body).toMatchObject({ status: 'pending', costReserved: quote.cost });
+
+    const repeat = habitat.handle('POST', '/v1/joint/traces', { did: a, affordanceId, traceDraft: jointCapableDraft });
+    expect(repeat.status).toBe(409);
+
+    const second = habitat.handle('POST', '/v1/joint/traces', { did: b, affordanceId, traceDraft: jointCapableDraft });
+    expect(second.body).toMatchObject({ status: 'created' });
+    expect(habitat.getStats().jointsCreated).toBe(1);
+  });
+
+  it('should refund reserved energy when the window expires', () => {
+    const habitat = new SimulatedHabitat({ fluxMigrationTicks: 1, affordanceWindowTicks: 3, energyRegenPerTick: 0 });
+    const did = register(habitat, 'solo');
+    createTrace(habitat, did, jointCapableDraft);
+    habitat.advance(1);
+
+    const affordanceId = perceive(habitat, did).glimpses[0]!.jointAffordances![0]!.affordanceId;
+    const before = habitat.getAgent(did)!.energy;
+    habitat.handle('POST', '/v1/joint/traces', { did, affordanceId, traceDraft: jointCapableDraft });
+    expect(habitat.getAgent(did)!.energy).toBeLessThan(before);
+
+    habitat.advance(3);
+    expect(perceive(habitat, did).glimpses[0]!.jointAffordances).toBeUndefined();
+    expect(habitat.getAgent(did)!.energy).toBeCloseTo(before);
+  });
+});
+
+describe('Simulator - Archetypes Offline', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  function clients(habitat: SimulatedHabitat) {
+    const fetchFn = createSimulatorFetch(habitat);
+    return {
+      core: createHttpClient({ baseUrl: 'http://core.sim', maxRetries: 0, fetch: fetchFn }),
+      perception: createHttpClient({ baseUrl: 'http://perception.sim', maxRetries: 0, fetch: fetchFn }),
+    };
+  }
+
+  const baseConfig = {
+    index: 0,
+    coreApiUrl: 'http://core.sim',
+    perceptionApiUrl: 'http://perception.sim',
+  };
+
+  it('should run a population of all mechanical archetypes', async () => {
+    const habitat = new SimulatedHabitat({ seed: 3, fluxMigrationTicks: 3 });
+    const { core, perception } = clients(habitat);
+
+    const agents = [
+      createQuietSensor({ ...baseConfig, archetype: 'QS', seed: 1 }, core, perception),
+      createCostBoundCrafter({ ...baseConfig, archetype: 'CBC', seed: 2, costBudget: 1000 }, core, perception),
+      createCostBoundCrafter({ ...baseConfig, archetype: 'CBC', index: 1, seed: 3, costBudget: 1000 }, core, perception),
+      createJointProspector({ ...baseConfig, archetype: 'JAP', seed: 4 }, core, perception),
+      createJointProspector({ ...baseConfig, archetype: 'JAP', index: 1, seed: 5 }, core, perception),
+    ];
+
+    const registered = await Promise.all(agents.map(a => a.register()));
+    expect(registered.every(Boolean)).toBe(true);
+
+    for (let tick = 0; tick < 60; tick++) {
+      await Promise.all(agents.map(a => a.step()));
+      habitat.advance(1);
+    }
+
+    const states = agents.map(a => a.getState());
+    const totalTraces = states.reduce((sum, s) => sum + s.tracesCreated, 0);
+    const totalDerivations = states.reduce((sum, s) => sum + s.derivationsMade, 0);
+
+    expect(totalTraces).toBeGreaterThan(0);
+    expect(totalDerivations).toBeGreaterThan(0);
+    expect(states.every(s => Number.isFinite(s.energy) && s.tick > 100)).toBe(true);
+    expect(habitat.getStats().traces).toBe(totalTraces + totalDerivations + habitat.getStats().jointsCreated);
+  });
+
+  it('should reproduce identical runs for identical seeds', async () => {
+    async function run(): Promise<unknown[]> {
+      const habitat = new SimulatedHabitat({ seed: 9 });
+      const { core, perception } = clients(habitat);
+      const agent = createCostBoundCrafter({ ...baseConfig, archetype: 'CBC', seed: 11 }, core, perception);
+      await agent.register();
+      for (let tick = 0; tick < 20; tick++) {
+        await agent.step();
+        habitat.advance(1);
+      }
+      return [agent.getState(), habitat.getStats()];
+    }
+
+    expect(await run()).toEqual(await run());
+  });
+});
@@ -0,0 +1,596 @@
+/**
+ * Simulated Habitat
+ *
+ * In-process implementation of the Core and Perception endpoints:
+ * - POST /v1/agents/register
+ * - POST /v1/perception/perceive
+ * - POST /v1/physics/quote
+ * - POST /v1/traces
+ * - POST /v1/traces/derive
+ * - POST /v1/joint/quote
+ * - POST /v1/joint/traces
+ * - GET  /health
+ *
+ * Physics model (deliberately simple, not a copy of the real habitat):
+ * - Energy regenerates linearly per tick up to maxEnergy
+ * - New traces land in FLUX and migrate to FORGE after fluxMigrationTicks
+ * - Permanence is capped per zone (FLUX 3, FORGE 5)
+ * - A parent accepts at most maxOutDegree derivations
+ * - Joint-capable FORGE traces open an affordance window; energy is
+ *   reserved per participant and refunded if the window expires
+ */
+
+import type {
+  TraceDraft,
+  TraceGlimpse,
+  JointAffordanceGlimpse,
+  PerceiveResponse,
+  QuoteResponse,
+  RegisterResponse,
+  CreateTraceResponse,
+  DeriveTraceResponse,
+  JointQuoteResponse,
+  JointTraceResponse,
+  Seed,
+} from '../core/types.js';
+import { SeededRNG } from '../core/rng.js';
+import type {
+  SimulatorConfig,
+  SimulatedAgent,
+  SimulatedTrace,
+  SimulatedAffordance,
+  SimulatorResponse,
+  SimulatorStats,
+} from './types.js';
+import { DEFAULT_SIMULATOR_CONFIG } from './types.js';
+
+const JOINT_INTENTS = ['∇prv', '∇cmp', '∇drf'];
+const JOINT_ACTION_TYPE = 'FORGE_RESONANCE';
+
+function ok(body: unknown): SimulatorResponse {
+  return { status: 200, body };
+}
+
+function fail(status: number, error: string): SimulatorResponse {
+  return { status, body: { error } };
+}
+
+function round2(n: number): number {
+  return Math.round(n * 100) / 100;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+/**
+ * Check that a body carries a structurally usable trace draft
+ */
+function isTraceDraft(value: unknown): value is TraceDraft {
+  if (!isRecord(value)) return false;
+  const layer = (key: string): Record<string, unknown> => (isRecord(value[key]) ? value[key] : {});
+  const l3 = layer('L3');
+  const topology = isRecord(l3.topology) ? l3.topology : {};
+  return typeof value.zone === 'string'
+    && Array.isArray(layer('L1').intent)
+    && Array.isArray(layer('L2').shape)
+    && typeof topology.depth === 'number'
+    && typeof topology.nodes === 'number'
+    && Array.isArray(layer('L4').core)
+    && typeof layer('L7').permanence === 'number'
+    && typeof layer('L8').opacity === 'number';
+}
+
+/**
+ * Cost of writing a trace. Bigger, longer-lived and deeper mutations cost more.
+ */
+export function estimateTraceCost(draft: TraceDraft, action: 'CREATE_TRACE' | 'DERIVE_TRACE'): number {
+  const { depth, nodes } = draft.L3.topology;
+  let cost = 0.5
+    + nodes * 0.25
+    + depth * 0.2
+    + draft.L7.permanence * 0.4
+    + draft.L8.opacity * 0.05
+    + draft.L4.core.length * 0.1;
+
+  if (action === 'DERIVE_TRACE') {
+    cost *= draft.L6?.rel?.mutation === 'deep' ? 1.6 : 1.2;
+  }
+
+  return round2(cost);
+}
+
+/**
+ * Whether a trace draft qualifies for a joint affordance once in FORGE
+ */
+export function isJointCapable(draft: TraceDraft): boolean {
+  return draft.L4.core.includes('⛓anc')
+    && draft.L7.permanence >= 3
+    && draft.L3.topology.nodes >= 3
+    && draft.L1.intent.some(i => JOINT_INTENTS.includes(i));
+}
+
+export class SimulatedHabitat {
+  private config: SimulatorConfig;
+  private rng: SeededRNG;
+  private agents = new Map<string, SimulatedAgent>();
+  private agentsBySeed = new Map<string, string>();
+  private traces = new Map<string, SimulatedTrace>();
+  private affordances = new Map<string, SimulatedAffordance>();
+  private manualTicks = 0;
+  private startedAt: number;
+  private jointsCreated = 0;
+  private requests = 0;
+
+  constructor(config: Partial<SimulatorConfig> = {}) {
+    this.config = { ...DEFAULT_SIMULATOR_CONFIG, ...config };
+    this.rng = new SeededRNG(this.config.seed);
+    this.startedAt = Date.now();
+  }
+
+  // ==========================================================================
+  // CLOCK
+  // ==========================================================================
+
+  /**
+   * Current habitat tick (manual advances plus wall-clock ticks if enabled)
+   */
+  getTick(): number {
+    const wallTicks = this.config.tickMs > 0
+      ? Math.floor((Date.now() - this.startedAt) / this.config.tickMs)
+      : 0;
+    return this.config.startTick + this.manualTicks + wallTicks;
+  }
+
+  /**
+   * Advance the clock manually
+   */
+  advance(ticks: number = 1): number {
+    this.manualTicks += Math.max(0, Math.floor(ticks));
+    return this.getTick();
+  }
+
+  // ==========================================================================
+  // REQUEST DISPATCH
+  // ==========================================================================
+
+  /**
+   * Handle one API request. Never throws: failures become 4xx responses.
+   */
+  handle(method: string, path: string, body?: unknown): SimulatorResponse {
+    this.requests++;
+    const route = `${method.toUpperCase()} ${path.split('?')[0]!.replace(/\/$/, '')}`;
+
+    if (route === 'GET /health') {
+      return ok({ status: 'ok', service: 'habitat-simulator', tick: this.getTick() });
+    }
+
+    if (method.toUpperCase() !== 'POST') {
+      return fail(405, 'method_not_allowed');
+    }
+    if (!isRecord(body)) {
+      return fail(400, 'invalid_body');
+    }
+
+    switch (route) {
+      case 'POST /v1/agents/register':
+        return this.register(body);
+      case 'POST /v1/perception/perceive':
+        return this.perceive(body);
+      case 'POST /v1/physics/quote':
+        return this.quote(body);
+      case 'POST /v1/traces':
+        return this.createTrace(body);
+      case 'POST /v1/traces/derive':
+        return this.deriveTrace(body);
+      case 'POST /v1/joint/quote':
+        return this.jointQuote(body);
+      case 'POST /v1/joint/traces':
+        return this.jointTrace(body);
+      default:
+        return fail(404, 'not_found');
+    }
+  }
+
+  // ==========================================================================
+  // ENDPOINTS
+  // ==========================================================================
+
+  private register(body: Record<string, unknown>): SimulatorResponse {
+    const tick = this.getTick();
+    const continuitySeed = typeof body.continuitySeed === 'string' ? body.continuitySeed : '';
+
+    // Same continuity seed resumes the same identity
+    const existingDid = continuitySeed ? this.agentsBySeed.get(continuitySeed) : undefined;
+    if (existingDid) {
+      const agent = this.settleAgent(this.agents.get(existingDid)!, tick);
+      const response: RegisterResponse = { did: agent.did, energy: round2(agent.energy), tick };
+      return ok(response);
+    }
+
+    const did = `agent:0x${this.rng.nextHex(12)}`;
+    const agent: SimulatedAgent = {
+      did,
+      continuitySeed,
+      energy: this.config.initialEnergy,
+      lastTick: tick,
+    };
+    this.agents.set(did, agent);
+    if (continuitySeed) {
+      this.agentsBySeed.set(continuitySeed, did);
+    }
+
+    const response: RegisterResponse = { did, energy: agent.energy, tick };
+    return ok(response);
+  }
+
+  private perceive(body: Record<string, unknown>): SimulatorResponse {
+    const agent = this.lookupAgent(body.did);
+    if (!agent) return fail(404, 'unknown_agent');
+
+    const tick = this.getTick();
+    this.settleAgent(agent, tick);
+    this.expireAffordances(tick);
+
+    const from = Math.max(0, tick - this.config.perceptionWindowTicks);
+    const visible = [...this.traces.values()]
+      .filter(t => t.createdTick >= from && t.createdTick <= tick)
+      .sort((a, b) => b.createdTick - a.createdTick || (a.traceId < b.traceId ? -1 : 1))
+      .slice(0, this.config.maxGlimpses);
+
+    const glimpses = visible.map(t => this.toGlimpse(t, tick));
+
+    const nextSeeds: Seed[] = glimpses.slice(0, 3).map(g => ({ type: 'trace', value: g.traceId }));
+    if (glimpses.some(g => g.zone === 'FORGE')) {
+      nextSeeds.push({ type: 'zone', value: 'FORGE' });
+    }
+
+    const response: PerceiveResponse = {
+      tick,
+      tickWindow: { from, to: tick },
+      glimpses,
+      nextSeeds,
+    };
+    return ok(response);
+  }
+
+  private quote(body: Record<string, unknown>): SimulatorResponse {
+    const agent = this.lookupAgent(body.did);
+    if (!agent) return fail(404, 'unknown_agent');
+    if (body.action !== 'CREATE_TRACE' && body.action !== 'DERIVE_TRACE') {
+      return fail(400, 'invalid_action');
+    }
+    if (!isTraceDraft(body.traceDraft)) return fail(400, 'invalid_trace_draft');
+
+    const tick = this.getTick();
+    this.settleAgent(agent, tick);
+
+    const parentId = body.traceDraft.L6?.rel?.derives_from?.[0];
+    return ok(this.computeQuote(agent, body.action, body.traceDraft, parentId, tick));
+  }
+
+  private createTrace(body: Record<string, unknown>): SimulatorResponse {
+    const agent = this.lookupAgent(body.did);
+    if (!agent) return fail(404, 'unknown_agent');
+    if (!isTraceDraft(body.traceDraft)) return fail(400, 'invalid_trace_draft');
+
+    const tick = this.getTick();
+    this.settleAgent(agent, tick);
+
+    const quote = this.computeQuote(agent, 'CREATE_TRACE', body.traceDraft, undefined, tick);
+    if (!quote.allowed) return fail(409, quote.reasons?.[0] ?? 'not_allowed');
+
+    agent.energy -= quote.cost;
+    const trace = this.storeTrace(agent.did, 'FLUX', body.traceDraft, [], tick);
+
+    const response: CreateTraceResponse = { traceId: trace.traceId, tick, costPaid: quote.cost };
+    return ok(response);
+  }
+
+  private deriveTrace(body: Record<string, unknown>): SimulatorResponse {
+    const agent = this.lookupAgent(body.did);
+    if (!agent) return fail(404, 'unknown_agent');
+    if (typeof body.parentTraceId !== 'string') return fail(400, 'invalid_parent');
+    if (!isTraceDraft(body.traceDraft)) return fail(400, 'invalid_trace_draft');
+
+    const tick = this.getTick();
+    this.settleAgent(agent, tick);
+
+    const quote = this.computeQuote(agent, 'DERIVE_TRACE', body.traceDraft, body.parentTraceId, tick);
+    if (!quote.allowed) return fail(409, quote.reasons?.[0] ?? 'not_allowed');
+
+    const parent = this.traces.get(body.parentTraceId)!;
+    parent.outDegree++;
+    agent.energy -= quote.cost;
+    const trace = this.storeTrace(agent.did, 'FORGE', body.traceDraft, [parent.traceId], tick);
+
+    const response: DeriveTraceResponse = { traceId: trace.traceId, tick, costPaid: quote.cost };
+    return ok(response);
+  }
+
+  private jointQuote(body: Record<string, unknown>): SimulatorResponse {
+    const agent = this.lookupAgent(body.did);
+    if (!agent) return fail(404, 'unknown_agent');
+    if (typeof body.affordanceId !== 'string') return fail(400, 'invalid_affordance');
+
+    const tick = this.getTick();
+    this.settleAgent(agent, tick);
+    this.expireAffordances(tick);
+
+    const affordance = this.affordances.get(body.affordanceId);
+    if (!affordance) return fail(404, 'unknown_affordance');
+
+    const response: JointQuoteResponse = {
+      tick,
+      cost: affordance.estimatedCost,
+      requiredAgents: affordance.requiredAgents,
+      windowTicks: Math.max(0, affordance.expiresAt - tick),
+      allowed: this.canJoin(agent, affordance, tick),
+    };
+    return ok(response);
+  }
+
+  private jointTrace(body: Record<string, unknown>): SimulatorResponse {
+    const agent = this.lookupAgent(body.did);
+    if (!agent) return fail(404, 'unknown_agent');
+    if (typeof body.affordanceId !== 'string') return fail(400, 'invalid_affordance');
+    if (!isTraceDraft(body.traceDraft)) return fail(400, 'invalid_trace_draft');
+
+    const tick = this.getTick();
+    this.settleAgent(agent, tick);
+    this.expireAffordances(tick);
+
+    const affordance = this.affordances.get(body.affordanceId);
+    if (!affordance) return fail(404, 'unknown_affordance');
+    if (!this.canJoin(agent, affordance, tick)) return fail(409, 'joint_not_allowed');
+
+    // Reserve energy for this participant
+    agent.energy -= affordance.estimatedCost;
+    affordance.participants.push(agent.did);
+
+    if (affordance.participants.length < affordance.requiredAgents) {
+      const pending: JointTraceResponse = {
+        status: 'pending',
+        tick,
+        expiresAt: affordance.expiresAt,
+        costReserved: affordance.estimatedCost,
+      };
+      return ok(pending);
+    }
+
+    // Quorum reached: the joint trace lands in FORGE
+    affordance.status = 'created';
+    this.jointsCreated++;
+    const source = this.traces.get(affordance.sourceTraceId);
+    if (source) source.outDegree++;
+    const trace = this.storeTrace(agent.did, 'FORGE', body.traceDraft, [affordance.sourceTraceId], tick);
+
+    const created: JointTraceResponse = {
+      status: 'created',
+      traceId: trace.traceId,
+      tick,
+      costReserved: affordance.estimatedCost,
+    };
+    return ok(created);
+  }
+
+  // ==========================================================================
+  // PHYSICS
+  // ==========================================================================
+
+  private computeQuote(
+    agent: SimulatedAgent,
+    action: 'CREATE_TRACE' | 'DERIVE_TRACE',
+    draft: TraceDraft,
+    parentId: string | undefined,
+    tick: number
+  ): QuoteResponse {
+    const reasons: string[] = [];
+    const cost = estimateTraceCost(draft, action);
+
+    if (action === 'CREATE_TRACE') {
+      if (draft.zone !== 'FLUX') reasons.push('zone_mismatch');
+      if (draft.L7.permanence > this.config.fluxMaxPermanence) reasons.push('permanence_cap');
+    } else {
+      if (draft.zone !== 'FORGE') reasons.push('zone_mismatch');
+      if (draft.L7.permanence > this.config.forgeMaxPermanence) reasons.push('permanence_cap');
+
+      const parent = parentId ? this.traces.get(parentId) : undefined;
+      if (!parent) {
+        reasons.push('parent_not_found');
+      } else {
+        if (this.zoneOf(parent, tick) !== 'FORGE') reasons.push('parent_not_in_forge');
+        if (parent.outDegree >= this.config.maxOutDegree) reasons.push('out_degree_cap');
+      }
+    }
+
+    if (cost > agent.energy) reasons.push('insufficient_energy');
+
+    const quote: QuoteResponse = {
+      cost,
+      allowed: reasons.length === 0,
+      tick,
+      energyAfter: round2(agent.energy - cost),
+    };
+    if (reasons.length > 0) quote.reasons = reasons;
+    return quote;
+  }
+
+  private canJoin(agent: SimulatedAgent, affordance: SimulatedAffordance, tick: number): boolean {
+    return affordance.status === 'open'
+      && tick < affordance.expiresAt
+      && !affordance.participants.includes(agent.did)
+      && agent.energy >= affordance.estimatedCost;
+  }
+
+  private settleAgent(agent: SimulatedAgent, tick: number): SimulatedAgent {
+    if (tick > agent.lastTick) {
+      const regen = (tick - agent.lastTick) * this.config.energyRegenPerTick;
+      agent.energy = Math.min(this.config.maxEnergy, agent.energy + regen);
+      agent.lastTick = tick;
+    }
+    return agent;
+  }
+
+  private zoneOf(trace: SimulatedTrace, tick: number): 'FLUX' | 'FORGE' {
+    if (trace.zone === 'FORGE') return 'FORGE';
+    return tick - trace.createdTick >= this.config.fluxMigrationTicks ? 'FORGE' : 'FLUX';
+  }
+
+  private forgeSince(trace: SimulatedTrace): number {
+    return trace.zone === 'FORGE'
+      ? trace.createdTick
+      : trace.createdTick + this.config.fluxMigrationTicks;
+  }
+
+  /**
+   * Open the affordance for a joint-capable trace once it reaches FORGE
+   */
+  private affordanceFor(trace: SimulatedTrace, tick: number): SimulatedAffordance | undefined {
+    if (!isJointCapable(trace.draft) || this.zoneOf(trace, tick) !== 'FORGE') {
+      return undefined;
+    }
+
+    const affordanceId = `affordance:${trace.traceId.slice('trace:'.length)}`;
+    let affordance = this.affordances.get(affordanceId);
+    if (!affordance) {
+      const opensAt = this.forgeSince(trace);
+      affordance = {
+        affordanceId,
+        sourceTraceId: trace.traceId,
+        actionType: JOINT_ACTION_TYPE,
+        opensAt,
+        expiresAt: opensAt + this.config.affordanceWindowTicks,
+        estimatedCost: round2(estimateTraceCost(trace.draft, 'DERIVE_TRACE') * 1.5),
+        requiredAgents: this.config.jointRequiredAgents,
+        participants: [],
+        status: 'open',
+      };
+      this.affordances.set(affordanceId, affordance);
+    }
+    return affordance;
+  }
+
+  /**
+   * Close elapsed windows and refund reserved energy
+   */
+  private expireAffordances(tick: number): void {
+    for (const affordance of this.affordances.values()) {
+      if (affordance.status !== 'open' || tick < affordance.expiresAt) continue;
+      affordance.status = 'expired';
+      for (const did of affordance.participants) {
+        const agent = this.agents.get(did);
+        if (agent) {
+          this.settleAgent(agent, tick);
+          agent.energy = Math.min(this.config.maxEnergy, agent.energy + affordance.estimatedCost);
+        }
+      }
+    }
+  }
+
+  private storeTrace(
+    ownerDid: string,
+    zone: 'FLUX' | 'FORGE',
+    draft: TraceDraft,
+    derivesFrom: string[],
+    tick: number
+  ): SimulatedTrace {
+    const traceId = `trace:0x${this.rng.nextHex(12)}`;
+    const trace: SimulatedTrace = {
+      traceId,
+      ownerDid,
+      zone,
+      createdTick: tick,
+      draft,
+      derivesFrom,
+      outDegree: 0,
+    };
+    this.traces.set(traceId, trace);
+    return trace;
+  }
+
+  private toGlimpse(trace: SimulatedTrace, tick: number): TraceGlimpse {
+    const draft = trace.draft;
+    const glimpse: TraceGlimpse = {
+      traceId: trace.traceId,
+      zone: this.zoneOf(trace, tick),
+      tick: trace.createdTick,
+      physics: {
+        depth: draft.L3.topology.depth,
+        permanence: draft.L7.permanence,
+        opacity: draft.L8.opacity,
+      },
+      skeleton: {
+        shape: [...draft.L2.shape],
+        topology: { depth: draft.L3.topology.depth, nodes: draft.L3.topology.nodes },
+      },
+      core: {
+        tokens: [...draft.L4.core],
+        sealed: !!draft.L9?.seal,
+      },
+      relations: {
+        derivesFrom: [...trace.derivesFrom],
+        outDegree: trace.outDegree,
+      },
+      costEstimates: {
+        mutatePartial: estimateTraceCost({ ...draft, L6: { rel: { derives_from: [], mutation: 'partial' } } }, 'DERIVE_TRACE'),
+        mutateDeep: estimateTraceCost({ ...draft, L6: { rel: { derives_from: [], mutation: 'deep' } } }, 'DERIVE_TRACE'),
+      },
+    };
+
+    const affordance = this.affordanceFor(trace, tick);
+    if (affordance && affordance.status === 'open' && tick < affordance.expiresAt) {
+      const open: JointAffordanceGlimpse = {
+        affordanceId: affordance.affordanceId,
+        actionType: affordance.actionType,
+        expiresAt: affordance.expiresAt,
+        estimatedCost: affordance.estimatedCost,
+        requiredAgents: affordance.requiredAgents,
+      };
+      glimpse.jointAffordances = [open];
+    }
+
+    return glimpse;
+  }
+
+  private lookupAgent(did: unknown): SimulatedAgent | undefined {
+    return typeof did === 'string' ? this.agents.get(did) : undefined;
+  }
+
+  // ==========================================================================
+  // INSPECTION
+  // ==========================================================================
+
+  getAgent(did: string): SimulatedAgent | undefined {
+    const agent = this.agents.get(did);
+    return agent ? { ...this.settleAgent(agent, this.getTick()) } : undefined;
+  }
+
+  getTrace(traceId: string): SimulatedTrace | undefined {
+    const trace = this.traces.get(traceId);
+    return trace ? { ...trace } : undefined;
+  }
+
+  getStats(): SimulatorStats {
+    const tick = this.getTick();
+    this.expireAffordances(tick);
+    let fluxTraces = 0;
+    for (const trace of this.traces.values()) {
+      if (this.zoneOf(trace, tick) === 'FLUX') fluxTraces++;
+    }
+    return {
+      tick,
+      agents: this.agents.size,
+      traces: this.traces.size,
+      fluxTraces,
+      forgeTraces: this.traces.size - fluxTraces,
+      openAffordances: [...this.affordances.values()].filter(a => a.status === 'open').length,
+      jointsCreated: this.jointsCreated,
+      requests: this.requests,
+    };
+  }
+}
+
+export function createSimulatedHabitat(config: Partial<SimulatorConfig> = {}): SimulatedHabitat {
+  return new SimulatedHabitat(config);
+}
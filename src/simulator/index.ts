@@ -0,0 +1,28 @@
+/**
+ * Habitat Simulator Module
+ *
+ * Offline stand-in for the AI-HABITAT Core and Perception APIs.
+ * Lets the runner, archetypes and tests work without a live habitat.
+ */
+
+export type {
+  SimulatorConfig,
+  SimulatedAgent,
+  SimulatedTrace,
+  SimulatedAffordance,
+  SimulatorResponse,
+  SimulatorStats,
+} from './types.js';
+
+export { DEFAULT_SIMULATOR_CONFIG } from './types.js';
+
+export {
+  SimulatedHabitat,
+  createSimulatedHabitat,
+  estimateTraceCost,
+  isJointCapable,
+} from './habitat.js';
+
+export type { SimulatorServerOptions, SimulatorServer } from './transport.js';
+
+export { createSimulatorFetch, startSimulatorServer } from './transport.js';
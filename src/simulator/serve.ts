@@ -0,0 +1,65 @@
+/**
+ * Habitat Simulator - Standalone Server
+ *
+ * Serves the simulated Core and Perception APIs on a single port.
+ * Point HABITAT_CORE_URL and HABITAT_PERCEPTION_URL at the printed URL.
+ *
+ * Env vars:
+ * - SIMULATOR_PORT (default 9670)
+ * - SIMULATOR_HOST (default 127.0.0.1)
+ * - SIMULATOR_SEED (default 42)
+ * - SIMULATOR_TICK_MS (default 1000, 0 = frozen clock)
+ */
+
+import { createSimulatedHabitat } from './habitat.js';
+import { startSimulatorServer } from './transport.js';
+import { log } from '../core/logger.js';
+
+function intEnv(key: string, fallback: number): number {
+  const parsed = parseInt(process.env[key] ?? '', 10);
+  return isNaN(parsed) ? fallback : parsed;
+}
+
+async function main(): Promise<void> {
+  const habitat = createSimulatedHabitat({
+    seed: intEnv('SIMULATOR_SEED', 42),
+    tickMs: intEnv('SIMULATOR_TICK_MS', 1000),
+  });
+
+  const server = await startSimulatorServer(habitat, {
+    port: intEnv('SIMULATOR_PORT', 9670),
+    host: process.env.SIMULATOR_HOST ?? '127.0.0.1',
+  });
+
+  log({
+    did: null,
+    archetype: 'QS',
+    step: 'simulator_start',
+    tick: habitat.getTick(),
+    details: { url: server.url },
+  });
+
+  const stop = () => {
+    log({
+      did: null,
+      archetype: 'QS',
+      step: 'simulator_stop',
+      tick: habitat.getTick(),
+      details: { ...habitat.getStats() },
+    });
+    void server.close().then(() => process.exit(0));
+  };
+  process.on('SIGINT', stop);
+  process.on('SIGTERM', stop);
+}
+
+main().catch((error) => {
+  log({
+    did: null,
+    archetype: 'QS',
+    step: 'simulator_fatal',
+    tick: 0,
+    details: { error: error instanceof Error ? error.message : String(error) },
+  });
+  process.exit(1);
+});
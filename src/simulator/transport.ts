@@ -0,0 +1,98 @@
+/**
+ * Simulator Transports
+ *
+ * Two ways to reach a SimulatedHabitat:
+ * - createSimulatorFetch: fetch-compatible function for HttpClient (in-process)
+ * - startSimulatorServer: standalone HTTP server (one port serves Core and Perception)
+ */
+
+import { createServer, type Server } from 'node:http';
+import type { SimulatedHabitat } from './habitat.js';
+
+/**
+ * Build a fetch implementation that answers from the simulator.
+ *
+ * The URL host is ignored: Core and Perception share one habitat.
+ */
+export function createSimulatorFetch(habitat: SimulatedHabitat): typeof fetch {
+  return async (input, init) => {
+    const url = new URL(typeof input === 'string' || input instanceof URL ? input : input.url);
+    const method = init?.method ?? 'GET';
+
+    let body: unknown;
+    if (typeof init?.body === 'string' && init.body.length > 0) {
+      try {
+        body = JSON.parse(init.body);
+      } catch {
+        return new Response(JSON.stringify({ error: 'invalid_json' }), {
+          status: 400,
+          headers: { 'Content-Type': 'application/json' },
+        });
+      }
+    }
+
+    const result = habitat.handle(method, url.pathname, body);
+    return new Response(JSON.stringify(result.body), {
+      status: result.status,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  };
+}
+
+export interface SimulatorServerOptions {
+  /** Port to listen on (0 = random free port) */
+  port: number;
+  /** Interface to bind (default 127.0.0.1) */
+  host?: string;
+}
+
+export interface SimulatorServer {
+  /** Base URL usable as both HABITAT_CORE_URL and HABITAT_PERCEPTION_URL */
+  url: string;
+  server: Server;
+  close(): Promise<void>;
+}
+
+/**
+ * Serve the simulator over HTTP
+ */
+export async function startSimulatorServer(
+  habitat: SimulatedHabitat,
+  options: SimulatorServerOptions
+): Promise<SimulatorServer> {
+  const host = options.host ?? '127.0.0.1';
+
+  const server = createServer((req, res) => {
+    const chunks: Buffer[] = [];
+    req.on('data', (chunk: Buffer) => chunks.push(chunk));
+    req.on('end', () => {
+      const text = Buffer.concat(chunks).toString('utf8');
+      let body: unknown;
+      let result;
+
+      try {
+        body = text ? JSON.parse(text) : undefined;
+        result = habitat.handle(req.method ?? 'GET', new URL(req.url ?? '/', 'http://simulator').pathname, body);
+      } catch {
+        result = { status: 400, body: { error: 'invalid_json' } };
+      }
+
+      res.writeHead(result.status, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(result.body));
+    });
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(options.port, host, () => resolve());
+  });
+
+  const address = server.address();
+  const port = typeof address === 'object' && address ? address.port : options.port;
+
+  return {
+    url: `http://${host}:${port}`,
+    server,
+    close: () => new Promise<void>((resolve) => server.close(() => resolve())),
+  };
+}
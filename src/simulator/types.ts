@@ -0,0 +1,113 @@
+/**
+ * Habitat Simulator Types
+ *
+ * Types for the offline stand-in of the Core and Perception APIs.
+ * The simulator models just enough physics for every archetype to run
+ * without a live AI-HABITAT: energy, zones, costs, outDegree and joints.
+ */
+
+import type { TraceDraft } from '../core/types.js';
+
+/** Simulator physics and clock configuration */
+export interface SimulatorConfig {
+  /** Seed for DIDs, trace IDs and affordance IDs */
+  seed: number;
+  /** Tick the habitat starts at */
+  startTick: number;
+  /** Wall-clock ms per tick. 0 = manual clock (advance() only) */
+  tickMs: number;
+  /** Energy granted on registration */
+  initialEnergy: number;
+  /** Maximum energy an agent can hold */
+  maxEnergy: number;
+  /** Energy regenerated per tick */
+  energyRegenPerTick: number;
+  /** Permanence cap for FLUX traces */
+  fluxMaxPermanence: number;
+  /** Permanence cap for FORGE traces */
+  forgeMaxPermanence: number;
+  /** Maximum derivations per parent trace */
+  maxOutDegree: number;
+  /** Ticks a FLUX trace stays in FLUX before migrating to FORGE */
+  fluxMigrationTicks: number;
+  /** How far back perception reaches (ticks) */
+  perceptionWindowTicks: number;
+  /** Maximum glimpses per perception bundle */
+  maxGlimpses: number;
+  /** How long a joint affordance stays open (ticks) */
+  affordanceWindowTicks: number;
+  /** Agents needed to complete a joint action */
+  jointRequiredAgents: number;
+}
+
+/** Default simulator configuration */
+export const DEFAULT_SIMULATOR_CONFIG: SimulatorConfig = {
+  seed: 42,
+  startTick: 100,
+  tickMs: 0,
+  initialEnergy: 25,
+  maxEnergy: 25,
+  energyRegenPerTick: 0.5,
+  fluxMaxPermanence: 3,
+  forgeMaxPermanence: 5,
+  maxOutDegree: 5,
+  fluxMigrationTicks: 10,
+  perceptionWindowTicks: 50,
+  maxGlimpses: 12,
+  affordanceWindowTicks: 20,
+  jointRequiredAgents: 2,
+};
+
+/** Registered agent as seen by the simulator */
+export interface SimulatedAgent {
+  did: string;
+  continuitySeed: string;
+  /** Energy at lastTick (regen applied lazily) */
+  energy: number;
+  /** Tick energy was last settled at */
+  lastTick: number;
+}
+
+/** Stored trace */
+export interface SimulatedTrace {
+  traceId: string;
+  ownerDid: string;
+  /** Zone the trace was written to */
+  zone: 'FLUX' | 'FORGE';
+  createdTick: number;
+  draft: TraceDraft;
+  derivesFrom: string[];
+  outDegree: number;
+}
+
+/** Joint affordance attached to a FORGE trace */
+export interface SimulatedAffordance {
+  affordanceId: string;
+  sourceTraceId: string;
+  actionType: string;
+  opensAt: number;
+  expiresAt: number;
+  estimatedCost: number;
+  requiredAgents: number;
+  /** DIDs with energy reserved for this affordance */
+  participants: string[];
+  status: 'open' | 'created' | 'expired';
+}
+
+/** Response produced by the simulator for one request */
+export interface SimulatorResponse {
+  status: number;
+  body: unknown;
+}
+
+/** Aggregate counters for assertions and reports */
+export interface SimulatorStats {
+  tick: number;
+  agents: number;
+  traces: number;
+  fluxTraces: number;
+  forgeTraces: number;
+  openAffordances: number;
+  jointsCreated: number;
+  requests: number;
+}
@@ -0,0 +1,16 @@
+/**
+ * State Module
+ *
+ * Persist agent identities, counters and RNG state across runner restarts.
+ */
+
+export type {
+  AgentSnapshot,
+  StoredAgent,
+  StateFile,
+  StateLoadResult,
+} from './types.js';
+
+export { STATE_VERSION } from './types.js';
+
+export { StateStore, createStateStore, agentSlot } from './store.js';
@@ -0,0 +1,114 @@
+/**
+ * State Store Tests
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+vi.mock('../core/logger.js', () => ({
+  log: vi.fn(),
+  logRegistered: vi.fn(),
+  logPerceive: vi.fn(),
+  logQuote: vi.fn(),
+  logCreate: vi.fn(),
+  logDerive: vi.fn(),
+  logJointAttempt: vi.fn(),
+  logSilence: vi.fn(),
+  logSkip: vi.fn(),
+  logError: vi.fn(),
+}));
+
+import { createHttpClient } from '../core/http.js';
+import { createCostBoundCrafter } from '../archetypes/cost-bound-crafter.js';
+import { createSimulatedHabitat, createSimulatorFetch } from '../simulator/index.js';
+import { createStateStore, agentSlot } from './index.js';
+
+const CORE_URL = 'http://habitat';
+
+function crafter(fetchFn: typeof fetch) {
+  const http = createHttpClient({ baseUrl: CORE_URL, maxRetries: 0, fetch: fetchFn });
+  return createCostBoundCrafter({
+    archetype: 'CBC',
+    index: 0,
+    coreApiUrl: CORE_URL,
+    perceptionApiUrl: CORE_URL,
+    seed: 1234,
+  }, http, http);
+}
+
+describe('StateStore', () => {
+  let dir: string;
+  let path: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'state-'));
+    path = join(dir, 'nested', 'state.json');
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('keys slots by cohort, archetype and index', () => {
+    expect(agentSlot('CBC', 2, 'newcomers')).toBe('newcomers/CBC/2');
+    expect(agentSlot('QS', 0)).toBe('QS/QS/0');
+  });
+
+  it('starts empty when the file does not exist', async () => {
+    const store = createStateStore(path, CORE_URL);
+    expect(await store.load()).toEqual({ agents: 0 });
+  });
+
+  it('resumes an agent with the same identity, counters and RNG sequence', async () => {
+    const fetchFn = createSimulatorFetch(createSimulatedHabitat({ seed: 3 }));
+    const original = crafter(fetchFn);
+    await original.register();
+    for (let i = 0; i < 5; i++) await original.step();
+
+    const store = createStateStore(path, CORE_URL);
+    store.set('CBC/CBC/0', { ...original.snapshot(), archetype: 'CBC', index: 0 });
+    await store.save();
+
+    const reloaded = createStateStore(path, CORE_URL);
+    expect(await reloaded.load()).toEqual({ agents: 1 });
+
+    const resumed = crafter(fetchFn);
+    expect(resumed.resume(reloaded.get('CBC/CBC/0')!)).toBe(true);
+    expect(resumed.getState()).toEqual(original.getState());
+    expect(resumed.snapshot().rngState).toBe(original.snapshot().rngState);
+  });
+
+  it('refuses a snapshot without a DID', () => {
+    const agent = crafter(vi.fn());
+    const snapshot = agent.snapshot();
+    expect(agent.resume(snapshot)).toBe(false);
+  });
+
+  it('writes atomically and leaves no temp file behind', async () => {
+    const store = createStateStore(path, CORE_URL);
+    await store.save();
+    expect(() => readFileSync(`${path}.tmp`)).toThrow();
+    expect(JSON.parse(readFileSync(path, 'utf8'))).toMatchObject({ version: 1, coreApiUrl: CORE_URL, agents: {} });
+  });
+
+  it('ignores state saved for another habitat', async () => {
+    await createStateStore(path, 'http://other').save();
+    const store = createStateStore(path, CORE_URL);
+
+    const result = await store.load();
+    expect(result.agents).toBe(0);
+    expect(result.discarded).toContain('http://other');
+  });
+
+  it('ignores corrupt and unsupported files', async () => {
+    const store = createStateStore(join(dir, 'state.json'), CORE_URL);
+
+    writeFileSync(join(dir, 'state.json'), '{not json');
+    expect((await store.load()).discarded).toMatch(/^Invalid JSON/);
+
+    writeFileSync(join(dir, 'state.json'), JSON.stringify({ version: 9, coreApiUrl: CORE_URL, agents: {} }));
+    expect((await store.load()).discarded).toBe('Unsupported state version 9');
+  });
+});
@@ -0,0 +1,105 @@
+/**
+ * Agent State Store
+ *
+ * Persists each agent slot's DID, counters, RNG state and memory to a
+ * JSON file, so a restarted runner resumes the same identities instead
+ * of registering new ones. Writes go to a temp file and are renamed
+ * into place, so a crash never leaves a half-written store.
+ */
+
+import { mkdir, readFile, rename, writeFile } from 'node:fs/promises';
+import { dirname } from 'node:path';
+
+import type { AgentArchetype } from '../core/types.js';
+import {
+  STATE_VERSION,
+  type StoredAgent,
+  type StateFile,
+  type StateLoadResult,
+} from './types.js';
+
+/**
+ * Stable key for an agent position: cohort, archetype and index
+ */
+export function agentSlot(archetype: AgentArchetype, index: number, cohort?: string): string {
+  return `${cohort ?? archetype}/${archetype}/${index}`;
+}
+
+export class StateStore {
+  private agents = new Map<string, StoredAgent>();
+
+  constructor(readonly path: string, private coreApiUrl: string) {}
+
+  /**
+   * Read the store from disk. A missing file leaves it empty; an unreadable,
+   * unsupported or foreign (other habitat) file is ignored and reported.
+   */
+  async load(): Promise<StateLoadResult> {
+    this.agents.clear();
+
+    let text: string;
+    try {
+      text = await readFile(this.path, 'utf8');
+    } catch (e) {
+      if ((e as NodeJS.ErrnoException).code === 'ENOENT') return { agents: 0 };
+      return { agents: 0, discarded: `Cannot read ${this.path}: ${(e as Error).message}` };
+    }
+
+    let file: StateFile;
+    try {
+      file = JSON.parse(text) as StateFile;
+    } catch (e) {
+      return { agents: 0, discarded: `Invalid JSON: ${(e as Error).message}` };
+    }
+
+    if (!file || typeof file !== 'object' || typeof file.agents !== 'object' || file.agents === null) {
+      return { agents: 0, discarded: 'Not a state file' };
+    }
+    if (file.version !== STATE_VERSION) {
+      return { agents: 0, discarded: `Unsupported state version ${file.version}` };
+    }
+    if (file.coreApiUrl !== this.coreApiUrl) {
+      return { agents: 0, discarded: `Saved for ${file.coreApiUrl}, not ${this.coreApiUrl}` };
+    }
+
+    for (const [slot, agent] of Object.entries(file.agents)) {
+      this.agents.set(slot, agent);
+    }
+    return { agents: this.agents.size };
+  }
+
+  get(slot: string): StoredAgent | undefined {
+    return this.agents.get(slot);
+  }
+
+  set(slot: string, agent: Omit<StoredAgent, 'savedAt'>): void {
+    this.agents.set(slot, { ...agent, savedAt: new Date().toISOString() });
+  }
+
+  /** Forget every slot (--fresh) */
+  clear(): void {
+    this.agents.clear();
+  }
+
+  get size(): number {
+    return this.agents.size;
+  }
+
+  async save(): Promise<void> {
+    const file: StateFile = {
+      version: STATE_VERSION,
+      coreApiUrl: this.coreApiUrl,
+      savedAt: new Date().toISOString(),
+      agents: Object.fromEntries(this.agents),
+    };
+
+    await mkdir(dirname(this.path), { recursive: true });
+    const tmp = `${this.path}.tmp`;
+    await writeFile(tmp, JSON.stringify(file, null, 2) + '\n');
+    await rename(tmp, this.path);
+  }
+}
+
+export function createStateStore(path: string, coreApiUrl: string): StateStore {
+  return new StateStore(path, coreApiUrl);
+}
@@ -0,0 +1,40 @@
+/**
+ * State Store Types
+ */
+
+import type { AgentArchetype, AgentState } from '../core/types.js';
+
+export const STATE_VERSION = 1;
+
+/** What an agent needs to continue after a restart */
+export interface AgentSnapshot {
+  state: AgentState;
+  /** SeededRNG state, so decisions continue the same sequence */
+  rngState: number;
+  /** Archetype-specific memory (e.g. LLM context) */
+  memory?: unknown;
+}
+
+/** Snapshot stored under an agent slot */
+export interface StoredAgent extends AgentSnapshot {
+  archetype: AgentArchetype;
+  index: number;
+  cohort?: string;
+  savedAt: string;
+}
+
+export interface StateFile {
+  version: number;
+  /** DIDs are only meaningful for the habitat that issued them */
+  coreApiUrl: string;
+  savedAt: string;
+  /** Keyed by agentSlot() */
+  agents: Record<string, StoredAgent>;
+}
+
+export interface StateLoadResult {
+  /** Agents found in the file */
+  agents: number;
+  /** Why the file was ignored (missing files are not an error) */
+  discarded?: string;
+}
@@ -0,0 +1,19 @@
+/**
+ * Top Module
+ *
+ * `probes top`: a live terminal dashboard of a running population,
+ * fed by the runner's admin API.
+ */
+
+export type {
+  TopAgentRow,
+  ArchetypeTotals,
+  TopError,
+  TopRenderOptions,
+} from './types.js';
+
+export { TopModel, createTopModel } from './model.js';
+
+export { renderTop, sparkline } from './render.js';
+
+export { runTop, filterForKey, type TopOptions } from './tui.js';
@@ -0,0 +1,124 @@
+/**
+ * Top Model
+ *
+ * What `probes top` knows about a running population: agent snapshots
+ * polled from the admin API, plus last actions, actions per tick and
+ * recent errors taken from its event stream. Actions are counted by the
+ * habitat tick their entries carry, like `probes analyze` does.
+ */
+
+import type { AgentArchetype, LogEntry } from '../core/types.js';
+import type { AdminAgentView, AdminStatus } from '../admin/types.js';
+import type { ArchetypeTotals, TopAgentRow, TopError } from './types.js';
+
+/** Agent entries that are not actions */
+const NON_ACTION_STEPS = new Set(['error', 'step_error', 'perceive']);
+
+/** Ticks kept for the sparkline */
+const HISTORY_TICKS = 120;
+
+/** Errors kept for the error panel */
+const ERROR_LIMIT = 20;
+
+function budgetOf(view: AdminAgentView): number | null {
+  const budget = view.params.costBudget ?? view.params.sessionBudget;
+  return typeof budget === 'number' ? budget : null;
+}
+
+function errorMessage(entry: LogEntry): string {
+  const details = entry.details ?? {};
+  const message = details.message ?? details.error ?? details.reason;
+  return typeof message === 'string' ? `${entry.step}: ${message}` : entry.step;
+}
+
+export class TopModel {
+  status: AdminStatus | null = null;
+  private agents: AdminAgentView[] = [];
+  private lastActions = new Map<string, string>();
+  private actions = new Map<number, number>();
+  /** Latest habitat tick seen in an agent entry */
+  private actionTick = 0;
+  private errorLog: TopError[] = [];
+
+  /** Latest /status and /agents responses */
+  update(status: AdminStatus, agents: AdminAgentView[]): void {
+    this.status = status;
+    this.agents = agents;
+  }
+
+  /** One entry from the event stream */
+  add(entry: LogEntry): void {
+    if (entry.level === 'error') {
+      this.errorLog.push({ tick: entry.tick, did: entry.did, archetype: entry.archetype, message: errorMessage(entry) });
+      if (this.errorLog.length > ERROR_LIMIT) this.errorLog.shift();
+      return;
+    }
+    if (!entry.did || NON_ACTION_STEPS.has(entry.step)) return;
+
+    this.lastActions.set(entry.did, entry.allowed === false ? `${entry.step} (denied)` : entry.step);
+    this.actions.set(entry.tick, (this.actions.get(entry.tick) ?? 0) + 1);
+    if (entry.tick > this.actionTick) {
+      this.actionTick = entry.tick;
+      for (const tick of this.actions.keys()) {
+        if (tick <= entry.tick - HISTORY_TICKS) this.actions.delete(tick);
+      }
+    }
+  }
+
+  get tick(): number {
+    return this.status?.tick ?? 0;
+  }
+
+  /** Archetypes present, in first-seen order */
+  archetypes(): AgentArchetype[] {
+    return [...new Set(this.agents.map(a => a.archetype))];
+  }
+
+  rows(filter: AgentArchetype | null = null): TopAgentRow[] {
+    return this.agents
+      .filter(a => !filter || a.archetype === filter)
+      .map(a => ({
+        id: a.id,
+        did: a.did,
+        archetype: a.archetype,
+        status: a.status,
+        energy: a.state.energy,
+        inSilenceMode: a.state.inSilenceMode,
+        lastAction: a.did ? this.lastActions.get(a.did) ?? null : null,
+        costSpent: a.state.totalCostSpent,
+        budget: budgetOf(a),
+      }));
+  }
+
+  totals(): ArchetypeTotals[] {
+    return this.archetypes().map((archetype) => {
+      const group = this.agents.filter(a => a.archetype === archetype);
+      const registered = group.filter(a => a.did);
+      return {
+        archetype,
+        agents: group.length,
+        active: group.filter(a => a.status === 'active').length,
+        meanEnergy: registered.length > 0
+          ? registered.reduce((sum, a) => sum + a.state.energy, 0) / registered.length
+          : null,
+        traces: group.reduce((sum, a) => sum + a.state.tracesCreated + a.state.derivationsMade, 0),
+        cost: group.reduce((sum, a) => sum + a.state.totalCostSpent, 0),
+      };
+    });
+  }
+
+  /** Actions in each of the last `ticks` habitat ticks, oldest first */
+  actionsPerTick(ticks: number): number[] {
+    const last = this.actionTick;
+    return Array.from({ length: ticks }, (_, i) => this.actions.get(last - ticks + 1 + i) ?? 0);
+  }
+
+  /** Most recent errors, newest last */
+  errors(limit: number): TopError[] {
+    return limit > 0 ? this.errorLog.slice(-limit) : [];
+  }
+}
+
+export function createTopModel(): TopModel {
+  return new TopModel();
+}
@@ -0,0 +1,155 @@
+/**
+ * Top Renderer
+ *
+ * One dashboard frame as text: header, actions-per-tick sparkline,
+ * archetype totals, agent rows and recent errors. Lines are cut to the
+ * terminal width before colouring, so ANSI codes never count as columns.
+ */
+
+import type { TopModel } from './model.js';
+import type { TopAgentRow, TopRenderOptions } from './types.js';
+
+const BOLD = '\x1b[1m';
+const DIM = '\x1b[2m';
+const RED = '\x1b[31m';
+const YELLOW = '\x1b[33m';
+const INVERSE = '\x1b[7m';
+const RESET = '\x1b[0m';
+
+const SPARK_BLOCKS = '▁▂▃▄▅▆▇█';
+
+/** Characters of a DID shown in the agent table */
+const DID_PREFIX = 16;
+
+/** Errors shown at most */
+const ERROR_ROWS = 3;
+
+// ============================================================================
+// FORMATTING
+// ============================================================================
+
+/**
+ * Values as block characters scaled to the largest (all zero = lowest block)
+ */
+export function sparkline(values: number[]): string {
+  const max = Math.max(0, ...values);
+  return values
+    .map(v => SPARK_BLOCKS[max > 0 ? Math.round((v / max) * (SPARK_BLOCKS.length - 1)) : 0])
+    .join('');
+}
+
+function fit(text: string, width: number): string {
+  return text.length > width ? text.slice(0, Math.max(0, width - 1)) + '…' : text;
+}
+
+function paint(text: string, style: string): string {
+  return `${style}${text}${RESET}`;
+}
+
+function columns(cells: Array<[text: string, width: number, align?: 'right']>): string {
+  return cells
+    .map(([text, width, align]) => {
+      const cell = fit(text, width);
+      return align === 'right' ? cell.padStart(width) : cell.padEnd(width);
+    })
+    .join(' ')
+    .trimEnd();
+}
+
+function costCell(row: TopAgentRow): string {
+  return row.budget === null ? row.costSpent.toFixed(1) : `${row.costSpent.toFixed(1)}/${row.budget}`;
+}
+
+function agentLine(row: TopAgentRow): string {
+  return columns([
+    [row.archetype, 5],
+    [row.did ? row.did.slice(0, DID_PREFIX) : row.id, DID_PREFIX],
+    [row.status, 7],
+    [row.energy.toFixed(1), 7, 'right'],
+    [row.inSilenceMode ? 'silent' : '-', 6],
+    [row.lastAction ?? '-', 20],
+    [costCell(row), 13, 'right'],
+  ]);
+}
+
+const AGENT_HEADER = columns([
+  ['ARCH', 5],
+  ['DID', DID_PREFIX],
+  ['STATUS', 7],
+  ['ENERGY', 7, 'right'],
+  ['SILENT', 6],
+  ['LAST ACTION', 20],
+  ['COST/BUDGET', 13, 'right'],
+]);
+
+const TOTALS_HEADER = columns([
+  ['ARCH', 5],
+  ['AGENTS', 6, 'right'],
+  ['ACTIVE', 6, 'right'],
+  ['ENERGY', 7, 'right'],
+  ['TRACES', 7, 'right'],
+  ['COST', 9, 'right'],
+]);
+
+// ============================================================================
+// FRAME
+// ============================================================================
+
+export function renderTop(model: TopModel, options: TopRenderOptions): string {
+  const { width, height, filter } = options;
+  const color = options.color ?? true;
+  const lines: Array<{ text: string; style?: string }> = [];
+  const push = (text: string, style?: string) => lines.push({ text, style });
+
+  const status = model.status;
+  push(
+    `probes top  ${options.source}  tick ${model.tick}  ${status ? `scenario ${status.scenario}` : 'waiting for runner'}`
+    + `  ${options.connected ? 'live' : 'disconnected'}`,
+    INVERSE
+  );
+  push(`filter: ${filter ?? 'all'}   keys: tab next archetype, 1-9 pick, a all, q quit`, DIM);
+
+  const sparkWidth = Math.max(10, Math.min(60, width - 24));
+  const perTick = model.actionsPerTick(sparkWidth);
+  push(`actions/tick ${sparkline(perTick)} ${perTick.at(-1) ?? 0}`);
+  push('');
+
+  push(TOTALS_HEADER, BOLD);
+  for (const totals of model.totals()) {
+    push(columns([
+      [totals.archetype, 5],
+      [String(totals.agents), 6, 'right'],
+      [String(totals.active), 6, 'right'],
+      [totals.meanEnergy === null ? '-' : totals.meanEnergy.toFixed(1), 7, 'right'],
+      [String(totals.traces), 7, 'right'],
+      [totals.cost.toFixed(1), 9, 'right'],
+    ]), filter && totals.archetype !== filter ? DIM : undefined);
+  }
+  push('');
+
+  const errors = model.errors(ERROR_ROWS);
+  const errorLines = errors.length > 0 ? errors.length + 2 : 0;
+  const rows = model.rows(filter);
+  // Header, rows and a possible "+N more" line share what is left
+  const room = Math.max(1, height - lines.length - errorLines - 1);
+  const shown = rows.length > room ? rows.slice(0, room - 1) : rows;
+
+  push(AGENT_HEADER, BOLD);
+  for (const row of shown) {
+    push(agentLine(row), row.status === 'active' ? undefined : row.status === 'paused' ? YELLOW : DIM);
+  }
+  if (shown.length < rows.length) push(`+${rows.length - shown.length} more`, DIM);
+
+  if (errors.length > 0) {
+    push('');
+    push('RECENT ERRORS', BOLD);
+    for (const error of errors) {
+      push(`t${error.tick} ${error.archetype} ${error.did?.slice(0, DID_PREFIX) ?? '-'} ${error.message}`, RED);
+    }
+  }
+
+  return lines
+    .slice(0, height)
+    .map(({ text, style }) => (style && color ? paint(fit(text, width), style) : fit(text, width)))
+    .join('\n');
+}
@@ -0,0 +1,110 @@
+/**
+ * Top Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { AgentArchetype, LogEntry } from '../core/types.js';
+import type { AdminAgentView, AdminStatus, AgentRunStatus } from '../admin/types.js';
+import { createTopModel } from './model.js';
+import { renderTop, sparkline } from './render.js';
+import { filterForKey } from './tui.js';
+
+function view(archetype: AgentArchetype, index: number, status: AgentRunStatus, extra: Partial<AdminAgentView> = {}): AdminAgentView {
+  const did = status === 'pending' ? null : `agent:${archetype.toLowerCase()}${index}`;
+  return {
+    id: `c/${archetype}/${index}`,
+    did,
+    archetype,
+    cohort: 'c',
+    index,
+    status,
+    params: {},
+    state: {
+      did,
+      energy: 10 + index,
+      tick: 0,
+      inSilenceMode: false,
+      tracesCreated: 2,
+      derivationsMade: 1,
+      jointAttempts: 0,
+      jointSuccesses: 0,
+      totalCostSpent: 4,
+    },
+    ...extra,
+  };
+}
+
+function status(tick: number): AdminStatus {
+  return { tick, scenario: 'demo', agents: { pending: 0, failed: 0, active: 0, paused: 0, stopped: 0 } };
+}
+
+function entry(did: string | null, step: string, tick: number, extra: Partial<LogEntry> = {}): LogEntry {
+  return { ts: 't', level: 'info', did, archetype: 'QS', step, tick, ...extra };
+}
+
+const stripAnsi = (text: string) => text.replace(/\x1b\[[0-9;]*m/g, '');
+
+describe('TopModel', () => {
+  it('tracks last actions, actions per habitat tick and errors', () => {
+    const model = createTopModel();
+    model.update(status(1), [
+      view('QS', 0, 'active'),
+      view('CBC', 0, 'paused', { params: { costBudget: 10 } }),
+      view('QS', 1, 'pending'),
+    ]);
+
+    model.add(entry('agent:qs0', 'quote', 41, { allowed: false }));
+    model.add(entry('agent:cbc0', 'create', 41));
+    model.add(entry(null, 'tick_summary', 10));
+    model.update(status(3), [view('QS', 0, 'active'), view('CBC', 0, 'paused', { params: { costBudget: 10 } })]);
+    model.add(entry('agent:qs0', 'error', 43, { level: 'error', details: { message: 'boom' } }));
+    model.add(entry('agent:qs0', 'create', 43));
+
+    expect(model.actionsPerTick(4)).toEqual([0, 2, 0, 1]);
+    expect(model.rows().map(r => [r.archetype, r.lastAction, r.budget])).toEqual([
+      ['QS', 'create', null],
+      ['CBC', 'create', 10],
+    ]);
+    expect(model.rows('CBC')).toHaveLength(1);
+    expect(model.errors(5)).toEqual([{ tick: 43, did: 'agent:qs0', archetype: 'QS', message: 'error: boom' }]);
+    expect(model.totals()).toEqual([
+      { archetype: 'QS', agents: 1, active: 1, meanEnergy: 10, traces: 3, cost: 4 },
+      { archetype: 'CBC', agents: 1, active: 0, meanEnergy: 10, traces: 3, cost: 4 },
+    ]);
+  });
+});
+
+describe('renderTop', () => {
+  it('fits the terminal and cuts extra agent rows', () => {
+    const model = createTopModel();
+    model.update(status(7), Array.from({ length: 30 }, (_, i) => view('QS', i, 'active')));
+
+    const frame = stripAnsi(renderTop(model, { width: 70, height: 16, filter: null, source: 'http://x', connected: true }));
+    const lines = frame.split('\n');
+
+    expect(lines).toHaveLength(16);
+    expect(lines.every(line => line.length <= 70)).toBe(true);
+    expect(lines[0]).toContain('tick 7');
+    expect(lines[0]).toContain('live');
+    expect(frame).toContain('agent:qs0');
+    expect(lines.at(-1)).toMatch(/^\+\d+ more$/);
+  });
+
+  it('draws sparklines relative to the busiest tick', () => {
+    expect(sparkline([0, 1, 2, 4])).toBe('▁▃▅█');
+    expect(sparkline([0, 0])).toBe('▁▁');
+  });
+});
+
+describe('filterForKey', () => {
+  it('cycles, picks and clears the archetype filter', () => {
+    const archetypes: AgentArchetype[] = ['QS', 'CBC'];
+    expect(filterForKey('\t', null, archetypes)).toBe('QS');
+    expect(filterForKey('\t', 'QS', archetypes)).toBe('CBC');
+    expect(filterForKey('\t', 'CBC', archetypes)).toBeNull();
+    expect(filterForKey('2', null, archetypes)).toBe('CBC');
+    expect(filterForKey('9', 'QS', archetypes)).toBe('QS');
+    expect(filterForKey('a', 'QS', archetypes)).toBeNull();
+    expect(filterForKey('x', 'QS', archetypes)).toBeUndefined();
+  });
+});
@@ -0,0 +1,133 @@
+/**
+ * Top TUI
+ *
+ * Polls the admin API for agent snapshots, follows its event stream for
+ * actions and errors, and redraws the dashboard on each poll and key press.
+ * The stream reconnects on its own when the runner restarts.
+ */
+
+import { setTimeout as sleep } from 'node:timers/promises';
+import type { AgentArchetype } from '../core/types.js';
+import type { AdminClient } from '../admin/client.js';
+import { createTopModel } from './model.js';
+import { renderTop } from './render.js';
+
+export interface TopOptions {
+  client: AdminClient;
+  /** Shown in the header, usually the admin URL */
+  source: string;
+  /** Poll and redraw interval (default 1000) */
+  intervalMs?: number;
+  /** Print one frame and exit */
+  once?: boolean;
+  input?: NodeJS.ReadStream;
+  output?: NodeJS.WriteStream;
+}
+
+const ENTER_SCREEN = '\x1b[?1049h\x1b[?25l';
+const LEAVE_SCREEN = '\x1b[?25h\x1b[?1049l';
+const CLEAR = '\x1b[H\x1b[2J';
+
+const RECONNECT_MS = 2000;
+
+/**
+ * Next filter after a key press, or undefined when the key does not filter
+ */
+export function filterForKey(
+  key: string,
+  current: AgentArchetype | null,
+  archetypes: AgentArchetype[]
+): AgentArchetype | null | undefined {
+  if (key === 'a' || key === '0') return null;
+  if (key === '\t' || key === 'f') {
+    const next = current === null ? 0 : archetypes.indexOf(current) + 1;
+    return archetypes[next] ?? null;
+  }
+  if (/^[1-9]$/.test(key)) return archetypes[Number(key) - 1] ?? current;
+  return undefined;
+}
+
+export async function runTop(options: TopOptions): Promise<number> {
+  const { client } = options;
+  const input = options.input ?? process.stdin;
+  const output = options.output ?? process.stdout;
+  const intervalMs = options.intervalMs ?? 1000;
+  const model = createTopModel();
+  let filter: AgentArchetype | null = null;
+  let connected = false;
+
+  const poll = async () => {
+    try {
+      const [status, agents] = await Promise.all([client.status(), client.agents()]);
+      model.update(status, agents);
+      connected = true;
+    } catch {
+      connected = false;
+    }
+  };
+  const frame = (height: number) => renderTop(model, {
+    width: output.columns ?? 120,
+    height,
+    filter,
+    source: options.source,
+    connected,
+    color: output.isTTY,
+  });
+
+  if (options.once) {
+    await poll();
+    if (!model.status) {
+      process.stderr.write(`Cannot reach the admin API at ${options.source}\n`);
+      return 1;
+    }
+    output.write(frame(output.rows ?? Number.MAX_SAFE_INTEGER) + '\n');
+    return 0;
+  }
+
+  const abort = new AbortController();
+  const draw = () => output.write(CLEAR + frame(output.rows ?? 40));
+
+  // Events: last actions, actions per tick and errors
+  const follow = async () => {
+    while (!abort.signal.aborted) {
+      await client.follow(entry => model.add(entry), abort.signal).catch(() => {});
+      await sleep(RECONNECT_MS, undefined, { signal: abort.signal }).catch(() => {});
+    }
+  };
+
+  output.write(ENTER_SCREEN);
+  input.setRawMode?.(true);
+  input.resume();
+  await poll();
+  draw();
+  const following = follow();
+
+  const timer = setInterval(() => {
+    poll().then(draw);
+  }, intervalMs);
+  output.on('resize', draw);
+
+  await new Promise<void>((resolve) => {
+    input.on('data', (data: Buffer) => {
+      const key = data.toString('utf8');
+      if (key === 'q' || key === '\x03') {
+        resolve();
+        return;
+      }
+      const next = filterForKey(key, filter, model.archetypes());
+      if (next !== undefined) {
+        filter = next;
+        draw();
+      }
+    });
+  });
+
+  clearInterval(timer);
+  output.off('resize', draw);
+  abort.abort();
+  await following;
+  input.setRawMode?.(false);
+  input.pause();
+  output.write(LEAVE_SCREEN);
+  return 0;
+}
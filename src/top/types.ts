@@ -0,0 +1,53 @@
+/**
+ * Top Types
+ */
+
+import type { AgentArchetype } from '../core/types.js';
+import type { AgentRunStatus } from '../admin/types.js';
+
+/** One agent line of the dashboard */
+export interface TopAgentRow {
+  id: string;
+  did: string | null;
+  archetype: AgentArchetype;
+  status: AgentRunStatus;
+  energy: number;
+  inSilenceMode: boolean;
+  /** Latest action step, e.g. "create" or "quote (denied)" */
+  lastAction: string | null;
+  costSpent: number;
+  /** costBudget (or sessionBudget for LLM probes) from the agent's params */
+  budget: number | null;
+}
+
+export interface ArchetypeTotals {
+  archetype: AgentArchetype;
+  agents: number;
+  active: number;
+  /** Mean over registered agents, null without any */
+  meanEnergy: number | null;
+  traces: number;
+  cost: number;
+}
+
+export interface TopError {
+  tick: number;
+  did: string | null;
+  archetype: AgentArchetype;
+  message: string;
+}
+
+export interface TopRenderOptions {
+  /** Terminal columns */
+  width: number;
+  /** Terminal rows; agent rows beyond it are cut with a "+N more" line */
+  height: number;
+  /** Archetype shown, or null for all */
+  filter: AgentArchetype | null;
+  /** Admin URL, for the header */
+  source: string;
+  /** Whether the last poll reached the runner */
+  connected: boolean;
+  /** ANSI styles (default true) */
+  color?: boolean;
+}